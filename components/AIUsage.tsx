@@ -0,0 +1,113 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { useAIUsage } from '../hooks/useAIUsage';
+
+// What each route action is called in the app
+const ACTION_LABELS: Record<string, string> = {
+  chat: 'Chat assistant',
+  getChatTitle: 'Conversation titles',
+  getAIFinancialTips: 'Financial tips',
+  getAIInsight: 'Spending insight',
+  getPersonalizedPlan: 'Personalized plan',
+  getRecategorization: 'Category regrouping',
+  extractExpenseDetails: 'Expense entry',
+};
+
+const formatCost = (usd: number) =>
+  usd > 0 && usd < 0.01
+    ? '< $0.01'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(usd);
+
+const AIUsage: React.FC = () => {
+  const { usage, loading, error } = useAIUsage();
+
+  const renderBody = () => {
+    if (loading && !usage) {
+      return <p className="text-sm text-slate-500">Loading usage...</p>;
+    }
+
+    if (error || !usage) {
+      return <p className="text-sm text-rose-600">{error || 'Failed to load AI usage'}</p>;
+    }
+
+    const { quota } = usage;
+    const percent = quota.limit > 0 ? Math.min(100, (quota.used / quota.limit) * 100) : 100;
+    const resetsOn = new Date(quota.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <div className="mb-2 flex items-baseline justify-between">
+            <p className="text-sm font-medium text-slate-700">
+              {quota.used} of {quota.limit} requests this month
+            </p>
+            <p className="text-xs text-slate-500">Resets {resetsOn}</p>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
+            <div
+              className={`h-full rounded-full ${percent >= 90 ? 'bg-rose-500' : percent >= 70 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="rounded-lg bg-slate-50 p-4">
+            <p className="text-xs text-slate-500">Model calls</p>
+            <p className="mt-1 text-2xl font-semibold text-slate-900">{usage.calls}</p>
+          </div>
+          <div className="rounded-lg bg-slate-50 p-4">
+            <p className="text-xs text-slate-500">Estimated cost</p>
+            <p className="mt-1 text-2xl font-semibold text-slate-900">{formatCost(usage.estimatedCost)}</p>
+          </div>
+        </div>
+
+        {usage.breakdown.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-xs text-slate-500">
+                <th className="pb-2 font-medium">Feature</th>
+                <th className="pb-2 font-medium">Model</th>
+                <th className="pb-2 text-right font-medium">Calls</th>
+                <th className="pb-2 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.breakdown.map(row => (
+                <tr key={`${row.action}|${row.provider}|${row.model}`} className="border-b border-slate-100 last:border-0">
+                  <td className="py-2 text-slate-800">{ACTION_LABELS[row.action] || row.action}</td>
+                  <td className="py-2 text-slate-500">{row.model}</td>
+                  <td className="py-2 text-right text-slate-800">
+                    {row.calls}
+                    {row.failedCalls > 0 && <span className="ml-1 text-xs text-rose-600">({row.failedCalls} failed)</span>}
+                  </td>
+                  <td className="py-2 text-right text-slate-800">{formatCost(row.estimatedCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <p className="text-xs text-slate-500">
+          Costs are estimated from list prices for the tokens each model reported, so they may differ from your provider&apos;s bill.
+          Failed requests don&apos;t count towards your monthly limit.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <div className="mb-6 flex items-center gap-3">
+        <div className="rounded-full bg-indigo-100 p-2">
+          <Sparkles className="h-5 w-5 text-indigo-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-slate-900">AI Usage</h2>
+      </div>
+
+      {renderBody()}
+    </div>
+  );
+};
+
+export default AIUsage;
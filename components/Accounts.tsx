@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Landmark, PiggyBank, CreditCard, Wallet, Trash2 } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { useAddAccount, useDeleteAccount } from '../hooks/useAccounts';
+import { AccountType } from '../types';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit_card: 'Credit Card',
+  cash: 'Cash',
+};
+
+const accountIcons: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Wallet,
+};
+
+// Accounts whose balance is entered as the amount owed, and kept negative
+const OWED_ACCOUNT_TYPES: AccountType[] = ['credit_card'];
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function Accounts() {
+  const { accounts, accountsLoading, accountsError } = useAppContext();
+  const { addAccount, adding, error: addError } = useAddAccount();
+  const { deleteAccountMutation, deleting, error: deleteError } = useDeleteAccount();
+
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const owed = OWED_ACCOUNT_TYPES.includes(type);
+
+  const handleAddAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const parsedBalance = parseFloat(openingBalance || '0');
+    if (isNaN(parsedBalance)) return;
+
+    try {
+      await addAccount({
+        name: name.trim(),
+        type,
+        opening_balance: owed ? -parsedBalance : parsedBalance,
+      });
+
+      setName('');
+      setType('checking');
+      setOpeningBalance('');
+      setIsSheetOpen(false);
+    } catch (err) {
+      console.error('Failed to add account:', err);
+    }
+  };
+
+  const handleDelete = async (id: string, accountName: string) => {
+    if (!confirm(`Delete "${accountName}"? Its transactions will be kept but unlinked.`)) return;
+
+    try {
+      await deleteAccountMutation(id);
+    } catch (err) {
+      console.error('Failed to delete account:', err);
+    }
+  };
+
+  return (
+    <>
+      <Card className="h-full">
+        <CardHeader className="pb-2">
+          <div className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-sky-600" />
+            <CardTitle className="text-xl">Accounts</CardTitle>
+          </div>
+          <CardDescription>Balances from each account's opening balance and transactions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(accountsError || addError || deleteError) && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-800">
+              {accountsError || addError || deleteError}
+            </div>
+          )}
+          {accountsLoading && accounts.length === 0 ? (
+            <div className="py-8 text-center text-sm text-slate-500">Loading accounts...</div>
+          ) : accounts.length === 0 ? (
+            <div className="py-8 text-center text-sm text-slate-500">
+              <p>No accounts yet.</p>
+              <p className="mt-1">Add your checking, savings, credit card or cash accounts to track real balances.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {accounts.map(account => {
+                const Icon = accountIcons[account.type];
+                return (
+                  <div key={account.id} className="flex items-center justify-between rounded-xl bg-slate-50/80 p-4">
+                    <div className="flex items-center gap-3 overflow-hidden">
+                      <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-sky-100 text-sky-700">
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="overflow-hidden">
+                        <p className="truncate text-sm font-semibold text-slate-800">{account.name}</p>
+                        <p className="text-xs text-slate-500">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <p className={`text-sm font-bold ${account.balance < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
+                        {formatCurrency(account.balance)}
+                      </p>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-slate-400 hover:text-rose-600"
+                        onClick={() => handleDelete(account.id, account.name)}
+                        disabled={deleting}
+                        aria-label={`Delete ${account.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <Button className="mt-4 w-full" onClick={() => setIsSheetOpen(true)} disabled={adding}>
+            {adding ? 'Adding...' : 'Add Account'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
+        <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+          <SheetHeader className="border-b px-6 py-4">
+            <SheetTitle>Add an Account</SheetTitle>
+            <SheetDescription>Enter the account's balance today, or for a credit card what you owe on it.</SheetDescription>
+          </SheetHeader>
+          <form onSubmit={handleAddAccount} className="flex flex-1 flex-col justify-between p-6">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="account-name" className="mb-1 block text-sm font-medium text-slate-700">Account Name</label>
+                <Input
+                  id="account-name"
+                  placeholder="e.g., Chase Checking"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="account-type" className="mb-1 block text-sm font-medium text-slate-700">Account Type</label>
+                <select
+                  id="account-type"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as AccountType)}
+                  className="flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+                >
+                  {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(t => (
+                    <option key={t} value={t}>{ACCOUNT_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="account-balance" className="mb-1 block text-sm font-medium text-slate-700">{owed ? 'Amount Owed' : 'Opening Balance'}</label>
+                <div className="relative">
+                  <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+                  <Input
+                    id="account-balance"
+                    type="number"
+                    placeholder={owed ? 'e.g., 450' : 'e.g., 2500'}
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    step="0.01"
+                    className="pl-7"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {owed
+                    ? 'Enter the balance on your statement as a positive amount. It counts against your total.'
+                    : 'Use a negative amount if the account is overdrawn.'}
+                </p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setIsSheetOpen(false)} disabled={adding}>Cancel</Button>
+              <Button type="submit" disabled={adding}>
+                {adding ? 'Adding...' : 'Add Account'}
+              </Button>
+            </div>
+          </form>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -3,16 +3,18 @@ import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianG
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
 import { useAppContext } from '../context/AppContext';
 import { useGoals } from '../hooks/useGoals';
+import { computeBalanceHistory } from '../lib/supabase/services/accounts';
+import { toLocalDateString } from '../lib/supabase/services/transactions';
 
 export default function BalanceCard() {
   const { 
-    categories, 
-    categoriesLoading, 
-    categoriesError,
     transactions,
     transactionsLoading,
     transactionsError,
-    dummyBalance,
+    accounts,
+    accountLedger,
+    accountsLoading,
+    accountsError,
   } = useAppContext();
   
   const { goals, loading: goalsLoading, error: goalsError } = useGoals();
@@ -22,32 +24,24 @@ export default function BalanceCard() {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     const now = new Date();
     const data = [];
+    const balanceHistory = computeBalanceHistory(accounts, accountLedger, 6, now);
 
     for (let i = 5; i >= 0; i--) {
       const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const monthName = months[date.getMonth()];
       
       // Calculate expenses for this month
-      const monthTransactions = transactions.filter(tx => {
-        const txDate = new Date(tx.created_at);
-        return txDate.getMonth() === date.getMonth() && txDate.getFullYear() === date.getFullYear();
-      });
+      const monthPrefix = toLocalDateString(date).slice(0, 7);
+      const monthTransactions = transactions.filter(tx =>
+        tx.kind === 'expense' && tx.occurred_on.startsWith(monthPrefix)
+      );
       const expenses = monthTransactions.reduce((sum, tx) => sum + tx.amount, 0);
       
-      // Calculate total budget
-      const totalBudget = categories.reduce((sum, cat) => sum + cat.budget, 0);
-      
       // Calculate savings (simplified - using goals progress)
       const savings = goals.reduce((sum, goal) => sum + goal.current_amount, 0) / 6; // Distribute evenly
       
-      // Calculate balance - use dummy balance for current month if set
-      const isCurrentMonth = i === 0;
-      let balance;
-      if (isCurrentMonth && dummyBalance !== null) {
-        balance = dummyBalance;
-      } else {
-        balance = totalBudget - expenses + savings;
-      }
+      // Month-end balance across all accounts
+      const balance = balanceHistory[5 - i].balance;
       
       data.push({
         month: monthName,
@@ -58,10 +52,10 @@ export default function BalanceCard() {
     }
 
     return data;
-  }, [categories, transactions, goals, dummyBalance]);
+  }, [accounts, accountLedger, transactions, goals]);
 
-  const isLoading = categoriesLoading || transactionsLoading || goalsLoading;
-  const hasError = categoriesError || transactionsError || goalsError;
+  const isLoading = accountsLoading || transactionsLoading || goalsLoading;
+  const hasError = accountsError || transactionsError || goalsError;
 
   if (isLoading) {
     return (
@@ -81,7 +75,7 @@ export default function BalanceCard() {
   }
 
   if (hasError) {
-    const errorMessage = categoriesError || transactionsError || goalsError || 'Failed to load data';
+    const errorMessage = accountsError || transactionsError || goalsError || 'Failed to load data';
     return (
       <Card className="h-full">
         <CardHeader>
@@ -1,19 +1,53 @@
-
-import React from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
-import { TrendingUp } from 'lucide-react';
+import { TrendingUp, LoaderCircle } from 'lucide-react';
+import { useCashFlow } from '../hooks/useTransactions';
+import { useAppContext } from '../context/AppContext';
 
-const cashFlowData = [
-  { month: "Jan", income: 2800, expense: 2100 },
-  { month: "Feb", income: 2900, expense: 2250 },
-  { month: "Mar", income: 3000, expense: 2180 },
-  { month: "Apr", income: 3050, expense: 2300 },
-  { month: "May", income: 3100, expense: 2400 },
-  { month: "Jun", income: 3120, expense: 2350 },
-];
+const MONTHS = 6;
 
 export default function CashFlow() {
+  const { transactions } = useAppContext();
+  const { cashFlow, loading, error, refetch } = useCashFlow(MONTHS);
+
+  // Recompute totals whenever the transaction list changes
+  useEffect(() => {
+    refetch();
+  }, [transactions, refetch]);
+
+  // Average net of the last three months that had any activity
+  const projectedSavings = useMemo(() => {
+    const recent = cashFlow.slice(-3).filter(m => m.income > 0 || m.expense > 0);
+    if (recent.length === 0) return null;
+    return recent.reduce((sum, m) => sum + (m.income - m.expense), 0) / recent.length;
+  }, [cashFlow]);
+
+  const hasIncome = cashFlow.some(m => m.income > 0);
+
+  const renderSummary = () => {
+    if (projectedSavings === null) {
+      return <>Record income and expenses to see your monthly trend.</>;
+    }
+    if (!hasIncome) {
+      return <>Add your income on the Spending Analysis page to see how much you could save.</>;
+    }
+    if (projectedSavings >= 0) {
+      return (
+        <>
+          If you keep this trend, you could save{' '}
+          <span className="font-semibold">${Math.round(projectedSavings).toLocaleString()}</span> next month.
+        </>
+      );
+    }
+    return (
+      <>
+        At this pace you would overspend by{' '}
+        <span className="font-semibold">${Math.round(-projectedSavings).toLocaleString()}</span> next month.
+      </>
+    );
+  };
+
   return (
     <Card className="h-full">
       <CardHeader className="pb-2">
@@ -21,22 +55,40 @@ export default function CashFlow() {
           <TrendingUp className="h-5 w-5 text-emerald-600" />
           <CardTitle className="text-xl">Cash Flow</CardTitle>
         </div>
-        <CardDescription>Income vs. Expenses (6 months)</CardDescription>
+        <CardDescription>Income vs. Expenses ({MONTHS} months)</CardDescription>
       </CardHeader>
       <CardContent className="h-72">
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={cashFlowData} barCategoryGap={18}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="month" />
-            <YAxis />
-            <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
-            <Bar dataKey="income" fill="#22c55e" radius={[6, 6, 0, 0]} />
-            <Bar dataKey="expense" fill="#f59e0b" radius={[6, 6, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
-        <div className="mt-4 rounded-2xl bg-emerald-50 p-3 text-sm text-emerald-700">
-          If you keep this trend, you could save <span className="font-semibold">FOR DEMO PURPOSE ONLY</span> next month.
-        </div>
+        {loading && cashFlow.length === 0 ? (
+          <div className="flex h-full items-center justify-center">
+            <LoaderCircle className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : error ? (
+          <div className="flex h-full items-center justify-center">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={cashFlow} barCategoryGap={18}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis />
+                <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+                <Bar dataKey="income" fill="#22c55e" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="expense" fill="#f59e0b" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+            <div
+              className={`mt-4 rounded-2xl p-3 text-sm ${
+                projectedSavings !== null && hasIncome && projectedSavings < 0
+                  ? 'bg-rose-50 text-rose-700'
+                  : 'bg-emerald-50 text-emerald-700'
+              }`}
+            >
+              {renderSummary()}
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
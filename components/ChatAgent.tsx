@@ -1,90 +1,365 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, Send, Sparkles, X, AlertCircle } from 'lucide-react';
+import { MessageCircle, Send, Sparkles, Square, X, AlertCircle, History, SquarePen } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from './ui/Sheet';
-import { getWatsonResponse } from '../lib/services/watsonService';
-import { useChatHistory, useAddChatMessage } from '../hooks/useChatHistory';
+import ToolCallCard from './ToolCallCard';
+import ChatThreadList from './ChatThreadList';
+import { AIRequestError, getChatTitle, streamChatResponse } from '../lib/services/aiService';
+import { AIMessage } from '../lib/ai/types';
+import { getChatTool } from '../lib/ai/tools';
+import { useChatThreads, useChatHistory, useAddChatMessage, useChatToolCalls } from '../hooks/useChatHistory';
+import { useChatTools } from '../hooks/useChatTools';
+import { titleFromMessage } from '../lib/supabase/services/chat';
+import { ChatMessage, ChatToolCall, ChatToolCallStatus } from '../types';
+
+// Rounds of tool calls the assistant may make before answering one message
+const MAX_TOOL_ROUNDS = 5;
 
 // Simple display message type (without database fields)
 interface DisplayMessage {
   role: 'user' | 'ai';
   content: string;
+  truncated?: boolean;
+  toolCalls?: ChatToolCall[];
+}
+
+const GREETING: DisplayMessage = {
+  role: 'ai',
+  content: "Hi there! I'm your FinSmart AI assistant. I can help you with planning your finances",
+};
+
+// Calls from a reply with no text are saved on the message before it, which
+// may be the user's; they still show as the assistant's
+const toDisplayMessages = (msg: ChatMessage): DisplayMessage[] =>
+  msg.role === 'user' && msg.tool_calls?.length
+    ? [{ role: 'user', content: msg.content }, { role: 'ai', content: '', toolCalls: msg.tool_calls }]
+    : [{ role: msg.role, content: msg.content, truncated: msg.truncated, toolCalls: msg.tool_calls }];
+
+// A reply whose tool calls are still being run or confirmed
+interface PendingTurn {
+  threadId: string;
+  conversation: AIMessage[]; // Up to and including the reply that made the calls
+  calls: ChatToolCall[];
+  messageId: string; // The saved message the calls are recorded against
+  results: Record<string, AIMessage>; // Tool messages by call_id, filled in as calls settle
+  round: number;
 }
 
+// Earlier tool rounds are left out; the replies that followed them already say what happened
+const toConversation = (messages: DisplayMessage[]): AIMessage[] =>
+  messages
+    .filter(m => m.content.trim())
+    .map(m => ({ role: m.role === 'ai' ? 'assistant' : 'user', content: m.content }));
+
 export default function ChatAgent() {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // The reply as it streams in; null when nothing is being generated
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingTurnRef = useRef<PendingTurn | null>(null);
+  // Tool calls waiting for the user to confirm, and ones being run
+  const [awaitingIds, setAwaitingIds] = useState<string[]>([]);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
+
+  // The open conversation; null until the first message of a new one is sent
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
+  // Which thread the displayed messages were loaded for
+  const displayedThreadRef = useRef<string | null | undefined>(undefined);
+  const [pickedInitialThread, setPickedInitialThread] = useState(false);
   
   // Use Supabase hooks for chat history
-  const { messages: dbMessages, loading: loadingHistory, error: historyError } = useChatHistory();
+  const {
+    threads,
+    loading: loadingThreads,
+    error: threadsError,
+    refetch: refetchThreads,
+    startThread,
+    renameThreadMutation,
+    deleteThreadMutation,
+  } = useChatThreads();
+  const {
+    messages: dbMessages,
+    loading: loadingHistory,
+    error: historyError,
+    hasMore,
+    loadingOlder,
+    loadOlder,
+  } = useChatHistory(activeThreadId);
   const { addMessage, error: addError } = useAddChatMessage();
+  const { recordToolCalls, settleToolCall: saveToolCall } = useChatToolCalls();
+  const { runTool } = useChatTools();
   
   // Local messages state for display (combines DB messages with default greeting if empty)
   const [messages, setMessages] = useState<DisplayMessage[]>([]);
   
-  // Initialize messages from database
+  // Open the most recent conversation once the thread list first loads
   useEffect(() => {
-    if (!loadingHistory) {
-      if (dbMessages.length === 0) {
-        // Show default greeting if no history
-        setMessages([
-          { role: 'ai', content: "Hi there! I'm your FinSmart AI powered by IBM Watson. I can help you with planning your finance" }
-        ]);
-      } else {
-        // Load messages from database
-        setMessages(dbMessages.map(msg => ({ role: msg.role, content: msg.content })));
-      }
-    }
-  }, [dbMessages, loadingHistory]);
+    if (loadingThreads || pickedInitialThread) return;
+    setPickedInitialThread(true);
+    setActiveThreadId(threads[0]?.id ?? null);
+  }, [threads, loadingThreads, pickedInitialThread]);
+
+  // Initialize messages from database when a thread is opened
+  useEffect(() => {
+    if (!pickedInitialThread || loadingHistory || displayedThreadRef.current === activeThreadId) return;
+    displayedThreadRef.current = activeThreadId;
+    // Show default greeting if no history
+    setMessages(dbMessages.length === 0 ? [GREETING] : dbMessages.flatMap(toDisplayMessages));
+  }, [dbMessages, loadingHistory, activeThreadId, pickedInitialThread]);
 
+  // Follow new messages, but stay put when older ones are loaded above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, isOpen]);
+  }, [lastMessage, streamingReply, isOpen]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  // Stop generating if the chat goes away mid-reply
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    const userMessageContent = input;
-    const currentHistory = [...messages]; 
-    
-    // Optimistically add user message to UI
-    const userMessage: DisplayMessage = { role: 'user', content: userMessageContent };
-    setMessages((prev) => [...prev, userMessage]);
-    setInput('');
+  const updateToolCall = (id: string, updates: Partial<ChatToolCall>) => {
+    setMessages((prev) => prev.map(m => m.toolCalls?.some(c => c.id === id)
+      ? { ...m, toolCalls: m.toolCalls.map(c => (c.id === id ? { ...c, ...updates } : c)) }
+      : m
+    ));
+  };
+
+  /**
+   * Streams the assistant's next reply; tool calls in it are run or put up for confirmation
+   * A reply with no text isn't saved; its calls go on lastMessageId, the
+   * last message saved in this exchange.
+   * Resolves with the reply's text, or null when it failed or was stopped.
+   */
+  const continueTurn = async (threadId: string, conversation: AIMessage[], round: number, lastMessageId: string): Promise<string | null> => {
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    let partialReply = '';
+    let received = false;
+    let turn: PendingTurn | null = null;
+
     try {
-      // Persist user message to database
-      await addMessage('user', userMessageContent);
-      
-      // Get AI response from Watson
-      const responseText = await getWatsonResponse(userMessageContent, currentHistory);
-      
+      // Show the reply as it streams in
+      setStreamingReply('');
+      const { text, toolCalls } = await streamChatResponse(
+        conversation,
+        (text) => {
+          partialReply += text;
+          setStreamingReply(partialReply);
+        },
+        abortController.signal
+      );
+      received = true;
+      setStreamingReply(null);
+
+      // Persist AI response to database, then the calls it made against it
+      const saved = text.trim() ? await addMessage(threadId, 'ai', text) : null;
+      const messageId = saved?.id ?? lastMessageId;
+      const calls = toolCalls.length > 0 ? await recordToolCalls(messageId, toolCalls) : [];
+
       // Add AI response to UI
-      setMessages((prev) => [...prev, { role: 'ai', content: responseText }]);
-      
-      // Persist AI response to database
-      await addMessage('ai', responseText);
+      if (saved || calls.length > 0) {
+        setMessages((prev) => [...prev, { role: 'ai', content: text, toolCalls: calls }]);
+      }
+
+      if (calls.length > 0) {
+        turn = {
+          threadId,
+          conversation: [...conversation, { role: 'assistant', content: text, toolCalls }],
+          calls,
+          messageId,
+          results: {},
+          round,
+        };
+      }
     } catch (error) {
+      setStreamingReply(null);
+
+      // Keep whatever arrived before the reply was stopped or cut off, marked as truncated
+      if (!received && partialReply.trim()) {
+        setMessages((prev) => [...prev, { role: 'ai', content: partialReply, truncated: true }]);
+        try {
+          await addMessage(threadId, 'ai', partialReply, true);
+        } catch (persistError) {
+          console.error('Failed to persist partial reply:', persistError);
+        }
+      }
+
+      // Stopping on purpose isn't an error
+      if (abortController.signal.aborted) return null;
+
       console.error('Error in chat:', error);
+
+      // Sign-in and rate limit problems are shown as they are, and not kept in the history
+      if (error instanceof AIRequestError) {
+        setMessages((prev) => [...prev, { role: 'ai', content: error.message }]);
+        return null;
+      }
+
       const errorMessage = "Sorry, I encountered an error. Please try again.";
       setMessages((prev) => [...prev, { role: 'ai', content: errorMessage }]);
       
       // Try to persist error message to database (best effort)
       try {
-        await addMessage('ai', errorMessage);
+        await addMessage(threadId, 'ai', errorMessage);
       } catch (persistError) {
         console.error('Failed to persist error message:', persistError);
       }
+      return null;
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
+
+    if (!turn) return partialReply;
+
+    // Don't let a confused model loop on tools forever
+    if (round >= MAX_TOOL_ROUNDS) {
+      for (const call of turn.calls) {
+        await finishToolCall(call, 'failed', { error: 'Too many tool calls in one reply' });
+      }
+      return partialReply;
+    }
+
+    pendingTurnRef.current = turn;
+    setAwaitingIds(turn.calls.filter(call => getChatTool(call.name)?.mutating).map(call => call.id));
+
+    // Lookups change nothing, so they run straight away
+    for (const call of turn.calls) {
+      if (!getChatTool(call.name)?.mutating) await settleToolCall(call, true);
+    }
+    return partialReply;
+  };
+
+  const finishToolCall = async (call: ChatToolCall, status: Exclude<ChatToolCallStatus, 'pending'>, result: unknown) => {
+    updateToolCall(call.id, { status, result });
+    try {
+      await saveToolCall(call.id, status, result);
+    } catch (error) {
+      console.error('Failed to record tool call result:', error);
+    }
+  };
+
+  // Runs or declines a call; once every call in the reply is settled the results go back to the assistant
+  const settleToolCall = async (call: ChatToolCall, approved: boolean) => {
+    const turn = pendingTurnRef.current;
+    if (!turn || !turn.calls.some(c => c.id === call.id) || turn.results[call.call_id]) return;
+
+    setAwaitingIds((prev) => prev.filter(id => id !== call.id));
+    setRunningIds((prev) => [...prev, call.id]);
+
+    let status: Exclude<ChatToolCallStatus, 'pending'> = 'declined';
+    let result: unknown = { declined: true };
+    if (approved) {
+      try {
+        result = await runTool(call);
+        status = 'succeeded';
+      } catch (error) {
+        result = { error: error instanceof Error ? error.message : 'The tool failed' };
+        status = 'failed';
+      }
+    }
+
+    await finishToolCall(call, status, result);
+    setRunningIds((prev) => prev.filter(id => id !== call.id));
+
+    turn.results[call.call_id] = { role: 'tool', content: JSON.stringify(result), toolCallId: call.call_id, toolName: call.name };
+    if (turn.calls.every(c => turn.results[c.call_id]) && pendingTurnRef.current === turn) {
+      pendingTurnRef.current = null;
+      await continueTurn(turn.threadId, [...turn.conversation, ...turn.calls.map(c => turn.results[c.call_id])], turn.round + 1, turn.messageId);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading || awaitingIds.length > 0) return;
+
+    const userMessageContent = input;
+    const conversation = [...toConversation(messages), { role: 'user' as const, content: userMessageContent }];
+    
+    // Optimistically add user message to UI
+    const userMessage: DisplayMessage = { role: 'user', content: userMessageContent };
+    setMessages((prev) => [...prev, userMessage]);
+    setInput('');
+
+    let threadId = activeThreadId;
+    const isNewThread = !threadId;
+    let messageId: string;
+    try {
+      // A new conversation is saved with its first message
+      if (!threadId) {
+        const thread = await startThread(titleFromMessage(userMessageContent));
+        threadId = thread.id;
+        // The messages on screen already belong to it
+        displayedThreadRef.current = threadId;
+        setActiveThreadId(threadId);
+      }
+
+      // Persist user message to database
+      messageId = (await addMessage(threadId, 'user', userMessageContent)).id;
+    } catch (error) {
+      console.error('Error in chat:', error);
+      return;
+    }
+
+    const reply = await continueTurn(threadId, conversation, 0, messageId);
+
+    // Replace the provisional title with one that sums up the first exchange (best effort)
+    if (isNewThread && reply?.trim()) {
+      const title = await getChatTitle(userMessageContent, reply);
+      if (title) {
+        renameThreadMutation(threadId, title).catch(err => console.error('Failed to save chat title:', err));
+      }
+    }
+  };
+
+  const openThread = (threadId: string | null) => {
+    setShowThreads(false);
+    if (threadId === activeThreadId) return;
+    pendingTurnRef.current = null;
+    setAwaitingIds([]);
+    setActiveThreadId(threadId);
+    if (threadId === null) {
+      displayedThreadRef.current = null;
+      setMessages([GREETING]);
+    } else {
+      setMessages([]);
+    }
+  };
+
+  const toggleThreads = () => {
+    if (!showThreads) refetchThreads();
+    setShowThreads(!showThreads);
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    await deleteThreadMutation(threadId);
+    // Leave the list open; the next message starts a new conversation
+    if (threadId === activeThreadId) {
+      displayedThreadRef.current = null;
+      setActiveThreadId(null);
+      setMessages([GREETING]);
+    }
+  };
+
+  const handleLoadOlder = async () => {
+    const older = await loadOlder();
+    setMessages((prev) => [...older.flatMap(toDisplayMessages), ...prev]);
+  };
+
+  // Switching conversations mid-reply would strand the reply or its tool calls
+  const isBusy = isLoading || awaitingIds.length > 0 || runningIds.length > 0;
+  const activeThread = threads.find(t => t.id === activeThreadId);
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   return (
@@ -106,100 +381,186 @@ export default function ChatAgent() {
               <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-100 text-indigo-600">
                 <Sparkles className="h-5 w-5" />
               </div>
-              <div className="text-left">
+              <div className="min-w-0 text-left">
                 <SheetTitle>FinSmart Assistant</SheetTitle>
-                <p className="text-xs text-slate-500">Powered by IBM Watson</p>
+                <p className="max-w-[180px] truncate text-xs text-slate-500">
+                  {showThreads ? 'Conversations' : activeThread?.title || 'Your AI finance assistant'}
+                </p>
               </div>
             </div>
-            <Button 
-              className="absolute right-4 top-4 h-8 w-8 text-slate-500 hover:text-slate-900" 
-              size="icon" 
-              variant="ghost"
-              onClick={() => setIsOpen(false)}
-            >
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="absolute right-4 top-4 flex items-center gap-1">
+              <Button
+                className="h-8 w-8 text-slate-500 hover:text-slate-900"
+                size="icon"
+                variant="ghost"
+                onClick={() => openThread(null)}
+                disabled={isBusy}
+                aria-label="New conversation"
+              >
+                <SquarePen className="h-4 w-4" />
+              </Button>
+              <Button
+                className={`h-8 w-8 hover:text-slate-900 ${showThreads ? 'bg-slate-100 text-slate-900' : 'text-slate-500'}`}
+                size="icon"
+                variant="ghost"
+                onClick={toggleThreads}
+                disabled={isBusy}
+                aria-label="Conversations"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              <Button 
+                className="h-8 w-8 text-slate-500 hover:text-slate-900" 
+                size="icon" 
+                variant="ghost"
+                onClick={() => setIsOpen(false)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </SheetHeader>
           
           <div className="flex-1 overflow-y-auto bg-slate-50 p-4">
             {/* Error display */}
-            {(historyError || addError) && (
+            {(historyError || addError || threadsError) && (
               <div className="mb-4 flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-800">
                 <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
                 <div>
                   <p className="font-medium">Error</p>
-                  <p className="text-xs">{historyError || addError}</p>
-                </div>
-              </div>
-            )}
-            
-            {/* Loading state */}
-            {loadingHistory && (
-              <div className="flex items-center justify-center py-8">
-                <div className="flex items-center gap-2 text-sm text-slate-500">
-                  <Sparkles className="h-4 w-4 animate-pulse" />
-                  <span>Loading chat history...</span>
+                  <p className="text-xs">{historyError || addError || threadsError}</p>
                 </div>
               </div>
             )}
-            
-            <div className="flex flex-col gap-4">
-              {messages.map((m, i) => (
-                <div
-                  key={i}
-                  className={`flex w-max max-w-[85%] flex-col gap-1 ${
-                    m.role === 'user' ? 'self-end items-end' : 'self-start items-start'
-                  }`}
-                >
-                  <div
-                    className={`rounded-2xl px-4 py-2.5 text-sm ${
-                      m.role === 'user'
-                        ? 'bg-slate-900 text-slate-50'
-                        : 'bg-white text-slate-700 shadow-sm'
-                    }`}
-                  >
-                    {m.content}
+
+            {showThreads ? (
+              <ChatThreadList
+                threads={threads}
+                activeThreadId={activeThreadId}
+                loading={loadingThreads}
+                onSelect={openThread}
+                onNew={() => openThread(null)}
+                onRename={renameThreadMutation}
+                onDelete={handleDeleteThread}
+              />
+            ) : (
+              <>
+                {/* Loading state */}
+                {loadingHistory && (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="flex items-center gap-2 text-sm text-slate-500">
+                      <Sparkles className="h-4 w-4 animate-pulse" />
+                      <span>Loading chat history...</span>
+                    </div>
                   </div>
-                  <span className="px-1 text-[10px] text-slate-400">
-                    {m.role === 'user' ? 'You' : 'AI Coach'}
-                  </span>
-                </div>
-              ))}
-              {isLoading && (
-                <div className="flex w-max max-w-[85%] items-start gap-2 self-start">
-                   <div className="flex h-8 w-8 items-center justify-center rounded-full bg-white shadow-sm">
-                    <Sparkles className="h-4 w-4 animate-pulse text-indigo-500" />
-                   </div>
-                   <div className="flex items-center gap-1 rounded-2xl bg-white px-4 py-3 shadow-sm">
-                     <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400 [animation-delay:-0.3s]"></span>
-                     <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400 [animation-delay:-0.15s]"></span>
-                     <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400"></span>
-                   </div>
+                )}
+                
+                <div className="flex flex-col gap-4">
+                  {hasMore && !loadingHistory && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="self-center text-xs text-slate-500"
+                      onClick={handleLoadOlder}
+                      disabled={loadingOlder}
+                    >
+                      {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+                    </Button>
+                  )}
+                  {messages.map((m, i) => (
+                    <div
+                      key={i}
+                      className={`flex max-w-[85%] flex-col gap-1 ${
+                        m.toolCalls?.length ? 'w-full' : 'w-max'
+                      } ${
+                        m.role === 'user' ? 'self-end items-end' : 'self-start items-start'
+                      }`}
+                    >
+                      {m.content && (
+                        <div
+                          className={`rounded-2xl px-4 py-2.5 text-sm ${
+                            m.role === 'user'
+                              ? 'bg-slate-900 text-slate-50'
+                              : 'bg-white text-slate-700 shadow-sm'
+                          }`}
+                        >
+                          {m.content}
+                        </div>
+                      )}
+                      {m.toolCalls?.map(call => (
+                        <ToolCallCard
+                          key={call.id}
+                          call={call}
+                          running={runningIds.includes(call.id)}
+                          onSettle={awaitingIds.includes(call.id) ? (approved) => settleToolCall(call, approved) : undefined}
+                        />
+                      ))}
+                      <span className="px-1 text-[10px] text-slate-400">
+                        {m.role === 'user' ? 'You' : 'AI Coach'}
+                        {m.truncated && ' · Stopped'}
+                      </span>
+                    </div>
+                  ))}
+                  {streamingReply && (
+                    <div className="flex w-max max-w-[85%] flex-col items-start gap-1 self-start">
+                      <div className="rounded-2xl bg-white px-4 py-2.5 text-sm text-slate-700 shadow-sm">
+                        {streamingReply}
+                        <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-slate-400 align-middle" />
+                      </div>
+                      <span className="px-1 text-[10px] text-slate-400">AI Coach</span>
+                    </div>
+                  )}
+                  {isLoading && !streamingReply && (
+                    <div className="flex w-max max-w-[85%] items-start gap-2 self-start">
+                       <div className="flex h-8 w-8 items-center justify-center rounded-full bg-white shadow-sm">
+                        <Sparkles className="h-4 w-4 animate-pulse text-indigo-500" />
+                       </div>
+                       <div className="flex items-center gap-1 rounded-2xl bg-white px-4 py-3 shadow-sm">
+                         <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400 [animation-delay:-0.3s]"></span>
+                         <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400 [animation-delay:-0.15s]"></span>
+                         <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-slate-400"></span>
+                       </div>
+                    </div>
+                  )}
+                  <div ref={scrollRef} />
                 </div>
-              )}
-              <div ref={scrollRef} />
-            </div>
+              </>
+            )}
           </div>
 
-          <div className="border-t bg-white p-4">
-            <form onSubmit={handleSubmit} className="flex items-center gap-2">
-              <Input
-                placeholder="Ask about your spending..."
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                className="rounded-full border-slate-200 focus-visible:ring-slate-900"
-                disabled={isLoading}
-              />
-              <Button 
-                type="submit" 
-                size="icon" 
-                className="rounded-full h-10 w-10 shrink-0"
-                disabled={isLoading || !input.trim()}
-              >
-                <Send className="h-4 w-4" />
-              </Button>
-            </form>
-          </div>
+          {!showThreads && (
+            <div className="border-t bg-white p-4">
+              <form onSubmit={handleSubmit} className="flex items-center gap-2">
+                <Input
+                  placeholder={awaitingIds.length > 0 ? 'Confirm or cancel the action above' : 'Ask about your spending...'}
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  className="rounded-full border-slate-200 focus-visible:ring-slate-900"
+                  disabled={isLoading || awaitingIds.length > 0}
+                />
+                {isLoading ? (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="secondary"
+                    className="rounded-full h-10 w-10 shrink-0"
+                    onClick={handleStop}
+                    aria-label="Stop generating"
+                  >
+                    <Square className="h-3.5 w-3.5 fill-current" />
+                  </Button>
+                ) : (
+                  <Button 
+                    type="submit" 
+                    size="icon" 
+                    className="rounded-full h-10 w-10 shrink-0"
+                    disabled={!input.trim() || awaitingIds.length > 0}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
+              </form>
+            </div>
+          )}
         </SheetContent>
       </Sheet>
     </div>
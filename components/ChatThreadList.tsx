@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Check, LoaderCircle, MessageSquarePlus, Pencil, Search, Trash2, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useChatSearch } from '../hooks/useChatHistory';
+import { ChatThread } from '../types';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  loading: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => Promise<void>;
+  onDelete: (threadId: string) => Promise<void>;
+}
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Search snippets mark matched words with **
+const renderSnippet = (snippet: string) =>
+  snippet.split('**').map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="rounded bg-amber-100 px-0.5 text-slate-900">{part}</mark> : part
+  );
+
+export default function ChatThreadList({ threads, activeThreadId, loading, onSelect, onNew, onRename, onDelete }: ChatThreadListProps) {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { results, searching, error: searchError, search } = useChatSearch();
+
+  useEffect(() => {
+    const timer = setTimeout(() => search(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, search]);
+
+  const startEditing = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditTitle(thread.title);
+    setError(null);
+  };
+
+  const saveTitle = async () => {
+    if (!editingId || !editTitle.trim()) return;
+    try {
+      await onRename(editingId, editTitle);
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to rename the conversation.');
+    }
+  };
+
+  const handleDelete = async (thread: ChatThread) => {
+    if (!confirm(`Delete "${thread.title}"? Its messages will be removed.`)) return;
+    try {
+      setError(null);
+      await onDelete(thread.id);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the conversation.');
+    }
+  };
+
+  const renderThreads = () => {
+    if (loading && threads.length === 0) {
+      return (
+        <div className="flex items-center justify-center py-8 text-slate-500">
+          <LoaderCircle className="h-5 w-5 animate-spin" />
+        </div>
+      );
+    }
+
+    if (threads.length === 0) {
+      return <p className="py-8 text-center text-sm text-slate-500">No conversations yet.</p>;
+    }
+
+    return threads.map(thread => (
+      <div
+        key={thread.id}
+        className={`group flex items-center gap-2 rounded-lg px-3 py-2 ${
+          thread.id === activeThreadId ? 'bg-white shadow-sm' : 'hover:bg-white'
+        }`}
+      >
+        {editingId === thread.id ? (
+          <form
+            className="flex flex-1 items-center gap-1"
+            onSubmit={(e) => { e.preventDefault(); saveTitle(); }}
+          >
+            <Input
+              autoFocus
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+              className="h-8 text-sm"
+              maxLength={120}
+            />
+            <Button type="submit" size="icon" variant="ghost" className="h-8 w-8 shrink-0" aria-label="Save title" disabled={!editTitle.trim()}>
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button type="button" size="icon" variant="ghost" className="h-8 w-8 shrink-0" aria-label="Cancel" onClick={() => setEditingId(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </form>
+        ) : (
+          <>
+            <button className="min-w-0 flex-1 text-left" onClick={() => onSelect(thread.id)}>
+              <p className="truncate text-sm font-medium text-slate-800">{thread.title}</p>
+              <p className="text-[10px] text-slate-400">{formatDate(thread.last_message_at)}</p>
+            </button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0 text-slate-400" aria-label="Rename" onClick={() => startEditing(thread)}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0 text-slate-400 hover:text-rose-600" aria-label="Delete" onClick={() => handleDelete(thread)}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+      </div>
+    ));
+  };
+
+  const renderResults = () => {
+    if (searchError) {
+      return <p className="py-8 text-center text-sm text-rose-600">{searchError}</p>;
+    }
+
+    if (results.length === 0) {
+      return (
+        <p className="py-8 text-center text-sm text-slate-500">
+          {searching ? 'Searching...' : 'No messages match your search.'}
+        </p>
+      );
+    }
+
+    return results.map(result => (
+      <button
+        key={result.message_id}
+        className="w-full rounded-lg px-3 py-2 text-left hover:bg-white"
+        onClick={() => onSelect(result.thread_id)}
+      >
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="truncate text-sm font-medium text-slate-800">{result.thread_title}</p>
+          <span className="shrink-0 text-[10px] text-slate-400">{formatDate(result.created_at)}</span>
+        </div>
+        <p className="mt-0.5 line-clamp-2 text-xs text-slate-600">
+          <span className="text-slate-400">{result.role === 'user' ? 'You: ' : 'AI: '}</span>
+          {renderSnippet(result.snippet)}
+        </p>
+      </button>
+    ));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+        <Input
+          placeholder="Search conversations..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="rounded-full border-slate-200 pl-9"
+        />
+      </div>
+
+      {!query.trim() && (
+        <Button variant="secondary" className="w-full justify-start gap-2" onClick={onNew}>
+          <MessageSquarePlus className="h-4 w-4" />
+          New conversation
+        </Button>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-xs text-red-800">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        {query.trim() ? renderResults() : renderThreads()}
+      </div>
+    </div>
+  );
+}
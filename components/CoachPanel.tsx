@@ -1,108 +1,43 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
 import { Button } from './ui/Button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
-import { Sparkles, LoaderCircle } from 'lucide-react';
-import { getPersonalizedPlan, getAIFinancialTips } from '../lib/services/geminiService';
-import { SpendingCategory } from '../types';
+import { Sparkles, LoaderCircle, RefreshCw } from 'lucide-react';
+import MarkdownRenderer from './MarkdownRenderer';
+import { useAITips } from '../hooks/useAIInsights';
+import { UseFinancialPlansReturn } from '../hooks/useFinancialPlans';
+import { FinancialPlan, SpendingCategory } from '../types';
 
 interface CoachPanelProps {
   categories: SpendingCategory[];
+  plans: UseFinancialPlansReturn; // Shared with the plan card, so a new version shows in both
 }
 
-const MarkdownRenderer = ({ content }: { content: string }) => {
-  const lines = content.split('\n').filter(line => line.trim() !== '');
+const formatGeneratedAt = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
 
-  const renderLine = (line: string) => {
-    const parts = line.split(/(\*\*.*?\*\*)/g);
-    return parts.map((part, i) =>
-      part.startsWith('**') && part.endsWith('**') ? (
-        <strong key={i}>{part.slice(2, -2)}</strong>
-      ) : (
-        part
-      )
-    );
-  };
-
-  const elements = lines.map((line, index) => {
-    if (line.startsWith('## ')) {
-      return <h2 key={index} className="mt-6 mb-2 text-xl font-semibold text-slate-800">{renderLine(line.substring(3))}</h2>;
-    }
-    if (line.startsWith('* ')) {
-      return <li key={index} className="ml-5 list-disc text-slate-700">{renderLine(line.substring(2))}</li>;
-    }
-    return <p key={index} className="my-2 text-slate-700">{renderLine(line)}</p>;
-  });
-
-  // Group list items into <ul>
-  const groupedElements = [];
-  // FIX: Replaced `JSX.Element` with `React.ReactElement` to resolve the "Cannot find namespace 'JSX'" error. This ensures the type is correctly resolved from the imported React module.
-  let currentList: React.ReactElement[] = [];
-
-  elements.forEach((el, index) => {
-    if (el.type === 'li') {
-      currentList.push(el);
-    } else {
-      if (currentList.length > 0) {
-        groupedElements.push(<ul key={`ul-${index}`} className="space-y-1">{currentList}</ul>);
-        currentList = [];
-      }
-      groupedElements.push(el);
-    }
-  });
-
-  if (currentList.length > 0) {
-    groupedElements.push(<ul key="ul-last" className="space-y-1">{currentList}</ul>);
-  }
-
-  return <>{groupedElements}</>;
-};
-
-export default function CoachPanel({ categories }: CoachPanelProps) {
+export default function CoachPanel({ categories, plans }: CoachPanelProps) {
   const [isPlanSheetOpen, setIsPlanSheetOpen] = useState(false);
-  const [plan, setPlan] = useState<string | null>(null);
-  const [isPlanLoading, setIsPlanLoading] = useState(false);
-  const [planError, setPlanError] = useState<string | null>(null);
-
-  const [tips, setTips] = useState<string[]>([]);
-  const [areTipsLoading, setAreTipsLoading] = useState(true);
-  const [tipsError, setTipsError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchTips = async () => {
-      setAreTipsLoading(true);
-      setTipsError(null);
-      try {
-        const result = await getAIFinancialTips(categories);
-        setTips(result);
-      } catch (err: any) {
-        setTipsError(err.message || 'Failed to load tips.');
-        // The service already provides fallback tips.
-        setTips([
-          "Review your subscriptions for potential savings.",
-          "Consider setting a budget for dining out.",
-          "Automate a small weekly transfer to your savings account.",
-        ]);
-      } finally {
-        setAreTipsLoading(false);
-      }
-    };
-
-    fetchTips();
-  }, [categories]);
-  
+  const [plan, setPlan] = useState<FinancialPlan | null>(null);
+  const {
+    value: generatedTips,
+    source: tipsSource,
+    generatedAt: tipsGeneratedAt,
+    loading: areTipsLoading,
+    refreshing: areTipsRefreshing,
+    error: tipsError,
+    refresh: refreshTips,
+  } = useAITips(categories);
+  const { generating: isPlanLoading, error: planError, generatePlan } = plans;
+
+  const tips = generatedTips ?? [];
+
+  // Every generation is saved as the next version, including from the sheet
   const handleGeneratePlan = async () => {
-    if (tips.length === 0) return;
-    setIsPlanLoading(true);
-    setPlanError(null);
-    try {
-      const result = await getPersonalizedPlan(tips);
-      setPlan(result);
+    const next = await generatePlan(tips);
+    if (next) {
+      setPlan(next);
       setIsPlanSheetOpen(true);
-    } catch (err: any) {
-      setPlanError(err.message || "An unexpected error occurred.");
-    } finally {
-      setIsPlanLoading(false);
     }
   };
 
@@ -123,10 +58,14 @@ export default function CoachPanel({ categories }: CoachPanelProps) {
       );
     }
 
-    if (tipsError) {
+    if (tipsError && tips.length === 0) {
       return <p className="py-8 text-center text-sm text-rose-600">{tipsError}</p>;
     }
 
+    if (tips.length === 0) {
+      return <p className="py-8 text-center text-sm text-slate-500">Add spending categories to get tips.</p>;
+    }
+
     return (
       <div className="space-y-3">
         {tips.map((t, i) => (
@@ -135,6 +74,18 @@ export default function CoachPanel({ categories }: CoachPanelProps) {
             <p className="flex-1 leading-snug text-slate-700">{t}</p>
           </div>
         ))}
+        {tipsSource === 'rules' ? (
+          <p className="text-xs text-slate-500">
+            {tipsError ? `${tipsError} ` : ''}These tips come from the app's own checks of your budgets, transactions and goals.
+          </p>
+        ) : (
+          <>
+            {tipsError && <p className="text-xs text-rose-600">{tipsError}</p>}
+            {tipsGeneratedAt && (
+              <p className="text-xs text-slate-400">Based on your spending as of {formatGeneratedAt(tipsGeneratedAt)}</p>
+            )}
+          </>
+        )}
       </div>
     );
   };
@@ -146,19 +97,30 @@ export default function CoachPanel({ categories }: CoachPanelProps) {
           <div className="flex items-center gap-2">
             <Sparkles className="h-5 w-5 text-fuchsia-500" />
             <CardTitle className="text-xl">Your AI Coach</CardTitle>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="ml-auto h-8 w-8 text-slate-400"
+              aria-label="Get new tips"
+              title="Get new tips"
+              onClick={refreshTips}
+              disabled={areTipsLoading || areTipsRefreshing || categories.length === 0}
+            >
+              <RefreshCw className={`h-4 w-4 ${areTipsRefreshing ? 'animate-spin' : ''}`} />
+            </Button>
           </div>
           <CardDescription>Hi 👋 Here’s what I noticed this week…</CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col">
           {renderTipsContent()}
-          <Button className="mt-4 w-full rounded-2xl" variant="default" onClick={handleGeneratePlan} disabled={isPlanLoading || areTipsLoading || tips.length === 0}>
+          <Button className="mt-4 w-full rounded-2xl" variant="default" onClick={handleGeneratePlan} disabled={isPlanLoading || areTipsLoading || areTipsRefreshing || tips.length === 0}>
             {isPlanLoading ? (
               <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Generating...</>
             ) : (
               "Generate My Plan"
             )}
           </Button>
-          {planError && <p className="mt-2 text-center text-xs text-rose-600">{planError}</p>}
+          {planError && !isPlanSheetOpen && <p className="mt-2 text-center text-xs text-rose-600">{planError}</p>}
         </CardContent>
       </Card>
       
@@ -166,13 +128,26 @@ export default function CoachPanel({ categories }: CoachPanelProps) {
         <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
           <SheetHeader className="border-b px-6 py-4">
             <SheetTitle>Your AI-Generated Financial Plan</SheetTitle>
-            <SheetDescription>Here are actionable steps based on your weekly insights. Stick to it!</SheetDescription>
+            <SheetDescription>
+              Here are actionable steps based on your budgets, goals, bills and cash flow. Stick to it!
+              {plan && <span className="mt-1 block text-xs">Version {plan.version}, generated {formatGeneratedAt(plan.created_at)}</span>}
+            </SheetDescription>
           </SheetHeader>
           <div className="flex-1 overflow-y-auto p-6">
-            {plan ? <MarkdownRenderer content={plan} /> : <p>Loading plan...</p>}
+            {plan ? <MarkdownRenderer content={plan.content} /> : <p>Loading plan...</p>}
           </div>
-          <div className="border-t p-4">
-             <Button className="w-full" onClick={() => setIsPlanSheetOpen(false)}>Close Plan</Button>
+          <div className="space-y-2 border-t p-4">
+            {planError && <p className="text-center text-xs text-rose-600">{planError}</p>}
+            <div className="flex gap-2">
+              <Button variant="secondary" className="flex-1" onClick={handleGeneratePlan} disabled={isPlanLoading}>
+                {isPlanLoading ? (
+                  <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Generating...</>
+                ) : (
+                  <><RefreshCw className="mr-2 h-4 w-4" /> New Version</>
+                )}
+              </Button>
+              <Button className="flex-1" onClick={() => setIsPlanSheetOpen(false)}>Close Plan</Button>
+            </div>
           </div>
         </SheetContent>
       </Sheet>
@@ -3,11 +3,14 @@ import React from 'react';
 import SummaryCards from './SummaryCards';
 import BalanceCard from './BalanceCard';
 import Goals from './Goals';
+import GoalFunding from './GoalFunding';
+import Accounts from './Accounts';
 
 export default function Dashboard() {
   return (
     <main className="mx-auto max-w-7xl px-4 py-6 pb-20">
       <SummaryCards />
+      <Accounts />
 
       {/* --- Overview Section --- */}
       <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
@@ -16,6 +19,7 @@ export default function Dashboard() {
         </div>
         <div className="lg:col-span-1">
           <Goals />
+          <GoalFunding />
         </div>
       </div>
     </main>
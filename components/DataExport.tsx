@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Database } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useToast } from './Toast';
+import { useUser } from '../hooks/useAuth';
+import { useAppContext } from '../context/AppContext';
+import { getAccessToken } from '../lib/supabase/auth';
+import { restoreBackup } from '../lib/supabase/services/backup';
+import { parseBackup } from '../lib/export/backup';
+import { ExportFormat } from '../lib/export/formats';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (spreadsheets)',
+  json: 'JSON',
+  ofx: 'OFX (accounting software)',
+};
+
+/**
+ * Downloads a file from the export route, passing the session token
+ */
+async function downloadExport(params: Record<string, string>): Promise<void> {
+  const accessToken = await getAccessToken();
+  if (!accessToken) throw new Error('Your session has expired. Please log in again.');
+
+  const query = new URLSearchParams({
+    ...params,
+    tzOffset: String(new Date().getTimezoneOffset()),
+  });
+  const response = await fetch(`/api/export?${query.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Export failed (${response.status})`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'finsmart-export';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const DataExport: React.FC = () => {
+  const { user } = useUser();
+  const { categories } = useAppContext();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (from && to && from > to) {
+      showToast('The start date must be before the end date', 'error');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await downloadExport({ format, from, to, categoryId });
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to export transactions', 'error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setBackingUp(true);
+    try {
+      await downloadExport({ format: 'backup' });
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to download backup', 'error');
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    setRestoring(true);
+    try {
+      const backup = parseBackup(await file.text());
+      const summary = await restoreBackup(user.id, backup);
+      showToast(
+        `Restored ${summary.transactions} transactions, ${summary.goals} goals, ${summary.accounts} accounts and ${summary.chatMessages} chat messages`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to restore backup', 'error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-6">
+      <div className="mb-6 flex items-center gap-3">
+        <div className="rounded-full bg-indigo-100 p-2">
+          <Database className="h-5 w-5 text-indigo-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-slate-900">Your Data</h2>
+      </div>
+
+      <form onSubmit={handleExport} className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-900">Export transactions</h3>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="export-format" className="block text-sm font-medium text-slate-700 mb-2">Format</label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(f => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-category" className="block text-sm font-medium text-slate-700 mb-2">Category</label>
+            <select
+              id="export-category"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+            >
+              <option value="">All categories</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-from" className="block text-sm font-medium text-slate-700 mb-2">From</label>
+            <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="export-to" className="block text-sm font-medium text-slate-700 mb-2">To</label>
+            <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">Leave the dates empty to export your full history.</p>
+        <Button type="submit" disabled={exporting} className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </form>
+
+      <div className="mt-6 border-t border-slate-200 pt-6 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Full backup</h3>
+        <p className="text-sm text-slate-600">
+          A JSON file with your accounts, budget categories, transactions, goals and chat history.
+          Restoring merges it into your current data and skips anything already here.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="secondary" onClick={handleBackup} disabled={backingUp} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            {backingUp ? 'Preparing...' : 'Download Backup'}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={restoring}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {restoring ? 'Restoring...' : 'Restore Backup'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleRestore}
+            className="hidden"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataExport;
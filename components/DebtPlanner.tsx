@@ -0,0 +1,426 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
+import { Button } from './ui/Button';
+import { Badge } from './ui/Badge';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Input } from './ui/Input';
+import { ArrowDown, ArrowUp, CreditCard, Trash2 } from 'lucide-react';
+import { useToast } from './Toast';
+import { useDebts, useSaveDebt } from '../hooks/useDebts';
+import {
+  PAYOFF_STRATEGIES,
+  PAYOFF_STRATEGY_DESCRIPTIONS,
+  PAYOFF_STRATEGY_LABELS,
+  PayoffStrategy,
+  comparePayoffStrategies,
+} from '../lib/debts/payoff';
+import { toLocalDateString } from '../lib/supabase/services/transactions';
+import { Debt } from '../types';
+
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = {
+  avalanche: '#3b82f6',
+  snowball: '#10b981',
+  custom: '#f59e0b',
+};
+
+const fmt = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const fmtWhole = (amount: number) => Math.round(amount).toLocaleString('en-US');
+
+const formatMonth = (month: string) =>
+  new Date(`${month.slice(0, 7)}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+/**
+ * Debts with a payoff simulator comparing avalanche, snowball and the user's
+ * own order, and the month-by-month schedule of the chosen strategy
+ */
+export default function DebtPlanner() {
+  const { showToast } = useToast();
+  const { debts, loading, error, refetch } = useDebts();
+  const { createDebtMutation, updateDebtMutation, deleteDebtMutation, reorderDebtsMutation, saving } = useSaveDebt();
+  const today = toLocalDateString();
+
+  const [extraMonthly, setExtraMonthly] = useState(100);
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+
+  // State for the add/edit debt sheet
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [editingDebt, setEditingDebt] = useState<Debt | null>(null);
+  const [name, setName] = useState('');
+  const [balance, setBalance] = useState('');
+  const [apr, setApr] = useState('');
+  const [minimumPayment, setMinimumPayment] = useState('');
+  const [dueDay, setDueDay] = useState('1');
+
+  const results = useMemo(
+    () => comparePayoffStrategies(debts, extraMonthly, today),
+    [debts, extraMonthly, today]
+  );
+  const selected = results[strategy];
+  const openDebts = debts.filter(d => d.balance > 0);
+  const debtNames = useMemo(() => new Map(debts.map(d => [d.id, d.name])), [debts]);
+
+  const leastInterest = PAYOFF_STRATEGIES
+    .filter(s => results[s].debtFreeDate)
+    .reduce<PayoffStrategy | null>((best, s) => (!best || results[s].totalInterest < results[best].totalInterest ? s : best), null);
+
+  // One point per month, with each strategy's total balance left
+  const chartData = useMemo(() => {
+    const length = Math.max(...PAYOFF_STRATEGIES.map(s => results[s].schedule.length));
+    const start: Record<string, string | number> = { month: 'Now' };
+    const owed = openDebts.reduce((sum, d) => sum + Number(d.balance), 0);
+    for (const s of PAYOFF_STRATEGIES) start[s] = owed;
+    const points = [start];
+    for (let i = 0; i < length; i++) {
+      const point: Record<string, string | number> = { month: '' };
+      for (const s of PAYOFF_STRATEGIES) {
+        const month = results[s].schedule[i];
+        if (month) {
+          point.month = month.month;
+          point[s] = month.totalBalance;
+        }
+      }
+      points.push(point);
+    }
+    return points;
+  }, [results, openDebts]);
+
+  const handleOpenNew = () => {
+    setEditingDebt(null);
+    setName('');
+    setBalance('');
+    setApr('');
+    setMinimumPayment('');
+    setDueDay('1');
+    setIsSheetOpen(true);
+  };
+
+  const handleOpenEdit = (debt: Debt) => {
+    setEditingDebt(debt);
+    setName(debt.name);
+    setBalance(String(debt.balance));
+    setApr(String(debt.apr));
+    setMinimumPayment(String(debt.minimum_payment));
+    setDueDay(String(debt.due_day));
+    setIsSheetOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const details = {
+      name: name.trim(),
+      balance: parseFloat(balance),
+      apr: parseFloat(apr || '0'),
+      minimum_payment: parseFloat(minimumPayment || '0'),
+      due_day: parseInt(dueDay, 10),
+    };
+    if (!details.name || isNaN(details.balance) || isNaN(details.apr) || isNaN(details.minimum_payment)) return;
+
+    try {
+      if (editingDebt) {
+        await updateDebtMutation(editingDebt.id, details);
+      } else {
+        await createDebtMutation(details, debts.length);
+      }
+      setIsSheetOpen(false);
+      await refetch();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save debt', 'error');
+    }
+  };
+
+  const handleDelete = async (debt: Debt) => {
+    if (!confirm(`Delete "${debt.name}"?`)) return;
+
+    try {
+      await deleteDebtMutation(debt.id);
+      await refetch();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete debt', 'error');
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const ids = debts.map(d => d.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+
+    try {
+      await reorderDebtsMutation(ids);
+      await refetch();
+      setStrategy('custom');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save payoff order', 'error');
+    }
+  };
+
+  const renderDebts = () => {
+    if (loading && debts.length === 0) {
+      return <div className="text-sm text-slate-500">Loading debts...</div>;
+    }
+
+    if (debts.length === 0) {
+      return (
+        <p className="text-sm text-slate-500">
+          Add your loans and credit card balances to see when you could be debt-free and how much interest each strategy costs.
+        </p>
+      );
+    }
+
+    return (
+      <ul className="divide-y rounded-xl border">
+        {debts.map((debt, index) => (
+          <li key={debt.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+            <span className="w-5 text-xs text-slate-400">{index + 1}.</span>
+            <button
+              type="button"
+              className="min-w-0 flex-1 text-left"
+              onClick={() => handleOpenEdit(debt)}
+              title="Edit debt"
+            >
+              <p className="truncate font-medium text-slate-800">{debt.name}</p>
+              <p className="truncate text-xs text-slate-500">
+                ${fmt(debt.balance)} • {Number(debt.apr)}% APR • ${fmt(debt.minimum_payment)}/month due on day {debt.due_day}
+                {selected.payoffDates[debt.id] ? ` • paid off ${formatMonth(selected.payoffDates[debt.id])}` : ''}
+              </p>
+            </button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 rounded-full" onClick={() => handleMove(index, -1)} disabled={saving || index === 0} title="Pay off earlier">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 rounded-full" onClick={() => handleMove(index, 1)} disabled={saving || index === debts.length - 1} title="Pay off later">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 rounded-full text-slate-500" onClick={() => handleDelete(debt)} disabled={saving} title="Delete">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderSchedule = () => {
+    const columns = selected.order;
+    return (
+      <div className="max-h-80 overflow-auto rounded-xl border">
+        <table className="w-full text-left text-xs">
+          <thead className="sticky top-0 bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Month</th>
+              {columns.map(id => (
+                <th key={id} className="px-3 py-2 font-medium">{debtNames.get(id)}</th>
+              ))}
+              <th className="px-3 py-2 font-medium">Total left</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {selected.schedule.map(month => (
+              <tr key={month.month}>
+                <td className="whitespace-nowrap px-3 py-2 text-slate-700">{formatMonth(month.month)}</td>
+                {columns.map(id => {
+                  const payment = month.payments.find(p => p.debtId === id);
+                  return (
+                    <td key={id} className="whitespace-nowrap px-3 py-2" title={payment ? `Interest $${fmt(payment.interest)}, principal $${fmt(payment.principal)}` : undefined}>
+                      {payment ? (
+                        <>
+                          <span className="font-medium text-slate-800">${fmt(payment.payment)}</span>
+                          <span className="text-slate-400"> → ${fmtWhole(payment.balance)}</span>
+                        </>
+                      ) : (
+                        <span className="text-slate-300">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="whitespace-nowrap px-3 py-2 font-medium text-slate-800">${fmtWhole(month.totalBalance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Card className="h-full">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5 text-rose-600" />
+              <CardTitle className="text-xl">Debt Payoff Planner</CardTitle>
+            </div>
+            <Button size="sm" onClick={handleOpenNew} disabled={saving}>Add Debt</Button>
+          </div>
+          <CardDescription>Compare payoff strategies and see when you'll be debt-free</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+          {renderDebts()}
+
+          {openDebts.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 rounded-2xl border p-4">
+                <label htmlFor="debt-extra" className="text-sm text-slate-600">Extra each month on top of the minimums</label>
+                <div className="relative w-32">
+                  <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+                  <Input
+                    id="debt-extra"
+                    type="number"
+                    min="0"
+                    step="10"
+                    value={extraMonthly}
+                    onChange={(e) => setExtraMonthly(Math.max(0, parseFloat(e.target.value || '0')))}
+                    className="pl-7"
+                  />
+                </div>
+                <span className="text-sm text-slate-500">${fmt(selected.monthlyBudget)} a month in total</span>
+              </div>
+
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                {PAYOFF_STRATEGIES.map(s => {
+                  const result = results[s];
+                  return (
+                    <button
+                      key={s}
+                      type="button"
+                      onClick={() => setStrategy(s)}
+                      className={`rounded-2xl border p-4 text-left transition-colors ${strategy === s ? 'border-slate-900 bg-slate-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-slate-900">{PAYOFF_STRATEGY_LABELS[s]}</span>
+                        {leastInterest === s && <Badge variant="secondary">Least interest</Badge>}
+                      </div>
+                      <p className="mt-0.5 text-xs text-slate-500">{PAYOFF_STRATEGY_DESCRIPTIONS[s]}</p>
+                      {result.debtFreeDate ? (
+                        <>
+                          <div className="mt-3 text-xs text-slate-500">Debt-free</div>
+                          <div className="text-lg font-bold text-slate-900">{formatMonth(result.debtFreeDate)}</div>
+                          <div className="mt-1 text-xs text-slate-500">
+                            ${fmt(result.totalInterest)} interest over {result.schedule.length} months
+                          </div>
+                        </>
+                      ) : (
+                        <p className="mt-3 text-sm text-rose-600">
+                          Never paid off: payments don't cover the interest. Add more each month.
+                        </p>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" tickFormatter={(m) => (m && m !== 'Now' ? formatMonth(m as string) : m as string)} minTickGap={32} />
+                    <YAxis tickFormatter={(v) => `$${fmtWhole((v as number) / 1000)}k`} width={56} />
+                    <Tooltip formatter={(v) => `$${fmt(v as number)}`} labelFormatter={(m) => (m && m !== 'Now' ? formatMonth(m as string) : 'Now')} />
+                    <Legend />
+                    {PAYOFF_STRATEGIES.map(s => (
+                      <Line key={s} type="monotone" dataKey={s} stroke={STRATEGY_COLORS[s]} strokeWidth={strategy === s ? 3 : 2} dot={false} name={PAYOFF_STRATEGY_LABELS[s]} connectNulls />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-900">{PAYOFF_STRATEGY_LABELS[strategy]} schedule</h3>
+                {renderSchedule()}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sheet for adding or editing a debt */}
+      <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
+        <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+          <SheetHeader className="border-b px-6 py-4">
+            <SheetTitle>{editingDebt ? 'Edit Debt' : 'Add a Debt'}</SheetTitle>
+            <SheetDescription>A loan or credit card balance you're paying down.</SheetDescription>
+          </SheetHeader>
+          <form onSubmit={handleSave} className="flex flex-1 flex-col justify-between p-6">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="debt-name" className="mb-1 block text-sm font-medium text-slate-700">Name</label>
+                <Input
+                  id="debt-name"
+                  placeholder="e.g., Visa card"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={80}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="debt-balance" className="mb-1 block text-sm font-medium text-slate-700">Balance</label>
+                <Input
+                  id="debt-balance"
+                  type="number"
+                  placeholder="e.g., 4200"
+                  value={balance}
+                  onChange={(e) => setBalance(e.target.value)}
+                  min="0"
+                  step="0.01"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="debt-apr" className="mb-1 block text-sm font-medium text-slate-700">APR (%)</label>
+                <Input
+                  id="debt-apr"
+                  type="number"
+                  placeholder="e.g., 19.99"
+                  value={apr}
+                  onChange={(e) => setApr(e.target.value)}
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="debt-minimum" className="mb-1 block text-sm font-medium text-slate-700">Minimum Monthly Payment</label>
+                <Input
+                  id="debt-minimum"
+                  type="number"
+                  placeholder="e.g., 120"
+                  value={minimumPayment}
+                  onChange={(e) => setMinimumPayment(e.target.value)}
+                  min="0"
+                  step="0.01"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="debt-due-day" className="mb-1 block text-sm font-medium text-slate-700">Due Day of the Month</label>
+                <Input
+                  id="debt-due-day"
+                  type="number"
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  min="1"
+                  max="31"
+                  step="1"
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setIsSheetOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingDebt ? 'Save Debt' : 'Add Debt'}
+              </Button>
+            </div>
+          </form>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
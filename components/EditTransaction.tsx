@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Plus, X } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { useUpdateTransaction, useTransactionSplits, useSetTransactionSplits } from '../hooks/useTransactions';
+import { isSplitTransaction, splitsMatchTotal } from '../lib/supabase/services/transactions';
+import { Transaction } from '../types';
+
+interface EditTransactionProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900';
+
+interface SplitLineInput {
+  categoryName: string;
+  amount: string;
+}
+
+export default function EditTransaction({ transaction, onClose }: EditTransactionProps) {
+  const { categories, accounts } = useAppContext();
+  const { updateTransactionMutation, updating: updatingTransaction, error: updateError } = useUpdateTransaction();
+  const { setSplitsMutation, saving: savingSplits, error: splitError } = useSetTransactionSplits();
+  const wasSplit = !!transaction && isSplitTransaction(transaction);
+  const { splits, loading: splitsLoading } = useTransactionSplits(wasSplit ? transaction.id : null);
+
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryName, setCategoryName] = useState('');
+  const [occurredOn, setOccurredOn] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [splitLines, setSplitLines] = useState<SplitLineInput[]>([]);
+
+  // Load the selected transaction into the form each time the sheet opens
+  useEffect(() => {
+    if (!transaction) return;
+    setDescription(transaction.description);
+    setAmount(transaction.amount.toString());
+    setCategoryName(transaction.category_name);
+    setOccurredOn(transaction.occurred_on);
+    setAccountId(transaction.account_id || '');
+    setNotes(transaction.notes || '');
+    setSplitLines([]);
+  }, [transaction]);
+
+  // Split expenses open with their saved lines
+  useEffect(() => {
+    if (splits.length > 0) {
+      setSplitLines(splits.map(split => ({ categoryName: split.category_name, amount: split.amount.toString() })));
+    }
+  }, [splits]);
+
+  const isExpense = transaction?.kind === 'expense';
+  const isSplitting = isExpense && splitLines.length > 0;
+  const updating = updatingTransaction || savingSplits;
+  const error = updateError || splitError;
+
+  const parsedLines = splitLines.map(line => ({
+    category_name: line.categoryName,
+    category_id: categories.find(c => c.name === line.categoryName)?.id || null,
+    amount: parseFloat(line.amount),
+  }));
+  const splitTotal = parsedLines.reduce((sum, line) => sum + (isNaN(line.amount) ? 0 : line.amount), 0);
+  const splitRemaining = (parseFloat(amount) || 0) - splitTotal;
+  const splitsValid = parsedLines.length > 1
+    && parsedLines.every(line => line.category_name && line.amount > 0)
+    && splitsMatchTotal(parseFloat(amount) || 0, parsedLines);
+
+  const startSplit = () => {
+    setSplitLines([
+      { categoryName: categoryName || categories[0]?.name || '', amount },
+      { categoryName: '', amount: '' },
+    ]);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLineInput>) => {
+    setSplitLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeSplitLine = (index: number) => {
+    const next = splitLines.filter((_, i) => i !== index);
+    // A single line is just a category
+    if (next.length === 1) {
+      setCategoryName(next[0].categoryName || categories[0]?.name || '');
+      setSplitLines([]);
+    } else {
+      setSplitLines(next);
+    }
+  };
+  // Keep the current label selectable even if its category no longer exists
+  const categoryOptions = categories.some(c => c.name === categoryName) || !categoryName
+    ? categories.map(c => c.name)
+    : [categoryName, ...categories.map(c => c.name)];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transaction || !description.trim() || !occurredOn) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) return;
+    if (isSplitting && !splitsValid) return;
+
+    const details = {
+      description: description.trim(),
+      occurred_on: occurredOn,
+      account_id: accountId || null,
+      notes: notes.trim() || null,
+    };
+
+    try {
+      if (isSplitting) {
+        // Amount and lines change together so they always add up
+        await setSplitsMutation(transaction.id, parsedAmount, parsedLines);
+        await updateTransactionMutation(transaction.id, details);
+      } else {
+        // Removing a split clears its lines before the expense gets a category again
+        if (wasSplit) await setSplitsMutation(transaction.id, parsedAmount, []);
+        await updateTransactionMutation(transaction.id, {
+          ...details,
+          amount: parsedAmount,
+          ...(isExpense && {
+            category_name: categoryName,
+            category_id: categories.find(c => c.name === categoryName)?.id || null,
+          }),
+        });
+      }
+      onClose();
+    } catch (err) {
+      console.error('Failed to update transaction:', err);
+    }
+  };
+
+  return (
+    <Sheet open={!!transaction} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+        <SheetHeader className="border-b px-6 py-4">
+          <SheetTitle>Edit {isExpense ? 'Expense' : 'Income'}</SheetTitle>
+          <SheetDescription>Fix the amount, category or date, or split it across categories. Budgets and balances update automatically.</SheetDescription>
+        </SheetHeader>
+        <form onSubmit={handleSubmit} className="flex flex-1 flex-col justify-between overflow-y-auto p-6">
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800">{error}</div>
+            )}
+            <div>
+              <label htmlFor="edit-description" className="mb-1 block text-sm font-medium text-slate-700">Description</label>
+              <Input
+                id="edit-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="edit-amount" className="mb-1 block text-sm font-medium text-slate-700">Amount</label>
+              <div className="relative">
+                <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+                <Input
+                  id="edit-amount"
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  min="0.01"
+                  step="0.01"
+                  className="pl-7"
+                  required
+                />
+              </div>
+            </div>
+            {isExpense && !isSplitting && (
+              <div>
+                <div className="mb-1 flex items-center justify-between">
+                  <label htmlFor="edit-category" className="block text-sm font-medium text-slate-700">Category</label>
+                  <button
+                    type="button"
+                    onClick={startSplit}
+                    disabled={splitsLoading || categories.length < 2}
+                    className="text-xs font-medium text-sky-600 hover:text-sky-700 disabled:text-slate-400"
+                  >
+                    Split across categories
+                  </button>
+                </div>
+                <select
+                  id="edit-category"
+                  value={categoryName}
+                  onChange={(e) => setCategoryName(e.target.value)}
+                  className={selectClassName}
+                >
+                  {categoryOptions.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {isSplitting && (
+              <div>
+                <p className="mb-1 block text-sm font-medium text-slate-700">Split</p>
+                <div className="space-y-2">
+                  {splitLines.map((line, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <select
+                        value={line.categoryName}
+                        onChange={(e) => updateSplitLine(index, { categoryName: e.target.value })}
+                        className={selectClassName}
+                        aria-label={`Split ${index + 1} category`}
+                      >
+                        <option value="" disabled>Choose a category</option>
+                        {categories.map(c => (
+                          <option key={c.id} value={c.name}>{c.name}</option>
+                        ))}
+                      </select>
+                      <div className="relative w-32 flex-shrink-0">
+                        <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+                        <Input
+                          type="number"
+                          value={line.amount}
+                          onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                          min="0.01"
+                          step="0.01"
+                          className="pl-7"
+                          aria-label={`Split ${index + 1} amount`}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 flex-shrink-0 text-slate-400 hover:text-rose-600"
+                        onClick={() => removeSplitLine(index)}
+                        aria-label={`Remove split ${index + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-2 flex items-center justify-between text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setSplitLines(prev => [...prev, { categoryName: '', amount: splitRemaining > 0 ? splitRemaining.toFixed(2) : '' }])}
+                    className="inline-flex items-center gap-1 font-medium text-sky-600 hover:text-sky-700"
+                  >
+                    <Plus className="h-3.5 w-3.5" /> Add line
+                  </button>
+                  <span className={Math.abs(splitRemaining) < 0.005 ? 'text-slate-500' : 'text-amber-600'}>
+                    {Math.abs(splitRemaining) < 0.005
+                      ? 'Adds up to the total'
+                      : `$${Math.abs(splitRemaining).toFixed(2)} ${splitRemaining > 0 ? 'left to assign' : 'over the total'}`}
+                  </span>
+                </div>
+              </div>
+            )}
+            <div>
+              <label htmlFor="edit-date" className="mb-1 block text-sm font-medium text-slate-700">Date</label>
+              <Input
+                id="edit-date"
+                type="date"
+                value={occurredOn}
+                onChange={(e) => setOccurredOn(e.target.value)}
+                required
+              />
+            </div>
+            {accounts.length > 0 && (
+              <div>
+                <label htmlFor="edit-account" className="mb-1 block text-sm font-medium text-slate-700">Account</label>
+                <select
+                  id="edit-account"
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  className={selectClassName}
+                >
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                  <option value="">No account</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label htmlFor="edit-notes" className="mb-1 block text-sm font-medium text-slate-700">Notes</label>
+              <textarea
+                id="edit-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Optional"
+                className="flex w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400"
+              />
+            </div>
+          </div>
+          <div className="mt-6 flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={onClose} disabled={updating}>Cancel</Button>
+            <Button type="submit" disabled={updating || !description.trim() || !amount || !occurredOn || (isSplitting && !splitsValid)}>
+              {updating ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
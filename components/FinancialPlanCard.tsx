@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
+import { Button } from './ui/Button';
+import { FileText, LoaderCircle, Download, Printer, Plus } from 'lucide-react';
+import MarkdownRenderer from './MarkdownRenderer';
+import { useToast } from './Toast';
+import { UseFinancialPlansReturn } from '../hooks/useFinancialPlans';
+import { planFilename, planToHtml, planToMarkdown } from '../lib/export/plan';
+import { FinancialPlan } from '../types';
+
+interface FinancialPlanCardProps {
+  plans: UseFinancialPlansReturn;
+}
+
+const formatCreated = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function downloadMarkdown(plan: FinancialPlan) {
+  const url = URL.createObjectURL(new Blob([planToMarkdown(plan)], { type: 'text/markdown;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = planFilename(plan, 'md');
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Opens the plan as a printable page; the browser's print dialog saves it as a PDF
+ * Returns false when the window was blocked.
+ */
+function printPlan(plan: FinancialPlan): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(planToHtml(plan));
+  printWindow.document.title = planFilename(plan, 'pdf');
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+export default function FinancialPlanCard({ plans: planState }: FinancialPlanCardProps) {
+  const { plans, loading, error, generating, generatePlan } = planState;
+  const { showToast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Follow the newest version unless an older one has been picked
+  const selected = plans.find(p => p.id === selectedId) || plans[0] || null;
+
+  useEffect(() => {
+    if (selectedId && !plans.some(p => p.id === selectedId)) setSelectedId(null);
+  }, [plans, selectedId]);
+
+  const handleGenerate = async () => {
+    const plan = await generatePlan();
+    if (plan) setSelectedId(plan.id);
+  };
+
+  const handlePrint = () => {
+    if (selected && !printPlan(selected)) {
+      showToast('Allow pop-ups for this site to export your plan as a PDF', 'error');
+    }
+  };
+
+  const renderContent = () => {
+    if (loading && plans.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-24 text-slate-500">
+          <LoaderCircle className="h-6 w-6 animate-spin" />
+        </div>
+      );
+    }
+
+    if (!selected) {
+      return (
+        <p className="py-8 text-center text-sm text-slate-500">
+          No plans yet. Generate one from your budgets, goals, recurring bills and cash flow.
+        </p>
+      );
+    }
+
+    return (
+      <>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="plan-version" className="sr-only">Plan version</label>
+          <select
+            id="plan-version"
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="flex h-9 rounded-md border border-slate-200 bg-white px-3 text-sm text-slate-900"
+          >
+            {plans.map(plan => (
+              <option key={plan.id} value={plan.id}>v{plan.version} — {formatCreated(plan.created_at)}</option>
+            ))}
+          </select>
+          <div className="ml-auto flex gap-2">
+            <Button variant="secondary" size="sm" onClick={() => downloadMarkdown(selected)} className="flex items-center gap-2">
+              <Download className="h-4 w-4" /> Markdown
+            </Button>
+            <Button variant="secondary" size="sm" onClick={handlePrint} className="flex items-center gap-2">
+              <Printer className="h-4 w-4" /> PDF
+            </Button>
+          </div>
+        </div>
+        <h3 className="mt-4 text-lg font-semibold text-slate-900">{selected.title}</h3>
+        <div className="max-h-[32rem] overflow-y-auto">
+          <MarkdownRenderer content={selected.content} />
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-fuchsia-500" />
+          <CardTitle className="text-xl">Your Financial Plan</CardTitle>
+          <Button size="sm" className="ml-auto flex items-center gap-2" onClick={handleGenerate} disabled={generating}>
+            {generating ? (
+              <><LoaderCircle className="h-4 w-4 animate-spin" /> Generating...</>
+            ) : (
+              <><Plus className="h-4 w-4" /> New Version</>
+            )}
+          </Button>
+        </div>
+        <CardDescription>Every plan you generate is kept, so you can look back at earlier versions.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-3 text-sm text-rose-600">{error}</p>}
+        {renderContent()}
+      </CardContent>
+    </Card>
+  );
+}
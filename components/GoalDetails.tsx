@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Button } from './ui/Button';
+import { LoaderCircle, Undo2 } from 'lucide-react';
+import { useToast } from './Toast';
+import { useGoalContributions } from '@/hooks/useGoals';
+import { balanceHistory, goalProgress, GOAL_STATUS_LABELS } from '@/lib/goals/progress';
+import { toLocalDateString } from '@/lib/supabase/services/transactions';
+import { Account, FinancialGoal } from '@/types';
+
+interface GoalDetailsProps {
+  goal: FinancialGoal | null;
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const fmt = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * A goal's pace, a chart of its balance over time and its contributions,
+ * each of which can be undone
+ */
+export default function GoalDetails({ goal, accounts, onClose }: GoalDetailsProps) {
+  const { showToast } = useToast();
+  const { contributions, loading, error, undoContribution, undoing } = useGoalContributions(goal?.id ?? null);
+
+  const history = useMemo(() => balanceHistory(contributions), [contributions]);
+  const progress = goal ? goalProgress(goal, toLocalDateString()) : null;
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts]);
+
+  const handleUndo = async (id: string) => {
+    try {
+      await undoContribution(id);
+      showToast('Contribution undone', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to undo contribution', 'error');
+    }
+  };
+
+  const renderChart = () => {
+    if (history.length === 0) return null;
+    // A single day has nothing to draw a line between, so start from zero the day before
+    const data = history.length === 1 ? [{ date: '', balance: 0 }, ...history] : history;
+    return (
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tickFormatter={(d) => (d ? formatDate(d as string) : '')} minTickGap={24} />
+            <YAxis tickFormatter={(v) => `$${Math.round(v as number).toLocaleString()}`} width={64} />
+            <Tooltip formatter={(v) => `$${fmt(v as number)}`} labelFormatter={(d) => (d ? formatDate(d as string) : 'Start')} />
+            {goal && <ReferenceLine y={goal.target_amount} stroke="#10b981" strokeDasharray="4 4" />}
+            <Line type="stepAfter" dataKey="balance" stroke="#3b82f6" strokeWidth={2} dot={false} name="Saved" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  const renderContributions = () => {
+    if (loading && contributions.length === 0) {
+      return (
+        <div className="flex h-24 items-center justify-center text-slate-500">
+          <LoaderCircle className="h-5 w-5 animate-spin" />
+        </div>
+      );
+    }
+
+    if (contributions.length === 0) {
+      return <p className="py-6 text-center text-sm text-slate-500">No contributions yet.</p>;
+    }
+
+    return (
+      <ul className="divide-y rounded-xl border">
+        {[...contributions].reverse().map(c => (
+          <li key={c.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <div className="min-w-0 flex-1">
+              <p className={`font-medium ${c.amount < 0 ? 'text-rose-600' : 'text-slate-800'}`}>
+                {c.amount < 0 ? '-' : '+'}${fmt(Math.abs(c.amount))}
+              </p>
+              <p className="truncate text-xs text-slate-500">
+                {formatDate(c.contributed_on)}
+                {c.account_id && accountNames.get(c.account_id) ? ` • ${accountNames.get(c.account_id)}` : ''}
+                {c.note ? ` • ${c.note}` : ''}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="flex items-center gap-1 text-slate-500"
+              onClick={() => handleUndo(c.id)}
+              disabled={undoing}
+            >
+              <Undo2 className="h-4 w-4" /> Undo
+            </Button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Sheet open={goal !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+        <SheetHeader className="border-b px-6 py-4">
+          <SheetTitle>{goal?.title}</SheetTitle>
+          <SheetDescription>
+            {goal && `$${fmt(goal.current_amount)} of $${fmt(goal.target_amount)} by ${formatDate(goal.target_date)}`}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 space-y-4 overflow-y-auto p-6">
+          {goal && progress && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-xl border p-3">
+                <div className="text-xs text-slate-500">Status</div>
+                <div className="font-semibold text-slate-900">{GOAL_STATUS_LABELS[progress.status]}</div>
+              </div>
+              <div className="rounded-xl border p-3">
+                <div className="text-xs text-slate-500">Needed per month</div>
+                <div className="font-semibold text-slate-900">
+                  {progress.status === 'complete' ? '—' : `$${fmt(progress.requiredMonthly)}`}
+                </div>
+              </div>
+            </div>
+          )}
+          {renderChart()}
+          <h3 className="text-sm font-semibold text-slate-900">Contributions</h3>
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          {renderContributions()}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from './ui/Card';
+import { Button } from './ui/Button';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Input } from './ui/Input';
+import { Pause, Play, Trash2 } from 'lucide-react';
+import { useToast } from './Toast';
+import { useGoals, useFundingRules, useSaveFundingRule, useFundingRates } from '@/hooks/useGoals';
+import { useAccounts } from '@/hooks/useAccounts';
+import {
+  FUNDING_RULE_LABELS,
+  describeFundingRule,
+  estimatedMonthly,
+  goalFundingPreview,
+  monthsBetween,
+  projectedCompletion,
+} from '@/lib/goals/funding';
+import { toLocalDateString } from '@/lib/supabase/services/transactions';
+import { FundingRuleKind, GoalFundingRule } from '@/types';
+
+const RULE_KINDS: FundingRuleKind[] = ['fixed_monthly', 'percent_of_income', 'round_up'];
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900';
+
+/**
+ * How a completion date compares with saving by hand, e.g. "Mar 2027 • 4 months sooner"
+ */
+function describeCompletion(completion: string | null, baseline: string | null): string {
+  if (!completion) return 'Not reached at this pace';
+  if (!baseline) return `Reached by ${formatMonth(completion)}`;
+  const sooner = monthsBetween(completion, baseline);
+  if (sooner <= 0) return `Reached by ${formatMonth(completion)}`;
+  return `Reached by ${formatMonth(completion)} • ${sooner} month${sooner === 1 ? '' : 's'} sooner`;
+}
+
+/**
+ * Rules that save towards goals automatically, with how each one moves the
+ * goal's projected completion date
+ */
+export default function GoalFunding() {
+  const { showToast } = useToast();
+  const { goals } = useGoals();
+  const { accounts } = useAccounts();
+  const { rules, loading, error, refetch } = useFundingRules();
+  const { rates, manualPace, loading: ratesLoading } = useFundingRates();
+  const { createRuleMutation, updateRuleMutation, setRuleActiveMutation, deleteRuleMutation, saving } = useSaveFundingRule();
+  const today = toLocalDateString();
+
+  // State for the add/edit rule sheet
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<GoalFundingRule | null>(null);
+  const [goalId, setGoalId] = useState('');
+  const [kind, setKind] = useState<FundingRuleKind>('fixed_monthly');
+  const [amount, setAmount] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [accountId, setAccountId] = useState('');
+
+  const openGoals = goals.filter(g => g.current_amount < g.target_amount);
+
+  const previews = useMemo(
+    () => goals
+      .filter(g => rules.some(r => r.goal_id === g.id))
+      .map(g => goalFundingPreview(g, rules, rates, manualPace.get(g.id) || 0, today)),
+    [goals, rules, rates, manualPace, today]
+  );
+
+  const handleOpenNew = () => {
+    setEditingRule(null);
+    setGoalId(openGoals[0]?.id || '');
+    setKind('fixed_monthly');
+    setAmount('');
+    setStartDate(today);
+    setAccountId('');
+    setIsSheetOpen(true);
+  };
+
+  const handleOpenEdit = (rule: GoalFundingRule) => {
+    setEditingRule(rule);
+    setGoalId(rule.goal_id);
+    setKind(rule.kind);
+    setAmount(rule.kind === 'round_up' ? '' : String(rule.amount));
+    setStartDate(rule.start_date || today);
+    setAccountId(rule.account_id || '');
+    setIsSheetOpen(true);
+  };
+
+  const parsedAmount = kind === 'round_up' ? 0 : parseFloat(amount);
+  const amountValid = kind === 'round_up'
+    || (!isNaN(parsedAmount) && parsedAmount > 0 && (kind !== 'percent_of_income' || parsedAmount <= 100));
+  const takenKinds = rules.filter(r => r.goal_id === goalId && r.id !== editingRule?.id).map(r => r.kind);
+
+  // The goal's completion date with the rule being edited in place of its saved version
+  const draftGoal = goals.find(g => g.id === goalId);
+  const draftPreview = useMemo(() => {
+    if (!draftGoal || !amountValid) return null;
+    const otherRules = rules.filter(r => r.goal_id === draftGoal.id && r.active && r.id !== editingRule?.id);
+    const remaining = Math.max(0, draftGoal.target_amount - draftGoal.current_amount);
+    const withoutRule = otherRules.reduce((sum, r) => sum + estimatedMonthly(r, rates), manualPace.get(draftGoal.id) || 0);
+    const monthly = estimatedMonthly({ kind, amount: parsedAmount }, rates);
+    return {
+      monthly,
+      before: projectedCompletion(remaining, withoutRule, today),
+      after: projectedCompletion(remaining, withoutRule + monthly, today),
+    };
+  }, [draftGoal, amountValid, rules, editingRule, rates, manualPace, kind, parsedAmount, today]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!goalId || !amountValid || takenKinds.includes(kind)) return;
+
+    try {
+      if (editingRule) {
+        await updateRuleMutation(editingRule.id, {
+          amount: parsedAmount,
+          account_id: accountId || null,
+        });
+        showToast('Funding rule updated', 'success');
+      } else {
+        await createRuleMutation({
+          goal_id: goalId,
+          kind,
+          amount: parsedAmount,
+          start_date: kind === 'fixed_monthly' ? startDate : null,
+          account_id: accountId || null,
+        });
+        showToast('Funding rule added', 'success');
+      }
+      setIsSheetOpen(false);
+      await refetch();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save funding rule', 'error');
+    }
+  };
+
+  const handleToggle = async (rule: GoalFundingRule) => {
+    try {
+      await setRuleActiveMutation(rule, !rule.active);
+      await refetch();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update funding rule', 'error');
+    }
+  };
+
+  const handleDelete = async (rule: GoalFundingRule) => {
+    if (!confirm('Delete this rule? Savings it already added stay with the goal.')) return;
+
+    try {
+      await deleteRuleMutation(rule.id);
+      await refetch();
+      showToast('Funding rule deleted', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete funding rule', 'error');
+    }
+  };
+
+  const renderRule = (rule: GoalFundingRule, baseline: string | null) => {
+    const preview = previews.find(p => p.goal.id === rule.goal_id)?.rules.find(p => p.rule.id === rule.id);
+    return (
+      <li key={rule.id} className="flex items-center gap-2 py-2 text-sm">
+        <button
+          type="button"
+          className="min-w-0 flex-1 text-left"
+          onClick={() => handleOpenEdit(rule)}
+          title="Edit rule"
+        >
+          <p className={`truncate font-medium ${rule.active ? 'text-slate-800' : 'text-slate-400'}`}>
+            {FUNDING_RULE_LABELS[rule.kind]}: {describeFundingRule(rule)}
+          </p>
+          <p className="truncate text-xs text-slate-500">
+            {!rule.active
+              ? 'Paused'
+              : ratesLoading || !preview
+                ? 'Estimating…'
+                : `About $${Math.round(preview.monthly).toLocaleString()}/month • ${describeCompletion(preview.completion, baseline)}`}
+          </p>
+        </button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 rounded-full"
+          onClick={() => handleToggle(rule)}
+          disabled={saving}
+          title={rule.active ? 'Pause' : 'Resume'}
+        >
+          {rule.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 rounded-full text-slate-500"
+          onClick={() => handleDelete(rule)}
+          disabled={saving}
+          title="Delete"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <Card className="mt-6">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-2xl font-bold text-slate-800">Automatic Saving</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="rounded-lg bg-red-50 p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+          {loading ? (
+            <div className="text-sm text-slate-500">Loading rules...</div>
+          ) : previews.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              Save towards a goal without thinking about it: set aside a fixed amount each month, a share of every paycheck, or the change from rounding up every purchase.
+            </p>
+          ) : (
+            previews.map(preview => (
+              <div key={preview.goal.id} className="rounded-xl bg-slate-50/80 p-4">
+                <p className="font-semibold text-slate-800">{preview.goal.title}</p>
+                <p className="text-xs text-slate-500">
+                  {preview.baseline
+                    ? `Saving by hand: reached by ${formatMonth(preview.baseline)}`
+                    : 'Saving by hand: no recent contributions'}
+                </p>
+                <ul className="divide-y">
+                  {rules.filter(r => r.goal_id === preview.goal.id).map(rule => renderRule(rule, preview.baseline))}
+                </ul>
+                {preview.rules.length > 1 && (
+                  <p className="mt-1 text-xs font-medium text-slate-700">
+                    All rules together: {describeCompletion(preview.combined, preview.baseline)}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+          <Button className="w-full" onClick={handleOpenNew} disabled={saving || openGoals.length === 0}>
+            Add Funding Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Sheet for adding or editing a rule */}
+      <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
+        <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+          <SheetHeader className="border-b px-6 py-4">
+            <SheetTitle>{editingRule ? 'Edit Funding Rule' : 'New Funding Rule'}</SheetTitle>
+            <SheetDescription>Contributions are added to the goal automatically until it is reached.</SheetDescription>
+          </SheetHeader>
+          <form onSubmit={handleSave} className="flex flex-1 flex-col justify-between p-6">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="rule-goal" className="mb-1 block text-sm font-medium text-slate-700">Goal</label>
+                <select
+                  id="rule-goal"
+                  value={goalId}
+                  onChange={(e) => setGoalId(e.target.value)}
+                  className={selectClassName}
+                  disabled={editingRule !== null}
+                  required
+                >
+                  {(editingRule ? goals : openGoals).map(g => (
+                    <option key={g.id} value={g.id}>{g.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="rule-kind" className="mb-1 block text-sm font-medium text-slate-700">Rule</label>
+                <select
+                  id="rule-kind"
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as FundingRuleKind)}
+                  className={selectClassName}
+                  disabled={editingRule !== null}
+                >
+                  {RULE_KINDS.map(k => (
+                    <option key={k} value={k}>{FUNDING_RULE_LABELS[k]}</option>
+                  ))}
+                </select>
+                {takenKinds.includes(kind) && (
+                  <p className="mt-1 text-xs text-rose-600">This goal already has a rule like this.</p>
+                )}
+              </div>
+              {kind !== 'round_up' && (
+                <div>
+                  <label htmlFor="rule-amount" className="mb-1 block text-sm font-medium text-slate-700">
+                    {kind === 'fixed_monthly' ? 'Amount Each Month' : 'Share of Each Income (%)'}
+                  </label>
+                  <Input
+                    id="rule-amount"
+                    type="number"
+                    placeholder={kind === 'fixed_monthly' ? 'e.g., 100' : 'e.g., 10'}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    required
+                    min="0.01"
+                    max={kind === 'percent_of_income' ? '100' : undefined}
+                    step="0.01"
+                  />
+                </div>
+              )}
+              {kind === 'fixed_monthly' && (
+                <div>
+                  <label htmlFor="rule-start" className="mb-1 block text-sm font-medium text-slate-700">First Contribution</label>
+                  <Input
+                    id="rule-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    min={editingRule ? undefined : today}
+                    disabled={editingRule !== null}
+                    required
+                  />
+                </div>
+              )}
+              {accounts.length > 0 && (
+                <div>
+                  <label htmlFor="rule-account" className="mb-1 block text-sm font-medium text-slate-700">From Account</label>
+                  <select
+                    id="rule-account"
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">Not specified</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {draftPreview && (
+                <div className="rounded-xl border p-3 text-sm">
+                  <p className="text-slate-700">About ${Math.round(draftPreview.monthly).toLocaleString()} a month, going by the last few months.</p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {describeCompletion(draftPreview.after, draftPreview.before)}
+                    {draftPreview.before && draftPreview.before !== draftPreview.after ? ` (instead of ${formatMonth(draftPreview.before)})` : ''}
+                  </p>
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setIsSheetOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving || !goalId || !amountValid || takenKinds.includes(kind)}>
+                {saving ? 'Saving...' : editingRule ? 'Save Rule' : 'Add Rule'}
+              </Button>
+            </div>
+          </form>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -5,12 +5,30 @@ import { Button } from './ui/Button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
 import { Input } from './ui/Input';
 import { Plus } from 'lucide-react';
+import GoalDetails from './GoalDetails';
 import { useGoals, useAddGoal, useUpdateGoal } from '@/hooks/useGoals';
+import { useAccounts } from '@/hooks/useAccounts';
+import { goalProgress, GoalStatus, GOAL_STATUS_LABELS, targetDateInMonths } from '@/lib/goals/progress';
+import { toLocalDateString } from '@/lib/supabase/services/transactions';
 import { FinancialGoal } from '@/types';
 
+const STATUS_CLASSES: Record<GoalStatus, string> = {
+  complete: 'bg-emerald-100 text-emerald-700',
+  on_track: 'bg-sky-100 text-sky-700',
+  behind: 'bg-amber-100 text-amber-700',
+  overdue: 'bg-rose-100 text-rose-700',
+};
+
+const formatTargetDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
 export default function Goals() {
   const { goals: dbGoals, loading, error } = useGoals();
   const { addGoal, adding: addingGoal, error: addGoalError } = useAddGoal();
+  const { accounts } = useAccounts();
+  const today = toLocalDateString();
+  const now = new Date();
+  const tomorrow = toLocalDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1));
   
   // Local state for optimistic updates
   const [optimisticGoals, setOptimisticGoals] = useState<FinancialGoal[]>([]);
@@ -70,29 +88,34 @@ export default function Goals() {
   const [isNewGoalSheetOpen, setIsNewGoalSheetOpen] = useState(false);
   const [newGoalName, setNewGoalName] = useState('');
   const [newGoalAmount, setNewGoalAmount] = useState('');
-  const [newGoalMonths, setNewGoalMonths] = useState('12');
+  const [newGoalDate, setNewGoalDate] = useState(() => targetDateInMonths(toLocalDateString(), 12));
 
   // State for "Add Savings" sheet
   const [isAddSavingsSheetOpen, setIsAddSavingsSheetOpen] = useState(false);
   const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
   const [savingsAmount, setSavingsAmount] = useState('');
+  const [savingsDate, setSavingsDate] = useState('');
+  const [savingsAccountId, setSavingsAccountId] = useState('');
+  const [savingsNote, setSavingsNote] = useState('');
+
+  // Goal whose contribution history is open
+  const [detailsGoalId, setDetailsGoalId] = useState<string | null>(null);
 
   const handleAddNewGoal = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newGoalName.trim() || !newGoalAmount) return;
+    if (!newGoalName.trim() || !newGoalAmount || newGoalDate <= today) return;
 
     try {
       await addGoal({
         title: newGoalName,
         target_amount: parseFloat(newGoalAmount),
-        current_amount: 0,
-        months_remaining: parseInt(newGoalMonths) || 12,
+        target_date: newGoalDate,
       });
       
       // Reset form and close sheet
       setNewGoalName('');
       setNewGoalAmount('');
-      setNewGoalMonths('12');
+      setNewGoalDate(targetDateInMonths(today, 12));
       setIsNewGoalSheetOpen(false);
     } catch (err) {
       console.error('Failed to add goal:', err);
@@ -102,6 +125,9 @@ export default function Goals() {
   const handleOpenAddSavingsSheet = (goalId: string) => {
     setSelectedGoalId(goalId);
     setSavingsAmount('');
+    setSavingsDate(today);
+    setSavingsAccountId('');
+    setSavingsNote('');
     setIsAddSavingsSheetOpen(true);
   };
 
@@ -113,7 +139,11 @@ export default function Goals() {
     if (isNaN(amountToAdd) || amountToAdd <= 0) return;
 
     try {
-      await addContributionMutation(selectedGoalId, amountToAdd);
+      await addContributionMutation(selectedGoalId, amountToAdd, {
+        contributed_on: savingsDate || today,
+        account_id: savingsAccountId || null,
+        note: savingsNote.trim() || null,
+      });
       
       setIsAddSavingsSheetOpen(false);
       setSelectedGoalId(null);
@@ -124,6 +154,7 @@ export default function Goals() {
   };
   
   const selectedGoal = goals.find(g => g.id === selectedGoalId);
+  const detailsGoal = goals.find(g => g.id === detailsGoalId) || null;
 
   return (
     <>
@@ -157,11 +188,23 @@ export default function Goals() {
             ) : (
               goals.map((g) => {
                 const pct = g.target_amount > 0 ? Math.min(100, Math.round((g.current_amount / g.target_amount) * 100)) : 0;
-                const toGo = g.target_amount - g.current_amount;
+                const progress = goalProgress(g, today);
                 return (
                   <div key={g.id} className="rounded-xl bg-slate-50/80 p-4">
                     <div className="mb-2 flex items-center justify-between">
-                      <p className="font-semibold text-slate-800">{g.title}</p>
+                      <div className="flex min-w-0 items-center gap-2">
+                        <button
+                          type="button"
+                          className="truncate font-semibold text-slate-800 hover:underline"
+                          onClick={() => setDetailsGoalId(g.id)}
+                          title="Show contribution history"
+                        >
+                          {g.title}
+                        </button>
+                        <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[11px] font-medium ${STATUS_CLASSES[progress.status]}`}>
+                          {GOAL_STATUS_LABELS[progress.status]}
+                        </span>
+                      </div>
                       <div className="flex items-center gap-1">
                         <p className="text-sm text-slate-600">
                           <span className="font-bold text-slate-900">${g.current_amount.toLocaleString()}</span> / ${g.target_amount.toLocaleString()}
@@ -179,7 +222,11 @@ export default function Goals() {
                     </div>
                     <Progress value={pct} indicatorClassName="bg-emerald-500" className="h-2" />
                     <p className="mt-2 text-xs text-slate-500">
-                      ${toGo.toLocaleString()} to go • {g.months_remaining} months remaining
+                      {progress.status === 'complete'
+                        ? `Reached • target date ${formatTargetDate(g.target_date)}`
+                        : progress.status === 'overdue'
+                          ? `$${progress.remaining.toLocaleString()} to go • target date ${formatTargetDate(g.target_date)} has passed`
+                          : `$${progress.remaining.toLocaleString()} to go • $${Math.ceil(progress.requiredMonthly).toLocaleString()}/month to reach it by ${formatTargetDate(g.target_date)}`}
                     </p>
                   </div>
                 );
@@ -233,16 +280,20 @@ export default function Goals() {
                 </div>
               </div>
               <div>
-                <label htmlFor="goal-months" className="mb-1 block text-sm font-medium text-slate-700">Months to Achieve</label>
+                <label htmlFor="goal-date" className="mb-1 block text-sm font-medium text-slate-700">Target Date</label>
                 <Input
-                  id="goal-months"
-                  type="number"
-                  placeholder="e.g., 12"
-                  value={newGoalMonths}
-                  onChange={(e) => setNewGoalMonths(e.target.value)}
+                  id="goal-date"
+                  type="date"
+                  value={newGoalDate}
+                  onChange={(e) => setNewGoalDate(e.target.value)}
                   required
-                  min="1"
+                  min={tomorrow}
                 />
+                {newGoalAmount && newGoalDate > today && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    About ${Math.ceil(goalProgress({ target_amount: parseFloat(newGoalAmount) || 0, current_amount: 0, target_date: newGoalDate, created_at: today }, today).requiredMonthly).toLocaleString()} a month
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex justify-end gap-2">
@@ -282,6 +333,43 @@ export default function Goals() {
                    />
                 </div>
               </div>
+              <div>
+                <label htmlFor="savings-date" className="mb-1 block text-sm font-medium text-slate-700">Date</label>
+                <Input
+                  id="savings-date"
+                  type="date"
+                  value={savingsDate}
+                  onChange={(e) => setSavingsDate(e.target.value)}
+                  max={today}
+                  required
+                />
+              </div>
+              {accounts.length > 0 && (
+                <div>
+                  <label htmlFor="savings-account" className="mb-1 block text-sm font-medium text-slate-700">From Account</label>
+                  <select
+                    id="savings-account"
+                    value={savingsAccountId}
+                    onChange={(e) => setSavingsAccountId(e.target.value)}
+                    className="flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900"
+                  >
+                    <option value="">Not specified</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label htmlFor="savings-note" className="mb-1 block text-sm font-medium text-slate-700">Note</label>
+                <Input
+                  id="savings-note"
+                  placeholder="Optional, e.g., Birthday money"
+                  value={savingsNote}
+                  onChange={(e) => setSavingsNote(e.target.value)}
+                  maxLength={200}
+                />
+              </div>
             </div>
             <div className="flex justify-end gap-2">
                <Button type="button" variant="ghost" onClick={() => setIsAddSavingsSheetOpen(false)} disabled={updatingGoal}>Cancel</Button>
@@ -292,6 +380,8 @@ export default function Goals() {
           </form>
         </SheetContent>
       </Sheet>
+
+      <GoalDetails goal={detailsGoal} accounts={accounts} onClose={() => setDetailsGoalId(null)} />
     </>
   );
 }
\ No newline at end of file
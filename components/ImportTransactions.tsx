@@ -0,0 +1,430 @@
+import React, { useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Badge } from './ui/Badge';
+import { Upload, LoaderCircle, Save, Trash2 } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { useUser } from '../hooks/useAuth';
+import { useImportTransactions } from '../hooks/useTransactions';
+import { useImportMappings } from '../hooks/useImportMappings';
+import { getTransactionsBetween, INCOME_CATEGORY_NAME, toLocalDateString } from '../lib/supabase/services/transactions';
+import { parseCsv, guessCsvMapping, applyCsvMapping } from '../lib/import/csv';
+import { isOfx, parseOfx } from '../lib/import/ofx';
+import { findDuplicates, suggestCategory } from '../lib/import/matching';
+import { CsvColumnMapping, DateFormat, ImportedRow } from '../lib/import/types';
+
+export const UNCATEGORIZED_NAME = 'Uncategorized';
+
+interface ImportTransactionsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface PreviewRow {
+  row: ImportedRow;
+  include: boolean;
+  duplicate: boolean;
+  categoryName: string;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const DATE_FORMATS: DateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900';
+
+export default function ImportTransactions({ open, onOpenChange }: ImportTransactionsProps) {
+  const { user } = useUser();
+  const { categories, accounts } = useAppContext();
+  const { importTransactions, importing, error: importError } = useImportTransactions();
+  const { mappings, saveMapping, removeMapping, error: mappingsError } = useImportMappings();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setMapping(null);
+    setPresetName('');
+    setPreviewRows([]);
+    setSkipped(0);
+    setError(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const columnOptions = useMemo(() => {
+    const width = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+    const header = mapping?.hasHeader ? csvRows[0] || [] : [];
+    return Array.from({ length: width }, (_, i) => ({
+      value: i,
+      label: header[i] ? `${header[i]} (column ${i + 1})` : `Column ${i + 1}`,
+    }));
+  }, [csvRows, mapping?.hasHeader]);
+
+  const buildPreview = async (rows: ImportedRow[], skippedCount: number) => {
+    if (!user?.id) return;
+    if (rows.length === 0) {
+      setError('No transactions were found in this file. Check the column mapping and date format.');
+      return;
+    }
+
+    setPreparing(true);
+    setError(null);
+
+    try {
+      // Compare against transactions around the statement period
+      const dates = rows.map(r => r.date).sort();
+      const start = new Date(`${dates[0]}T00:00:00`);
+      start.setDate(start.getDate() - 2);
+      const end = new Date(`${dates[dates.length - 1]}T00:00:00`);
+      end.setDate(end.getDate() + 2);
+
+      const existing = await getTransactionsBetween(user.id, toLocalDateString(start), toLocalDateString(end));
+      const duplicates = findDuplicates(rows, existing);
+
+      setPreviewRows(rows.map((row, i) => ({
+        row,
+        include: !duplicates[i],
+        duplicate: duplicates[i],
+        categoryName: row.kind === 'income'
+          ? INCOME_CATEGORY_NAME
+          : suggestCategory(row.description, categories, existing) || UNCATEGORIZED_NAME,
+      })));
+      setSkipped(skippedCount);
+      setStep('preview');
+    } catch (err: any) {
+      setError(err.message || 'Failed to check for duplicates.');
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setFileName(file.name);
+    const text = await file.text();
+
+    if (isOfx(text)) {
+      const result = parseOfx(text);
+      await buildPreview(result.rows, result.skipped);
+      return;
+    }
+
+    const rows = parseCsv(text);
+    if (rows.length === 0) {
+      setError('This file appears to be empty.');
+      return;
+    }
+
+    setCsvRows(rows);
+    setMapping(guessCsvMapping(rows));
+    setStep('mapping');
+  };
+
+  const updateMapping = (updates: Partial<CsvColumnMapping>) => {
+    setMapping(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const handleSavePreset = async () => {
+    if (!mapping || !presetName.trim()) return;
+    try {
+      await saveMapping(presetName.trim(), mapping);
+    } catch (err) {
+      console.error('Failed to save import preset:', err);
+    }
+  };
+
+  const handleContinueFromMapping = async () => {
+    if (!mapping) return;
+    const result = applyCsvMapping(csvRows, mapping);
+    await buildPreview(result.rows, result.skipped);
+  };
+
+  const updatePreviewRow = (index: number, updates: Partial<PreviewRow>) => {
+    setPreviewRows(prev => prev.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  const selectedRows = previewRows.filter(r => r.include);
+  const duplicateCount = previewRows.filter(r => r.duplicate).length;
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    try {
+      const count = await importTransactions(selectedRows.map(({ row, categoryName }) => ({
+        description: row.description,
+        amount: row.amount,
+        kind: row.kind,
+        category_name: categoryName,
+        category_id: categories.find(c => c.name === categoryName)?.id || null,
+        account_id: accountId || null,
+        occurred_on: row.date,
+        external_id: row.externalId ?? null,
+      })));
+      setImportedCount(count);
+      setStep('done');
+    } catch (err) {
+      console.error('Failed to import transactions:', err);
+    }
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-4">
+      {accounts.length > 0 && (
+        <div>
+          <label htmlFor="import-account" className="mb-1 block text-sm font-medium text-slate-700">Import into account</label>
+          <select id="import-account" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClassName}>
+            <option value="">No account</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-slate-200 p-8 text-center hover:border-slate-300">
+        {preparing ? (
+          <LoaderCircle className="h-8 w-8 animate-spin text-slate-400" />
+        ) : (
+          <Upload className="h-8 w-8 text-slate-400" />
+        )}
+        <span className="text-sm font-medium text-slate-700">Choose a CSV, OFX or QFX file</span>
+        <span className="text-xs text-slate-500">Download it from your bank's website</span>
+        <input type="file" accept=".csv,.ofx,.qfx,text/csv" className="hidden" onChange={handleFile} disabled={preparing} />
+      </label>
+    </div>
+  );
+
+  const renderMapping = () => {
+    if (!mapping) return null;
+    const sampleRows = (mapping.hasHeader ? csvRows.slice(1) : csvRows).slice(0, 3);
+    const amountMode = mapping.amountColumn !== null ? 'single' : 'split';
+
+    return (
+      <div className="space-y-4">
+        {mappings.length > 0 && (
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">Saved presets</label>
+            <div className="flex flex-wrap gap-2">
+              {mappings.map(preset => (
+                <div key={preset.id} className="flex items-center gap-1 rounded-full border px-2 py-0.5">
+                  <button type="button" className="text-xs font-medium text-slate-700 hover:text-slate-900" onClick={() => { setMapping(preset.mapping); setPresetName(preset.name); }}>
+                    {preset.name}
+                  </button>
+                  <button type="button" className="text-slate-400 hover:text-rose-600" onClick={() => removeMapping(preset.id)} aria-label={`Delete preset ${preset.name}`}>
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} />
+          First row is a header
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="mb-1 block text-xs font-medium text-slate-500">Date column</label>
+            <select value={mapping.dateColumn} onChange={(e) => updateMapping({ dateColumn: Number(e.target.value) })} className={selectClassName}>
+              {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-xs font-medium text-slate-500">Date format</label>
+            <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })} className={selectClassName}>
+              {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className="mb-1 block text-xs font-medium text-slate-500">Description column</label>
+            <select value={mapping.descriptionColumn} onChange={(e) => updateMapping({ descriptionColumn: Number(e.target.value) })} className={selectClassName}>
+              {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className="mb-1 block text-xs font-medium text-slate-500">Amounts are in</label>
+            <select
+              value={amountMode}
+              onChange={(e) => updateMapping(e.target.value === 'single'
+                ? { amountColumn: mapping.debitColumn ?? 0, debitColumn: null, creditColumn: null }
+                : { amountColumn: null, debitColumn: mapping.amountColumn ?? 0, creditColumn: mapping.amountColumn ?? 0 })}
+              className={selectClassName}
+            >
+              <option value="single">One column (negative = money out)</option>
+              <option value="split">Separate debit and credit columns</option>
+            </select>
+          </div>
+          {amountMode === 'single' ? (
+            <div className="col-span-2">
+              <label className="mb-1 block text-xs font-medium text-slate-500">Amount column</label>
+              <select value={mapping.amountColumn ?? 0} onChange={(e) => updateMapping({ amountColumn: Number(e.target.value) })} className={selectClassName}>
+                {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-500">Debit (money out)</label>
+                <select value={mapping.debitColumn ?? 0} onChange={(e) => updateMapping({ debitColumn: Number(e.target.value) })} className={selectClassName}>
+                  {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-xs font-medium text-slate-500">Credit (money in)</label>
+                <select value={mapping.creditColumn ?? 0} onChange={(e) => updateMapping({ creditColumn: Number(e.target.value) })} className={selectClassName}>
+                  {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={mapping.invertAmounts} onChange={(e) => updateMapping({ invertAmounts: e.target.checked })} />
+          Purchases are positive numbers (common for credit cards)
+        </label>
+
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-xs">
+            <tbody>
+              {sampleRows.map((row, i) => (
+                <tr key={i} className="border-b last:border-0">
+                  {row.map((cell, j) => (
+                    <td key={j} className="whitespace-nowrap px-2 py-1 text-slate-600">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input placeholder="Preset name, e.g. Chase Checking" value={presetName} onChange={(e) => setPresetName(e.target.value)} className="h-9" />
+          <Button type="button" variant="secondary" size="sm" onClick={handleSavePreset} disabled={!presetName.trim()}>
+            <Save className="mr-1 h-4 w-4" /> Save
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderPreview = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="secondary">{previewRows.length} found</Badge>
+        <Badge variant="secondary">{selectedRows.length} selected</Badge>
+        {duplicateCount > 0 && (
+          <span className="inline-flex items-center rounded-full bg-amber-100 px-2.5 py-0.5 font-semibold text-amber-800">{duplicateCount} likely duplicates</span>
+        )}
+        {skipped > 0 && <Badge variant="outline">{skipped} rows skipped</Badge>}
+      </div>
+      <div className="space-y-2">
+        {previewRows.map((preview, i) => (
+          <div key={i} className={`rounded-lg border p-2 text-sm ${preview.duplicate ? 'border-amber-200 bg-amber-50/60' : ''}`}>
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={preview.include}
+                onChange={(e) => updatePreviewRow(i, { include: e.target.checked })}
+                aria-label={`Import ${preview.row.description}`}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="truncate font-medium text-slate-800">{preview.row.description}</p>
+                  <p className={`flex-shrink-0 font-semibold ${preview.row.kind === 'income' ? 'text-emerald-600' : 'text-slate-900'}`}>
+                    {preview.row.kind === 'income' ? '+' : '-'}${preview.row.amount.toFixed(2)}
+                  </p>
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                  <span className="text-xs text-slate-500">{preview.row.date}</span>
+                  {preview.duplicate && <span className="text-xs font-medium text-amber-700">Possible duplicate</span>}
+                  {preview.row.kind === 'expense' && (
+                    <select
+                      value={preview.categoryName}
+                      onChange={(e) => updatePreviewRow(i, { categoryName: e.target.value })}
+                      className="ml-auto h-7 rounded-md border border-slate-200 bg-white px-1 text-xs"
+                    >
+                      <option value={UNCATEGORIZED_NAME}>{UNCATEGORIZED_NAME}</option>
+                      {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="flex w-full flex-col p-0 sm:max-w-lg">
+        <SheetHeader className="border-b px-6 py-4">
+          <SheetTitle>Import Bank Statement</SheetTitle>
+          <SheetDescription>
+            {step === 'mapping' ? `Tell us which columns to use in ${fileName}.`
+              : step === 'preview' ? 'Review the transactions before importing. Likely duplicates are unchecked.'
+              : 'Upload a statement export to add its transactions.'}
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto p-6">
+          {(error || importError || mappingsError) && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-800">{error || importError || mappingsError}</div>
+          )}
+          {step === 'upload' && renderUpload()}
+          {step === 'mapping' && renderMapping()}
+          {step === 'preview' && renderPreview()}
+          {step === 'done' && (
+            <div className="py-8 text-center text-sm text-slate-700">
+              Imported <span className="font-semibold">{importedCount}</span> transactions from {fileName}.
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end gap-2 border-t p-4">
+          {step === 'done' ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              {step !== 'upload' && (
+                <Button variant="ghost" onClick={reset} disabled={importing || preparing}>Start Over</Button>
+              )}
+              {step === 'mapping' && (
+                <Button onClick={handleContinueFromMapping} disabled={preparing}>
+                  {preparing ? <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Checking...</> : 'Preview'}
+                </Button>
+              )}
+              {step === 'preview' && (
+                <Button onClick={handleImport} disabled={importing || selectedRows.length === 0}>
+                  {importing ? <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Importing...</> : `Import ${selectedRows.length}`}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
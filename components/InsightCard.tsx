@@ -1,35 +1,50 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
 import { Button } from './ui/Button';
-import { Sparkles, LoaderCircle, AlertCircle } from 'lucide-react';
-import { getAIInsight } from '../lib/services/geminiService';
+import { Sparkles, LoaderCircle, AlertCircle, History, RefreshCw } from 'lucide-react';
+import { useAIInsight, useAIInsightHistory } from '../hooks/useAIInsights';
 import { SpendingCategory } from '../types';
 
 interface InsightCardProps {
   categories: SpendingCategory[];
 }
 
+const formatGeneratedAt = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
 export default function InsightCard({ categories }: InsightCardProps) {
-  const [insight, setInsight] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { value: insight, source, generatedAt, loading: isLoading, refreshing, error, refresh } = useAIInsight(categories);
+  const [showHistory, setShowHistory] = useState(false);
+  const { history, loading: historyLoading, error: historyError } = useAIInsightHistory('insight', showHistory);
 
-  const fetchInsight = async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const result = await getAIInsight(categories);
-      setInsight(result);
-    } catch (err: any) {
-      setError(err.message || "Failed to load insight.");
-    } finally {
-      setIsLoading(false);
+  const renderHistory = () => {
+    if (historyLoading && history.length === 0) {
+      return (
+        <div className="flex items-center justify-center h-24 text-slate-500">
+          <LoaderCircle className="h-5 w-5 animate-spin" />
+        </div>
+      );
+    }
+
+    if (historyError) {
+      return <p className="text-center text-sm text-rose-600">{historyError}</p>;
+    }
+
+    if (history.length === 0) {
+      return <p className="text-center text-sm text-slate-500">No past insights yet.</p>;
     }
-  };
 
-  useEffect(() => {
-    fetchInsight();
-  }, [categories]);
+    return (
+      <div className="max-h-80 space-y-3 overflow-y-auto">
+        {history.map(item => (
+          <div key={item.id} className="rounded-2xl border p-3">
+            <p className="text-xs text-slate-400">{formatGeneratedAt(item.created_at)}</p>
+            <p className="mt-1 text-sm text-slate-700 leading-relaxed">{item.content.text}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
 
   const renderContent = () => {
     if (isLoading) {
@@ -41,25 +56,39 @@ export default function InsightCard({ categories }: InsightCardProps) {
       );
     }
 
-    if (error) {
+    if (error && !insight) {
       return (
         <div className="text-center text-rose-600">
           <AlertCircle className="mx-auto h-6 w-6" />
           <p className="mt-2 text-sm font-medium">{error}</p>
-          <Button variant="ghost" size="sm" className="mt-2" onClick={fetchInsight}>Try Again</Button>
+          <Button variant="ghost" size="sm" className="mt-2" onClick={refresh}>Try Again</Button>
         </div>
       );
     }
 
     if (insight) {
       return (
-        <p className="text-sm text-slate-700 leading-relaxed">
-          {insight}
-        </p>
+        <>
+          <p className="text-sm text-slate-700 leading-relaxed">
+            {insight}
+          </p>
+          {source === 'rules' ? (
+            <p className="mt-3 text-xs text-slate-500">
+              {error ? `${error} ` : ''}This summary comes from the app's own checks of your budgets, transactions and goals.
+            </p>
+          ) : (
+            <>
+              {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+              {generatedAt && (
+                <p className="mt-3 text-xs text-slate-400">Based on your spending as of {formatGeneratedAt(generatedAt)}</p>
+              )}
+            </>
+          )}
+        </>
       );
     }
-    
-    return null;
+
+    return <p className="text-sm text-slate-500">Add spending categories to get an insight.</p>;
   };
 
   return (
@@ -68,12 +97,35 @@ export default function InsightCard({ categories }: InsightCardProps) {
         <div className="flex items-center gap-2">
           <Sparkles className="h-5 w-5 text-fuchsia-500" />
           <CardTitle className="text-xl">AI Insight</CardTitle>
+          <div className="ml-auto flex items-center">
+            <Button
+              size="icon"
+              variant="ghost"
+              className={`h-8 w-8 ${showHistory ? 'text-fuchsia-600' : 'text-slate-400'}`}
+              aria-label={showHistory ? 'Hide past insights' : 'Show past insights'}
+              title="Past insights"
+              onClick={() => setShowHistory(open => !open)}
+            >
+              <History className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 text-slate-400"
+              aria-label="Get a new insight"
+              title="Get a new insight"
+              onClick={refresh}
+              disabled={isLoading || refreshing || categories.length === 0}
+            >
+              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
         </div>
-        <CardDescription>A summary of your financial health</CardDescription>
+        <CardDescription>{showHistory ? 'Your past insights' : 'A summary of your financial health'}</CardDescription>
       </CardHeader>
       <CardContent>
-        {renderContent()}
+        {showHistory ? renderHistory() : renderContent()}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
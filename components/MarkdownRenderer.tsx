@@ -0,0 +1,54 @@
+import React from 'react';
+
+/**
+ * Renders the Markdown the AI coach writes: ## headings, * bullets and **bold**
+ */
+const MarkdownRenderer = ({ content }: { content: string }) => {
+  const lines = content.split('\n').filter(line => line.trim() !== '');
+
+  const renderLine = (line: string) => {
+    const parts = line.split(/(\*\*.*?\*\*)/g);
+    return parts.map((part, i) =>
+      part.startsWith('**') && part.endsWith('**') ? (
+        <strong key={i}>{part.slice(2, -2)}</strong>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const elements = lines.map((line, index) => {
+    if (line.startsWith('## ')) {
+      return <h2 key={index} className="mt-6 mb-2 text-xl font-semibold text-slate-800">{renderLine(line.substring(3))}</h2>;
+    }
+    if (line.startsWith('* ')) {
+      return <li key={index} className="ml-5 list-disc text-slate-700">{renderLine(line.substring(2))}</li>;
+    }
+    return <p key={index} className="my-2 text-slate-700">{renderLine(line)}</p>;
+  });
+
+  // Group list items into <ul>
+  const groupedElements = [];
+  // FIX: Replaced `JSX.Element` with `React.ReactElement` to resolve the "Cannot find namespace 'JSX'" error. This ensures the type is correctly resolved from the imported React module.
+  let currentList: React.ReactElement[] = [];
+
+  elements.forEach((el, index) => {
+    if (el.type === 'li') {
+      currentList.push(el);
+    } else {
+      if (currentList.length > 0) {
+        groupedElements.push(<ul key={`ul-${index}`} className="space-y-1">{currentList}</ul>);
+        currentList = [];
+      }
+      groupedElements.push(el);
+    }
+  });
+
+  if (currentList.length > 0) {
+    groupedElements.push(<ul key="ul-last" className="space-y-1">{currentList}</ul>);
+  }
+
+  return <>{groupedElements}</>;
+};
+
+export default MarkdownRenderer;
@@ -1,34 +1,208 @@
-import React, { useMemo, useState } from "react";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
+import React, { useEffect, useMemo, useState } from "react";
+import { ComposedChart, LineChart, Line, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from 'recharts';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "./ui/Card";
 import { Badge } from "./ui/Badge";
-import { DollarSign, TrendingUp } from "lucide-react";
+import { Button } from "./ui/Button";
+import { DollarSign, LoaderCircle, Plus, RefreshCw, Trash2, TrendingUp } from "lucide-react";
+import { useToast } from "./Toast";
+import { useAppContext } from "../context/AppContext";
+import { useGoals } from "../hooks/useGoals";
+import { useMonteCarlo } from "../hooks/useMonteCarlo";
+import { useProjectionScenarios, useSaveProjectionScenario } from "../hooks/useProjectionScenarios";
+import { NewProjectionScenario } from "../lib/supabase/services/projections";
+import { STARTING_BALANCE_LABELS, StartingBalances, projectSavings, startingBalance, toTodaysDollars } from "../lib/projection/engine";
+import { SIMULATION_PATH_OPTIONS, SimulationGoal } from "../lib/projection/monteCarlo";
+import { savingPace } from "../lib/goals/progress";
+import { toLocalDateString } from "../lib/supabase/services/transactions";
+import { ProjectionScenario, StartingBalanceSource } from "../types";
+
+const SCENARIO_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6'];
+const DRAFT_COLOR = '#0f172a';
+
+const STARTING_BALANCE_SOURCES: StartingBalanceSource[] = ['goals', 'savings_accounts', 'custom'];
+
+const DEFAULT_SCENARIO: NewProjectionScenario = {
+  name: 'My plan',
+  starting_balance_source: 'goals',
+  starting_balance: 0,
+  monthly_contribution: 200,
+  contribution_growth: 0,
+  annual_return: 5,
+  inflation_rate: 2.5,
+  tax_rate: 0,
+  years: 40,
+};
+
+const SCENARIO_FIELDS = Object.keys(DEFAULT_SCENARIO) as (keyof NewProjectionScenario)[];
+
+// Decimal columns are coerced so a saved scenario compares exactly with its draft
+function toDraft(scenario: ProjectionScenario): NewProjectionScenario {
+  return {
+    name: scenario.name,
+    starting_balance_source: scenario.starting_balance_source,
+    starting_balance: Number(scenario.starting_balance),
+    monthly_contribution: Number(scenario.monthly_contribution),
+    contribution_growth: Number(scenario.contribution_growth),
+    annual_return: Number(scenario.annual_return),
+    inflation_rate: Number(scenario.inflation_rate),
+    tax_rate: Number(scenario.tax_rate),
+    years: Number(scenario.years),
+  };
+}
+
+const inputClassName = "w-full rounded-xl border bg-white px-3 py-2 text-sm";
+
+type ProjectionMode = 'projection' | 'simulation';
+
+// Roughly the long-run volatility of a stock-heavy portfolio
+const DEFAULT_VOLATILITY = 15;
+
+const successClassName = (probability: number) =>
+  probability >= 0.8 ? 'text-emerald-600' : probability >= 0.5 ? 'text-amber-600' : 'text-rose-600';
 
 export default function Projection() {
-  const [monthly, setMonthly] = useState<number>(200); // $/month
-  const [rate, setRate] = useState<number>(5); // % annual
-  const [years, setYears] = useState<number>(40); // 30 - 50
-
-  const { series, fv, principal, interest } = useMemo(() => {
-    const n = 12; // monthly compounding
-    const r = rate / 100;
-    const totalMonths = years * 12;
-    const out: { year: number; principal: number; interest: number }[] = [];
-
-    for (let y = 1; y <= years; y++) {
-      const months = y * 12;
-      const fvYear = monthly * ((Math.pow(1 + r / n, months) - 1) / (r / n));
-      const principalY = monthly * months;
-      const interestY = fvYear - principalY;
-      out.push({ year: y, principal: Math.round(principalY), interest: Math.round(interestY) });
+  const { showToast } = useToast();
+  const { accounts } = useAppContext();
+  const { goals } = useGoals();
+  const { scenarios, refetch } = useProjectionScenarios();
+  const { createScenarioMutation, updateScenarioMutation, deleteScenarioMutation, saving } = useSaveProjectionScenario();
+
+  // The scenario being edited; selectedId is null until it is saved
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NewProjectionScenario>(DEFAULT_SCENARIO);
+  const [inTodaysDollars, setInTodaysDollars] = useState(false);
+  const [loadedSaved, setLoadedSaved] = useState(false);
+
+  // Monte Carlo settings; the mean return is the scenario's annual return
+  const [mode, setMode] = useState<ProjectionMode>('projection');
+  const [volatility, setVolatility] = useState(DEFAULT_VOLATILITY);
+  const [paths, setPaths] = useState(SIMULATION_PATH_OPTIONS[1]);
+  const [seed, setSeed] = useState(1);
+
+  // Open the first saved scenario once they arrive
+  useEffect(() => {
+    if (loadedSaved || scenarios.length === 0) return;
+    setSelectedId(scenarios[0].id);
+    setDraft(toDraft(scenarios[0]));
+    setLoadedSaved(true);
+  }, [scenarios, loadedSaved]);
+
+  const balances: StartingBalances = useMemo(() => ({
+    goals: goals.reduce((sum, g) => sum + Number(g.current_amount), 0),
+    savings_accounts: accounts.filter(a => a.type === 'savings').reduce((sum, a) => sum + a.balance, 0),
+  }), [goals, accounts]);
+
+  const selected = scenarios.find(s => s.id === selectedId) || null;
+  const isDirty = !selected || SCENARIO_FIELDS.some(field => toDraft(selected)[field] !== draft[field]);
+
+  const draftStart = startingBalance(draft, balances);
+  const draftYears = useMemo(() => projectSavings({ ...draft, startingBalance: draftStart }), [draft, draftStart]);
+  const final = draftYears[draftYears.length - 1];
+
+  const simulationGoals: SimulationGoal[] = useMemo(() => {
+    const today = toLocalDateString();
+    return goals.map(g => ({
+      id: g.id,
+      title: g.title,
+      target_amount: Number(g.target_amount),
+      current_amount: Number(g.current_amount),
+      target_date: g.target_date,
+      monthlySaving: savingPace(g, today),
+    }));
+  }, [goals]);
+
+  const simulation = useMonteCarlo(
+    { ...draft, startingBalance: draftStart },
+    { meanReturn: draft.annual_return, volatility, paths, seed },
+    simulationGoals,
+    mode === 'simulation'
+  );
+
+  const bandData = useMemo(() => (simulation.result?.bands || []).map(band => {
+    const value = (amount: number) => (inTodaysDollars ? Math.round(toTodaysDollars(amount, draft.inflation_rate, band.year * 12)) : amount);
+    return { year: band.year, range: [value(band.p10), value(band.p90)], p10: value(band.p10), p50: value(band.p50), p90: value(band.p90) };
+  }), [simulation.result, inTodaysDollars, draft.inflation_rate]);
+  const finalBand = bandData[bandData.length - 1];
+
+  // Saved scenarios, with the one being edited drawn from its unsaved values
+  const lines = useMemo(() => {
+    const saved = scenarios.map((scenario, index) => ({
+      key: scenario.id,
+      name: scenario.name,
+      color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+      years: scenario.id === selectedId
+        ? draftYears
+        : projectSavings({ ...toDraft(scenario), startingBalance: startingBalance(scenario, balances) }),
+    }));
+    return selected ? saved : [...saved, { key: 'draft', name: `${draft.name || 'New scenario'} (unsaved)`, color: DRAFT_COLOR, years: draftYears }];
+  }, [scenarios, selectedId, selected, draft.name, draftYears, balances]);
+
+  const chartData = useMemo(() => {
+    const length = Math.max(...lines.map(line => line.years.length));
+    const points: Record<string, number>[] = [];
+    for (let year = 0; year < length; year++) {
+      const point: Record<string, number> = { year };
+      for (const line of lines) {
+        const projected = line.years[year];
+        if (projected) point[line.key] = inTodaysDollars ? projected.realBalance : projected.balance;
+      }
+      points.push(point);
+    }
+    return points;
+  }, [lines, inTodaysDollars]);
+
+  const update = <K extends keyof NewProjectionScenario>(field: K, value: NewProjectionScenario[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const numberValue = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  const handleSelect = (scenario: ProjectionScenario) => {
+    setSelectedId(scenario.id);
+    setDraft(toDraft(scenario));
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setDraft({ ...draft, name: `Scenario ${scenarios.length + 1}` });
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    const name = draft.name.trim();
+    if (!name) {
+      showToast('Give the scenario a name', 'error');
+      return;
     }
 
-    const fvAll = monthly * ((Math.pow(1 + r / n, totalMonths) - 1) / (r / n));
-    const principalAll = monthly * totalMonths;
-    const interestAll = fvAll - principalAll;
+    try {
+      const saved = selected && !asNew
+        ? await updateScenarioMutation(selected.id, { ...draft, name })
+        : await createScenarioMutation({ ...draft, name });
+      await refetch();
+      setSelectedId(saved.id);
+      setDraft(toDraft(saved));
+      showToast('Scenario saved', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save scenario', 'error');
+    }
+  };
 
-    return { series: out, fv: fvAll, principal: principalAll, interest: interestAll };
-  }, [monthly, rate, years]);
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}"?`)) return;
+
+    try {
+      await deleteScenarioMutation(selected.id);
+      await refetch();
+      const next = scenarios.find(s => s.id !== selected.id);
+      setSelectedId(next ? next.id : null);
+      setDraft(next ? toDraft(next) : DEFAULT_SCENARIO);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete scenario', 'error');
+    }
+  };
 
   const fmt = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 0 });
 
@@ -40,87 +214,317 @@ export default function Projection() {
             <TrendingUp className="h-5 w-5 text-indigo-600" />
             <CardTitle className="text-xl">Long‑Term Savings Projection</CardTitle>
           </div>
-          <Badge variant="secondary">{years} yrs @ {rate}%</Badge>
+          <Badge variant="secondary">{draft.years} yrs @ {draft.annual_return}%</Badge>
         </div>
-        <CardDescription>Estimate future value with monthly contributions</CardDescription>
+        <CardDescription>Project your savings from what you have today, and compare scenarios side by side</CardDescription>
       </CardHeader>
       <CardContent>
+        {/* Scenarios */}
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          {scenarios.map((scenario, index) => (
+            <button
+              key={scenario.id}
+              type="button"
+              onClick={() => handleSelect(scenario)}
+              className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm ${scenario.id === selectedId ? 'border-slate-900 bg-slate-50 font-medium' : 'hover:bg-slate-50'}`}
+            >
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }} />
+              {scenario.name}
+            </button>
+          ))}
+          <Button size="sm" variant="ghost" className="flex items-center gap-1" onClick={handleNew}>
+            <Plus className="h-4 w-4" /> New scenario
+          </Button>
+        </div>
+
         {/* Controls */}
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <div className="rounded-2xl border p-4">
+            <div className="mb-1 text-xs text-slate-500">Scenario name</div>
+            <input
+              className={inputClassName}
+              value={draft.name}
+              maxLength={60}
+              onChange={(e) => update('name', e.target.value)}
+            />
+          </div>
+          <div className="rounded-2xl border p-4">
+            <div className="mb-1 text-xs text-slate-500">Starting balance</div>
+            <select
+              className={inputClassName}
+              value={draft.starting_balance_source}
+              onChange={(e) => update('starting_balance_source', e.target.value as StartingBalanceSource)}
+            >
+              {STARTING_BALANCE_SOURCES.map(source => (
+                <option key={source} value={source}>{STARTING_BALANCE_LABELS[source]}</option>
+              ))}
+            </select>
+            {draft.starting_balance_source === 'custom' ? (
+              <input
+                type="number"
+                className={`${inputClassName} mt-2`}
+                value={draft.starting_balance}
+                min={0}
+                step={100}
+                onChange={(e) => update('starting_balance', Math.max(0, numberValue(e.target.value)))}
+              />
+            ) : (
+              <div className="mt-2 text-sm font-medium">${fmt(draftStart)}</div>
+            )}
+          </div>
           <div className="rounded-2xl border p-4">
             <div className="mb-1 text-xs text-slate-500">Monthly contribution</div>
             <div className="flex items-center gap-2">
               <DollarSign className="h-4 w-4 text-slate-400" />
               <input
                 type="number"
-                className="w-full rounded-xl border bg-white px-3 py-2 text-sm"
-                value={monthly}
+                className={inputClassName}
+                value={draft.monthly_contribution}
                 min={0}
                 step={10}
-                onChange={(e) => setMonthly(parseFloat(e.target.value || '0'))}
+                onChange={(e) => update('monthly_contribution', Math.max(0, numberValue(e.target.value)))}
+              />
+            </div>
+            <div className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+              Rising
+              <input
+                type="number"
+                className="w-16 rounded-lg border bg-white px-2 py-1 text-xs"
+                value={draft.contribution_growth}
+                min={0}
+                max={50}
+                step={0.5}
+                onChange={(e) => update('contribution_growth', Math.min(50, Math.max(0, numberValue(e.target.value))))}
               />
+              % a year
             </div>
           </div>
           <div className="rounded-2xl border p-4">
-            <div className="mb-1 text-xs text-slate-500">Annual interest rate</div>
+            <div className="mb-1 text-xs text-slate-500">Time horizon</div>
+            <input
+              type="range"
+              min={1}
+              max={60}
+              value={draft.years}
+              onChange={(e) => update('years', parseInt(e.target.value))}
+              className="w-full"
+            />
+            <div className="mt-1 text-sm font-medium">{draft.years} years</div>
+          </div>
+          <div className="rounded-2xl border p-4">
+            <div className="mb-1 text-xs text-slate-500">Annual return</div>
             <div className="flex items-center gap-2">
               <input
                 type="number"
-                className="w-full rounded-xl border bg-white px-3 py-2 text-sm"
-                value={rate}
+                className={inputClassName}
+                value={draft.annual_return}
+                min={-50}
+                max={50}
+                step={0.25}
+                onChange={(e) => update('annual_return', Math.min(50, Math.max(-50, numberValue(e.target.value))))}
+              />
+              <span className="text-sm text-slate-500">%</span>
+            </div>
+          </div>
+          <div className="rounded-2xl border p-4">
+            <div className="mb-1 text-xs text-slate-500">Inflation</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                className={inputClassName}
+                value={draft.inflation_rate}
                 min={0}
-                max={15}
+                max={50}
                 step={0.25}
-                onChange={(e) => setRate(parseFloat(e.target.value || '0'))}
+                onChange={(e) => update('inflation_rate', Math.min(50, Math.max(0, numberValue(e.target.value))))}
               />
               <span className="text-sm text-slate-500">%</span>
             </div>
           </div>
           <div className="rounded-2xl border p-4">
-            <div className="mb-1 text-xs text-slate-500">Time horizon (30–50 yrs)</div>
-            <input
-              type="range"
-              min={30}
-              max={50}
-              value={years}
-              onChange={(e) => setYears(parseInt(e.target.value))}
-              className="w-full"
-            />
-            <div className="mt-1 text-sm font-medium">{years} years</div>
+            <div className="mb-1 text-xs text-slate-500">Tax on returns</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                className={inputClassName}
+                value={draft.tax_rate}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(e) => update('tax_rate', Math.min(100, Math.max(0, numberValue(e.target.value))))}
+              />
+              <span className="text-sm text-slate-500">%</span>
+            </div>
+          </div>
+          <div className="flex flex-col justify-center gap-2 rounded-2xl border p-4">
+            <Button size="sm" onClick={() => handleSave(false)} disabled={saving || !isDirty}>
+              {saving ? 'Saving...' : selected ? 'Save changes' : 'Save scenario'}
+            </Button>
+            {selected && (
+              <div className="flex gap-2">
+                <Button size="sm" variant="secondary" className="flex-1" onClick={() => handleSave(true)} disabled={saving}>
+                  Save as new
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleDelete} disabled={saving} title="Delete scenario">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Chart & KPIs */}
         <div className="mt-5 grid grid-cols-1 gap-6 md:grid-cols-3">
-          <div className="md:col-span-2 h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={series} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="year" tickFormatter={(v) => `Y${v}`} />
-                <YAxis tickFormatter={(v) => `$${fmt(v as number / 1000)}k`}/>
-                <Tooltip formatter={(v) => `$${fmt(v as number)}`} labelFormatter={(l) => `Year ${l}`} />
-                <Legend />
-                <Line type="monotone" dataKey="principal" stroke="#3b82f6" strokeWidth={3} dot={false} name="Principal" />
-                <Line type="monotone" dataKey="interest" stroke="#10b981" strokeWidth={3} dot={false} name="Interest" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-          <div className="space-y-3">
-            <div className="rounded-2xl border p-4">
-              <div className="text-xs text-slate-500">Future Value</div>
-              <div className="text-2xl font-bold">${fmt(fv)}</div>
-            </div>
-            <div className="rounded-2xl border p-4">
-              <div className="text-xs text-slate-500">Total Principal Invested</div>
-              <div className="text-xl font-semibold">${fmt(principal)}</div>
+          <div className="md:col-span-2">
+            <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex rounded-xl border p-0.5 text-xs">
+                {(['projection', 'simulation'] as ProjectionMode[]).map(m => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => setMode(m)}
+                    className={`rounded-lg px-3 py-1 ${mode === m ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {m === 'projection' ? 'Compare scenarios' : 'Simulate returns'}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input type="checkbox" checked={inTodaysDollars} onChange={(e) => setInTodaysDollars(e.target.checked)} />
+                Show in today's dollars
+              </label>
             </div>
-            <div className="rounded-2xl border p-4">
-              <div className="text-xs text-slate-500">Total Interest Earned</div>
-              <div className="text-xl font-semibold">${fmt(interest)}</div>
+            {mode === 'simulation' && (
+              <div className="mb-2 flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                <label className="flex items-center gap-2">
+                  Volatility
+                  <input
+                    type="number"
+                    className="w-16 rounded-lg border bg-white px-2 py-1 text-xs"
+                    value={volatility}
+                    min={0}
+                    max={60}
+                    step={1}
+                    onChange={(e) => setVolatility(Math.min(60, Math.max(0, numberValue(e.target.value))))}
+                  />
+                  %
+                </label>
+                <label className="flex items-center gap-2">
+                  Paths
+                  <select
+                    className="rounded-lg border bg-white px-2 py-1 text-xs"
+                    value={paths}
+                    onChange={(e) => setPaths(parseInt(e.target.value))}
+                  >
+                    {SIMULATION_PATH_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option.toLocaleString()}</option>
+                    ))}
+                  </select>
+                </label>
+                <Button size="sm" variant="ghost" className="flex items-center gap-1" onClick={() => setSeed(s => s + 1)} disabled={simulation.running}>
+                  <RefreshCw className="h-3.5 w-3.5" /> Run again
+                </Button>
+                {simulation.running && <LoaderCircle className="h-4 w-4 animate-spin text-slate-400" />}
+              </div>
+            )}
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                {mode === 'projection' ? (
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" tickFormatter={(v) => `Y${v}`} />
+                    <YAxis tickFormatter={(v) => `$${fmt(v as number / 1000)}k`}/>
+                    <Tooltip formatter={(v) => `$${fmt(v as number)}`} labelFormatter={(l) => `Year ${l}`} />
+                    <Legend />
+                    {lines.map(line => (
+                      <Line
+                        key={line.key}
+                        type="monotone"
+                        dataKey={line.key}
+                        stroke={line.color}
+                        strokeWidth={line.key === (selectedId || 'draft') ? 3 : 2}
+                        strokeDasharray={line.key === 'draft' ? '5 5' : undefined}
+                        dot={false}
+                        name={line.name}
+                      />
+                    ))}
+                  </LineChart>
+                ) : (
+                  <ComposedChart data={bandData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" tickFormatter={(v) => `Y${v}`} />
+                    <YAxis tickFormatter={(v) => `$${fmt(v as number / 1000)}k`}/>
+                    <Tooltip
+                      formatter={(v) => (Array.isArray(v) ? `$${fmt(v[0] as number)} – $${fmt(v[1] as number)}` : `$${fmt(v as number)}`)}
+                      labelFormatter={(l) => `Year ${l}`}
+                    />
+                    <Legend />
+                    <Area type="monotone" dataKey="range" stroke="none" fill="#6366f1" fillOpacity={0.15} name="10th–90th percentile" />
+                    <Line type="monotone" dataKey="p90" stroke="#6366f1" strokeWidth={1} strokeDasharray="4 4" dot={false} name="90th percentile" />
+                    <Line type="monotone" dataKey="p50" stroke="#4f46e5" strokeWidth={3} dot={false} name="Median" />
+                    <Line type="monotone" dataKey="p10" stroke="#6366f1" strokeWidth={1} strokeDasharray="4 4" dot={false} name="10th percentile" />
+                  </ComposedChart>
+                )}
+              </ResponsiveContainer>
             </div>
+            {mode === 'simulation' && simulation.error && (
+              <p className="mt-2 text-sm text-rose-600">{simulation.error}</p>
+            )}
           </div>
+          {mode === 'projection' ? (
+            <div className="space-y-3">
+              <div className="rounded-2xl border p-4">
+                <div className="text-xs text-slate-500">Future Value</div>
+                <div className="text-2xl font-bold">${fmt(final.balance)}</div>
+              </div>
+              <div className="rounded-2xl border p-4">
+                <div className="text-xs text-slate-500">In Today's Dollars</div>
+                <div className="text-xl font-semibold">${fmt(final.realBalance)}</div>
+              </div>
+              <div className="rounded-2xl border p-4">
+                <div className="text-xs text-slate-500">Total Invested</div>
+                <div className="text-xl font-semibold">${fmt(final.contributed)}</div>
+              </div>
+              <div className="rounded-2xl border p-4">
+                <div className="text-xs text-slate-500">Growth After Tax</div>
+                <div className="text-xl font-semibold">${fmt(final.growth)}</div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="rounded-2xl border p-4">
+                <div className="text-xs text-slate-500">Median After {draft.years} Years</div>
+                <div className="text-2xl font-bold">{finalBand ? `$${fmt(finalBand.p50)}` : '—'}</div>
+                {finalBand && (
+                  <div className="mt-1 text-xs text-slate-500">
+                    1 in 10 paths end below ${fmt(finalBand.p10)}, 1 in 10 above ${fmt(finalBand.p90)}
+                  </div>
+                )}
+              </div>
+              <div className="rounded-2xl border p-4">
+                <div className="mb-2 text-xs text-slate-500">Chance of Reaching Each Goal on Time</div>
+                {!simulation.result ? (
+                  <div className="text-sm text-slate-400">Simulating…</div>
+                ) : simulation.result.goals.length === 0 ? (
+                  <div className="text-sm text-slate-500">No goals yet.</div>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {simulation.result.goals.map(goal => (
+                      <li key={goal.goalId} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate text-slate-700">{goal.title}</span>
+                        <span className={`font-semibold ${successClassName(goal.probability)}`}>{Math.round(goal.probability * 100)}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="mt-2 text-xs text-slate-400">
+                  Assumes each goal's savings are invested on these terms and it keeps getting its average monthly saving so far.
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
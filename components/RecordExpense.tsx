@@ -1,10 +1,15 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
 import { Input } from './ui/Input';
 import { Button } from './ui/Button';
-import { Wand2, LoaderCircle, Home, Utensils, Car, Receipt, Ticket, Zap, HeartPulse, ShoppingBag, Banknote, Shield, Package } from 'lucide-react';
-import { extractExpenseDetails } from '../lib/services/geminiService';
+import { Wand2, LoaderCircle, Home, Utensils, Car, Receipt, Ticket, Zap, HeartPulse, ShoppingBag, Banknote, Shield, Package, Wallet, Upload, Pencil, Trash2 } from 'lucide-react';
+import { extractExpenseDetails } from '../lib/services/aiService';
 import { useAppContext } from '../context/AppContext';
+import { Transaction, TransactionKind } from '../types';
+import { useDeleteTransaction } from '../hooks/useTransactions';
+import ImportTransactions from './ImportTransactions';
+import EditTransaction from './EditTransaction';
 
 const categoryIcons: { [key: string]: React.ElementType } = {
   'Housing': Home,
@@ -17,6 +22,7 @@ const categoryIcons: { [key: string]: React.ElementType } = {
   'Healthcare': HeartPulse,
   'Personal': ShoppingBag,
   'Insurance': Shield,
+  'Income': Wallet,
   'Default': Package
 };
 
@@ -24,16 +30,33 @@ export default function RecordExpense() {
   const { 
     categories, 
     transactions, 
+    accounts,
     addExpense, 
+    addIncome,
     addingExpense, 
     addExpenseError,
     categoriesLoading,
     transactionsLoading 
   } = useAppContext();
   
+  const [mode, setMode] = useState<TransactionKind>('expense');
   const [expenseInput, setExpenseInput] = useState('');
+  const [incomeDescription, setIncomeDescription] = useState('');
+  const [incomeAmount, setIncomeAmount] = useState('');
+  // null until the user or the default below picks an account; '' means no account
+  const [accountId, setAccountId] = useState<string | null>(null);
   const [aiProcessing, setAiProcessing] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const { deleteTransactionMutation, deleting, error: deleteError } = useDeleteTransaction();
+
+  // Default to the first account once accounts load
+  useEffect(() => {
+    if (accountId === null && accounts.length > 0) {
+      setAccountId(accounts[0].id);
+    }
+  }, [accounts, accountId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,7 +70,7 @@ export default function RecordExpense() {
       const expenseDetails = await extractExpenseDetails(expenseInput, categoryNames);
       
       // Persist transaction to Supabase
-      await addExpense(expenseDetails);
+      await addExpense({ ...expenseDetails, accountId: accountId || null });
       
       setExpenseInput('');
     } catch (err: any) {
@@ -57,46 +80,163 @@ export default function RecordExpense() {
     }
   };
 
+  const handleIncomeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!incomeDescription.trim() || !incomeAmount || addingExpense) return;
+
+    const amount = parseFloat(incomeAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setAiError('Please enter a valid income amount.');
+      return;
+    }
+
+    setAiError(null);
+
+    try {
+      await addIncome({ description: incomeDescription.trim(), amount, accountId: accountId || null });
+      setIncomeDescription('');
+      setIncomeAmount('');
+    } catch (err: any) {
+      setAiError(err.message || "An unexpected error occurred.");
+    }
+  };
+
+  const handleDelete = async (transaction: Transaction) => {
+    if (!confirm(`Delete "${transaction.description}"?`)) return;
+
+    try {
+      await deleteTransactionMutation(transaction.id);
+    } catch (err) {
+      console.error('Failed to delete transaction:', err);
+    }
+  };
+
   const isLoading = aiProcessing || addingExpense;
-  const error = aiError || addExpenseError;
+  const error = aiError || addExpenseError || deleteError;
 
   const getIcon = (categoryName: string) => {
     return categoryIcons[categoryName] || categoryIcons['Default'];
   };
 
   return (
+    <>
     <Card className="h-full">
       <CardHeader className="pb-2">
-        <div className="flex items-center gap-2">
-          <Wand2 className="h-5 w-5 text-indigo-500" />
-          <CardTitle className="text-xl">AI Expense Recorder</CardTitle>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-indigo-500" />
+            <CardTitle className="text-xl">AI Expense Recorder</CardTitle>
+          </div>
+          <Button size="sm" variant="ghost" className="h-8 text-slate-500" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-1 h-4 w-4" /> Import
+          </Button>
         </div>
-        <CardDescription>Describe your expense and let AI handle it</CardDescription>
+        <CardDescription>
+          {mode === 'expense' ? 'Describe your expense and let AI handle it' : 'Record a paycheck or other income'}
+        </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <Input 
-            placeholder="e.g., $55.25 for groceries at Whole Foods" 
-            value={expenseInput}
-            onChange={(e) => {
-              setExpenseInput(e.target.value)
-              setAiError(null)
-            }}
-            disabled={aiProcessing || addingExpense}
-            required
-          />
-          <Button type="submit" className="w-full" disabled={isLoading || !expenseInput.trim()}>
-            {isLoading ? (
-              <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Processing...</>
-            ) : (
-              "Add Expense"
-            )}
-          </Button>
-        </form>
+        <div className="mb-4 grid grid-cols-2 gap-1 rounded-lg bg-slate-100 p-1">
+          {(['expense', 'income'] as TransactionKind[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => {
+                setMode(kind);
+                setAiError(null);
+              }}
+              className={`rounded-md px-3 py-1.5 text-sm font-medium capitalize transition-colors ${
+                mode === kind ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'
+              }`}
+              aria-pressed={mode === kind}
+            >
+              {kind}
+            </button>
+          ))}
+        </div>
+        {accounts.length > 0 && (
+          <div className="mb-4">
+            <label htmlFor="transaction-account" className="mb-1 block text-xs font-medium text-slate-500">
+              {mode === 'income' ? 'Deposit to' : 'Paid from'}
+            </label>
+            <select
+              id="transaction-account"
+              value={accountId ?? ''}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="flex h-9 w-full rounded-md border border-slate-200 bg-white px-3 text-sm text-slate-900"
+            >
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+              <option value="">No account</option>
+            </select>
+          </div>
+        )}
+        {mode === 'income' ? (
+          <form onSubmit={handleIncomeSubmit} className="space-y-4">
+            <Input
+              placeholder="e.g., Paycheck from Acme Corp"
+              value={incomeDescription}
+              onChange={(e) => {
+                setIncomeDescription(e.target.value)
+                setAiError(null)
+              }}
+              disabled={addingExpense}
+              required
+            />
+            <div className="relative">
+              <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+              <Input
+                type="number"
+                placeholder="e.g., 2500"
+                value={incomeAmount}
+                onChange={(e) => {
+                  setIncomeAmount(e.target.value)
+                  setAiError(null)
+                }}
+                disabled={addingExpense}
+                required
+                min="0.01"
+                step="0.01"
+                className="pl-7"
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={addingExpense || !incomeDescription.trim() || !incomeAmount}>
+              {addingExpense ? (
+                <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Saving...</>
+              ) : (
+                "Add Income"
+              )}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input 
+              placeholder="e.g., $55.25 for groceries at Whole Foods" 
+              value={expenseInput}
+              onChange={(e) => {
+                setExpenseInput(e.target.value)
+                setAiError(null)
+              }}
+              disabled={aiProcessing || addingExpense}
+              required
+            />
+            <Button type="submit" className="w-full" disabled={isLoading || !expenseInput.trim()}>
+              {isLoading ? (
+                <><LoaderCircle className="mr-2 h-4 w-4 animate-spin" /> Processing...</>
+              ) : (
+                "Add Expense"
+              )}
+            </Button>
+          </form>
+        )}
         {error && <p className="mt-2 text-center text-sm text-rose-600">{error}</p>}
         
         <div className="mt-6">
-          <h4 className="text-sm font-medium text-slate-600 mb-2">Recent Transactions</h4>
+          <div className="mb-2 flex items-center justify-between">
+            <h4 className="text-sm font-medium text-slate-600">Recent Transactions</h4>
+            <Link href="/transactions" className="text-xs font-medium text-sky-600 hover:text-sky-700">View all</Link>
+          </div>
           <div className="h-[15.5rem] space-y-3 overflow-y-auto pr-2">
             {transactionsLoading ? (
               <div className="flex items-center justify-center h-full">
@@ -110,18 +250,48 @@ export default function RecordExpense() {
               transactions.map((t, i) => {
                 const Icon = getIcon(t.category_name);
                 const catDetails = categories.find(c => c.name === t.category_name);
+                const isIncome = t.kind === 'income';
+                // Optimistic rows don't exist in the database yet
+                const isSaved = !t.id.startsWith('temp-');
                 return (
-                  <div key={t.id || i} className="flex items-center justify-between">
+                  <div key={t.id || i} className="group flex items-center justify-between">
                     <div className="flex items-center gap-3 overflow-hidden">
                       <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full" style={{ backgroundColor: catDetails ? `${catDetails.color}20` : '#e2e8f0' }}>
                         <Icon className="h-4 w-4" style={{ color: catDetails?.color }}/>
                       </div>
                       <div className="overflow-hidden">
                         <p className="truncate text-sm font-medium text-slate-800">{t.description}</p>
-                        <p className="text-xs text-slate-500">{t.category_name}</p>
+                        <p className="truncate text-xs text-slate-500">
+                          {t.category_name} · {new Date(`${t.occurred_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        </p>
                       </div>
                     </div>
-                    <p className="flex-shrink-0 pl-2 text-sm font-semibold text-slate-900">-${t.amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
+                    <div className="flex flex-shrink-0 items-center gap-1 pl-2">
+                      <p className={`text-sm font-semibold ${isIncome ? 'text-emerald-600' : 'text-slate-900'}`}>{isIncome ? '+' : '-'}${t.amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
+                      {isSaved && (
+                        <div className="flex transition-opacity sm:opacity-0 sm:group-hover:opacity-100 sm:focus-within:opacity-100">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-slate-400 hover:text-slate-700"
+                            onClick={() => setEditingTransaction(t)}
+                            aria-label={`Edit ${t.description}`}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-slate-400 hover:text-rose-600"
+                            onClick={() => handleDelete(t)}
+                            disabled={deleting}
+                            aria-label={`Delete ${t.description}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 );
               })
@@ -130,5 +300,8 @@ export default function RecordExpense() {
         </div>
       </CardContent>
     </Card>
+    <ImportTransactions open={isImportOpen} onOpenChange={setIsImportOpen} />
+    <EditTransaction transaction={editingTransaction} onClose={() => setEditingTransaction(null)} />
+    </>
   );
 }
\ No newline at end of file
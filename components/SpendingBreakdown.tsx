@@ -1,12 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
 import { Progress } from './ui/Progress';
-import { List, Edit2, Check, X } from 'lucide-react';
+import { List, Edit2, Check, X, ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
 import { SpendingCategory } from '../types';
 import { Skeleton } from './ui/Skeleton';
 import { Input } from './ui/Input';
 import { Button } from './ui/Button';
 import { useUpdateCategory } from '../hooks/useCategories';
+import { useBudgetPeriods, useSetCategoryBudget } from '../hooks/useBudgets';
+import { useAppContext } from '../context/AppContext';
+import { addMonths, BudgetPeriod, toMonthKey } from '../lib/supabase/services/budgets';
 
 interface SpendingBreakdownProps {
   categories: SpendingCategory[];
@@ -30,14 +33,32 @@ const SpendingBreakdownSkeleton = () => {
   );
 };
 
+const formatMonth = (month: string, style: 'long' | 'short' = 'long') => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: style, year: 'numeric' });
+};
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
 export default function SpendingBreakdown({ categories, loading = false, error = null }: SpendingBreakdownProps) {
+  const { transactions } = useAppContext();
+  const [month, setMonth] = useState(() => toMonthKey(new Date()));
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
-  const { updateCategoryMutation, updating } = useUpdateCategory();
+  const { updateCategoryMutation, updating: updatingCategory } = useUpdateCategory();
+  const { setBudgetMutation, saving } = useSetCategoryBudget();
+  const { periods, loading: periodsLoading, error: periodsError, refetch } = useBudgetPeriods(categories, month);
+  const updating = updatingCategory || saving;
+
+  // Recompute spent amounts whenever the transaction list changes
+  useEffect(() => {
+    refetch();
+  }, [transactions, refetch]);
 
   const getBarColor = (value: number, budget: number): string => {
-    if (budget === 0 && value > 0) return 'bg-red-500';
-    if (budget === 0) return 'bg-slate-300';
+    if (budget <= 0 && value > 0) return 'bg-red-500';
+    if (budget <= 0) return 'bg-slate-300';
     const percentage = (value / budget) * 100;
     if (percentage > 100) return 'bg-red-500';
     if (percentage > 90) return 'bg-orange-500';
@@ -45,9 +66,9 @@ export default function SpendingBreakdown({ categories, loading = false, error =
     return 'bg-green-500';
   };
 
-  const handleEditClick = (category: SpendingCategory) => {
-    setEditingId(category.id);
-    setEditValue(category.budget.toString());
+  const handleEditClick = (period: BudgetPeriod) => {
+    setEditingId(period.category.id);
+    setEditValue(period.budget.toString());
   };
 
   const handleSave = async (categoryId: string) => {
@@ -58,7 +79,8 @@ export default function SpendingBreakdown({ categories, loading = false, error =
     }
 
     try {
-      await updateCategoryMutation(categoryId, { budget: newBudget });
+      await setBudgetMutation(categoryId, month, newBudget);
+      await refetch();
       setEditingId(null);
       setEditValue('');
     } catch (err) {
@@ -71,6 +93,14 @@ export default function SpendingBreakdown({ categories, loading = false, error =
     setEditValue('');
   };
 
+  const handleToggleRollover = async (category: SpendingCategory) => {
+    try {
+      await updateCategoryMutation(category.id, { rollover: !category.rollover });
+    } catch (err) {
+      console.error('Failed to update rollover:', err);
+    }
+  };
+
   return (
     <Card className="h-full">
       <CardHeader className="pb-2">
@@ -79,40 +109,63 @@ export default function SpendingBreakdown({ categories, loading = false, error =
             <List className="h-5 w-5 text-slate-500" />
             <CardTitle className="text-xl">Spending Breakdown</CardTitle>
           </div>
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setMonth(m => addMonths(m, -1))}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-20 text-center text-sm font-medium text-slate-700">{formatMonth(month, 'short')}</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setMonth(m => addMonths(m, 1))}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
-        <CardDescription>Spending vs. Budget (Jun)</CardDescription>
+        <CardDescription>Spending vs. Budget ({formatMonth(month)})</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="h-64 w-full space-y-4 overflow-y-auto pr-2">
-          {loading ? (
+          {loading || periodsLoading ? (
             <SpendingBreakdownSkeleton />
-          ) : error ? (
+          ) : error || periodsError ? (
             <div className="flex h-full items-center justify-center">
-              <p className="text-sm text-red-600">{error}</p>
+              <p className="text-sm text-red-600">{error || periodsError}</p>
             </div>
-          ) : categories.length === 0 ? (
+          ) : periods.length === 0 ? (
             <div className="flex h-full items-center justify-center">
               <p className="text-sm text-slate-500">No categories yet</p>
             </div>
           ) : (
-            categories.map((cat, index) => {
-              const percentage = cat.budget > 0 ? Math.round((cat.value / cat.budget) * 100) : 0;
+            periods.map(period => {
+              const cat = period.category;
+              const percentage = period.available > 0 ? Math.round((period.spent / period.available) * 100) : 0;
               const isEditing = editingId === cat.id;
               
               return (
-                <div key={index}>
+                <div key={cat.id}>
                   <div className="mb-1 flex justify-between items-center text-sm gap-2">
                     <span className="font-medium text-slate-700">{cat.name}</span>
                     
                     {isEditing ? (
                       <div className="flex items-center gap-1">
-                        <span className="text-slate-500">${cat.value.toLocaleString()} /</span>
+                        <span className="text-slate-500">{formatMoney(period.spent)} /</span>
                         <Input
                           type="number"
                           value={editValue}
                           onChange={(e) => setEditValue(e.target.value)}
                           className="h-7 w-20 px-2 text-sm"
                           placeholder="Budget"
+                          title={`Budget from ${formatMonth(month)} onward`}
                           min="0"
                           step="0.01"
                           autoFocus
@@ -143,13 +196,24 @@ export default function SpendingBreakdown({ categories, loading = false, error =
                     ) : (
                       <div className="flex items-center gap-2">
                         <span className="text-slate-500">
-                          ${cat.value.toLocaleString()} / <span className="font-medium text-slate-600">${cat.budget.toLocaleString()}</span>
+                          {formatMoney(period.spent)} / <span className="font-medium text-slate-600">{formatMoney(period.available)}</span>
                         </span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className={`h-6 w-6 hover:bg-slate-100 ${cat.rollover ? 'text-indigo-600 hover:text-indigo-700' : 'text-slate-400 hover:text-slate-700'}`}
+                          onClick={() => handleToggleRollover(cat)}
+                          disabled={updating}
+                          aria-pressed={cat.rollover}
+                          title={cat.rollover ? 'Rollover on: unspent budget carries into next month' : 'Turn on rollover'}
+                        >
+                          <Repeat className="h-3 w-3" />
+                        </Button>
                         <Button
                           size="icon"
                           variant="ghost"
                           className="h-6 w-6 text-slate-400 hover:text-slate-700 hover:bg-slate-100"
-                          onClick={() => handleEditClick(cat)}
+                          onClick={() => handleEditClick(period)}
                         >
                           <Edit2 className="h-3 w-3" />
                         </Button>
@@ -158,10 +222,15 @@ export default function SpendingBreakdown({ categories, loading = false, error =
                   </div>
                   <Progress 
                     value={percentage} 
-                    indicatorClassName={getBarColor(cat.value, cat.budget)}
+                    indicatorClassName={getBarColor(period.spent, period.available)}
                     className="h-2"
                     aria-label={`${cat.name} spending, ${percentage}% of budget`}
                   />
+                  {period.carriedOver !== 0 && (
+                    <p className={`mt-1 text-xs ${period.carriedOver > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {period.carriedOver > 0 ? '+' : ''}{formatMoney(period.carriedOver)} carried over from earlier months
+                    </p>
+                  )}
                 </div>
               );
             })
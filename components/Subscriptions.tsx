@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from './ui/Sheet';
+import { Repeat, Pause, Play, Pencil, Trash2, Sparkles, X } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { useUser } from '../hooks/useAuth';
+import { useRecurringTransactions, useRecurringSuggestions, useSaveRecurringTransaction } from '../hooks/useRecurring';
+import { RecurringSuggestion } from '../lib/recurring/detection';
+import { CADENCE_LABELS, RECURRENCE_CADENCES, monthlyCost, nextOccurrenceOnOrAfter } from '../lib/recurring/schedule';
+import { INCOME_CATEGORY_NAME, toLocalDateString } from '../lib/supabase/services/transactions';
+import { RecurrenceCadence, RecurringTransaction, TransactionKind } from '../types';
+
+const DISMISSED_KEY_PREFIX = 'finsmart_dismissed_recurring_';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function Subscriptions() {
+  const { user } = useUser();
+  const { categories, accounts, transactions } = useAppContext();
+  const { recurring, loading, error, refetch } = useRecurringTransactions();
+  const { suggestions } = useRecurringSuggestions(recurring);
+  const { createRecurringMutation, updateRecurringMutation, deleteRecurringMutation, saving, error: saveError } = useSaveRecurringTransaction();
+
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringTransaction | null>(null);
+  const [kind, setKind] = useState<TransactionKind>('expense');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryName, setCategoryName] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [cadence, setCadence] = useState<RecurrenceCadence>('monthly');
+  const [nextDue, setNextDue] = useState('');
+
+  // Recorded occurrences move next_due forward; suggestions follow the reloaded rules
+  useEffect(() => {
+    refetch();
+  }, [transactions, refetch]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    try {
+      setDismissed(JSON.parse(localStorage.getItem(`${DISMISSED_KEY_PREFIX}${user.id}`) || '[]'));
+    } catch (err) {
+      console.error('Error parsing dismissed suggestions:', err);
+    }
+  }, [user?.id]);
+
+  const activeExpenses = recurring.filter(r => r.active && r.kind === 'expense');
+  const activeIncome = recurring.filter(r => r.active && r.kind === 'income');
+  const monthlyExpenses = activeExpenses.reduce((sum, r) => sum + monthlyCost(r.amount, r.cadence), 0);
+  const monthlyIncome = activeIncome.reduce((sum, r) => sum + monthlyCost(r.amount, r.cadence), 0);
+  const visibleSuggestions = suggestions.filter(s => !dismissed.includes(s.key));
+  const sortedRules = [...recurring].sort((a, b) =>
+    Number(b.active) - Number(a.active) || a.next_due.localeCompare(b.next_due)
+  );
+
+  const openSheet = (rule: RecurringTransaction | null) => {
+    setEditing(rule);
+    setKind(rule?.kind ?? 'expense');
+    setDescription(rule?.description ?? '');
+    setAmount(rule ? rule.amount.toString() : '');
+    setCategoryName(rule?.kind === 'expense' ? rule.category_name : categories[0]?.name ?? '');
+    setAccountId(rule ? rule.account_id || '' : accounts[0]?.id ?? '');
+    setCadence(rule?.cadence ?? 'monthly');
+    setNextDue(rule?.next_due ?? toLocalDateString());
+    setIsSheetOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (!description.trim() || isNaN(parsedAmount) || parsedAmount <= 0 || !nextDue) return;
+
+    const category = kind === 'expense' ? categories.find(c => c.name === categoryName) : undefined;
+    const fields = {
+      description: description.trim(),
+      amount: parsedAmount,
+      kind,
+      category_name: kind === 'expense' ? categoryName : INCOME_CATEGORY_NAME,
+      category_id: category?.id || null,
+      account_id: accountId || null,
+      cadence,
+      next_due: nextDue,
+    };
+
+    try {
+      if (editing) {
+        // A new schedule counts its occurrences from the new next due date
+        const rescheduled = cadence !== editing.cadence || nextDue !== editing.next_due;
+        await updateRecurringMutation(editing.id, rescheduled ? { ...fields, start_date: nextDue } : fields);
+      } else {
+        await createRecurringMutation({ ...fields, start_date: nextDue });
+      }
+      setIsSheetOpen(false);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to save recurring transaction:', err);
+    }
+  };
+
+  const handleToggleActive = async (rule: RecurringTransaction) => {
+    try {
+      // Resuming skips the occurrences missed while paused
+      const today = toLocalDateString();
+      await updateRecurringMutation(rule.id, rule.active || rule.next_due >= today
+        ? { active: !rule.active }
+        : { active: true, next_due: nextOccurrenceOnOrAfter(rule.start_date, rule.cadence, today) });
+      await refetch();
+    } catch (err) {
+      console.error('Failed to update recurring transaction:', err);
+    }
+  };
+
+  const handleDelete = async (rule: RecurringTransaction) => {
+    if (!confirm(`Stop tracking "${rule.description}"? Transactions it already recorded will be kept.`)) return;
+
+    try {
+      await deleteRecurringMutation(rule.id);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to delete recurring transaction:', err);
+    }
+  };
+
+  const handleTrack = async (suggestion: RecurringSuggestion) => {
+    try {
+      await createRecurringMutation({
+        description: suggestion.description,
+        amount: suggestion.amount,
+        kind: suggestion.kind,
+        category_name: suggestion.category_name,
+        category_id: suggestion.category_id,
+        account_id: suggestion.account_id,
+        cadence: suggestion.cadence,
+        // Anchor on the last real charge so month-end dates stay put
+        start_date: suggestion.lastDate,
+        next_due: suggestion.nextDue,
+      });
+      await refetch();
+    } catch (err) {
+      console.error('Failed to track recurring transaction:', err);
+    }
+  };
+
+  const handleDismiss = (key: string) => {
+    const next = [...dismissed, key];
+    setDismissed(next);
+    if (user?.id) localStorage.setItem(`${DISMISSED_KEY_PREFIX}${user.id}`, JSON.stringify(next));
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-sky-600" />
+            <CardTitle className="text-xl">Subscriptions & Recurring</CardTitle>
+          </div>
+          <CardDescription>Bills, subscriptions and paychecks recorded automatically when they come due</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(error || saveError) && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-800">{error || saveError}</div>
+          )}
+
+          <div className="mb-4 grid grid-cols-2 gap-3">
+            <div className="rounded-xl bg-slate-50/80 p-4">
+              <p className="text-xs text-slate-500">Recurring costs</p>
+              <p className="text-lg font-bold text-slate-900">{formatCurrency(monthlyExpenses)}<span className="text-sm font-normal text-slate-500">/mo</span></p>
+              <p className="text-xs text-slate-500">{activeExpenses.length} active</p>
+            </div>
+            <div className="rounded-xl bg-slate-50/80 p-4">
+              <p className="text-xs text-slate-500">Recurring income</p>
+              <p className="text-lg font-bold text-emerald-600">{formatCurrency(monthlyIncome)}<span className="text-sm font-normal text-slate-500">/mo</span></p>
+              <p className="text-xs text-slate-500">{activeIncome.length} active</p>
+            </div>
+          </div>
+
+          {loading && recurring.length === 0 ? (
+            <div className="py-8 text-center text-sm text-slate-500">Loading recurring transactions...</div>
+          ) : recurring.length === 0 ? (
+            <div className="py-6 text-center text-sm text-slate-500">
+              <p>Nothing recurring yet.</p>
+              <p className="mt-1">Add rent, subscriptions or your salary once and they'll be recorded for you.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sortedRules.map(rule => (
+                <div key={rule.id} className={`group flex items-center justify-between rounded-lg p-2 hover:bg-slate-50 ${rule.active ? '' : 'opacity-60'}`}>
+                  <div className="overflow-hidden">
+                    <p className="truncate text-sm font-medium text-slate-800">{rule.description}</p>
+                    <p className="truncate text-xs text-slate-500">
+                      {CADENCE_LABELS[rule.cadence]} · {rule.active ? `next ${formatDate(rule.next_due)}` : 'Paused'} · {rule.category_name}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 items-center gap-1 pl-2">
+                    <div className="text-right">
+                      <p className={`text-sm font-semibold ${rule.kind === 'income' ? 'text-emerald-600' : 'text-slate-900'}`}>
+                        {rule.kind === 'income' ? '+' : '-'}{formatCurrency(rule.amount)}
+                      </p>
+                      {rule.cadence !== 'monthly' && (
+                        <p className="text-xs text-slate-400">≈ {formatCurrency(monthlyCost(rule.amount, rule.cadence))}/mo</p>
+                      )}
+                    </div>
+                    <div className="flex transition-opacity sm:opacity-0 sm:group-hover:opacity-100 sm:focus-within:opacity-100">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-slate-400 hover:text-slate-700"
+                        onClick={() => handleToggleActive(rule)}
+                        disabled={saving}
+                        aria-label={`${rule.active ? 'Pause' : 'Resume'} ${rule.description}`}
+                      >
+                        {rule.active ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-slate-400 hover:text-slate-700"
+                        onClick={() => openSheet(rule)}
+                        aria-label={`Edit ${rule.description}`}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-slate-400 hover:text-rose-600"
+                        onClick={() => handleDelete(rule)}
+                        disabled={saving}
+                        aria-label={`Delete ${rule.description}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {visibleSuggestions.length > 0 && (
+            <div className="mt-6">
+              <div className="mb-2 flex items-center gap-2">
+                <Sparkles className="h-4 w-4 text-amber-500" />
+                <h4 className="text-sm font-medium text-slate-600">Looks recurring</h4>
+              </div>
+              <div className="space-y-2">
+                {visibleSuggestions.map(suggestion => (
+                  <div key={suggestion.key} className="flex items-center justify-between rounded-lg border border-dashed border-slate-200 p-2">
+                    <div className="overflow-hidden">
+                      <p className="truncate text-sm font-medium text-slate-800">{suggestion.description}</p>
+                      <p className="truncate text-xs text-slate-500">
+                        {CADENCE_LABELS[suggestion.cadence]} · seen {suggestion.occurrences} times · next {formatDate(suggestion.nextDue)}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-1 pl-2">
+                      <p className="text-sm font-semibold text-slate-900">{formatCurrency(suggestion.amount)}</p>
+                      <Button size="sm" variant="secondary" onClick={() => handleTrack(suggestion)} disabled={saving}>
+                        Track
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-slate-400 hover:text-slate-700"
+                        onClick={() => handleDismiss(suggestion.key)}
+                        aria-label={`Dismiss ${suggestion.description}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button className="mt-4 w-full" onClick={() => openSheet(null)} disabled={saving}>
+            Add Recurring Transaction
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
+        <SheetContent className="flex w-full flex-col p-0 sm:max-w-md">
+          <SheetHeader className="border-b px-6 py-4">
+            <SheetTitle>{editing ? 'Edit Recurring Transaction' : 'Add a Recurring Transaction'}</SheetTitle>
+            <SheetDescription>Occurrences are recorded on their due dates, starting from the next due date.</SheetDescription>
+          </SheetHeader>
+          <form onSubmit={handleSubmit} className="flex flex-1 flex-col justify-between overflow-y-auto p-6">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="recurring-kind" className="mb-1 block text-sm font-medium text-slate-700">Type</label>
+                <select
+                  id="recurring-kind"
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as TransactionKind)}
+                  className={selectClassName}
+                >
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recurring-description" className="mb-1 block text-sm font-medium text-slate-700">Description</label>
+                <Input
+                  id="recurring-description"
+                  placeholder={kind === 'expense' ? 'e.g., Netflix' : 'e.g., Salary'}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="recurring-amount" className="mb-1 block text-sm font-medium text-slate-700">Amount</label>
+                <div className="relative">
+                  <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
+                  <Input
+                    id="recurring-amount"
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    min="0.01"
+                    step="0.01"
+                    className="pl-7"
+                    required
+                  />
+                </div>
+              </div>
+              {kind === 'expense' && (
+                <div>
+                  <label htmlFor="recurring-category" className="mb-1 block text-sm font-medium text-slate-700">Category</label>
+                  <select
+                    id="recurring-category"
+                    value={categoryName}
+                    onChange={(e) => setCategoryName(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {categories.map(c => (
+                      <option key={c.id} value={c.name}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {accounts.length > 0 && (
+                <div>
+                  <label htmlFor="recurring-account" className="mb-1 block text-sm font-medium text-slate-700">Account</label>
+                  <select
+                    id="recurring-account"
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                    <option value="">No account</option>
+                  </select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="recurring-cadence" className="mb-1 block text-sm font-medium text-slate-700">Repeats</label>
+                  <select
+                    id="recurring-cadence"
+                    value={cadence}
+                    onChange={(e) => setCadence(e.target.value as RecurrenceCadence)}
+                    className={selectClassName}
+                  >
+                    {RECURRENCE_CADENCES.map(c => (
+                      <option key={c} value={c}>{CADENCE_LABELS[c]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="recurring-next-due" className="mb-1 block text-sm font-medium text-slate-700">Next Due</label>
+                  <Input
+                    id="recurring-next-due"
+                    type="date"
+                    value={nextDue}
+                    onChange={(e) => setNextDue(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setIsSheetOpen(false)} disabled={saving}>Cancel</Button>
+              <Button type="submit" disabled={saving || !description.trim() || !amount || !nextDue || (kind === 'expense' && !categoryName)}>
+                {saving ? 'Saving...' : editing ? 'Save Changes' : 'Add Recurring'}
+              </Button>
+            </div>
+          </form>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Check, CircleSlash, LoaderCircle, Wrench, XCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { describeToolCall } from '../lib/ai/tools';
+import { ChatToolCall } from '../types';
+
+interface ToolCallCardProps {
+  call: ChatToolCall;
+  // Set while the call waits for this session's user to decide; calls left pending by an earlier session can't be confirmed any more
+  onSettle?: (approved: boolean) => void;
+  running?: boolean;
+}
+
+export default function ToolCallCard({ call, onSettle, running = false }: ToolCallCardProps) {
+  const error = call.status === 'failed' ? (call.result as { error?: string } | null)?.error : null;
+
+  const renderStatus = () => {
+    if (running) {
+      return (
+        <span className="flex items-center gap-1 text-slate-500">
+          <LoaderCircle className="h-3 w-3 animate-spin" /> Working...
+        </span>
+      );
+    }
+
+    switch (call.status) {
+      case 'succeeded':
+        return <span className="flex items-center gap-1 text-emerald-600"><Check className="h-3 w-3" /> Done</span>;
+      case 'failed':
+        return <span className="flex items-center gap-1 text-rose-600"><XCircle className="h-3 w-3" /> Failed</span>;
+      case 'declined':
+        return <span className="flex items-center gap-1 text-slate-500"><CircleSlash className="h-3 w-3" /> Cancelled</span>;
+      default:
+        return onSettle ? null : <span className="text-slate-500">Not confirmed</span>;
+    }
+  };
+
+  return (
+    <div className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm shadow-sm">
+      <div className="flex items-start gap-2">
+        <Wrench className="mt-0.5 h-3.5 w-3.5 shrink-0 text-indigo-500" />
+        <p className="flex-1 text-slate-700">{describeToolCall(call)}</p>
+      </div>
+      {error && <p className="mt-1 pl-5 text-xs text-rose-600">{error}</p>}
+      <div className="mt-2 flex items-center justify-end gap-2 text-xs">
+        {renderStatus()}
+        {call.status === 'pending' && onSettle && !running && (
+          <>
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onSettle(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-7 px-3 text-xs" onClick={() => onSettle(true)}>
+              Confirm
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
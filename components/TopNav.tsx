@@ -39,6 +39,7 @@ export default function TopNav() {
           <nav className="hidden items-center gap-2 md:flex">
              <NavButton href="/" currentPath={currentPath}>Dashboard</NavButton>
              <NavButton href="/spending" currentPath={currentPath}>Spending Analysis</NavButton>
+             <NavButton href="/transactions" currentPath={currentPath}>Transactions</NavButton>
              <NavButton href="/planning" currentPath={currentPath}>Financial Planning</NavButton>
           </nav>
         </div>
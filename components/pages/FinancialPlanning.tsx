@@ -2,7 +2,10 @@
 import React from 'react';
 import CashFlow from '../CashFlow';
 import CoachPanel from '../CoachPanel';
+import DebtPlanner from '../DebtPlanner';
+import FinancialPlanCard from '../FinancialPlanCard';
 import Projection from '../Projection';
+import { useFinancialPlans } from '../../hooks/useFinancialPlans';
 import { SpendingCategory } from '../../types';
 
 interface FinancialPlanningProps {
@@ -17,6 +20,8 @@ const SectionHeader = ({ title, description }: { title: string; description: str
 );
 
 export default function FinancialPlanning({ categories }: FinancialPlanningProps) {
+  const plans = useFinancialPlans();
+
   return (
     <main className="mx-auto max-w-7xl px-4 py-6 pb-20">
       <SectionHeader 
@@ -28,7 +33,13 @@ export default function FinancialPlanning({ categories }: FinancialPlanningProps
           <CashFlow />
         </div>
         <div className="lg:col-span-1">
-          <CoachPanel categories={categories} />
+          <CoachPanel categories={categories} plans={plans} />
+        </div>
+        <div className="lg:col-span-3 mt-6">
+          <FinancialPlanCard plans={plans} />
+        </div>
+        <div className="lg:col-span-3 mt-6">
+          <DebtPlanner />
         </div>
         <div className="lg:col-span-3 mt-6">
           <Projection />
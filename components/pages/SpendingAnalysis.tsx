@@ -3,6 +3,7 @@ import React from 'react';
 import SpendingBreakdown from '../SpendingBreakdown';
 import RecordExpense from '../RecordExpense';
 import InsightCard from '../InsightCard';
+import Subscriptions from '../Subscriptions';
 import { SpendingCategory } from '../../types';
 
 interface SpendingAnalysisProps {
@@ -36,6 +37,9 @@ export default function SpendingAnalysis({ categories, loading = false, error =
           <InsightCard categories={categories} />
         </div>
       </div>
+      <div className="mt-6">
+        <Subscriptions />
+      </div>
     </main>
   );
 }
@@ -0,0 +1,395 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '../ui/Card';
+import { Input } from '../ui/Input';
+import { Button } from '../ui/Button';
+import { ArrowDown, ArrowUp, LoaderCircle, Pencil, Search, Trash2, X } from 'lucide-react';
+import EditTransaction from '../EditTransaction';
+import { useAppContext } from '../../context/AppContext';
+import { useTransactions, useBulkTransactions, useDeleteTransaction } from '../../hooks/useTransactions';
+import { TransactionFilters, TransactionSortField, isSplitTransaction } from '../../lib/supabase/services/transactions';
+import { Transaction } from '../../types';
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900';
+
+const SectionHeader = ({ title, description }: { title: string; description: string }) => (
+  <div className="mt-12 mb-6">
+    <h2 className="text-2xl font-semibold tracking-tight text-slate-800">{title}</h2>
+    <p className="mt-1 text-sm text-slate-500">{description}</p>
+  </div>
+);
+
+const SortHeader = ({ field, label, sortBy, ascending, onSort, className = '' }: {
+  field: TransactionSortField;
+  label: string;
+  sortBy: TransactionSortField;
+  ascending: boolean;
+  onSort: (field: TransactionSortField) => void;
+  className?: string;
+}) => {
+  const isActive = sortBy === field;
+  const Arrow = ascending ? ArrowUp : ArrowDown;
+  return (
+    <th className={`px-3 py-2 font-medium ${className}`} aria-sort={isActive ? (ascending ? 'ascending' : 'descending') : 'none'}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 hover:text-slate-900 ${isActive ? 'text-slate-900' : ''}`}
+      >
+        {label}
+        {isActive && <Arrow className="h-3.5 w-3.5" />}
+      </button>
+    </th>
+  );
+};
+
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export default function TransactionLedger() {
+  const { categories, accounts, transactions: liveTransactions } = useAppContext();
+
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [sortBy, setSortBy] = useState<TransactionSortField>('occurred_on');
+  const [ascending, setAscending] = useState(false);
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkCategoryName, setBulkCategoryName] = useState('');
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters = useMemo<TransactionFilters>(() => ({
+    from: from || undefined,
+    to: to || undefined,
+    categoryId: categoryId || undefined,
+    minAmount: parseAmount(minAmount),
+    maxAmount: parseAmount(maxAmount),
+    search: search.trim() || undefined,
+    sortBy,
+    ascending,
+  }), [from, to, categoryId, minAmount, maxAmount, search, sortBy, ascending]);
+
+  const { transactions, loading, error, refetch, hasMore, loadMore } = useTransactions(PAGE_SIZE, filters);
+  const { bulkUpdateMutation, bulkDeleteMutation, working, error: bulkError } = useBulkTransactions();
+  const { deleteTransactionMutation, deleting, error: deleteError } = useDeleteTransaction();
+
+  // The ledger isn't subscribed itself; follow the app-wide real-time list instead
+  useEffect(() => {
+    refetch();
+  }, [liveTransactions]);
+
+  // A selection only makes sense for the rows it was made on
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [filters]);
+
+  // Load the next page when the end of the table scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts]);
+  const selectedTransactions = transactions.filter(t => selectedIds.has(t.id));
+  // Income has no spending category and split expenses are edited line by line,
+  // so only plain expenses can be recategorized in bulk
+  const selectedExpenseIds = selectedTransactions
+    .filter(t => t.kind === 'expense' && !isSplitTransaction(t))
+    .map(t => t.id);
+  const allSelected = transactions.length > 0 && selectedTransactions.length === transactions.length;
+  const hasFilters = !!(searchInput || from || to || categoryId || minAmount || maxAmount);
+
+  const handleSort = (field: TransactionSortField) => {
+    if (field === sortBy) {
+      setAscending(!ascending);
+    } else {
+      setSortBy(field);
+      // Text columns read naturally A-Z; dates and amounts largest first
+      setAscending(field === 'description' || field === 'category_name');
+    }
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearch('');
+    setFrom('');
+    setTo('');
+    setCategoryId('');
+    setMinAmount('');
+    setMaxAmount('');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(transactions.map(t => t.id)));
+  };
+
+  const handleBulkDelete = async () => {
+    const count = selectedTransactions.length;
+    if (!confirm(`Delete ${count} transaction${count === 1 ? '' : 's'}?`)) return;
+
+    try {
+      await bulkDeleteMutation(selectedTransactions.map(t => t.id));
+      setSelectedIds(new Set());
+    } catch (err) {
+      console.error('Failed to delete transactions:', err);
+    }
+  };
+
+  const handleBulkRecategorize = async () => {
+    const category = categories.find(c => c.name === bulkCategoryName);
+    if (!category || selectedExpenseIds.length === 0) return;
+
+    try {
+      await bulkUpdateMutation(selectedExpenseIds, {
+        category_id: category.id,
+        category_name: category.name,
+      });
+      setSelectedIds(new Set());
+      setBulkCategoryName('');
+    } catch (err) {
+      console.error('Failed to recategorize transactions:', err);
+    }
+  };
+
+  const handleDelete = async (transaction: Transaction) => {
+    if (!confirm(`Delete "${transaction.description}"?`)) return;
+
+    try {
+      await deleteTransactionMutation(transaction.id);
+    } catch (err) {
+      console.error('Failed to delete transaction:', err);
+    }
+  };
+
+  const displayError = error || bulkError || deleteError;
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-6 pb-20">
+      <SectionHeader
+        title="Transactions"
+        description="Search, sort and tidy up every transaction you've recorded."
+      />
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Ledger</CardTitle>
+          <CardDescription>Filter by date, category, amount or description.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-6">
+            <div className="relative col-span-2">
+              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search descriptions"
+                className="pl-9"
+                aria-label="Search descriptions"
+              />
+            </div>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className={selectClassName}
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              {categories.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                placeholder="Min $"
+                min="0"
+                step="0.01"
+                aria-label="Minimum amount"
+              />
+              <Input
+                type="number"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                placeholder="Max $"
+                min="0"
+                step="0.01"
+                aria-label="Maximum amount"
+              />
+            </div>
+          </div>
+          {hasFilters && (
+            <div className="mt-2 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="mr-1 h-4 w-4" /> Clear filters
+              </Button>
+            </div>
+          )}
+
+          {selectedTransactions.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 rounded-lg bg-slate-50 p-3 text-sm">
+              <span className="font-medium text-slate-700">{selectedTransactions.length} selected</span>
+              <div className="ml-auto flex flex-wrap items-center gap-2">
+                <select
+                  value={bulkCategoryName}
+                  onChange={(e) => setBulkCategoryName(e.target.value)}
+                  className={`${selectClassName} w-48`}
+                  disabled={selectedExpenseIds.length === 0}
+                  aria-label="New category"
+                >
+                  <option value="">Recategorize as...</option>
+                  {categories.map(c => (
+                    <option key={c.id} value={c.name}>{c.name}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleBulkRecategorize}
+                  disabled={working || !bulkCategoryName || selectedExpenseIds.length === 0}
+                >
+                  Apply{selectedExpenseIds.length !== selectedTransactions.length && ` to ${selectedExpenseIds.length} expense${selectedExpenseIds.length === 1 ? '' : 's'}`}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={handleBulkDelete} disabled={working} className="text-rose-600">
+                  <Trash2 className="mr-1 h-4 w-4" /> Delete
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {displayError && (
+            <div className="mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-800">{displayError}</div>
+          )}
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="border-b text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="w-8 px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      aria-label="Select all loaded transactions"
+                    />
+                  </th>
+                  <SortHeader field="occurred_on" label="Date" sortBy={sortBy} ascending={ascending} onSort={handleSort} />
+                  <SortHeader field="description" label="Description" sortBy={sortBy} ascending={ascending} onSort={handleSort} />
+                  <SortHeader field="category_name" label="Category" sortBy={sortBy} ascending={ascending} onSort={handleSort} />
+                  <th className="px-3 py-2 font-medium">Account</th>
+                  <SortHeader field="amount" label="Amount" sortBy={sortBy} ascending={ascending} onSort={handleSort} className="text-right" />
+                  <th className="w-20 px-3 py-2"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {transactions.map(t => {
+                  const isIncome = t.kind === 'income';
+                  return (
+                    <tr key={t.id} className={`group ${selectedIds.has(t.id) ? 'bg-sky-50' : 'hover:bg-slate-50'}`}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(t.id)}
+                          onChange={() => toggleSelected(t.id)}
+                          aria-label={`Select ${t.description}`}
+                        />
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-slate-500">
+                        {new Date(`${t.occurred_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </td>
+                      <td className="max-w-xs px-3 py-2">
+                        <p className="truncate font-medium text-slate-800">{t.description}</p>
+                        {t.notes && <p className="truncate text-xs text-slate-500">{t.notes}</p>}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-slate-600">{t.category_name}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-slate-600">{t.account_id ? accountNames.get(t.account_id) ?? '' : ''}</td>
+                      <td className={`whitespace-nowrap px-3 py-2 text-right font-semibold ${isIncome ? 'text-emerald-600' : 'text-slate-900'}`}>
+                        {isIncome ? '+' : '-'}${t.amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-end transition-opacity sm:opacity-0 sm:group-hover:opacity-100 sm:focus-within:opacity-100">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-slate-400 hover:text-slate-700"
+                            onClick={() => setEditingTransaction(t)}
+                            aria-label={`Edit ${t.description}`}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-slate-400 hover:text-rose-600"
+                            onClick={() => handleDelete(t)}
+                            disabled={deleting}
+                            aria-label={`Delete ${t.description}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {loading && transactions.length === 0 ? (
+              <div className="flex items-center justify-center py-12">
+                <LoaderCircle className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : transactions.length === 0 ? (
+              <p className="py-12 text-center text-sm text-slate-400">
+                {hasFilters ? 'No transactions match these filters' : 'No transactions yet'}
+              </p>
+            ) : null}
+
+            <div ref={sentinelRef} className="flex justify-center py-4">
+              {hasMore && transactions.length > 0 && (
+                <LoaderCircle className="h-5 w-5 animate-spin text-slate-400" />
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+      <EditTransaction
+        transaction={editingTransaction}
+        onClose={() => setEditingTransaction(null)}
+      />
+    </main>
+  );
+}
@@ -2,8 +2,30 @@ import React, { createContext, useContext, ReactNode, useState, useCallback, use
 import { SpendingCategory, Transaction } from '../types';
 import { useCategories } from '../hooks/useCategories';
 import { useTransactions, useAddTransaction } from '../hooks/useTransactions';
+import { useAccounts } from '../hooks/useAccounts';
+import { useMaterializeRecurring } from '../hooks/useRecurring';
+import { useApplyFundingRules } from '../hooks/useGoals';
+import { AccountWithBalance, LedgerEntry } from '../lib/supabase/services/accounts';
+import { INCOME_CATEGORY_NAME } from '../lib/supabase/services/transactions';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 
+// A split expense lists each category's share; the shares add up to amount
+interface ExpenseInput {
+  description: string;
+  amount: number;
+  category: string;
+  accountId?: string | null;
+  occurredOn?: string; // YYYY-MM-DD, defaults to today
+  splits?: { category: string; amount: number }[];
+}
+
+interface IncomeInput {
+  description: string;
+  amount: number;
+  accountId?: string | null;
+  occurredOn?: string;
+}
+
 interface AppContextType {
   categories: SpendingCategory[];
   categoriesLoading: boolean;
@@ -11,12 +33,15 @@ interface AppContextType {
   transactions: Transaction[];
   transactionsLoading: boolean;
   transactionsError: string | null;
-  addExpense: (expense: { description: string; amount: number; category: string }) => Promise<void>;
+  accounts: AccountWithBalance[];
+  accountLedger: LedgerEntry[];
+  accountsLoading: boolean;
+  accountsError: string | null;
+  addExpense: (expense: ExpenseInput) => Promise<void>;
+  addIncome: (income: IncomeInput) => Promise<void>;
   addingExpense: boolean;
   addExpenseError: string | null;
   isOnline: boolean;
-  dummyBalance: number | null;
-  setDummyBalance: (balance: number | null) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -25,9 +50,6 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   // Local state for optimistic updates
   const [optimisticTransactions, setOptimisticTransactions] = useState<Transaction[]>([]);
   
-  // Dummy balance state
-  const [dummyBalance, setDummyBalance] = useState<number | null>(null);
-  
   // Online status
   const isOnline = useOnlineStatus();
 
@@ -44,6 +66,23 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     error: transactionsError 
   } = useTransactions();
 
+  const {
+    accounts,
+    ledger: accountLedger,
+    loading: accountsLoading,
+    error: accountsError
+  } = useAccounts();
+
+  // Record any recurring transactions that came due since the last visit
+  useMaterializeRecurring();
+
+  // Save towards goals from their funding rules, again whenever a transaction is recorded
+  const latestTransactionAt = React.useMemo(
+    () => dbTransactions.reduce<string | null>((latest, t) => (!latest || t.created_at > latest ? t.created_at : latest), null),
+    [dbTransactions]
+  );
+  useApplyFundingRules(transactionsLoading ? null : latestTransactionAt);
+
   // Optimistic update handlers
   const handleOptimisticAdd = useCallback((transaction: Transaction) => {
     setOptimisticTransactions(prev => [transaction, ...prev]);
@@ -69,7 +108,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return [...validOptimistic, ...dbTransactions];
   }, [dbTransactions, optimisticTransactions]);
 
-  const addExpense = async (expense: { description: string; amount: number; category: string }) => {
+  const addExpense = async (expense: ExpenseInput) => {
     // Check if user is online before attempting to add expense
     if (!isOnline) {
       throw new Error('You are offline. Please connect to the internet to add expenses.');
@@ -84,7 +123,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         amount: expense.amount,
         category_name: expense.category,
         category_id: category?.id || null,
-      });
+        account_id: expense.accountId || null,
+        kind: 'expense',
+        occurred_on: expense.occurredOn,
+      }, (expense.splits || []).map(split => ({
+        category_name: split.category,
+        category_id: categories.find(cat => cat.name === split.category)?.id || null,
+        amount: split.amount,
+      })));
       
       // Clear optimistic transaction after successful add
       // The real-time subscription will add the persisted version
@@ -99,6 +145,29 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const addIncome = async (income: IncomeInput) => {
+    if (!isOnline) {
+      throw new Error('You are offline. Please connect to the internet to add income.');
+    }
+
+    await addTransaction({
+      description: income.description,
+      amount: income.amount,
+      category_name: INCOME_CATEGORY_NAME,
+      category_id: null,
+      account_id: income.accountId || null,
+      kind: 'income',
+      occurred_on: income.occurredOn,
+    });
+
+    // The real-time subscription will add the persisted version
+    setTimeout(() => {
+      setOptimisticTransactions(prev => 
+        prev.filter(t => t.description !== income.description || t.amount !== income.amount)
+      );
+    }, 1000);
+  };
+
   return (
     <AppContext.Provider value={{ 
       categories, 
@@ -107,12 +176,15 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       transactions, 
       transactionsLoading,
       transactionsError,
+      accounts,
+      accountLedger,
+      accountsLoading,
+      accountsError,
       addExpense,
+      addIncome,
       addingExpense,
       addExpenseError,
       isOnline,
-      dummyBalance,
-      setDummyBalance,
     }}>
       {children}
     </AppContext.Provider>
@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { AIInsight, AIInsightKind, FinancialGoal, SpendingCategory } from '@/types'
+import { getCachedInsight, getInsightHistory } from '@/lib/supabase/services/aiInsights'
+import { getTransactionsWithSplitsBetween, toLocalDateString } from '@/lib/supabase/services/transactions'
+import { getGoals } from '@/lib/supabase/services/goals'
+import { addMonths, getBudgetPeriods, toMonthKey } from '@/lib/supabase/services/budgets'
+import { getAIFinancialTips, getAIInsight } from '@/lib/services/aiService'
+import { spendingSnapshotHash } from '@/lib/ai/snapshot'
+import {
+  Finding,
+  INSIGHT_HISTORY_MONTHS,
+  InsightRulesInput,
+  evaluateInsightRules,
+  findingsToInsight,
+  findingsToTips
+} from '@/lib/insights/rules'
+import { useUser } from './useAuth'
+
+const CACHE_KEY_PREFIX = 'finsmart_ai_'
+// Written by useTransactions and useGoals
+const TRANSACTIONS_CACHE_PREFIX = 'finsmart_transactions_'
+const GOALS_CACHE_PREFIX = 'finsmart_goals_'
+const MONTH_SPENDING_CACHE_PREFIX = 'finsmart_ai_month_spending_'
+
+// Where the value shown came from: the model, or the insight rules when it couldn't be reached
+export type InsightSource = 'ai' | 'rules'
+
+// What's kept in localStorage: the last result and the snapshot it belongs to
+interface StoredInsight<T> {
+  snapshotHash: string
+  value: T
+  generatedAt: string
+}
+
+interface UseSpendingInsightReturn<T> {
+  value: T | null
+  source: InsightSource
+  generatedAt: string | null
+  loading: boolean
+  refreshing: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+function readStored<T>(key: string): T | null {
+  const cached = localStorage.getItem(key)
+  if (!cached) return null
+  try {
+    return JSON.parse(cached)
+  } catch (err) {
+    console.error(`Error parsing cached ${key}:`, err)
+    return null
+  }
+}
+
+// This month's spending per category, kept for offline use
+interface StoredMonthSpending {
+  month: string // YYYY-MM-01
+  categories: InsightRulesInput['categories']
+}
+
+/**
+ * Each category's spending this month and the budget in effect for it
+ * A category's own value is its lifetime spending, so it can't be used
+ * here. Falls back to the cached figures when offline or the fetch fails,
+ * and to no categories when those are from an earlier month.
+ */
+async function loadMonthSpending(userId: string, categories: SpendingCategory[]): Promise<StoredMonthSpending> {
+  const month = toMonthKey(new Date())
+  const cacheKey = `${MONTH_SPENDING_CACHE_PREFIX}${userId}`
+
+  if (navigator.onLine && categories.length > 0) {
+    try {
+      const periods = await getBudgetPeriods(userId, categories, month)
+      const monthCategories = periods.map(p => ({ name: p.category.name, value: p.spent, budget: p.budget }))
+      const stored: StoredMonthSpending = { month, categories: monthCategories }
+      localStorage.setItem(cacheKey, JSON.stringify(stored))
+      return stored
+    } catch (err) {
+      console.error('Error loading this month\'s spending:', err)
+    }
+  }
+
+  const stored = readStored<StoredMonthSpending>(cacheKey)
+  return stored?.month === month ? stored : { month, categories: [] }
+}
+
+/**
+ * Runs the insight rules in the browser, on fresh data when online and on
+ * the cached transactions and goals otherwise
+ */
+async function evaluateLocally(userId: string, categories: InsightRulesInput['categories']): Promise<Finding[]> {
+  const today = toLocalDateString()
+  const fromCache = (): Pick<InsightRulesInput, 'transactions' | 'goals'> => ({
+    transactions: readStored(`${TRANSACTIONS_CACHE_PREFIX}${userId}`) || [],
+    goals: (readStored<FinancialGoal[]>(`${GOALS_CACHE_PREFIX}${userId}`) || []).filter(g => typeof g.target_date === 'string'),
+  })
+
+  let data = fromCache()
+  if (navigator.onLine) {
+    try {
+      const since = addMonths(toMonthKey(new Date()), -INSIGHT_HISTORY_MONTHS)
+      const [transactions, goals] = await Promise.all([getTransactionsWithSplitsBetween(userId, since, today), getGoals(userId)])
+      data = { transactions, goals }
+    } catch (err) {
+      console.error('Error loading data for insight rules:', err)
+    }
+  }
+
+  return evaluateInsightRules({ today, categories, ...data })
+}
+
+/**
+ * Loads a tips list or insight for this month's spending, generating one
+ * only when none exists for the current snapshot
+ * Looks in localStorage, then ai_insights, then asks the model; refresh
+ * always asks the model. When the model can't be reached and nothing is
+ * cached, the insight rules stand in, and the error says why.
+ * categories only says when spending changed; the figures used are this
+ * month's, loaded alongside.
+ */
+function useSpendingInsight<T>(
+  kind: AIInsightKind,
+  categories: SpendingCategory[],
+  fromContent: (content: AIInsight['content']) => T | null,
+  generate: (categories: InsightRulesInput['categories']) => Promise<T>,
+  fromFindings: (findings: Finding[]) => T
+): UseSpendingInsightReturn<T> {
+  const { user } = useUser()
+  const [value, setValue] = useState<T | null>(null)
+  const [source, setSource] = useState<InsightSource>('ai')
+  const [generatedAt, setGeneratedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [monthSpending, setMonthSpending] = useState<StoredMonthSpending | null>(null)
+
+  // Category totals change with every transaction, so this month's figures are reloaded with them
+  useEffect(() => {
+    if (!user?.id || categories.length === 0) return
+    let cancelled = false
+    loadMonthSpending(user.id, categories).then(loaded => {
+      if (!cancelled) setMonthSpending(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id, categories])
+
+  const snapshotHash = useMemo(
+    () => (monthSpending ? spendingSnapshotHash(monthSpending.categories, monthSpending.month) : null),
+    [monthSpending]
+  )
+  const hasData = categories.length > 0
+
+  // Reloads hand over new arrays with the same data; only the hash should trigger a load
+  const monthCategoriesRef = useRef<InsightRulesInput['categories']>([])
+  monthCategoriesRef.current = monthSpending?.categories || []
+
+  const show = useCallback((stored: StoredInsight<T>) => {
+    setValue(stored.value)
+    setSource('ai')
+    setGeneratedAt(stored.generatedAt)
+    if (user?.id) localStorage.setItem(`${CACHE_KEY_PREFIX}${kind}_${user.id}`, JSON.stringify(stored))
+  }, [kind, user?.id])
+
+  // Rule-based results aren't cached, so the model's replace them once it's back
+  const showFallback = useCallback(async () => {
+    if (!user?.id) return
+    const findings = await evaluateLocally(user.id, monthCategoriesRef.current)
+    setValue(fromFindings(findings))
+    setSource('rules')
+    setGeneratedAt(new Date().toISOString())
+  }, [user?.id, fromFindings])
+
+  const runGenerate = useCallback(async (hash: string) => {
+    const result = await generate(monthCategoriesRef.current)
+    return { snapshotHash: hash, value: result, generatedAt: new Date().toISOString() }
+  }, [generate])
+
+  useEffect(() => {
+    if (!user?.id || !hasData) {
+      setLoading(false)
+      return
+    }
+    // Still loading this month's spending
+    if (!snapshotHash) return
+
+    let cancelled = false
+    const load = async () => {
+      const stored = readStored<StoredInsight<T>>(`${CACHE_KEY_PREFIX}${kind}_${user.id}`)
+      if (stored?.snapshotHash === snapshotHash) {
+        show(stored)
+        setError(null)
+        setLoading(false)
+        return
+      }
+
+      if (!navigator.onLine) {
+        setError('You are offline. Please connect to the internet to get new insights.')
+        // Something a little out of date beats nothing
+        if (stored) show(stored)
+        else await showFallback()
+        setLoading(false)
+        return
+      }
+
+      try {
+        setLoading(true)
+        setError(null)
+        const cached = await getCachedInsight(user.id, kind, snapshotHash)
+        const cachedValue = cached ? fromContent(cached.content) : null
+        const next = cached && cachedValue !== null
+          ? { snapshotHash, value: cachedValue, generatedAt: cached.created_at }
+          : await runGenerate(snapshotHash)
+        if (!cancelled) show(next)
+      } catch (err) {
+        console.error(`Error loading ${kind}:`, err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : `Failed to load ${kind}`)
+          await showFallback()
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id, kind, snapshotHash, hasData, fromContent, runGenerate, show, showFallback])
+
+  const refresh = useCallback(async () => {
+    if (!snapshotHash) return
+    if (!navigator.onLine) {
+      setError('You are offline. Please connect to the internet to get new insights.')
+      return
+    }
+
+    try {
+      setRefreshing(true)
+      setError(null)
+      show(await runGenerate(snapshotHash))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to refresh ${kind}`)
+      console.error(`Error refreshing ${kind}:`, err)
+      // Keep what's shown unless there's nothing
+      if (value === null) await showFallback()
+    } finally {
+      setRefreshing(false)
+    }
+  }, [kind, snapshotHash, value, runGenerate, show, showFallback])
+
+  return {
+    value,
+    source,
+    generatedAt,
+    loading,
+    refreshing,
+    error,
+    refresh,
+  }
+}
+
+const tipsFromContent = (content: AIInsight['content']) =>
+  Array.isArray(content.tips) ? content.tips : null
+
+const textFromContent = (content: AIInsight['content']) =>
+  typeof content.text === 'string' ? content.text : null
+
+/**
+ * Hook for the AI coach's tips on the current spending
+ */
+export function useAITips(categories: SpendingCategory[]): UseSpendingInsightReturn<string[]> {
+  return useSpendingInsight('tips', categories, tipsFromContent, getAIFinancialTips, findingsToTips)
+}
+
+/**
+ * Hook for the AI summary of the current spending
+ */
+export function useAIInsight(categories: SpendingCategory[]): UseSpendingInsightReturn<string> {
+  return useSpendingInsight('insight', categories, textFromContent, getAIInsight, findingsToInsight)
+}
+
+interface UseAIInsightHistoryReturn {
+  history: AIInsight[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load past insights of a kind, newest first
+ * Nothing is fetched until enabled, e.g. when a history panel opens.
+ */
+export function useAIInsightHistory(kind: AIInsightKind, enabled: boolean): UseAIInsightHistoryReturn {
+  const { user } = useUser()
+  const [history, setHistory] = useState<AIInsight[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    if (!user?.id || !enabled) return
+
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getInsightHistory(user.id, kind)
+      setHistory(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to load ${kind} history`)
+      console.error(`Error fetching ${kind} history:`, err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, kind, enabled])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  return {
+    history,
+    loading,
+    error,
+    refetch: fetchHistory,
+  }
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react'
+import { AIUsageSummary, getAIUsageSummary } from '@/lib/supabase/services/aiUsage'
+import { useUser } from './useAuth'
+
+interface UseAIUsageReturn {
+  usage: AIUsageSummary | null
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the user's AI usage and quota for the current month
+ */
+export function useAIUsage(): UseAIUsageReturn {
+  const { user } = useUser()
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsage = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getAIUsageSummary(user.id)
+      setUsage(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AI usage')
+      console.error('Error fetching AI usage:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  return {
+    usage,
+    loading,
+    error,
+    refetch: fetchUsage,
+  }
+}
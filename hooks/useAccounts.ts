@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Account } from '@/types'
+import {
+  AccountWithBalance,
+  LedgerEntry,
+  getAccounts,
+  getAccountLedger,
+  createAccount,
+  deleteAccount,
+  computeAccountBalances,
+  subscribeToAccounts
+} from '@/lib/supabase/services/accounts'
+import { useUser } from './useAuth'
+import { supabase } from '@/lib/supabase/client'
+
+interface UseAccountsReturn {
+  accounts: AccountWithBalance[]
+  ledger: LedgerEntry[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+const CACHE_KEY_PREFIX = 'finsmart_accounts_'
+
+export function useAccounts(): UseAccountsReturn {
+  const { user } = useUser()
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load cached data on mount
+  useEffect(() => {
+    if (user?.id) {
+      const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
+      const cached = localStorage.getItem(cacheKey)
+      if (cached) {
+        try {
+          const parsed = JSON.parse(cached)
+          setAccounts(parsed.accounts || [])
+          setLedger(parsed.ledger || [])
+        } catch (err) {
+          console.error('Error parsing cached accounts:', err)
+        }
+      }
+    }
+  }, [user?.id])
+
+  const cacheData = useCallback((userId: string, data: { accounts: Account[]; ledger: LedgerEntry[] }) => {
+    const cacheKey = `${CACHE_KEY_PREFIX}${userId}`
+    localStorage.setItem(cacheKey, JSON.stringify(data))
+  }, [])
+
+  const fetchAccounts = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const [accountData, ledgerData] = await Promise.all([
+        getAccounts(user.id),
+        getAccountLedger(user.id),
+      ])
+      setAccounts(accountData)
+      setLedger(ledgerData)
+
+      // Cache the data
+      cacheData(user.id, { accounts: accountData, ledger: ledgerData })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load accounts')
+      console.error('Error fetching accounts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, cacheData])
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [fetchAccounts])
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!user?.id) return
+
+    const channel = subscribeToAccounts(user.id, (updatedAccounts, updatedLedger) => {
+      setAccounts(updatedAccounts)
+      setLedger(updatedLedger)
+
+      // Update cache when real-time updates arrive
+      cacheData(user.id, { accounts: updatedAccounts, ledger: updatedLedger })
+    })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user?.id, cacheData])
+
+  const accountsWithBalances = useMemo(
+    () => computeAccountBalances(accounts, ledger),
+    [accounts, ledger]
+  )
+
+  return {
+    accounts: accountsWithBalances,
+    ledger,
+    loading,
+    error,
+    refetch: fetchAccounts,
+  }
+}
+
+interface UseAddAccountReturn {
+  addAccount: (account: Omit<Account, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<Account>
+  adding: boolean
+  error: string | null
+}
+
+export function useAddAccount(): UseAddAccountReturn {
+  const { user } = useUser()
+  const [adding, setAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const addAccount = useCallback(async (
+    account: Omit<Account, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+  ): Promise<Account> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to add accounts.')
+    }
+
+    setAdding(true)
+    setError(null)
+
+    try {
+      return await createAccount({
+        ...account,
+        user_id: user.id,
+      })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add account'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setAdding(false)
+    }
+  }, [user?.id])
+
+  return {
+    addAccount,
+    adding,
+    error,
+  }
+}
+
+interface UseDeleteAccountReturn {
+  deleteAccountMutation: (id: string) => Promise<void>
+  deleting: boolean
+  error: string | null
+}
+
+export function useDeleteAccount(): UseDeleteAccountReturn {
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const deleteAccountMutation = useCallback(async (id: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to delete accounts.')
+    }
+
+    setDeleting(true)
+    setError(null)
+
+    try {
+      await deleteAccount(id)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete account'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setDeleting(false)
+    }
+  }, [])
+
+  return {
+    deleteAccountMutation,
+    deleting,
+    error,
+  }
+}
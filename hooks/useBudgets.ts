@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react'
+import { SpendingCategory } from '@/types'
+import { BudgetPeriod, getBudgetPeriods, setCategoryBudget } from '@/lib/supabase/services/budgets'
+import { useUser } from './useAuth'
+
+interface UseBudgetPeriodsReturn {
+  periods: BudgetPeriod[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load each category's budget, rollover and spending for a month
+ * Call refetch when transactions change to keep the spent amounts current
+ */
+export function useBudgetPeriods(categories: SpendingCategory[], month: string): UseBudgetPeriodsReturn {
+  const { user } = useUser()
+  const [periods, setPeriods] = useState<BudgetPeriod[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPeriods = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getBudgetPeriods(user.id, categories, month)
+      setPeriods(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budgets')
+      console.error('Error fetching budget periods:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, categories, month])
+
+  useEffect(() => {
+    fetchPeriods()
+  }, [fetchPeriods])
+
+  return {
+    periods,
+    loading,
+    error,
+    refetch: fetchPeriods,
+  }
+}
+
+interface UseSetCategoryBudgetReturn {
+  setBudgetMutation: (categoryId: string, month: string, amount: number) => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+export function useSetCategoryBudget(): UseSetCategoryBudgetReturn {
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setBudgetMutation = useCallback(async (categoryId: string, month: string, amount: number) => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to update budgets.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      await setCategoryBudget(user.id, categoryId, month, amount)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update budget'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [user?.id])
+
+  return {
+    setBudgetMutation,
+    saving,
+    error,
+  }
+}
@@ -1,6 +1,18 @@
-import { useState, useEffect, useCallback } from 'react'
-import { ChatMessage } from '@/types'
-import { getMessages, createMessage, clearHistory } from '@/lib/supabase/services/chat'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { ChatMessage, ChatThread, ChatToolCall, ChatToolCallStatus } from '@/types'
+import { ToolCall } from '@/lib/ai/types'
+import {
+  ChatSearchResult,
+  getThreads,
+  createThread,
+  renameThread,
+  deleteThread,
+  getMessages,
+  createMessage,
+  searchMessages,
+  createToolCalls,
+  updateToolCall
+} from '@/lib/supabase/services/chat'
 import { useUser } from './useAuth'
 
 // Extended ChatMessage with database fields
@@ -10,42 +22,52 @@ interface DbChatMessage extends ChatMessage {
   created_at: string
 }
 
-interface UseChatHistoryReturn {
-  messages: DbChatMessage[]
+interface UseChatThreadsReturn {
+  threads: ChatThread[]
   loading: boolean
   error: string | null
   refetch: () => Promise<void>
-  clearMessages: () => Promise<void>
+  startThread: (title: string) => Promise<ChatThread>
+  renameThreadMutation: (id: string, title: string) => Promise<void>
+  deleteThreadMutation: (id: string) => Promise<void>
 }
 
+const THREADS_CACHE_KEY_PREFIX = 'finsmart_chat_threads_'
 const CACHE_KEY_PREFIX = 'finsmart_chat_'
 
 /**
- * Hook to manage chat history with loading states
- * Automatically loads messages when user is authenticated
+ * Hook to manage the user's chat threads, most recently active first
  */
-export function useChatHistory(limit: number = 100): UseChatHistoryReturn {
+export function useChatThreads(): UseChatThreadsReturn {
   const { user } = useUser()
-  const [messages, setMessages] = useState<DbChatMessage[]>([])
+  const [threads, setThreads] = useState<ChatThread[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   // Load cached data on mount
   useEffect(() => {
     if (user?.id) {
-      const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
-      const cached = localStorage.getItem(cacheKey)
+      const cached = localStorage.getItem(`${THREADS_CACHE_KEY_PREFIX}${user.id}`)
       if (cached) {
         try {
-          setMessages(JSON.parse(cached))
+          setThreads(JSON.parse(cached))
         } catch (err) {
-          console.error('Error parsing cached messages:', err)
+          console.error('Error parsing cached threads:', err)
         }
       }
     }
   }, [user?.id])
 
-  const fetchMessages = useCallback(async () => {
+  // Keeps state and cache together for the local updates below
+  const updateThreads = useCallback((update: (prev: ChatThread[]) => ChatThread[]) => {
+    setThreads(prev => {
+      const next = update(prev)
+      if (user?.id) localStorage.setItem(`${THREADS_CACHE_KEY_PREFIX}${user.id}`, JSON.stringify(next))
+      return next
+    })
+  }, [user?.id])
+
+  const fetchThreads = useCallback(async () => {
     if (!user?.id) {
       setLoading(false)
       return
@@ -53,42 +75,161 @@ export function useChatHistory(limit: number = 100): UseChatHistoryReturn {
 
     try {
       setError(null)
-      const data = await getMessages(user.id, limit)
-      setMessages(data)
-      
-      // Cache the data
-      const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
-      localStorage.setItem(cacheKey, JSON.stringify(data))
+      const data = await getThreads(user.id)
+      updateThreads(() => data)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load messages')
-      console.error('Error fetching messages:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load conversations')
+      console.error('Error fetching threads:', err)
     } finally {
       setLoading(false)
     }
-  }, [user?.id, limit])
+  }, [user?.id, updateThreads])
 
-  const clearMessages = useCallback(async () => {
-    if (!user?.id) return
+  const startThread = useCallback(async (title: string): Promise<ChatThread> => {
+    if (!user?.id) {
+      throw new Error('User must be authenticated to start a conversation')
+    }
 
     // Check if online
     if (typeof navigator !== 'undefined' && !navigator.onLine) {
-      throw new Error('You are offline. Please connect to the internet to clear chat history.')
+      throw new Error('You are offline. Please connect to the internet to send messages.')
+    }
+
+    const thread = await createThread(user.id, title)
+    updateThreads(prev => [thread, ...prev])
+    return thread
+  }, [user?.id, updateThreads])
+
+  const renameThreadMutation = useCallback(async (id: string, title: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to rename conversations.')
+    }
+
+    const thread = await renameThread(id, title)
+    updateThreads(prev => prev.map(t => (t.id === id ? thread : t)))
+  }, [updateThreads])
+
+  const deleteThreadMutation = useCallback(async (id: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to delete conversations.')
+    }
+
+    await deleteThread(id)
+    updateThreads(prev => prev.filter(t => t.id !== id))
+    localStorage.removeItem(`${CACHE_KEY_PREFIX}${id}`)
+  }, [updateThreads])
+
+  useEffect(() => {
+    fetchThreads()
+  }, [fetchThreads])
+
+  return {
+    threads,
+    loading,
+    error,
+    refetch: fetchThreads,
+    startThread,
+    renameThreadMutation,
+    deleteThreadMutation,
+  }
+}
+
+interface UseChatHistoryReturn {
+  messages: DbChatMessage[]
+  loading: boolean
+  error: string | null
+  hasMore: boolean
+  loadingOlder: boolean
+  // Fetches the page before the oldest loaded message and returns it
+  loadOlder: () => Promise<DbChatMessage[]>
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load one thread's history, newest page first
+ * Pass null for a conversation that hasn't been saved yet.
+ */
+export function useChatHistory(threadId: string | null, pageSize: number = 50): UseChatHistoryReturn {
+  const [messages, setMessages] = useState<DbChatMessage[]>([])
+  const [loading, setLoading] = useState(!!threadId)
+  const [error, setError] = useState<string | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  // The thread messages belongs to; until it catches up with threadId the hook reports loading
+  const [loadedThreadId, setLoadedThreadId] = useState<string | null>(null)
+  // Responses for a thread the user has since left are dropped
+  const threadIdRef = useRef(threadId)
+
+  // Show the cached page straight away when switching threads
+  useEffect(() => {
+    threadIdRef.current = threadId
+    setError(null)
+    setHasMore(false)
+    setLoading(!!threadId)
+
+    let cachedMessages: DbChatMessage[] = []
+    if (threadId) {
+      const cached = localStorage.getItem(`${CACHE_KEY_PREFIX}${threadId}`)
+      if (cached) {
+        try {
+          cachedMessages = JSON.parse(cached)
+        } catch (err) {
+          console.error('Error parsing cached messages:', err)
+        }
+      }
+    }
+    setMessages(cachedMessages)
+  }, [threadId])
+
+  const fetchMessages = useCallback(async () => {
+    if (!threadId) {
+      setLoadedThreadId(null)
+      setLoading(false)
+      return
     }
 
     try {
       setError(null)
-      await clearHistory(user.id)
-      setMessages([])
-      
-      // Clear cache
-      const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
-      localStorage.removeItem(cacheKey)
+      const data = await getMessages(threadId, pageSize)
+      if (threadIdRef.current !== threadId) return
+      setMessages(data)
+      setHasMore(data.length === pageSize)
+
+      // Cache the newest page
+      localStorage.setItem(`${CACHE_KEY_PREFIX}${threadId}`, JSON.stringify(data))
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to clear history')
-      console.error('Error clearing messages:', err)
-      throw err
+      if (threadIdRef.current !== threadId) return
+      setError(err instanceof Error ? err.message : 'Failed to load messages')
+      console.error('Error fetching messages:', err)
+    } finally {
+      if (threadIdRef.current === threadId) {
+        setLoadedThreadId(threadId)
+        setLoading(false)
+      }
     }
-  }, [user?.id])
+  }, [threadId, pageSize])
+
+  const loadOlder = useCallback(async (): Promise<DbChatMessage[]> => {
+    if (!threadId || messages.length === 0) return []
+
+    setLoadingOlder(true)
+    try {
+      setError(null)
+      const older = await getMessages(threadId, pageSize, messages[0].created_at)
+      if (threadIdRef.current !== threadId) return []
+      setMessages(prev => [...older, ...prev])
+      setHasMore(older.length === pageSize)
+      return older
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load older messages')
+      console.error('Error fetching older messages:', err)
+      return []
+    } finally {
+      setLoadingOlder(false)
+    }
+  }, [threadId, pageSize, messages])
 
   useEffect(() => {
     fetchMessages()
@@ -96,15 +237,17 @@ export function useChatHistory(limit: number = 100): UseChatHistoryReturn {
 
   return {
     messages,
-    loading,
+    loading: loading || loadedThreadId !== threadId,
     error,
+    hasMore,
+    loadingOlder,
+    loadOlder,
     refetch: fetchMessages,
-    clearMessages,
   }
 }
 
 interface UseAddChatMessageReturn {
-  addMessage: (role: 'user' | 'ai', content: string) => Promise<DbChatMessage>
+  addMessage: (threadId: string, role: 'user' | 'ai', content: string, truncated?: boolean) => Promise<DbChatMessage>
   adding: boolean
   error: string | null
 }
@@ -119,8 +262,10 @@ export function useAddChatMessage(): UseAddChatMessageReturn {
   const [error, setError] = useState<string | null>(null)
 
   const addMessage = useCallback(async (
+    threadId: string,
     role: 'user' | 'ai',
-    content: string
+    content: string,
+    truncated: boolean = false
   ): Promise<DbChatMessage> => {
     if (!user?.id) {
       throw new Error('User must be authenticated to add messages')
@@ -137,8 +282,10 @@ export function useAddChatMessage(): UseAddChatMessageReturn {
     try {
       const message = await createMessage({
         user_id: user.id,
+        thread_id: threadId,
         role,
         content,
+        truncated,
       })
       return message
     } catch (err) {
@@ -156,3 +303,85 @@ export function useAddChatMessage(): UseAddChatMessageReturn {
     error,
   }
 }
+
+interface UseChatSearchReturn {
+  results: ChatSearchResult[]
+  searching: boolean
+  error: string | null
+  search: (query: string) => Promise<void>
+}
+
+/**
+ * Hook for full text search across the user's conversations
+ * Only the latest search's results are kept when several overlap.
+ */
+export function useChatSearch(): UseChatSearchReturn {
+  const [results, setResults] = useState<ChatSearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const latestQueryRef = useRef('')
+
+  const search = useCallback(async (query: string) => {
+    const trimmed = query.trim()
+    latestQueryRef.current = trimmed
+    if (!trimmed) {
+      setResults([])
+      setError(null)
+      return
+    }
+
+    setSearching(true)
+    try {
+      setError(null)
+      const data = await searchMessages(trimmed)
+      if (latestQueryRef.current === trimmed) setResults(data)
+    } catch (err) {
+      if (latestQueryRef.current === trimmed) {
+        setError(err instanceof Error ? err.message : 'Search failed')
+      }
+      console.error('Error searching messages:', err)
+    } finally {
+      if (latestQueryRef.current === trimmed) setSearching(false)
+    }
+  }, [])
+
+  return {
+    results,
+    searching,
+    error,
+    search,
+  }
+}
+
+interface UseChatToolCallsReturn {
+  recordToolCalls: (messageId: string, calls: ToolCall[]) => Promise<ChatToolCall[]>
+  settleToolCall: (id: string, status: Exclude<ChatToolCallStatus, 'pending'>, result: unknown) => Promise<ChatToolCall>
+}
+
+/**
+ * Hook for keeping the record of the tools the assistant asked to run
+ * and how each one ended
+ */
+export function useChatToolCalls(): UseChatToolCallsReturn {
+  const { user } = useUser()
+
+  const recordToolCalls = useCallback(async (messageId: string, calls: ToolCall[]): Promise<ChatToolCall[]> => {
+    if (!user?.id) {
+      throw new Error('User must be authenticated to record tool calls')
+    }
+    return createToolCalls(user.id, messageId, calls)
+  }, [user?.id])
+
+  const settleToolCall = useCallback(async (
+    id: string,
+    status: Exclude<ChatToolCallStatus, 'pending'>,
+    result: unknown
+  ): Promise<ChatToolCall> => {
+    return updateToolCall(id, { status, result })
+  }, [])
+
+  return {
+    recordToolCalls,
+    settleToolCall,
+  }
+}
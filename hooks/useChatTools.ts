@@ -0,0 +1,131 @@
+import { useCallback } from 'react'
+import { ToolCall } from '@/lib/ai/types'
+import { useAppContext } from '@/context/AppContext'
+import { setCategoryBudget, toMonthKey } from '@/lib/supabase/services/budgets'
+import { addContribution, createGoal, getGoals } from '@/lib/supabase/services/goals'
+import { getSpendingSummary, toLocalDateString } from '@/lib/supabase/services/transactions'
+import { useUser } from './useAuth'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+interface UseChatToolsReturn {
+  runTool: (call: Pick<ToolCall, 'name' | 'arguments'>) => Promise<unknown>
+}
+
+// Matches a name the model gave against the user's own, ignoring case
+function findByName<T>(items: T[], name: unknown, getName: (item: T) => string, label: string): T {
+  const wanted = String(name ?? '').trim().toLowerCase()
+  const match = items.find(item => getName(item).toLowerCase() === wanted)
+  if (!match) {
+    throw new Error(`No ${label} named "${name}". The options are: ${items.map(getName).join(', ') || 'none'}`)
+  }
+  return match
+}
+
+function toAmount(value: unknown, field: string, { allowNegative = false } = {}): number {
+  const amount = Math.round(Number(value) * 100) / 100
+  if (!isFinite(amount) || amount === 0 || (!allowNegative && amount < 0)) {
+    throw new Error(`${field} must be a ${allowNegative ? 'non-zero' : 'positive'} number`)
+  }
+  return amount
+}
+
+function toDate(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD format`)
+  }
+  return value
+}
+
+/**
+ * Runs the chat assistant's tools (see lib/ai/tools) against the user's data
+ * Transactions go through AppContext so they show up straight away; the
+ * rest use the services directly and arrive through real-time updates.
+ * Resolves with a JSON-friendly result for the model, or rejects with a
+ * message the model can act on.
+ */
+export function useChatTools(): UseChatToolsReturn {
+  const { user } = useUser()
+  const { categories, addExpense, addIncome } = useAppContext()
+
+  const runTool = useCallback(async ({ name, arguments: args }: Pick<ToolCall, 'name' | 'arguments'>): Promise<unknown> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to let the assistant make changes.')
+    }
+
+    switch (name) {
+      case 'add_transaction': {
+        const description = String(args.description ?? '').trim()
+        if (!description) throw new Error('description is required')
+        const amount = toAmount(args.amount, 'amount')
+        const occurredOn = args.occurred_on ? toDate(args.occurred_on, 'occurred_on') : undefined
+
+        if (args.kind === 'income') {
+          await addIncome({ description, amount, occurredOn })
+          return { recorded: { kind: 'income', description, amount, occurred_on: occurredOn ?? 'today' } }
+        }
+
+        const category = findByName(categories, args.category, c => c.name, 'category')
+        await addExpense({ description, amount, category: category.name, occurredOn })
+        return { recorded: { kind: 'expense', description, amount, category: category.name, occurred_on: occurredOn ?? 'today' } }
+      }
+
+      case 'set_category_budget': {
+        const category = findByName(categories, args.category, c => c.name, 'category')
+        const amount = Math.round(Number(args.amount) * 100) / 100
+        if (!isFinite(amount) || amount < 0) throw new Error('amount must be zero or more')
+
+        const month = toMonthKey(new Date())
+        await setCategoryBudget(user.id, category.id, month, amount)
+        return { category: category.name, budget: amount, from_month: month }
+      }
+
+      case 'create_goal': {
+        const title = String(args.title ?? '').trim()
+        if (!title) throw new Error('title is required')
+        const targetDate = toDate(args.target_date, 'target_date')
+        if (targetDate <= toLocalDateString()) throw new Error('target_date must be in the future')
+
+        const goal = await createGoal({
+          user_id: user.id,
+          title,
+          target_amount: toAmount(args.target_amount, 'target_amount'),
+          target_date: targetDate,
+        })
+        return { created: { title: goal.title, target_amount: goal.target_amount, target_date: goal.target_date } }
+      }
+
+      case 'add_goal_contribution': {
+        const goal = findByName(await getGoals(user.id), args.goal, g => g.title, 'goal')
+        const contribution = await addContribution(goal.id, toAmount(args.amount, 'amount', { allowNegative: true }), {
+          note: typeof args.note === 'string' ? args.note.slice(0, 200) : null,
+        })
+        const saved = Math.round((goal.current_amount + contribution.amount) * 100) / 100
+        return { goal: goal.title, contributed: contribution.amount, saved, target: goal.target_amount }
+      }
+
+      case 'query_spending': {
+        const from = toDate(args.from, 'from')
+        const to = toDate(args.to, 'to')
+        if (from > to) throw new Error('from must be on or before to')
+
+        const summary = await getSpendingSummary(user.id, from, to)
+        if (!args.category) return summary
+
+        const category = findByName(categories, args.category, c => c.name, 'category')
+        const spent = summary.byCategory.find(c => c.category === category.name)?.amount || 0
+        return { from, to, category: category.name, spent }
+      }
+
+      default:
+        throw new Error(`Unknown tool "${name}"`)
+    }
+  }, [user?.id, categories, addExpense, addIncome])
+
+  return { runTool }
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Debt } from '@/types'
+import {
+  NewDebt,
+  DebtUpdate,
+  getDebts,
+  createDebt,
+  updateDebt,
+  deleteDebt,
+  setPayoffOrder
+} from '@/lib/supabase/services/debts'
+import { useUser } from './useAuth'
+
+const CACHE_KEY_PREFIX = 'finsmart_debts_'
+
+interface UseDebtsReturn {
+  debts: Debt[] // In the user's custom payoff order
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the user's debts, cached for offline viewing
+ */
+export function useDebts(): UseDebtsReturn {
+  const { user } = useUser()
+  const [debts, setDebts] = useState<Debt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load cached data on mount
+  useEffect(() => {
+    if (user?.id) {
+      const cached = localStorage.getItem(`${CACHE_KEY_PREFIX}${user.id}`)
+      if (cached) {
+        try {
+          setDebts(JSON.parse(cached))
+        } catch (err) {
+          console.error('Error parsing cached debts:', err)
+        }
+      }
+    }
+  }, [user?.id])
+
+  const fetchDebts = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getDebts(user.id)
+      setDebts(data)
+      localStorage.setItem(`${CACHE_KEY_PREFIX}${user.id}`, JSON.stringify(data))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load debts')
+      console.error('Error fetching debts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchDebts()
+  }, [fetchDebts])
+
+  return {
+    debts,
+    loading,
+    error,
+    refetch: fetchDebts,
+  }
+}
+
+interface UseSaveDebtReturn {
+  createDebtMutation: (debt: NewDebt, position: number) => Promise<Debt>
+  updateDebtMutation: (id: string, updates: DebtUpdate) => Promise<Debt>
+  deleteDebtMutation: (id: string) => Promise<void>
+  reorderDebtsMutation: (debtIds: string[]) => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+/**
+ * Hook for adding, editing, deleting and reordering debts
+ */
+export function useSaveDebt(): UseSaveDebtReturn {
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async <T>(action: (userId: string) => Promise<T>, fallbackMessage: string): Promise<T> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to change debts.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      return await action(user.id)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [user?.id])
+
+  const createDebtMutation = useCallback((debt: NewDebt, position: number) =>
+    run(userId => createDebt({ ...debt, user_id: userId, payoff_order: position }), 'Failed to add debt'),
+  [run])
+
+  const updateDebtMutation = useCallback((id: string, updates: DebtUpdate) =>
+    run(() => updateDebt(id, updates), 'Failed to update debt'),
+  [run])
+
+  const deleteDebtMutation = useCallback((id: string) =>
+    run(() => deleteDebt(id), 'Failed to delete debt'),
+  [run])
+
+  const reorderDebtsMutation = useCallback((debtIds: string[]) =>
+    run(userId => setPayoffOrder(userId, debtIds), 'Failed to save payoff order'),
+  [run])
+
+  return {
+    createDebtMutation,
+    updateDebtMutation,
+    deleteDebtMutation,
+    reorderDebtsMutation,
+    saving,
+    error,
+  }
+}
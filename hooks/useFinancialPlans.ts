@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react'
+import { FinancialPlan } from '@/types'
+import { getPlans } from '@/lib/supabase/services/plans'
+import { getPersonalizedPlan } from '@/lib/services/aiService'
+import { useUser } from './useAuth'
+
+const CACHE_KEY_PREFIX = 'finsmart_plans_'
+
+export interface UseFinancialPlansReturn {
+  plans: FinancialPlan[] // Newest version first
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+  generating: boolean
+  generatePlan: (tips?: string[]) => Promise<FinancialPlan | null>
+}
+
+/**
+ * Hook for the user's saved financial plans and generating the next version
+ * generatePlan resolves with the new plan, or null when it couldn't be
+ * generated or saved; error says why.
+ */
+export function useFinancialPlans(): UseFinancialPlansReturn {
+  const { user } = useUser()
+  const [plans, setPlans] = useState<FinancialPlan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [generating, setGenerating] = useState(false)
+
+  const store = useCallback((next: FinancialPlan[]) => {
+    setPlans(next)
+    if (user?.id) localStorage.setItem(`${CACHE_KEY_PREFIX}${user.id}`, JSON.stringify(next))
+  }, [user?.id])
+
+  // Load cached data on mount
+  useEffect(() => {
+    if (user?.id) {
+      const cached = localStorage.getItem(`${CACHE_KEY_PREFIX}${user.id}`)
+      if (cached) {
+        try {
+          setPlans(JSON.parse(cached))
+        } catch (err) {
+          console.error('Error parsing cached plans:', err)
+        }
+      }
+    }
+  }, [user?.id])
+
+  const fetchPlans = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    if (!navigator.onLine) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      store(await getPlans(user.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load plans')
+      console.error('Error fetching plans:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, store])
+
+  useEffect(() => {
+    fetchPlans()
+  }, [fetchPlans])
+
+  const generatePlan = useCallback(async (tips: string[] = []) => {
+    if (!user?.id) return null
+
+    if (!navigator.onLine) {
+      setError('You are offline. Please connect to the internet to generate a plan.')
+      return null
+    }
+
+    try {
+      setGenerating(true)
+      setError(null)
+      const { plan } = await getPersonalizedPlan(tips)
+      if (!plan) {
+        setError('Your plan was written but could not be saved. Please try again.')
+        return null
+      }
+      store([plan, ...plans.filter(p => p.id !== plan.id)])
+      return plan
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate a plan')
+      console.error('Error generating plan:', err)
+      return null
+    } finally {
+      setGenerating(false)
+    }
+  }, [user?.id, plans, store])
+
+  return {
+    plans,
+    loading,
+    error,
+    refetch: fetchPlans,
+    generating,
+    generatePlan,
+  }
+}
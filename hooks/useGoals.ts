@@ -5,8 +5,23 @@ import {
   createGoal, 
   updateGoal, 
   addContribution,
-  subscribeToGoals 
+  getContributions,
+  deleteContribution,
+  subscribeToGoals,
+  ContributionDetails,
+  NewFundingRule,
+  FundingRuleUpdate,
+  getContributionsSince,
+  getFundingRules,
+  createFundingRule,
+  updateFundingRule,
+  setFundingRuleActive,
+  deleteFundingRule,
+  applyFundingRules
 } from '@/lib/supabase/services/goals'
+import { getTransactionsBetween, toLocalDateString } from '@/lib/supabase/services/transactions'
+import { FundingRates, fundingRates, lookbackStart, manualSavingPace } from '@/lib/goals/funding'
+import { GoalContribution, GoalFundingRule } from '@/types'
 import { useUser } from './useAuth'
 import { supabase } from '@/lib/supabase/client'
 
@@ -32,7 +47,9 @@ export function useGoals(): UseGoalsReturn {
       const cached = localStorage.getItem(cacheKey)
       if (cached) {
         try {
-          setGoals(JSON.parse(cached))
+          // Goals cached before target dates existed can't be shown; wait for fresh ones
+          const parsed: FinancialGoal[] = JSON.parse(cached)
+          setGoals(parsed.filter(g => typeof g.target_date === 'string'))
         } catch (err) {
           console.error('Error parsing cached goals:', err)
         }
@@ -92,7 +109,7 @@ export function useGoals(): UseGoalsReturn {
 }
 
 interface UseAddGoalReturn {
-  addGoal: (goal: Omit<FinancialGoal, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<FinancialGoal>
+  addGoal: (goal: Omit<FinancialGoal, 'id' | 'user_id' | 'current_amount' | 'created_at' | 'updated_at'>) => Promise<FinancialGoal>
   adding: boolean
   error: string | null
 }
@@ -103,7 +120,7 @@ export function useAddGoal(): UseAddGoalReturn {
   const [error, setError] = useState<string | null>(null)
 
   const addGoal = useCallback(async (
-    goal: Omit<FinancialGoal, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+    goal: Omit<FinancialGoal, 'id' | 'user_id' | 'current_amount' | 'created_at' | 'updated_at'>
   ): Promise<FinancialGoal> => {
     if (!user?.id) {
       throw new Error('User not authenticated')
@@ -141,7 +158,7 @@ export function useAddGoal(): UseAddGoalReturn {
 
 interface UseUpdateGoalReturn {
   updateGoalMutation: (id: string, updates: Partial<FinancialGoal>) => Promise<void>
-  addContributionMutation: (goalId: string, amount: number) => Promise<void>
+  addContributionMutation: (goalId: string, amount: number, details?: ContributionDetails) => Promise<GoalContribution>
   updating: boolean
   error: string | null
 }
@@ -185,7 +202,8 @@ export function useUpdateGoal(
 
   const addContributionMutation = useCallback(async (
     goalId: string,
-    amount: number
+    amount: number,
+    details?: ContributionDetails
   ) => {
     // Check if online
     if (typeof navigator !== 'undefined' && !navigator.onLine) {
@@ -201,7 +219,7 @@ export function useUpdateGoal(
     }
 
     try {
-      await addContribution(goalId, amount)
+      return await addContribution(goalId, amount, details)
     } catch (err) {
       // Rollback optimistic update on error
       if (onRollback) {
@@ -222,3 +240,268 @@ export function useUpdateGoal(
     error,
   }
 }
+
+interface UseGoalContributionsReturn {
+  contributions: GoalContribution[] // Oldest first
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+  undoContribution: (id: string) => Promise<void>
+  undoing: boolean
+}
+
+/**
+ * Hook for one goal's contribution history, with undo
+ * Nothing is fetched without a goal, e.g. until a goal's details are opened.
+ */
+export function useGoalContributions(goalId: string | null): UseGoalContributionsReturn {
+  const [contributions, setContributions] = useState<GoalContribution[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [undoing, setUndoing] = useState(false)
+
+  const fetchContributions = useCallback(async () => {
+    if (!goalId) {
+      setContributions([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setContributions(await getContributions(goalId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load contributions')
+      console.error('Error fetching contributions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [goalId])
+
+  useEffect(() => {
+    fetchContributions()
+  }, [fetchContributions])
+
+  const undoContribution = useCallback(async (id: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to undo contributions.')
+    }
+
+    setUndoing(true)
+    setError(null)
+
+    try {
+      await deleteContribution(id)
+      setContributions(prev => prev.filter(c => c.id !== id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to undo contribution'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setUndoing(false)
+    }
+  }, [])
+
+  return {
+    contributions,
+    loading,
+    error,
+    refetch: fetchContributions,
+    undoContribution,
+    undoing,
+  }
+}
+
+interface UseFundingRulesReturn {
+  rules: GoalFundingRule[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the user's goal funding rules
+ */
+export function useFundingRules(): UseFundingRulesReturn {
+  const { user } = useUser()
+  const [rules, setRules] = useState<GoalFundingRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      setRules(await getFundingRules(user.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load funding rules')
+      console.error('Error fetching funding rules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  return {
+    rules,
+    loading,
+    error,
+    refetch: fetchRules,
+  }
+}
+
+interface UseSaveFundingRuleReturn {
+  createRuleMutation: (rule: NewFundingRule) => Promise<GoalFundingRule>
+  updateRuleMutation: (id: string, updates: FundingRuleUpdate) => Promise<GoalFundingRule>
+  setRuleActiveMutation: (rule: GoalFundingRule, active: boolean) => Promise<GoalFundingRule>
+  deleteRuleMutation: (id: string) => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+/**
+ * Hook for creating, editing, pausing and deleting funding rules
+ * A monthly rule that is already due contributes straight away.
+ */
+export function useSaveFundingRule(): UseSaveFundingRuleReturn {
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async <T>(action: (userId: string) => Promise<T>, fallbackMessage: string): Promise<T> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to change funding rules.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      return await action(user.id)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [user?.id])
+
+  const createRuleMutation = useCallback((rule: NewFundingRule) =>
+    run(async userId => {
+      const created = await createFundingRule({ ...rule, user_id: userId })
+      const today = toLocalDateString()
+      if (created.next_due && created.next_due <= today) await applyFundingRules(userId, today)
+      return created
+    }, 'Failed to add funding rule'),
+  [run])
+
+  const updateRuleMutation = useCallback((id: string, updates: FundingRuleUpdate) =>
+    run(() => updateFundingRule(id, updates), 'Failed to update funding rule'),
+  [run])
+
+  const setRuleActiveMutation = useCallback((rule: GoalFundingRule, active: boolean) =>
+    run(() => setFundingRuleActive(rule, active), active ? 'Failed to resume funding rule' : 'Failed to pause funding rule'),
+  [run])
+
+  const deleteRuleMutation = useCallback((id: string) =>
+    run(() => deleteFundingRule(id), 'Failed to delete funding rule'),
+  [run])
+
+  return {
+    createRuleMutation,
+    updateRuleMutation,
+    setRuleActiveMutation,
+    deleteRuleMutation,
+    saving,
+    error,
+  }
+}
+
+interface UseFundingRatesReturn {
+  rates: FundingRates
+  manualPace: Map<string, number> // Saved by hand a month, by goal id
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for the recent income, spending and saving that funding previews are
+ * estimated from
+ */
+export function useFundingRates(): UseFundingRatesReturn {
+  const { user } = useUser()
+  const [rates, setRates] = useState<FundingRates>({ monthlyIncome: 0, monthlyRoundUps: 0 })
+  const [manualPace, setManualPace] = useState<Map<string, number>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRates = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const today = toLocalDateString()
+      const since = lookbackStart(today)
+      const [history, contributions] = await Promise.all([
+        getTransactionsBetween(user.id, since, today),
+        getContributionsSince(user.id, since),
+      ])
+      setRates(fundingRates(history, today))
+      setManualPace(manualSavingPace(contributions, today))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate funding')
+      console.error('Error estimating funding:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  return {
+    rates,
+    manualPace,
+    loading,
+    error,
+    refetch: fetchRates,
+  }
+}
+
+/**
+ * Records the contributions funding rules have earned: on load, for monthly
+ * amounts that came due while the app was closed, and again whenever a new
+ * transaction is recorded, for shares of income and round-ups
+ * Goal balances update through the goals real-time subscription.
+ */
+export function useApplyFundingRules(latestTransactionAt: string | null): void {
+  const { user } = useUser()
+
+  useEffect(() => {
+    if (!user?.id) return
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return
+
+    applyFundingRules(user.id, toLocalDateString()).catch(err => {
+      console.error('Error applying goal funding rules:', err)
+    })
+  }, [user?.id, latestTransactionAt])
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  ImportMapping,
+  getImportMappings,
+  saveImportMapping,
+  deleteImportMapping
+} from '@/lib/supabase/services/importMappings'
+import { CsvColumnMapping } from '@/lib/import/types'
+import { useUser } from './useAuth'
+
+interface UseImportMappingsReturn {
+  mappings: ImportMapping[]
+  loading: boolean
+  error: string | null
+  saveMapping: (name: string, mapping: CsvColumnMapping) => Promise<ImportMapping>
+  removeMapping: (id: string) => Promise<void>
+}
+
+/**
+ * Hook to load and manage saved CSV column mapping presets
+ */
+export function useImportMappings(): UseImportMappingsReturn {
+  const { user } = useUser()
+  const [mappings, setMappings] = useState<ImportMapping[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMappings = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getImportMappings(user.id)
+      setMappings(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load import presets')
+      console.error('Error fetching import mappings:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchMappings()
+  }, [fetchMappings])
+
+  const saveMapping = useCallback(async (name: string, mapping: CsvColumnMapping) => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    try {
+      setError(null)
+      const saved = await saveImportMapping(user.id, name, mapping)
+      setMappings(prev => [...prev.filter(m => m.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      return saved
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save import preset')
+      throw err
+    }
+  }, [user?.id])
+
+  const removeMapping = useCallback(async (id: string) => {
+    try {
+      setError(null)
+      await deleteImportMapping(id)
+      setMappings(prev => prev.filter(m => m.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete import preset')
+      throw err
+    }
+  }, [])
+
+  return {
+    mappings,
+    loading,
+    error,
+    saveMapping,
+    removeMapping,
+  }
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from 'react'
+import { ProjectionInputs } from '@/lib/projection/engine'
+import {
+  SimulationGoal,
+  SimulationRequest,
+  SimulationResponse,
+  SimulationResult,
+  SimulationSettings
+} from '@/lib/projection/monteCarlo'
+import { toLocalDateString } from '@/lib/supabase/services/transactions'
+
+// Waits for typing to settle before starting a new run
+const SIMULATION_DEBOUNCE_MS = 300
+
+interface UseMonteCarloReturn {
+  result: SimulationResult | null // The latest finished run
+  running: boolean
+  error: string | null
+}
+
+/**
+ * Hook that runs the Monte Carlo projection in a Web Worker whenever its
+ * inputs change, so thousands of paths don't block the page
+ * Nothing runs while disabled. A run started before the inputs changed again
+ * is ignored when it finishes.
+ */
+export function useMonteCarlo(
+  inputs: ProjectionInputs,
+  settings: SimulationSettings,
+  goals: SimulationGoal[],
+  enabled: boolean
+): UseMonteCarloReturn {
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const latestRequest = useRef(0)
+
+  // One worker for the life of the component, started on first use
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  // Serialized so a re-render with equal values doesn't start a new run
+  const request = JSON.stringify({ inputs, settings, goals })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    if (typeof Worker === 'undefined') {
+      setError('This browser can\'t run simulations')
+      return
+    }
+
+    const timer = setTimeout(() => {
+      if (!workerRef.current) {
+        workerRef.current = new Worker(new URL('../lib/projection/monteCarlo.worker.ts', import.meta.url))
+      }
+      const worker = workerRef.current
+
+      const id = ++latestRequest.current
+      worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+        if (event.data.id !== latestRequest.current) return
+        if ('error' in event.data) {
+          setError(event.data.error)
+        } else {
+          setResult(event.data.result)
+          setError(null)
+        }
+        setRunning(false)
+      }
+      worker.onerror = (event) => {
+        console.error('Simulation worker error:', event)
+        setError('The simulation stopped unexpectedly')
+        setRunning(false)
+      }
+
+      setRunning(true)
+      const message: SimulationRequest = { id, ...JSON.parse(request), today: toLocalDateString() }
+      worker.postMessage(message)
+    }, SIMULATION_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [request, enabled])
+
+  return {
+    result,
+    running,
+    error,
+  }
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ProjectionScenario } from '@/types'
+import {
+  NewProjectionScenario,
+  ProjectionScenarioUpdate,
+  getProjectionScenarios,
+  createProjectionScenario,
+  updateProjectionScenario,
+  deleteProjectionScenario
+} from '@/lib/supabase/services/projections'
+import { useUser } from './useAuth'
+
+const CACHE_KEY_PREFIX = 'finsmart_projection_scenarios_'
+
+interface UseProjectionScenariosReturn {
+  scenarios: ProjectionScenario[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the user's saved projection scenarios, cached for offline viewing
+ */
+export function useProjectionScenarios(): UseProjectionScenariosReturn {
+  const { user } = useUser()
+  const [scenarios, setScenarios] = useState<ProjectionScenario[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load cached data on mount
+  useEffect(() => {
+    if (user?.id) {
+      const cached = localStorage.getItem(`${CACHE_KEY_PREFIX}${user.id}`)
+      if (cached) {
+        try {
+          setScenarios(JSON.parse(cached))
+        } catch (err) {
+          console.error('Error parsing cached projection scenarios:', err)
+        }
+      }
+    }
+  }, [user?.id])
+
+  const fetchScenarios = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getProjectionScenarios(user.id)
+      setScenarios(data)
+      localStorage.setItem(`${CACHE_KEY_PREFIX}${user.id}`, JSON.stringify(data))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projection scenarios')
+      console.error('Error fetching projection scenarios:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchScenarios()
+  }, [fetchScenarios])
+
+  return {
+    scenarios,
+    loading,
+    error,
+    refetch: fetchScenarios,
+  }
+}
+
+interface UseSaveProjectionScenarioReturn {
+  createScenarioMutation: (scenario: NewProjectionScenario) => Promise<ProjectionScenario>
+  updateScenarioMutation: (id: string, updates: ProjectionScenarioUpdate) => Promise<ProjectionScenario>
+  deleteScenarioMutation: (id: string) => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+/**
+ * Hook for saving, updating and deleting projection scenarios
+ */
+export function useSaveProjectionScenario(): UseSaveProjectionScenarioReturn {
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async <T>(action: (userId: string) => Promise<T>, fallbackMessage: string): Promise<T> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to save scenarios.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      return await action(user.id)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [user?.id])
+
+  const createScenarioMutation = useCallback((scenario: NewProjectionScenario) =>
+    run(userId => createProjectionScenario({ ...scenario, user_id: userId }), 'Failed to save scenario'),
+  [run])
+
+  const updateScenarioMutation = useCallback((id: string, updates: ProjectionScenarioUpdate) =>
+    run(() => updateProjectionScenario(id, updates), 'Failed to update scenario'),
+  [run])
+
+  const deleteScenarioMutation = useCallback((id: string) =>
+    run(() => deleteProjectionScenario(id), 'Failed to delete scenario'),
+  [run])
+
+  return {
+    createScenarioMutation,
+    updateScenarioMutation,
+    deleteScenarioMutation,
+    saving,
+    error,
+  }
+}
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react'
+import { RecurringTransaction } from '@/types'
+import {
+  NewRecurringTransaction,
+  RecurringTransactionUpdate,
+  getRecurringTransactions,
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  deleteRecurringTransaction,
+  materializeRecurringTransactions
+} from '@/lib/supabase/services/recurring'
+import { getTransactionsBetween, toLocalDateString } from '@/lib/supabase/services/transactions'
+import { RecurringSuggestion, detectRecurring } from '@/lib/recurring/detection'
+import { useUser } from './useAuth'
+
+// How far back the detector looks for repeating transactions
+const DETECTION_WINDOW_DAYS = 400
+
+interface UseRecurringTransactionsReturn {
+  recurring: RecurringTransaction[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the user's recurring transaction rules
+ * Call refetch when transactions change so next due dates stay current
+ */
+export function useRecurringTransactions(): UseRecurringTransactionsReturn {
+  const { user } = useUser()
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRecurring = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getRecurringTransactions(user.id)
+      setRecurring(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recurring transactions')
+      console.error('Error fetching recurring transactions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchRecurring()
+  }, [fetchRecurring])
+
+  return {
+    recurring,
+    loading,
+    error,
+    refetch: fetchRecurring,
+  }
+}
+
+interface UseRecurringSuggestionsReturn {
+  suggestions: RecurringSuggestion[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to scan recent transactions for repeating patterns not yet covered by a rule
+ */
+export function useRecurringSuggestions(rules: RecurringTransaction[]): UseRecurringSuggestionsReturn {
+  const { user } = useUser()
+  const [suggestions, setSuggestions] = useState<RecurringSuggestion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSuggestions = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const today = new Date()
+      const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - DETECTION_WINDOW_DAYS)
+      const history = await getTransactionsBetween(user.id, toLocalDateString(start), toLocalDateString(today))
+      setSuggestions(detectRecurring(history, rules, toLocalDateString(today)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect recurring transactions')
+      console.error('Error detecting recurring transactions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, rules])
+
+  useEffect(() => {
+    fetchSuggestions()
+  }, [fetchSuggestions])
+
+  return {
+    suggestions,
+    loading,
+    error,
+    refetch: fetchSuggestions,
+  }
+}
+
+interface UseSaveRecurringTransactionReturn {
+  createRecurringMutation: (rule: NewRecurringTransaction) => Promise<RecurringTransaction>
+  updateRecurringMutation: (id: string, updates: RecurringTransactionUpdate) => Promise<RecurringTransaction>
+  deleteRecurringMutation: (id: string) => Promise<void>
+  saving: boolean
+  error: string | null
+}
+
+/**
+ * Hook for creating, editing and deleting recurring rules
+ * A rule that is already due is recorded straight away.
+ */
+export function useSaveRecurringTransaction(): UseSaveRecurringTransactionReturn {
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async <T>(action: (userId: string) => Promise<T>, fallbackMessage: string): Promise<T> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to change recurring transactions.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      return await action(user.id)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [user?.id])
+
+  const createRecurringMutation = useCallback((rule: NewRecurringTransaction) =>
+    run(async userId => {
+      const created = await createRecurringTransaction({ ...rule, user_id: userId })
+      const today = toLocalDateString()
+      if (created.next_due <= today) await materializeRecurringTransactions(userId, today)
+      return created
+    }, 'Failed to add recurring transaction'),
+  [run])
+
+  const updateRecurringMutation = useCallback((id: string, updates: RecurringTransactionUpdate) =>
+    run(async userId => {
+      const updated = await updateRecurringTransaction(id, updates)
+      const today = toLocalDateString()
+      if (updated.active && updated.next_due <= today) await materializeRecurringTransactions(userId, today)
+      return updated
+    }, 'Failed to update recurring transaction'),
+  [run])
+
+  const deleteRecurringMutation = useCallback((id: string) =>
+    run(() => deleteRecurringTransaction(id), 'Failed to delete recurring transaction'),
+  [run])
+
+  return {
+    createRecurringMutation,
+    updateRecurringMutation,
+    deleteRecurringMutation,
+    saving,
+    error,
+  }
+}
+
+/**
+ * Records recurring transactions that came due while the app was closed
+ * Runs once per signed-in user; new rows arrive through the transactions
+ * real-time subscription.
+ */
+export function useMaterializeRecurring(): void {
+  const { user } = useUser()
+
+  useEffect(() => {
+    if (!user?.id) return
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return
+
+    materializeRecurringTransactions(user.id, toLocalDateString()).catch(err => {
+      console.error('Error recording recurring transactions:', err)
+    })
+  }, [user?.id])
+}
@@ -1,6 +1,26 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Transaction } from '@/types'
-import { getTransactions, createTransaction, deleteTransaction, subscribeToTransactions } from '@/lib/supabase/services/transactions'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Transaction, TransactionSplit } from '@/types'
+import {
+  CashFlowMonth,
+  NewTransaction,
+  SplitLine,
+  TransactionFilters,
+  TransactionUpdate,
+  getTransactions,
+  createTransaction,
+  createTransactions,
+  createSplitTransaction,
+  getTransactionSplits,
+  setTransactionSplits,
+  SPLIT_CATEGORY_NAME,
+  updateTransaction,
+  updateTransactions,
+  deleteTransaction,
+  deleteTransactions,
+  getCashFlow,
+  subscribeToTransactions,
+  toLocalDateString
+} from '@/lib/supabase/services/transactions'
 import { useUser } from './useAuth'
 import { supabase } from '@/lib/supabase/client'
 
@@ -15,17 +35,29 @@ interface UseTransactionsReturn {
 
 const CACHE_KEY_PREFIX = 'finsmart_transactions_'
 
-export function useTransactions(limit: number = 50): UseTransactionsReturn {
+/**
+ * Hook to page through the user's transactions
+ * Without filters this is the app-wide list: cached locally and kept live
+ * through the real-time channel. With filters (the ledger view) results are
+ * neither cached nor subscribed; callers refetch when transactions change.
+ */
+export function useTransactions(limit: number = 50, filters?: TransactionFilters): UseTransactionsReturn {
   const { user } = useUser()
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [offset, setOffset] = useState(0)
+  const [offset, setOffset] = useState(0) // Number of rows loaded so far
   const [hasMore, setHasMore] = useState(true)
+  const loadingMoreRef = useRef(false)
+  const requestIdRef = useRef(0)
+
+  // Filters usually arrive as a fresh object each render; only refetch when they really change
+  const filterKey = filters ? JSON.stringify(filters) : ''
+  const activeFilters = useMemo(() => filters, [filterKey])
 
   // Load cached data on mount
   useEffect(() => {
-    if (user?.id) {
+    if (user?.id && !activeFilters) {
       const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
       const cached = localStorage.getItem(cacheKey)
       if (cached) {
@@ -36,63 +68,75 @@ export function useTransactions(limit: number = 50): UseTransactionsReturn {
         }
       }
     }
-  }, [user?.id])
+  }, [user?.id, activeFilters])
 
-  const fetchTransactions = useCallback(async (reset: boolean = false) => {
+  const fetchTransactions = useCallback(async (reset: boolean = false, count: number = limit) => {
     if (!user?.id) {
       setLoading(false)
       return
     }
 
+    // Responses for filters that have since changed are dropped
+    const requestId = ++requestIdRef.current
+
     try {
       setError(null)
       const currentOffset = reset ? 0 : offset
-      const data = await getTransactions(user.id, limit, currentOffset)
-      
+      const data = await getTransactions(user.id, count, currentOffset, activeFilters)
+      if (requestId !== requestIdRef.current) return
+
       if (reset) {
         setTransactions(data)
-        setOffset(0)
-        
+
         // Cache the data
-        const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
-        localStorage.setItem(cacheKey, JSON.stringify(data))
+        if (!activeFilters) {
+          const cacheKey = `${CACHE_KEY_PREFIX}${user.id}`
+          localStorage.setItem(cacheKey, JSON.stringify(data))
+        }
       } else {
         setTransactions(prev => [...prev, ...data])
       }
-      
+      setOffset(currentOffset + data.length)
+
       // Check if there are more transactions to load
-      setHasMore(data.length === limit)
+      setHasMore(data.length === count)
     } catch (err) {
+      if (requestId !== requestIdRef.current) return
       setError(err instanceof Error ? err.message : 'Failed to load transactions')
       console.error('Error fetching transactions:', err)
     } finally {
-      setLoading(false)
+      if (requestId === requestIdRef.current) setLoading(false)
     }
-  }, [user?.id, limit, offset])
+  }, [user?.id, limit, offset, activeFilters])
 
   const loadMore = useCallback(async () => {
-    if (!hasMore || loading) return
-    
-    setOffset(prev => prev + limit)
-    await fetchTransactions(false)
-  }, [hasMore, loading, limit, fetchTransactions])
+    if (!hasMore || loading || loadingMoreRef.current) return
+
+    loadingMoreRef.current = true
+    try {
+      await fetchTransactions(false)
+    } finally {
+      loadingMoreRef.current = false
+    }
+  }, [hasMore, loading, fetchTransactions])
 
+  // Reload everything already on screen so infinite-scroll lists keep their place
   const refetch = useCallback(async () => {
-    setOffset(0)
-    await fetchTransactions(true)
-  }, [fetchTransactions])
+    await fetchTransactions(true, Math.max(limit, offset))
+  }, [fetchTransactions, limit, offset])
 
   useEffect(() => {
+    setLoading(true)
     fetchTransactions(true)
-  }, [user?.id, limit])
+  }, [user?.id, limit, activeFilters])
 
   // Set up real-time subscription
   useEffect(() => {
-    if (!user?.id) return
+    if (!user?.id || activeFilters) return
 
     const channel = subscribeToTransactions(user.id, (updatedTransactions) => {
       setTransactions(updatedTransactions)
-      setOffset(0)
+      setOffset(updatedTransactions.length)
       setHasMore(updatedTransactions.length === limit)
       
       // Update cache when real-time updates arrive
@@ -103,7 +147,7 @@ export function useTransactions(limit: number = 50): UseTransactionsReturn {
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [user?.id, limit])
+  }, [user?.id, limit, activeFilters])
 
   return {
     transactions,
@@ -116,7 +160,7 @@ export function useTransactions(limit: number = 50): UseTransactionsReturn {
 }
 
 interface UseAddTransactionReturn {
-  addTransaction: (transaction: Omit<Transaction, 'id' | 'user_id' | 'created_at'>) => Promise<Transaction>
+  addTransaction: (transaction: NewTransaction, splits?: SplitLine[]) => Promise<Transaction>
   adding: boolean
   error: string | null
 }
@@ -130,7 +174,8 @@ export function useAddTransaction(
   const [error, setError] = useState<string | null>(null)
 
   const addTransaction = useCallback(async (
-    transaction: Omit<Transaction, 'id' | 'user_id' | 'created_at'>
+    transaction: NewTransaction,
+    splits: SplitLine[] = []
   ): Promise<Transaction> => {
     if (!user?.id) {
       throw new Error('User not authenticated')
@@ -147,8 +192,13 @@ export function useAddTransaction(
     // Create optimistic transaction with temporary ID
     const optimisticTransaction: Transaction = {
       ...transaction,
+      ...(splits.length > 0 && { category_id: null, category_name: SPLIT_CATEGORY_NAME }),
       id: `temp-${Date.now()}`,
       user_id: user.id,
+      occurred_on: transaction.occurred_on ?? toLocalDateString(),
+      notes: transaction.notes ?? null,
+      recurring_id: transaction.recurring_id ?? null,
+      external_id: transaction.external_id ?? null,
       created_at: new Date().toISOString(),
     }
 
@@ -158,10 +208,9 @@ export function useAddTransaction(
     }
 
     try {
-      const newTransaction = await createTransaction({
-        ...transaction,
-        user_id: user.id,
-      })
+      const newTransaction = splits.length > 0
+        ? await createSplitTransaction({ ...transaction, user_id: user.id }, splits)
+        : await createTransaction({ ...transaction, user_id: user.id })
       
       return newTransaction
     } catch (err) {
@@ -184,6 +233,126 @@ export function useAddTransaction(
   }
 }
 
+interface UseUpdateTransactionReturn {
+  updateTransactionMutation: (id: string, updates: TransactionUpdate) => Promise<Transaction>
+  updating: boolean
+  error: string | null
+}
+
+export function useUpdateTransaction(): UseUpdateTransactionReturn {
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateTransactionMutation = useCallback(async (id: string, updates: TransactionUpdate) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to edit transactions.')
+    }
+
+    setUpdating(true)
+    setError(null)
+
+    try {
+      return await updateTransaction(id, updates)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update transaction'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setUpdating(false)
+    }
+  }, [])
+
+  return {
+    updateTransactionMutation,
+    updating,
+    error,
+  }
+}
+
+interface UseTransactionSplitsReturn {
+  splits: TransactionSplit[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load the split lines of one transaction; pass null for none
+ */
+export function useTransactionSplits(transactionId: string | null): UseTransactionSplitsReturn {
+  const [splits, setSplits] = useState<TransactionSplit[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSplits = useCallback(async () => {
+    if (!transactionId) {
+      setSplits([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await getTransactionSplits(transactionId)
+      setSplits(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load split')
+      console.error('Error fetching transaction splits:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [transactionId])
+
+  useEffect(() => {
+    fetchSplits()
+  }, [fetchSplits])
+
+  return {
+    splits,
+    loading,
+    error,
+    refetch: fetchSplits,
+  }
+}
+
+interface UseSetTransactionSplitsReturn {
+  setSplitsMutation: (transactionId: string, amount: number, lines: SplitLine[]) => Promise<TransactionSplit[]>
+  saving: boolean
+  error: string | null
+}
+
+export function useSetTransactionSplits(): UseSetTransactionSplitsReturn {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setSplitsMutation = useCallback(async (transactionId: string, amount: number, lines: SplitLine[]) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to split transactions.')
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      return await setTransactionSplits(transactionId, amount, lines)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to split transaction'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setSaving(false)
+    }
+  }, [])
+
+  return {
+    setSplitsMutation,
+    saving,
+    error,
+  }
+}
+
 interface UseDeleteTransactionReturn {
   deleteTransactionMutation: (id: string) => Promise<void>
   deleting: boolean
@@ -195,6 +364,11 @@ export function useDeleteTransaction(): UseDeleteTransactionReturn {
   const [error, setError] = useState<string | null>(null)
 
   const deleteTransactionMutation = useCallback(async (id: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to delete transactions.')
+    }
+
     setDeleting(true)
     setError(null)
 
@@ -215,3 +389,155 @@ export function useDeleteTransaction(): UseDeleteTransactionReturn {
     error,
   }
 }
+
+interface UseBulkTransactionsReturn {
+  bulkUpdateMutation: (ids: string[], updates: TransactionUpdate) => Promise<void>
+  bulkDeleteMutation: (ids: string[]) => Promise<void>
+  working: boolean
+  error: string | null
+}
+
+/**
+ * Hook for editing or deleting many selected transactions at once
+ */
+export function useBulkTransactions(): UseBulkTransactionsReturn {
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async (action: () => Promise<void>, verb: string) => {
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error(`You are offline. Please connect to the internet to ${verb} transactions.`)
+    }
+
+    setWorking(true)
+    setError(null)
+
+    try {
+      await action()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `Failed to ${verb} transactions`
+      setError(errorMessage)
+      throw err
+    } finally {
+      setWorking(false)
+    }
+  }, [])
+
+  const bulkUpdateMutation = useCallback(
+    (ids: string[], updates: TransactionUpdate) => run(() => updateTransactions(ids, updates), 'update'),
+    [run]
+  )
+
+  const bulkDeleteMutation = useCallback(
+    (ids: string[]) => run(() => deleteTransactions(ids), 'delete'),
+    [run]
+  )
+
+  return {
+    bulkUpdateMutation,
+    bulkDeleteMutation,
+    working,
+    error,
+  }
+}
+
+interface UseCashFlowReturn {
+  cashFlow: CashFlowMonth[]
+  loading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook to load monthly income vs. expense totals
+ * Call refetch when transactions change to keep the totals current
+ */
+export function useCashFlow(months: number = 6): UseCashFlowReturn {
+  const { user } = useUser()
+  const [cashFlow, setCashFlow] = useState<CashFlowMonth[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchCashFlow = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      setError(null)
+      const data = await getCashFlow(user.id, months)
+      setCashFlow(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cash flow')
+      console.error('Error fetching cash flow:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, months])
+
+  useEffect(() => {
+    fetchCashFlow()
+  }, [fetchCashFlow])
+
+  return {
+    cashFlow,
+    loading,
+    error,
+    refetch: fetchCashFlow,
+  }
+}
+
+interface UseImportTransactionsReturn {
+  importTransactions: (
+    transactions: (NewTransaction & { created_at?: string })[]
+  ) => Promise<number>
+  importing: boolean
+  error: string | null
+}
+
+/**
+ * Hook for bulk-inserting imported statement rows
+ * Resolves with the number of transactions saved
+ */
+export function useImportTransactions(): UseImportTransactionsReturn {
+  const { user } = useUser()
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const importTransactions = useCallback(async (
+    transactions: (NewTransaction & { created_at?: string })[]
+  ): Promise<number> => {
+    if (!user?.id) {
+      throw new Error('User not authenticated')
+    }
+
+    // Check if online
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      throw new Error('You are offline. Please connect to the internet to import transactions.')
+    }
+
+    setImporting(true)
+    setError(null)
+
+    try {
+      const inserted = await createTransactions(
+        transactions.map(tx => ({ ...tx, user_id: user.id }))
+      )
+      return inserted.length
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import transactions'
+      setError(errorMessage)
+      throw err
+    } finally {
+      setImporting(false)
+    }
+  }, [user?.id])
+
+  return {
+    importTransactions,
+    importing,
+    error,
+  }
+}
@@ -0,0 +1,257 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/lib/supabase/database.types'
+import { addMonths, computeBudgetPeriods, toMonthKey } from '@/lib/supabase/services/budgets'
+import { CashFlowMonth, summarizeCashFlow } from '@/lib/supabase/services/transactions'
+import { INSIGHT_HISTORY_MONTHS, InsightRulesInput } from '@/lib/insights/rules'
+import { CADENCE_LABELS, monthlyCost } from '@/lib/recurring/schedule'
+import { GOAL_STATUS_LABELS, goalProgress } from '@/lib/goals/progress'
+import { FinancialGoal, RecurringTransaction, Transaction } from '@/types'
+
+// Enough recent activity to answer "what did I buy lately" without bloating the prompt
+const RECENT_TRANSACTION_COUNT = 15
+
+// Months of income and expenses a plan looks back over, including this one
+const PLAN_CASH_FLOW_MONTHS = 6
+
+export interface BudgetSummary {
+  category: string
+  available: number // This month's budget plus anything rolled over
+  spent: number
+  remaining: number
+}
+
+/**
+ * A snapshot of the user's finances for grounding assistant replies
+ */
+export interface FinancialContext {
+  today: string // YYYY-MM-DD in the user's time zone
+  month: string // YYYY-MM-01
+  income: number // Recorded this month so far
+  expenses: number
+  budgets: BudgetSummary[]
+  goals: Pick<FinancialGoal, 'title' | 'target_amount' | 'current_amount' | 'target_date' | 'created_at'>[]
+  recentTransactions: Pick<Transaction, 'occurred_on' | 'description' | 'amount' | 'kind' | 'category_name'>[]
+}
+
+/**
+ * Loads the current month's budgets and totals, goals and recent
+ * transactions with a client acting as the user, so row level security
+ * scopes every query
+ */
+export async function loadFinancialContext(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  today: string
+): Promise<FinancialContext> {
+  const month = toMonthKey(new Date(`${today}T00:00:00`))
+  const nextMonth = addMonths(month, 1)
+
+  const { data: categories, error: categoriesError } = await supabase
+    .from('spending_categories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (categoriesError) throw categoriesError
+
+  // Rollover categories need spending back to the month they were created
+  const spendingStart = (categories || [])
+    .filter(c => c.rollover)
+    .map(c => toMonthKey(new Date(c.created_at)))
+    .reduce((earliest, m) => (m < earliest ? m : earliest), month)
+
+  const [budgetsResult, spendingResult, monthResult, goalsResult, recentResult] = await Promise.all([
+    supabase.from('category_budgets').select('category_id, month, amount').eq('user_id', userId),
+    supabase.rpc('get_monthly_category_spending', { p_start: spendingStart, p_end: nextMonth }),
+    supabase
+      .from('transactions')
+      .select('amount, kind')
+      .eq('user_id', userId)
+      .gte('occurred_on', month)
+      .lt('occurred_on', nextMonth),
+    supabase
+      .from('financial_goals')
+      .select('title, target_amount, current_amount, target_date, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('transactions')
+      .select('occurred_on, description, amount, kind, category_name')
+      .eq('user_id', userId)
+      .order('occurred_on', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(RECENT_TRANSACTION_COUNT),
+  ])
+  for (const result of [budgetsResult, spendingResult, monthResult, goalsResult, recentResult]) {
+    if (result.error) throw result.error
+  }
+
+  const periods = computeBudgetPeriods(categories || [], budgetsResult.data || [], spendingResult.data || [], month)
+  const monthRows = monthResult.data || []
+  const total = (kind: string) => monthRows.filter(tx => tx.kind === kind).reduce((sum, tx) => sum + Number(tx.amount), 0)
+
+  return {
+    today,
+    month,
+    income: total('income'),
+    expenses: total('expense'),
+    budgets: periods.map(period => ({
+      category: period.category.name,
+      available: period.available,
+      spent: period.spent,
+      remaining: period.remaining,
+    })),
+    goals: goalsResult.data || [],
+    recentTransactions: recentResult.data || [],
+  }
+}
+
+/**
+ * Loads the transactions and goals the insight rules look at, acting as
+ * the user; the caller adds the categories it already has
+ */
+export async function loadInsightRulesData(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  today: string
+): Promise<Pick<InsightRulesInput, 'transactions' | 'goals'>> {
+  const since = addMonths(toMonthKey(new Date(`${today}T00:00:00`)), -INSIGHT_HISTORY_MONTHS)
+
+  const [transactionsResult, goalsResult] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('occurred_on, description, amount, kind, category_name, transaction_splits(category_name, amount)')
+      .eq('user_id', userId)
+      .gte('occurred_on', since)
+      .lte('occurred_on', today),
+    supabase
+      .from('financial_goals')
+      .select('title, target_amount, current_amount, target_date, created_at')
+      .eq('user_id', userId),
+  ])
+  if (transactionsResult.error) throw transactionsResult.error
+  if (goalsResult.error) throw goalsResult.error
+
+  return {
+    transactions: (transactionsResult.data || []).map(tx => ({
+      ...tx,
+      amount: Number(tx.amount),
+      transaction_splits: tx.transaction_splits?.map(split => ({ ...split, amount: Number(split.amount) })),
+    })),
+    goals: goalsResult.data || [],
+  }
+}
+
+const money = (amount: number) => `$${Number(amount).toFixed(2)}`
+
+/**
+ * Renders the snapshot as a compact plain-text block for a system prompt
+ */
+export function formatFinancialContext(context: FinancialContext): string {
+  const monthName = new Date(`${context.month}T00:00:00`).toLocaleString('en-US', { month: 'long', year: 'numeric' })
+  const lines = [
+    `Today is ${context.today}. Figures below cover ${monthName} so far.`,
+    `Income this month: ${money(context.income)}. Expenses this month: ${money(context.expenses)}.`,
+    '',
+    'Spending by category (spent / available budget, remaining):',
+    ...(context.budgets.length > 0
+      ? context.budgets.map(b => `- ${b.category}: ${money(b.spent)} / ${money(b.available)}, ${b.remaining < 0 ? `over by ${money(-b.remaining)}` : `${money(b.remaining)} left`}`)
+      : ['- No categories set up']),
+    '',
+    'Savings goals (saved / target by target date, status):',
+    ...(context.goals.length > 0
+      ? context.goals.map(g => {
+        const progress = goalProgress(g, context.today)
+        const needed = progress.status === 'complete' ? '' : `, needs ${money(progress.requiredMonthly)} a month`
+        return `- ${g.title}: ${money(g.current_amount)} / ${money(g.target_amount)} by ${g.target_date}, ${GOAL_STATUS_LABELS[progress.status].toLowerCase()}${needed}`
+      })
+      : ['- No goals set up']),
+    '',
+    `Most recent transactions (newest first, up to ${RECENT_TRANSACTION_COUNT}):`,
+    ...(context.recentTransactions.length > 0
+      ? context.recentTransactions.map(tx => `- ${tx.occurred_on} ${tx.kind === 'income' ? 'income' : tx.category_name}: ${tx.description} ${tx.kind === 'income' ? '+' : '-'}${money(tx.amount)}`)
+      : ['- No transactions yet']),
+  ]
+  return lines.join('\n')
+}
+
+/**
+ * Everything a personalized plan is written from: the month's snapshot,
+ * the user's name, their recurring bills and income, and recent cash flow
+ */
+export interface PlanContext {
+  name: string | null
+  financial: FinancialContext
+  recurring: Pick<RecurringTransaction, 'description' | 'amount' | 'kind' | 'cadence' | 'next_due'>[]
+  cashFlow: CashFlowMonth[] // Oldest first; the last month is in progress
+}
+
+/**
+ * Loads the plan context acting as the user
+ */
+export async function loadPlanContext(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  today: string
+): Promise<PlanContext> {
+  const todayDate = new Date(`${today}T00:00:00`)
+  const since = addMonths(toMonthKey(todayDate), -(PLAN_CASH_FLOW_MONTHS - 1))
+
+  const [financial, profileResult, recurringResult, cashFlowResult] = await Promise.all([
+    loadFinancialContext(supabase, userId, today),
+    supabase.from('profiles').select('full_name').eq('id', userId).maybeSingle(),
+    supabase
+      .from('recurring_transactions')
+      .select('description, amount, kind, cadence, next_due')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .order('next_due', { ascending: true }),
+    supabase
+      .from('transactions')
+      .select('amount, kind, occurred_on')
+      .eq('user_id', userId)
+      .gte('occurred_on', since)
+      .lte('occurred_on', today),
+  ])
+  if (profileResult.error) throw profileResult.error
+  if (recurringResult.error) throw recurringResult.error
+  if (cashFlowResult.error) throw cashFlowResult.error
+
+  return {
+    name: profileResult.data?.full_name?.trim() || null,
+    financial,
+    recurring: recurringResult.data || [],
+    cashFlow: summarizeCashFlow(
+      (cashFlowResult.data || []).map(tx => ({ ...tx, amount: Number(tx.amount) })),
+      PLAN_CASH_FLOW_MONTHS,
+      todayDate
+    ),
+  }
+}
+
+/**
+ * Renders the plan context as plain text for the plan prompt
+ */
+export function formatPlanContext(context: PlanContext): string {
+  const monthlyOut = context.recurring
+    .filter(r => r.kind === 'expense')
+    .reduce((sum, r) => sum + monthlyCost(Number(r.amount), r.cadence), 0)
+  const monthlyIn = context.recurring
+    .filter(r => r.kind === 'income')
+    .reduce((sum, r) => sum + monthlyCost(Number(r.amount), r.cadence), 0)
+
+  const lines = [
+    formatFinancialContext(context.financial),
+    '',
+    'Recurring bills and income:',
+    ...(context.recurring.length > 0
+      ? [
+        ...context.recurring.map(r => `- ${r.description} (${r.kind}): ${money(r.amount)} ${CADENCE_LABELS[r.cadence].toLowerCase()}, next on ${r.next_due}`),
+        `- In total about ${money(monthlyOut)} a month goes out and ${money(monthlyIn)} comes in on a schedule`,
+      ]
+      : ['- None set up']),
+    '',
+    `Cash flow over the last ${context.cashFlow.length} months (income / expenses), oldest first; the last month is still in progress:`,
+    ...context.cashFlow.map(m => `- ${m.month}: ${money(m.income)} / ${money(m.expense)}`),
+  ]
+  return lines.join('\n')
+}
@@ -0,0 +1,116 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { AuthenticatedRequest, getAuthenticatedUser } from '@/lib/supabase/server'
+import { RateLimitPolicy, consumeRateLimit } from '@/lib/ratelimit'
+import { getAIQuota, reserveAICall } from './usage'
+
+export type AIRouteErrorCode = 'unauthorized' | 'rate_limited' | 'quota_exceeded' | 'quota_unavailable' | 'payload_too_large'
+
+/**
+ * Body of a 401, 413, 429 or 503 from an AI route, read by lib/services/aiService
+ */
+export interface AIRouteErrorBody {
+  error: string
+  code: AIRouteErrorCode
+  retryAfter?: number // Seconds, for rate_limited, quota_exceeded and quota_unavailable
+}
+
+// Bursts of 20 requests, then one every 6 seconds
+const USER_POLICY: RateLimitPolicy = { capacity: 20, refillPerSecond: 1 / 6 }
+// Looser, since everyone behind one office or carrier NAT shares an address
+const IP_POLICY: RateLimitPolicy = { capacity: 60, refillPerSecond: 1 / 2 }
+
+function sendError(res: NextApiResponse, status: number, body: AIRouteErrorBody) {
+  if (body.retryAfter) res.setHeader('Retry-After', String(body.retryAfter))
+  res.status(status).json(body)
+}
+
+/**
+ * The caller's address: the one Netlify's edge saw the connection come from,
+ * otherwise the socket's
+ * X-Forwarded-For isn't used, since its first hops are whatever the client
+ * sent and its last is the proxy itself, which every user would share.
+ */
+export function getClientIp(req: NextApiRequest): string {
+  const header = req.headers['x-nf-client-connection-ip']
+  const platformIp = (Array.isArray(header) ? header[0] : header)?.trim()
+  return platformIp || req.socket.remoteAddress || 'unknown'
+}
+
+/**
+ * Lets a request through to an AI route only when it comes from a signed-in
+ * user who is within both their own and their IP's rate limit, with a body
+ * no larger than maxBodyBytes
+ * Resolves with the user, or null after sending the 401, 413 or 429.
+ * The IP bucket is checked first so anonymous floods never reach Supabase.
+ * The monthly quota is taken separately with reserveAIQuota, once the route
+ * has checked the request is one it can answer.
+ */
+export async function guardAIRoute(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  { maxBodyBytes }: { maxBodyBytes: number }
+): Promise<AuthenticatedRequest | null> {
+  const ipLimit = await consumeRateLimit('ai:ip', getClientIp(req), IP_POLICY)
+  if (!ipLimit.allowed) {
+    sendError(res, 429, {
+      error: `Too many requests. Please try again in ${ipLimit.retryAfterSeconds} seconds.`,
+      code: 'rate_limited',
+      retryAfter: ipLimit.retryAfterSeconds,
+    })
+    return null
+  }
+
+  const bodyBytes = Buffer.byteLength(typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? ''))
+  if (bodyBytes > maxBodyBytes) {
+    sendError(res, 413, { error: 'That request is too long. Please shorten it and try again.', code: 'payload_too_large' })
+    return null
+  }
+
+  const auth = await getAuthenticatedUser(req)
+  if (!auth) {
+    sendError(res, 401, { error: 'Please sign in to use the AI assistant.', code: 'unauthorized' })
+    return null
+  }
+
+  const userLimit = await consumeRateLimit('ai:user', auth.user.id, USER_POLICY)
+  if (!userLimit.allowed) {
+    sendError(res, 429, {
+      error: `You're sending requests too quickly. Please try again in ${userLimit.retryAfterSeconds} seconds.`,
+      code: 'rate_limited',
+      retryAfter: userLimit.retryAfterSeconds,
+    })
+    return null
+  }
+
+  return auth
+}
+
+/**
+ * Reserves one of the user's monthly AI calls, right before the route calls
+ * the model
+ * Resolves with the reservation to pass to withUsageMetering, or null after
+ * sending the 429 when the quota is used up. When the quota can't be checked
+ * the request is turned away with a 503 rather than let through unmetered.
+ */
+export async function reserveAIQuota(res: NextApiResponse, { supabase, user }: AuthenticatedRequest): Promise<string | null> {
+  try {
+    const reservation = await reserveAICall(supabase)
+    if (reservation) return reservation
+
+    const quota = await getAIQuota(supabase, user.id)
+    const resetsAt = new Date(quota.resetsAt)
+    sendError(res, 429, {
+      error: `You've used all ${quota.limit} of this month's AI requests. They reset on ${resetsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}.`,
+      code: 'quota_exceeded',
+      retryAfter: Math.max(1, Math.ceil((resetsAt.getTime() - Date.now()) / 1000)),
+    })
+  } catch (error) {
+    console.error('Error checking AI quota:', error)
+    sendError(res, 503, {
+      error: 'The AI assistant is unavailable right now. Please try again in a few minutes.',
+      code: 'quota_unavailable',
+      retryAfter: 60,
+    })
+  }
+  return null
+}
@@ -0,0 +1,62 @@
+import { AIProvider, AIProviderError } from './types'
+import { createGeminiProvider } from './providers/gemini'
+import { createWatsonProvider } from './providers/watson'
+import { createMockProvider } from './providers/mock'
+
+export * from './types'
+
+export type AIProviderName = 'gemini' | 'watson' | 'mock'
+
+// Each AI feature can run on its own provider
+export type AIFeature = 'chat' | 'tips' | 'insight' | 'plan' | 'recategorize' | 'expense'
+
+const PROVIDER_NAMES: AIProviderName[] = ['gemini', 'watson', 'mock']
+
+// Chat has always gone to Watson and everything else to Gemini
+const DEFAULT_PROVIDERS: Record<AIFeature, AIProviderName> = {
+  chat: 'watson',
+  tips: 'gemini',
+  insight: 'gemini',
+  plan: 'gemini',
+  recategorize: 'gemini',
+  expense: 'gemini',
+}
+
+const PROVIDER_FACTORIES: Record<AIProviderName, () => AIProvider> = {
+  gemini: () => createGeminiProvider(),
+  watson: () => createWatsonProvider(),
+  mock: () => createMockProvider(),
+}
+
+// Adapters hold SDK clients and token caches, so build each once per server
+const providers = new Map<AIProviderName, AIProvider>()
+
+/**
+ * Works out which provider a feature uses: AI_PROVIDER_<FEATURE> (e.g.
+ * AI_PROVIDER_CHAT=gemini) wins, then AI_PROVIDER for every feature, then
+ * the built-in default
+ */
+export function resolveProviderName(feature: AIFeature, env: Record<string, string | undefined> = process.env): AIProviderName {
+  const configured = env[`AI_PROVIDER_${feature.toUpperCase()}`] || env.AI_PROVIDER
+  if (!configured) return DEFAULT_PROVIDERS[feature]
+
+  const name = configured.trim().toLowerCase() as AIProviderName
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new AIProviderError(`Unknown AI provider "${configured}" for ${feature}; use one of ${PROVIDER_NAMES.join(', ')}`, name, 500)
+  }
+  return name
+}
+
+/**
+ * Returns the configured provider for a feature. Server-side only: adapters
+ * read API keys from the environment.
+ */
+export function getProvider(feature: AIFeature): AIProvider {
+  const name = resolveProviderName(feature)
+  let provider = providers.get(name)
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[name]()
+    providers.set(name, provider)
+  }
+  return provider
+}
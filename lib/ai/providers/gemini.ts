@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto'
+import { Content, GenerateContentResponse, GoogleGenAI, Part } from '@google/genai'
+import { AIMessage, AIProvider, AIUsage, AIProviderError, ChatPart, ChatRequest, GenerateJsonRequest, GenerateTextRequest, ToolDefinition } from '../types'
+
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+
+function parseToolResult(content: string): Record<string, unknown> {
+  try {
+    return { result: JSON.parse(content) }
+  } catch {
+    return { result: content }
+  }
+}
+
+function toContents(messages: AIMessage[]): Content[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return {
+        role: 'user',
+        parts: [{ functionResponse: { id: msg.toolCallId, name: msg.toolName, response: parseToolResult(msg.content) } }],
+      }
+    }
+
+    const parts: Part[] = msg.content ? [{ text: msg.content }] : []
+    for (const call of msg.toolCalls || []) {
+      parts.push({ functionCall: { id: call.id, name: call.name, args: call.arguments } })
+    }
+    return { role: msg.role === 'assistant' ? 'model' : 'user', parts }
+  })
+}
+
+function toTools(tools: ToolDefinition[] | undefined) {
+  if (!tools?.length) return undefined
+  return [{
+    functionDeclarations: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters,
+    })),
+  }]
+}
+
+/**
+ * Token counts from a response's usage metadata; thinking tokens are billed
+ * as output
+ */
+function toUsage(response: GenerateContentResponse | undefined): AIUsage {
+  const metadata = response?.usageMetadata
+  return {
+    model: response?.modelVersion || GEMINI_MODEL,
+    inputTokens: metadata?.promptTokenCount,
+    outputTokens: metadata?.candidatesTokenCount === undefined && metadata?.thoughtsTokenCount === undefined
+      ? undefined
+      : (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  }
+}
+
+function toProviderError(error: unknown): AIProviderError {
+  if (error instanceof AIProviderError) return error
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  return new AIProviderError(`Gemini request failed: ${message}`, 'gemini', 502, error)
+}
+
+/**
+ * Google Gemini through @google/genai
+ * Structured output uses Gemini's native JSON schema support.
+ */
+export function createGeminiProvider(apiKey: string | undefined = process.env.GEMINI_API_KEY): AIProvider {
+  let client: GoogleGenAI | null = null
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) throw new AIProviderError('GEMINI_API_KEY is not configured', 'gemini', 503)
+    if (!client) client = new GoogleGenAI({ apiKey })
+    return client
+  }
+
+  const generateText = async ({ system, prompt, onUsage }: GenerateTextRequest): Promise<string> => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: { systemInstruction: system },
+      })
+      onUsage?.(toUsage(response))
+      return response.text || ''
+    } catch (error) {
+      throw toProviderError(error)
+    }
+  }
+
+  return {
+    name: 'gemini',
+
+    async chat({ system, messages, signal, onUsage }: ChatRequest): Promise<string> {
+      try {
+        const response = await getClient().models.generateContent({
+          model: GEMINI_MODEL,
+          contents: toContents(messages),
+          config: { systemInstruction: system, abortSignal: signal },
+        })
+        onUsage?.(toUsage(response))
+        return response.text || ''
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+
+    async *streamChat({ system, messages, tools, signal, onUsage }: ChatRequest): AsyncIterable<ChatPart> {
+      // Every chunk repeats the running totals, so the last one has the full count
+      let last: GenerateContentResponse | undefined
+      try {
+        const stream = await getClient().models.generateContentStream({
+          model: GEMINI_MODEL,
+          contents: toContents(messages),
+          config: { systemInstruction: system, tools: toTools(tools), abortSignal: signal },
+        })
+        for await (const chunk of stream) {
+          last = chunk
+          // Read the parts directly; the text getter warns when a chunk also holds function calls
+          for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+            if (part.text && !part.thought) yield { type: 'text', text: part.text }
+            if (part.functionCall?.name) {
+              yield {
+                type: 'tool_call',
+                call: {
+                  id: part.functionCall.id || randomUUID(),
+                  name: part.functionCall.name,
+                  arguments: part.functionCall.args || {},
+                },
+              }
+            }
+          }
+        }
+        onUsage?.(toUsage(last))
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+
+    generateText,
+
+    async generateJson<T>({ system, prompt, schema, onUsage }: GenerateJsonRequest): Promise<T> {
+      let text: string | undefined
+      try {
+        const response = await getClient().models.generateContent({
+          model: GEMINI_MODEL,
+          contents: prompt,
+          config: {
+            systemInstruction: system,
+            responseMimeType: 'application/json',
+            responseJsonSchema: schema,
+          },
+        })
+        onUsage?.(toUsage(response))
+        text = response.text
+      } catch (error) {
+        throw toProviderError(error)
+      }
+
+      try {
+        return JSON.parse(text || '') as T
+      } catch (error) {
+        throw new AIProviderError('Gemini returned invalid JSON', 'gemini', 502, error)
+      }
+    },
+  }
+}
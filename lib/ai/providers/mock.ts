@@ -0,0 +1,68 @@
+import { AIProvider, AIUsage, ChatPart, ChatRequest, GenerateJsonRequest, JsonSchema } from '../types'
+
+// Metered like a real model, at no cost
+const MOCK_USAGE: AIUsage = { model: 'mock' }
+
+/**
+ * Builds the same value for a schema every time: enums take their first
+ * option, arrays their minimum length, numbers 10 and strings a label
+ * naming the field they fill
+ */
+export function sampleFromSchema(schema: JsonSchema, label: string = 'value'): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, sampleFromSchema(property, key)])
+      )
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 1 }, (_, i) => sampleFromSchema(schema.items || { type: 'string' }, `${label} ${i + 1}`))
+    case 'number':
+    case 'integer':
+      return 10
+    case 'boolean':
+      return false
+    default:
+      return schema.enum?.[0] ?? `Sample ${label}`
+  }
+}
+
+function reply({ messages }: ChatRequest): string {
+  const last = messages[messages.length - 1]
+  if (last?.role === 'tool') return `Done. The ${last.toolName} tool returned: ${last.content}`
+  return `This is a test reply from the offline assistant. You asked: "${last?.content || ''}"`
+}
+
+/**
+ * Offline provider with deterministic output, for development without API
+ * keys and for exercising AI features without network access. It never
+ * calls tools on its own; replace streamChat to script a tool call or any
+ * other specific response.
+ */
+export function createMockProvider(overrides: Partial<Omit<AIProvider, 'name'>> = {}): AIProvider {
+  return {
+    name: 'mock',
+
+    chat: async request => {
+      request.onUsage?.(MOCK_USAGE)
+      return reply(request)
+    },
+
+    async *streamChat(request: ChatRequest): AsyncIterable<ChatPart> {
+      // Word by word, so streaming UIs have something to render incrementally
+      for (const word of reply(request).split(/(?<= )/)) yield { type: 'text', text: word }
+      request.onUsage?.(MOCK_USAGE)
+    },
+
+    generateText: async ({ prompt, onUsage }) => {
+      onUsage?.(MOCK_USAGE)
+      return `Sample response for: ${prompt.trim().split('\n')[0].slice(0, 80)}`
+    },
+
+    generateJson: async <T>({ schema, onUsage }: GenerateJsonRequest) => {
+      onUsage?.(MOCK_USAGE)
+      return sampleFromSchema(schema) as T
+    },
+
+    ...overrides,
+  }
+}
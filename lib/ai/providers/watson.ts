@@ -0,0 +1,246 @@
+import { AIProvider, AIProviderError, AIUsage, ChatPart, ChatRequest, GenerateJsonRequest, GenerateTextRequest, ToolCall, ToolDefinition } from '../types'
+
+// Tokens last an hour; refresh a little early
+const TOKEN_LIFETIME_MS = 55 * 60 * 1000
+
+interface WatsonConfig {
+  apiKey: string
+  endpoint: string
+  cpdUrl: string
+}
+
+interface WatsonMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[]
+  tool_call_id?: string
+}
+
+function parseArguments(text: string): Record<string, unknown> {
+  try {
+    return JSON.parse(text || '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Pulls the JSON value out of a free-text reply, which may wrap it in a
+ * Markdown code fence or a sentence of preamble
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const body = (fenced ? fenced[1] : text).trim()
+  const start = body.search(/[[{]/)
+  if (start === -1) throw new Error('No JSON found in the reply')
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'))
+  return JSON.parse(body.slice(start, end + 1))
+}
+
+/**
+ * An IBM watsonx deployment that speaks the chat completions SSE format
+ * Authenticates with Cloud Pak for Data when WATSON_CPD_URL is set and
+ * with IBM Cloud IAM otherwise. Watson has no structured output mode, so
+ * generateJson asks for JSON in the prompt and parses the reply.
+ */
+export function createWatsonProvider(config: WatsonConfig = {
+  apiKey: process.env.WATSON_API_KEY || '',
+  endpoint: process.env.WATSON_ENDPOINT || '',
+  cpdUrl: process.env.WATSON_CPD_URL || '',
+}): AIProvider {
+  let tokenCache: { token: string; expiresAt: number } | null = null
+
+  const getToken = async (): Promise<string> => {
+    // Return cached token if still valid
+    if (tokenCache && tokenCache.expiresAt > Date.now()) {
+      return tokenCache.token
+    }
+
+    if (config.cpdUrl) {
+      const response = await fetch(`${config.cpdUrl}/icp4d-api/v1/authorize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ api_key: config.apiKey }),
+      })
+      if (!response.ok) {
+        throw new AIProviderError(`CPD auth failed: ${response.status}`, 'watson', 502)
+      }
+      const data = await response.json()
+      tokenCache = { token: data.token, expiresAt: Date.now() + TOKEN_LIFETIME_MS }
+      return data.token
+    }
+
+    // IBM Cloud IAM wants the key without its CPD prefix
+    const response = await fetch('https://iam.cloud.ibm.com/identity/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body: new URLSearchParams({
+        'grant_type': 'urn:ibm:params:oauth:grant-type:apikey',
+        'apikey': config.apiKey.replace(/^cpd-apikey-/, ''),
+      }),
+    })
+    if (!response.ok) {
+      console.error('IAM Token Error:', await response.text())
+      throw new AIProviderError(`Failed to get IAM token: ${response.status}`, 'watson', 502)
+    }
+    const data = await response.json()
+    tokenCache = { token: data.access_token, expiresAt: Date.now() + TOKEN_LIFETIME_MS }
+    return data.access_token
+  }
+
+  async function* stream(
+    messages: WatsonMessage[],
+    tools?: ToolDefinition[],
+    signal?: AbortSignal,
+    onUsage?: (usage: AIUsage) => void
+  ): AsyncIterable<ChatPart> {
+    if (!config.apiKey || !config.endpoint) {
+      throw new AIProviderError('WATSON_API_KEY and WATSON_ENDPOINT are not configured', 'watson', 503)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${await getToken()}`,
+        },
+        body: JSON.stringify({
+          messages,
+          ...(tools?.length && {
+            tools: tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+          }),
+        }),
+        signal,
+      })
+    } catch (error) {
+      if (error instanceof AIProviderError) throw error
+      throw new AIProviderError('Watson request failed', 'watson', 502, error)
+    }
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text()
+      console.error('Watson API Error:', { status: response.status, statusText: response.statusText, body: errorText })
+      throw new AIProviderError(`Watson API error: ${response.status} ${response.statusText}`, 'watson', 502)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    // Tool calls arrive as fragments keyed by index; the arguments string is spread over many events
+    const toolCalls: { id: string; name: string; arguments: string }[] = []
+    // Deployments that report usage send it on the final event
+    const usage: AIUsage = { model: 'watson' }
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        // Events can be cut anywhere between network chunks; keep the unfinished line
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          // Watson uses "data: " prefix for SSE
+          if (!line.startsWith('data: ')) continue
+          const data = line.slice(6).trim()
+          if (!data || data === '[DONE]') continue
+
+          let event: any
+          try {
+            event = JSON.parse(data)
+          } catch {
+            // Skip invalid JSON
+          }
+          if (event?.model_id || event?.model) usage.model = event.model_id || event.model
+          if (event?.usage) {
+            usage.inputTokens = event.usage.prompt_tokens
+            usage.outputTokens = event.usage.completion_tokens
+          }
+
+          const delta = event?.choices?.[0]?.delta
+          if (delta?.content) yield { type: 'text', text: delta.content }
+
+          for (const fragment of delta?.tool_calls || []) {
+            const call = toolCalls[fragment.index ?? 0] ||= { id: '', name: '', arguments: '' }
+            if (fragment.id) call.id = fragment.id
+            if (fragment.function?.name) call.name += fragment.function.name
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+          }
+        }
+      }
+
+      for (let index = 0; index < toolCalls.length; index++) {
+        const call = toolCalls[index]
+        if (!call?.name) continue
+        const toolCall: ToolCall = { id: call.id || `call_${index}`, name: call.name, arguments: parseArguments(call.arguments) }
+        yield { type: 'tool_call', call: toolCall }
+      }
+      onUsage?.(usage)
+    } finally {
+      // Stops the upstream generation when the consumer stops reading early
+      reader.cancel().catch(() => {})
+    }
+  }
+
+  const toWatsonMessages = ({ system, messages }: ChatRequest): WatsonMessage[] => [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    ...messages.map((msg): WatsonMessage => {
+      if (msg.role === 'tool') return { role: 'tool', content: msg.content, tool_call_id: msg.toolCallId }
+      if (!msg.toolCalls?.length) return { role: msg.role, content: msg.content }
+      return {
+        role: 'assistant',
+        content: msg.content,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      }
+    }),
+  ]
+
+  const collect = async (messages: WatsonMessage[], signal?: AbortSignal, onUsage?: (usage: AIUsage) => void): Promise<string> => {
+    let text = ''
+    for await (const part of stream(messages, undefined, signal, onUsage)) {
+      if (part.type === 'text') text += part.text
+    }
+    return text.trim()
+  }
+
+  const generateText = ({ system, prompt, onUsage }: GenerateTextRequest): Promise<string> =>
+    collect(toWatsonMessages({ system, messages: [{ role: 'user', content: prompt }] }), undefined, onUsage)
+
+  return {
+    name: 'watson',
+
+    chat: request => collect(toWatsonMessages(request), request.signal, request.onUsage),
+
+    streamChat: request => stream(toWatsonMessages(request), request.tools, request.signal, request.onUsage),
+
+    generateText,
+
+    async generateJson<T>({ system, prompt, schema, onUsage }: GenerateJsonRequest): Promise<T> {
+      const text = await generateText({
+        system,
+        onUsage,
+        prompt: `${prompt}\n\nRespond with only a JSON value matching this JSON Schema, with no other text:\n${JSON.stringify(schema)}`,
+      })
+      try {
+        return extractJson(text) as T
+      } catch (error) {
+        throw new AIProviderError('Watson returned invalid JSON', 'watson', 502, error)
+      }
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { SpendingCategory } from '@/types'
+
+// Spending is compared in steps of this many dollars, so a coffee doesn't
+// count as a material change but a week of groceries does
+const SPENDING_STEP = 10
+
+/**
+ * 32-bit FNV-1a, as hex. Only used to tell snapshots apart, so it doesn't
+ * need to be cryptographic, and it runs the same in the browser and on the
+ * server.
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Identifies the month's spending data tips and insights are generated from
+ * Categories are sorted by name and spending rounded to SPENDING_STEP, so
+ * the hash only changes when the data changes materially. The month is
+ * part of it, so each month starts afresh.
+ */
+export function spendingSnapshotHash(categories: Pick<SpendingCategory, 'name' | 'value' | 'budget'>[], month: string): string {
+  const snapshot = categories
+    .map(c => [c.name.trim().toLowerCase(), Math.round(c.value / SPENDING_STEP) * SPENDING_STEP, Math.round(c.budget)])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])))
+  return fnv1a(JSON.stringify([month.slice(0, 7), snapshot]))
+}
@@ -0,0 +1,116 @@
+import { ToolCall, ToolDefinition } from './types'
+
+/**
+ * A tool the chat assistant can call. Tools run in the browser through the
+ * same services as the rest of the app, so row level security and the
+ * real-time subscriptions apply. Mutating tools wait for the user to
+ * confirm them in the chat.
+ */
+export interface ChatTool extends ToolDefinition {
+  mutating: boolean
+}
+
+export const CHAT_TOOLS: ChatTool[] = [
+  {
+    name: 'add_transaction',
+    description: 'Records an expense or income transaction for the user.',
+    mutating: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: ['expense', 'income'], description: 'Whether money went out (expense) or came in (income).' },
+        description: { type: 'string', description: 'Short description, such as the merchant or "Paycheck".' },
+        amount: { type: 'number', description: 'Positive amount in dollars.' },
+        category: { type: 'string', description: 'For expenses, one of the user\'s spending category names.' },
+        occurred_on: { type: 'string', description: 'Date of the transaction as YYYY-MM-DD. Defaults to today.' },
+      },
+      required: ['kind', 'description', 'amount'],
+    },
+  },
+  {
+    name: 'set_category_budget',
+    description: 'Sets the budget for one of the user\'s spending categories for the current month onwards.',
+    mutating: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', description: 'The spending category name.' },
+        amount: { type: 'number', description: 'New monthly budget in dollars.' },
+      },
+      required: ['category', 'amount'],
+    },
+  },
+  {
+    name: 'create_goal',
+    description: 'Creates a savings goal.',
+    mutating: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Name of the goal, such as "Emergency fund".' },
+        target_amount: { type: 'number', description: 'Amount to save in dollars.' },
+        target_date: { type: 'string', description: 'Date the user wants to reach the goal by, as YYYY-MM-DD. Work it out from today\'s date when they give a timeframe such as "in a year".' },
+      },
+      required: ['title', 'target_amount', 'target_date'],
+    },
+  },
+  {
+    name: 'add_goal_contribution',
+    description: 'Adds money to one of the user\'s savings goals. A negative amount withdraws from it.',
+    mutating: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        goal: { type: 'string', description: 'The goal\'s title.' },
+        amount: { type: 'number', description: 'Amount in dollars.' },
+        note: { type: 'string', description: 'Optional short note, such as where the money came from.' },
+      },
+      required: ['goal', 'amount'],
+    },
+  },
+  {
+    name: 'query_spending',
+    description: 'Totals the user\'s income and spending by category between two dates, inclusive. Use it for questions about periods other than the current month.',
+    mutating: false,
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'First day as YYYY-MM-DD.' },
+        to: { type: 'string', description: 'Last day as YYYY-MM-DD.' },
+        category: { type: 'string', description: 'Limit the totals to one spending category.' },
+      },
+      required: ['from', 'to'],
+    },
+  },
+]
+
+export function getChatTool(name: string): ChatTool | undefined {
+  return CHAT_TOOLS.find(tool => tool.name === name)
+}
+
+const money = (amount: unknown) => `$${Number(amount).toFixed(2)}`
+
+/**
+ * One-line summary of what a tool call will do, for the confirmation card
+ */
+export function describeToolCall(call: Pick<ToolCall, 'name' | 'arguments'>): string {
+  const args = call.arguments as Record<string, any>
+  switch (call.name) {
+    case 'add_transaction':
+      return args.kind === 'income'
+        ? `Add income: ${args.description} ${money(args.amount)}${args.occurred_on ? ` on ${args.occurred_on}` : ''}`
+        : `Add expense: ${args.description} ${money(args.amount)}${args.category ? ` in ${args.category}` : ''}${args.occurred_on ? ` on ${args.occurred_on}` : ''}`
+    case 'set_category_budget':
+      return `Set the ${args.category} budget to ${money(args.amount)} a month`
+    case 'create_goal':
+      return `Create goal: ${args.title}, ${money(args.target_amount)} by ${args.target_date}`
+    case 'add_goal_contribution':
+      return Number(args.amount) < 0
+        ? `Withdraw ${money(-Number(args.amount))} from ${args.goal}`
+        : `Add ${money(args.amount)} to ${args.goal}`
+    case 'query_spending':
+      return `Look up ${args.category ? `${args.category} ` : ''}spending from ${args.from} to ${args.to}`
+    default:
+      return `Run ${call.name}`
+  }
+}
@@ -0,0 +1,118 @@
+export type AIRole = 'user' | 'assistant' | 'tool'
+
+/**
+ * A function the model asked to run, with its arguments already parsed
+ */
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface AIMessage {
+  role: AIRole
+  content: string // For tool messages, the JSON-encoded result
+  toolCalls?: ToolCall[] // Assistant turns that asked for tools
+  toolCallId?: string // Tool messages: the call this answers
+  toolName?: string // Tool messages: Gemini matches results by function name
+}
+
+/**
+ * The subset of JSON Schema every provider understands
+ * Gemini takes it as-is; Watson and the mock read it to shape their output.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: string[]
+  minItems?: number
+  maxItems?: number
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+/**
+ * What one model call consumed, as reported by the provider
+ * Token counts are left out when the provider doesn't report them.
+ */
+export interface AIUsage {
+  model: string
+  inputTokens?: number
+  outputTokens?: number
+}
+
+export interface ChatRequest {
+  system?: string
+  // Oldest first; the last message is the one being answered
+  messages: AIMessage[]
+  // Functions the model may call instead of, or as well as, replying
+  tools?: ToolDefinition[]
+  // Cancels the upstream request, e.g. when the user stops a streaming reply
+  signal?: AbortSignal
+  // Called once the provider has said what the call consumed
+  onUsage?: (usage: AIUsage) => void
+}
+
+// What streamChat yields: reply text as it arrives, and any tool calls once complete
+export type ChatPart =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: ToolCall }
+
+export interface GenerateTextRequest {
+  system?: string
+  prompt: string
+  onUsage?: (usage: AIUsage) => void
+}
+
+export interface GenerateJsonRequest extends GenerateTextRequest {
+  schema: JsonSchema
+}
+
+/**
+ * One line of the newline-delimited JSON stream sent by /api/chat
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'done' }
+  | { type: 'error'; error: string }
+
+/**
+ * A model backend. Adapters live in lib/ai/providers and are picked per
+ * feature by getProvider, so routes never talk to a vendor SDK directly.
+ */
+export interface AIProvider {
+  name: string
+  // Plain text reply; tools are ignored
+  chat(request: ChatRequest): Promise<string>
+  // Yields the reply a piece at a time as the model produces it
+  streamChat(request: ChatRequest): AsyncIterable<ChatPart>
+  generateText(request: GenerateTextRequest): Promise<string>
+  // Resolves to the parsed JSON; callers still validate the shape
+  generateJson<T = unknown>(request: GenerateJsonRequest): Promise<T>
+}
+
+/**
+ * Raised by adapters for anything the provider got wrong: bad credentials,
+ * upstream errors, unusable output. status is the HTTP status to surface.
+ */
+export class AIProviderError extends Error {
+  provider: string
+  status: number
+  originalError?: any
+
+  constructor(message: string, provider: string, status: number = 502, originalError?: any) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.provider = provider
+    this.status = status
+    this.originalError = originalError
+  }
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/supabase/database.types'
+import { AIProvider, AIUsage, ChatPart, ChatRequest, GenerateJsonRequest } from './types'
+
+// Successful model calls a user may make per calendar month (UTC) unless ai_quotas says otherwise
+export const DEFAULT_MONTHLY_AI_QUOTA = 300
+
+interface ModelPrice {
+  input: number // USD per million input tokens
+  output: number // USD per million output tokens
+}
+
+// List prices, matched by the longest model name prefix. Watson deployments
+// and anything else unlisted use the fallback.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  mock: { input: 0, output: 0 },
+}
+
+const FALLBACK_PRICE: ModelPrice = { input: 0.5, output: 1.5 }
+
+export interface AIQuota {
+  used: number
+  limit: number
+  resetsAt: string // ISO timestamp of the start of next month
+}
+
+interface UsageContext {
+  supabase: SupabaseClient<Database>
+  userId: string
+  action: string // The route action, e.g. 'chat' or 'getAIInsight'
+  reservation?: string // Token from reserveAICall; the first call finishes the reserved row
+}
+
+function priceFor(model: string): ModelPrice {
+  const match = Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? MODEL_PRICES[match] : FALLBACK_PRICE
+}
+
+/**
+ * Estimated cost in USD of the given tokens on a model
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = priceFor(model)
+  return (inputTokens * price.input + outputTokens * price.output) / 1000000
+}
+
+/**
+ * Start of the quota month containing now, in UTC so every server agrees
+ */
+export function usageMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+/**
+ * How many of their monthly AI calls the user has made
+ * Failed calls are recorded but don't count, so an outage doesn't use up
+ * the allowance. Calls still in flight don't count either.
+ */
+export async function getAIQuota(supabase: SupabaseClient<Database>, userId: string, now: Date = new Date()): Promise<AIQuota> {
+  const monthStart = usageMonthStart(now)
+  const nextMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1))
+
+  const [usage, quota] = await Promise.all([
+    supabase
+      .from('ai_usage')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('success', true)
+      .gte('created_at', monthStart.toISOString()),
+    supabase
+      .from('ai_quotas')
+      .select('monthly_calls')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ])
+  if (usage.error) throw usage.error
+  if (quota.error) throw quota.error
+
+  return {
+    used: usage.count || 0,
+    limit: quota.data?.monthly_calls ?? DEFAULT_MONTHLY_AI_QUOTA,
+    resetsAt: nextMonth.toISOString(),
+  }
+}
+
+/**
+ * Reserves one of the user's monthly AI calls before the model is called
+ * Resolves with the token that finishes the pending usage row, or null when
+ * the quota is used up. The check and the insert happen together in the
+ * database, so concurrent requests can't all slip under the limit.
+ */
+export async function reserveAICall(supabase: SupabaseClient<Database>, now: Date = new Date()): Promise<string | null> {
+  const { data, error } = await supabase.rpc('reserve_ai_call', {
+    p_since: usageMonthStart(now).toISOString(),
+    p_default_limit: DEFAULT_MONTHLY_AI_QUOTA,
+  })
+  if (error) throw error
+  return data
+}
+
+/**
+ * Wraps a provider so every call it makes is timed and recorded in ai_usage
+ * for the user. The first call fills in the reserved row when there is one.
+ * A failed write is logged and never fails the call.
+ */
+export function withUsageMetering(provider: AIProvider, { supabase, userId, action, reservation }: UsageContext): AIProvider {
+  let reserved = reservation || null
+
+  const record = async (usage: AIUsage | null, startedAt: number, success: boolean) => {
+    const row = {
+      action,
+      provider: provider.name,
+      model: usage?.model || provider.name,
+      input_tokens: usage?.inputTokens ?? null,
+      output_tokens: usage?.outputTokens ?? null,
+      latency_ms: Math.round(Date.now() - startedAt),
+      success,
+    }
+
+    const token = reserved
+    reserved = null
+    const { error } = token
+      ? await supabase.rpc('finish_ai_call', {
+        p_token: token,
+        p_action: row.action,
+        p_provider: row.provider,
+        p_model: row.model,
+        p_input_tokens: row.input_tokens,
+        p_output_tokens: row.output_tokens,
+        p_latency_ms: row.latency_ms,
+        p_success: row.success,
+      })
+      : await supabase.from('ai_usage').insert({ ...row, user_id: userId })
+    if (error) console.error(`Error recording AI usage for ${action}:`, error)
+  }
+
+  // Runs one call, collecting the usage the provider reports along the way
+  const metered = async <T>(call: (onUsage: (usage: AIUsage) => void) => Promise<T>): Promise<T> => {
+    const startedAt = Date.now()
+    const reported: { usage: AIUsage | null } = { usage: null }
+    try {
+      const result = await call(usage => { reported.usage = usage })
+      await record(reported.usage, startedAt, true)
+      return result
+    } catch (error) {
+      await record(reported.usage, startedAt, false)
+      throw error
+    }
+  }
+
+  return {
+    name: provider.name,
+
+    chat: request => metered(onUsage => provider.chat({ ...request, onUsage })),
+
+    async *streamChat(request: ChatRequest): AsyncIterable<ChatPart> {
+      const startedAt = Date.now()
+      const reported: { usage: AIUsage | null; finished: boolean } = { usage: null, finished: false }
+      try {
+        yield* provider.streamChat({ ...request, onUsage: usage => { reported.usage = usage } })
+        reported.finished = true
+      } finally {
+        // A reply the user stopped part way still counts as a successful call
+        await record(reported.usage, startedAt, reported.finished || !!request.signal?.aborted)
+      }
+    },
+
+    generateText: request => metered(onUsage => provider.generateText({ ...request, onUsage })),
+
+    generateJson: <T>(request: GenerateJsonRequest) => metered(onUsage => provider.generateJson<T>({ ...request, onUsage })),
+  }
+}
@@ -0,0 +1,184 @@
+import { Debt } from '@/types'
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom'
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball', 'custom']
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom order',
+}
+
+export const PAYOFF_STRATEGY_DESCRIPTIONS: Record<PayoffStrategy, string> = {
+  avalanche: 'Highest interest rate first; pays the least interest',
+  snowball: 'Smallest balance first; clears debts soonest',
+  custom: 'Your own order',
+}
+
+// Longest schedule simulated; a plan that hasn't finished by then won't at this budget
+export const MAX_PAYOFF_MONTHS = 600
+
+export type PayoffDebt = Pick<Debt, 'id' | 'name' | 'balance' | 'apr' | 'minimum_payment' | 'due_day' | 'payoff_order' | 'created_at'>
+
+export interface DebtPayment {
+  debtId: string
+  payment: number
+  interest: number
+  principal: number
+  balance: number // Left after the payment
+}
+
+export interface PayoffMonth {
+  month: string // YYYY-MM
+  payments: DebtPayment[] // One per debt still open at the start of the month
+  totalBalance: number // Left across all debts after the month's payments
+}
+
+export interface PayoffResult {
+  strategy: PayoffStrategy
+  order: string[] // Debt ids, paid off in this order of priority
+  schedule: PayoffMonth[]
+  monthlyBudget: number // Every minimum payment plus the extra, paid each month until the end
+  totalInterest: number
+  totalPaid: number
+  payoffDates: Record<string, string> // Debt id to the due date of its last payment
+  debtFreeDate: string | null // Due date of the very last payment; null when the budget never gets there
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100
+
+function byCustomOrder(a: PayoffDebt, b: PayoffDebt): number {
+  if (a.payoff_order !== b.payoff_order) {
+    if (a.payoff_order === null) return 1
+    if (b.payoff_order === null) return -1
+    return a.payoff_order - b.payoff_order
+  }
+  return a.created_at.localeCompare(b.created_at)
+}
+
+/**
+ * Debts in the order a strategy sends extra money to them
+ */
+export function payoffOrder<T extends PayoffDebt>(debts: T[], strategy: PayoffStrategy): T[] {
+  const sorted = [...debts]
+  switch (strategy) {
+    case 'avalanche':
+      return sorted.sort((a, b) => b.apr - a.apr || a.balance - b.balance || byCustomOrder(a, b))
+    case 'snowball':
+      return sorted.sort((a, b) => a.balance - b.balance || b.apr - a.apr || byCustomOrder(a, b))
+    case 'custom':
+      return sorted.sort(byCustomOrder)
+  }
+}
+
+/**
+ * The date a debt is due in a month, moved back to the month's last day when
+ * the month is shorter
+ */
+function dueDate(month: string, dueDay: number): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()
+  return `${month}-${String(Math.min(dueDay, daysInMonth)).padStart(2, '0')}`
+}
+
+function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const date = new Date(Date.UTC(year, monthNumber - 1 + count, 1))
+  return date.toISOString().slice(0, 7)
+}
+
+/**
+ * Simulates paying debts down month by month, starting the month after today
+ * Each month every debt accrues a month of interest at its APR and gets its
+ * minimum payment. What is left of the budget (the extra, plus the minimums
+ * of debts already paid off) goes to the first open debt in the strategy's
+ * order, then the next.
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  extraMonthly: number,
+  today: string
+): PayoffResult {
+  const ordered = payoffOrder(debts.filter(d => d.balance > 0), strategy)
+  const balances = new Map(ordered.map(d => [d.id, Number(d.balance)]))
+  const monthlyBudget = round2(ordered.reduce((sum, d) => sum + Number(d.minimum_payment), Math.max(0, extraMonthly)))
+
+  const schedule: PayoffMonth[] = []
+  const payoffDates: Record<string, string> = {}
+  let totalInterest = 0
+  let totalPaid = 0
+  let month = today.slice(0, 7)
+
+  while (ordered.some(d => (balances.get(d.id) || 0) > 0) && schedule.length < MAX_PAYOFF_MONTHS) {
+    month = addMonths(month, 1)
+    let available = monthlyBudget
+    const payments: DebtPayment[] = []
+
+    // Interest first, then minimums
+    for (const debt of ordered) {
+      const balance = balances.get(debt.id) || 0
+      if (balance <= 0) continue
+      const interest = round2(balance * Number(debt.apr) / 100 / 12)
+      const payment = round2(Math.min(Number(debt.minimum_payment), balance + interest, available))
+      available = round2(available - payment)
+      payments.push({ debtId: debt.id, payment, interest, principal: 0, balance: round2(balance + interest) })
+    }
+
+    // Whatever is left goes to debts in priority order
+    for (const entry of payments) {
+      if (available <= 0) break
+      const extra = round2(Math.min(available, entry.balance - entry.payment))
+      entry.payment = round2(entry.payment + extra)
+      available = round2(available - extra)
+    }
+
+    for (const entry of payments) {
+      entry.principal = round2(entry.payment - entry.interest)
+      entry.balance = round2(entry.balance - entry.payment)
+      balances.set(entry.debtId, entry.balance)
+      totalInterest += entry.interest
+      totalPaid += entry.payment
+      if (entry.balance <= 0) {
+        const debt = ordered.find(d => d.id === entry.debtId)
+        payoffDates[entry.debtId] = dueDate(month, debt ? debt.due_day : 1)
+      }
+    }
+
+    schedule.push({
+      month,
+      payments,
+      totalBalance: round2(payments.reduce((sum, p) => sum + p.balance, 0)),
+    })
+  }
+
+  const finished = ordered.every(d => payoffDates[d.id] !== undefined)
+  const lastPayoff = Object.keys(payoffDates).map(id => payoffDates[id]).sort().pop()
+
+  return {
+    strategy,
+    order: ordered.map(d => d.id),
+    schedule,
+    monthlyBudget,
+    totalInterest: round2(totalInterest),
+    totalPaid: round2(totalPaid),
+    payoffDates,
+    debtFreeDate: finished ? lastPayoff || today : null,
+  }
+}
+
+/**
+ * Every strategy run on the same debts and budget, for comparing side by side
+ */
+export function comparePayoffStrategies(
+  debts: PayoffDebt[],
+  extraMonthly: number,
+  today: string
+): Record<PayoffStrategy, PayoffResult> {
+  return {
+    avalanche: simulatePayoff(debts, 'avalanche', extraMonthly, today),
+    snowball: simulatePayoff(debts, 'snowball', extraMonthly, today),
+    custom: simulatePayoff(debts, 'custom', extraMonthly, today),
+  }
+}
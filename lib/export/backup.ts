@@ -0,0 +1,87 @@
+import { Account, CategoryBudget, ChatMessage, ChatThread, ChatToolCall, Debt, FinancialGoal, GoalContribution, RecurringTransaction, SpendingCategory, Transaction, TransactionSplit } from '@/types'
+import { targetDateInMonths } from '@/lib/goals/progress'
+
+export const BACKUP_FORMAT = 'finsmart-backup'
+export const BACKUP_VERSION = 1
+
+/**
+ * Full-account backup written by the export route and read back by restoreBackup
+ * Rows keep their original ids so transactions can be re-linked to their
+ * accounts and categories on restore.
+ */
+export interface FinSmartBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exported_at: string
+  accounts: Omit<Account, 'user_id'>[]
+  spending_categories: Omit<SpendingCategory, 'user_id'>[]
+  category_budgets: Omit<CategoryBudget, 'user_id'>[]
+  recurring_transactions: Omit<RecurringTransaction, 'user_id'>[]
+  transactions: Omit<Transaction, 'user_id'>[]
+  transaction_splits: Omit<TransactionSplit, 'user_id'>[]
+  financial_goals: Omit<FinancialGoal, 'user_id'>[]
+  goal_contributions: Omit<GoalContribution, 'user_id'>[]
+  debts: Omit<Debt, 'user_id'>[]
+  chat_threads: Omit<ChatThread, 'user_id'>[]
+  chat_messages: Omit<ChatMessage, 'user_id' | 'tool_calls'>[]
+  chat_tool_calls: Omit<ChatToolCall, 'user_id'>[]
+}
+
+export const BACKUP_SECTIONS = [
+  'accounts',
+  'spending_categories',
+  'category_budgets',
+  'recurring_transactions',
+  'transactions',
+  'transaction_splits',
+  'financial_goals',
+  'goal_contributions',
+  'debts',
+  'chat_threads',
+  'chat_messages',
+  'chat_tool_calls',
+] as const
+
+/**
+ * Parses and sanity-checks a backup file
+ * Throws with a readable message when the file isn't a FinSmart backup this version understands
+ */
+export function parseBackup(text: string): FinSmartBackup {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (!data || data.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a FinSmart backup')
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of FinSmart')
+  }
+
+  for (const section of BACKUP_SECTIONS) {
+    // Sections added in later versions may be missing from older backups
+    if (data[section] === undefined) data[section] = []
+    if (!Array.isArray(data[section])) {
+      throw new Error(`The backup's ${section} section is malformed`)
+    }
+  }
+
+  const invalidTransaction = (data.transactions as any[]).find(
+    tx => typeof tx.description !== 'string' || typeof tx.amount !== 'number' || isNaN(Date.parse(tx.created_at))
+  )
+  if (invalidTransaction) {
+    throw new Error('The backup contains a malformed transaction')
+  }
+
+  // Goals in older backups have a timeframe in months instead of a target date
+  for (const goal of data.financial_goals as any[]) {
+    if (typeof goal.target_date !== 'string' && !isNaN(Date.parse(goal.created_at))) {
+      goal.target_date = targetDateInMonths(goal.created_at.slice(0, 10), Math.max(1, Number(goal.months_remaining) || 12))
+    }
+  }
+
+  return data as FinSmartBackup
+}
@@ -0,0 +1,141 @@
+import { Transaction } from '@/types'
+
+export type ExportFormat = 'csv' | 'json' | 'ofx'
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ofx: 'application/x-ofx; charset=utf-8',
+}
+
+export type ExportTransaction = Pick<
+  Transaction,
+  'id' | 'description' | 'amount' | 'category_name' | 'kind' | 'notes'
+> & {
+  date: string // YYYY-MM-DD
+  account_name: string | null
+}
+
+/**
+ * Converts a timestamp to YYYY-MM-DD for a timezone offset in minutes
+ * (as returned by Date.getTimezoneOffset, so UTC-7 is 420)
+ */
+export function toStatementDate(timestamp: string, timezoneOffset: number = 0): string {
+  return new Date(Date.parse(timestamp) - timezoneOffset * 60 * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or newline
+ * Cells that spreadsheets would evaluate as formulas are prefixed with a quote
+ */
+function csvCell(value: string | number): string {
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const CSV_HEADER = ['Date', 'Description', 'Category', 'Type', 'Amount', 'Account', 'Notes'].join(',') + '\r\n'
+
+/**
+ * Formats a transaction as a CSV line; expenses are negative, income positive
+ */
+export function toCsvRow(tx: ExportTransaction): string {
+  const signed = tx.kind === 'expense' ? -tx.amount : tx.amount
+  return [
+    csvCell(tx.date),
+    csvCell(tx.description),
+    csvCell(tx.category_name),
+    csvCell(tx.kind),
+    signed.toFixed(2),
+    csvCell(tx.account_name || ''),
+    csvCell(tx.notes || ''),
+  ].join(',') + '\r\n'
+}
+
+/**
+ * Formats a transaction as a JSON object for the plain JSON export
+ */
+export function toJsonRow(tx: ExportTransaction): string {
+  return JSON.stringify({
+    id: tx.id,
+    date: tx.date,
+    description: tx.description,
+    category: tx.category_name,
+    type: tx.kind,
+    amount: tx.amount,
+    account: tx.account_name,
+    notes: tx.notes,
+  })
+}
+
+function escapeOfx(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function ofxDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+/**
+ * Opening of an OFX 1.02 (SGML) bank statement covering the given dates
+ */
+export function ofxHeader(startDate: string, endDate: string, now: Date = new Date()): string {
+  const generated = now.toISOString().slice(0, 10)
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(generated)}`,
+    '<LANGUAGE>ENG',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>USD',
+    '<BANKACCTFROM><BANKID>FINSMART<ACCTID>FINSMART<ACCTTYPE>CHECKING</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(startDate)}`,
+    `<DTEND>${ofxDate(endDate)}`,
+    '',
+  ].join('\r\n')
+}
+
+/**
+ * Formats a transaction as an OFX STMTTRN block
+ */
+export function toOfxRow(tx: ExportTransaction): string {
+  const signed = tx.kind === 'expense' ? -tx.amount : tx.amount
+  return [
+    '<STMTTRN>',
+    `<TRNTYPE>${tx.kind === 'expense' ? 'DEBIT' : 'CREDIT'}`,
+    `<DTPOSTED>${ofxDate(tx.date)}`,
+    `<TRNAMT>${signed.toFixed(2)}`,
+    `<FITID>${tx.id}`,
+    `<NAME>${escapeOfx(tx.description.slice(0, 32))}`,
+    `<MEMO>${escapeOfx(tx.notes || tx.category_name)}`,
+    '</STMTTRN>',
+    '',
+  ].join('\r\n')
+}
+
+export const OFX_FOOTER = [
+  '</BANKTRANLIST>',
+  '</STMTRS>',
+  '</STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+  '',
+].join('\r\n')
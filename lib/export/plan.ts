@@ -0,0 +1,83 @@
+import { FinancialPlan } from '@/types'
+
+type ExportablePlan = Pick<FinancialPlan, 'version' | 'title' | 'content' | 'created_at'>
+
+const formatCreated = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Escapes first so the model's text can't add markup, then applies **bold**
+const inlineHtml = (text: string) => escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+
+/**
+ * File name for a plan export, e.g. finsmart-plan-v3-2026-10-19.md
+ */
+export function planFilename(plan: ExportablePlan, extension: 'md' | 'pdf'): string {
+  return `finsmart-plan-v${plan.version}-${plan.created_at.slice(0, 10)}.${extension}`
+}
+
+/**
+ * The plan as a standalone Markdown document with its title and version
+ */
+export function planToMarkdown(plan: ExportablePlan): string {
+  return `# ${plan.title}\n\n_Version ${plan.version}, generated ${formatCreated(plan.created_at)}_\n\n${plan.content.trim()}\n`
+}
+
+/**
+ * The plan as a printable HTML page, for saving as a PDF from the browser's
+ * print dialog
+ * Handles the Markdown plans are written in: headings, * and - bullets,
+ * and **bold**.
+ */
+export function planToHtml(plan: ExportablePlan): string {
+  const body: string[] = []
+  let inList = false
+
+  plan.content.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const bullet = /^[*-] /.test(line)
+    if (bullet && !inList) body.push('<ul>')
+    if (!bullet && inList) body.push('</ul>')
+    inList = bullet
+
+    const heading = line.match(/^(#{1,3}) (.*)$/)
+    if (heading) {
+      // The document title is the only h1
+      const level = Math.max(2, heading[1].length)
+      body.push(`<h${level}>${inlineHtml(heading[2])}</h${level}>`)
+    } else if (bullet) {
+      body.push(`<li>${inlineHtml(line.slice(2))}</li>`)
+    } else {
+      body.push(`<p>${inlineHtml(line)}</p>`)
+    }
+  })
+  if (inList) body.push('</ul>')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(plan.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #334155; line-height: 1.5; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+  h1 { color: #0f172a; font-size: 24px; margin-bottom: 4px; }
+  h2, h3 { color: #1e293b; margin-top: 24px; }
+  .meta { color: #64748b; font-size: 13px; margin-top: 0; }
+  li { margin: 4px 0; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(plan.title)}</h1>
+<p class="meta">Version ${plan.version}, generated ${escapeHtml(formatCreated(plan.created_at))}</p>
+${body.join('\n')}
+</body>
+</html>
+`
+}
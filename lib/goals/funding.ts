@@ -0,0 +1,161 @@
+import { FinancialGoal, FundingRuleKind, GoalContribution, GoalFundingRule, Transaction } from '@/types'
+import { targetDateInMonths } from './progress'
+
+// Full months of history used to estimate income, round-ups and saving pace
+export const FUNDING_LOOKBACK_MONTHS = 3
+
+export const FUNDING_RULE_LABELS: Record<FundingRuleKind, string> = {
+  fixed_monthly: 'Fixed monthly amount',
+  percent_of_income: 'Share of income',
+  round_up: 'Round-ups',
+}
+
+export interface FundingRates {
+  monthlyIncome: number // Average income a month over the lookback
+  monthlyRoundUps: number // Average a month of rounding every expense up to the next dollar
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * The first day of the lookback: the start of the month FUNDING_LOOKBACK_MONTHS
+ * before today's, so the current, partial month is left out
+ */
+export function lookbackStart(today: string): string {
+  const [year, month] = today.slice(0, 10).split('-').map(Number)
+  const start = new Date(Date.UTC(year, month - 1 - FUNDING_LOOKBACK_MONTHS, 1))
+  return start.toISOString().slice(0, 10)
+}
+
+function inLookback(date: string, today: string): boolean {
+  return date >= lookbackStart(today) && date < `${today.slice(0, 7)}-01`
+}
+
+/**
+ * Average monthly income and round-ups over the lookback
+ */
+export function fundingRates(
+  transactions: Pick<Transaction, 'kind' | 'amount' | 'occurred_on'>[],
+  today: string
+): FundingRates {
+  let income = 0
+  let roundUps = 0
+  for (const tx of transactions) {
+    if (!inLookback(tx.occurred_on, today)) continue
+    const amount = Number(tx.amount)
+    if (tx.kind === 'income') income += amount
+    else roundUps += Math.ceil(amount) - amount
+  }
+  return {
+    monthlyIncome: round2(income / FUNDING_LOOKBACK_MONTHS),
+    monthlyRoundUps: round2(roundUps / FUNDING_LOOKBACK_MONTHS),
+  }
+}
+
+/**
+ * Average a month each goal got from contributions made by hand over the
+ * lookback, keyed by goal id; what a goal would get with no rules at all
+ */
+export function manualSavingPace(
+  contributions: Pick<GoalContribution, 'goal_id' | 'amount' | 'contributed_on' | 'funding_rule_id'>[],
+  today: string
+): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const c of contributions) {
+    if (c.funding_rule_id || !inLookback(c.contributed_on, today)) continue
+    totals.set(c.goal_id, (totals.get(c.goal_id) || 0) + Number(c.amount))
+  }
+  const pace = new Map<string, number>()
+  totals.forEach((total, goalId) => pace.set(goalId, Math.max(0, round2(total / FUNDING_LOOKBACK_MONTHS))))
+  return pace
+}
+
+/**
+ * What a rule is expected to save a month, going by recent income and spending
+ */
+export function estimatedMonthly(rule: Pick<GoalFundingRule, 'kind' | 'amount'>, rates: FundingRates): number {
+  switch (rule.kind) {
+    case 'fixed_monthly':
+      return Number(rule.amount)
+    case 'percent_of_income':
+      return round2(rates.monthlyIncome * Number(rule.amount) / 100)
+    case 'round_up':
+      return rates.monthlyRoundUps
+  }
+}
+
+/**
+ * A rule in a sentence, e.g. "$50 every month" or "10% of each income"
+ */
+export function describeFundingRule(rule: Pick<GoalFundingRule, 'kind' | 'amount'>): string {
+  switch (rule.kind) {
+    case 'fixed_monthly':
+      return `$${Number(rule.amount).toLocaleString()} every month`
+    case 'percent_of_income':
+      return `${Number(rule.amount)}% of each income`
+    case 'round_up':
+      return 'Every expense rounded up to the next dollar'
+  }
+}
+
+/**
+ * The month a goal is reached saving monthly from today; today when nothing
+ * is left, and null when nothing is being saved
+ */
+export function projectedCompletion(remaining: number, monthly: number, today: string): string | null {
+  if (remaining <= 0) return today
+  if (monthly <= 0) return null
+  return targetDateInMonths(today, Math.ceil(remaining / monthly))
+}
+
+export interface FundingRulePreview {
+  rule: GoalFundingRule
+  monthly: number // Expected a month from this rule
+  completion: string | null // When the goal is reached with this rule on top of saving by hand
+}
+
+export interface GoalFundingPreview {
+  goal: FinancialGoal
+  baselineMonthly: number // Saved by hand a month
+  baseline: string | null // When the goal is reached saving by hand alone
+  rules: FundingRulePreview[] // The goal's active rules, each on its own
+  combined: string | null // When the goal is reached with every active rule
+}
+
+/**
+ * How each of a goal's active rules moves its projected completion date,
+ * compared with saving by hand alone
+ */
+export function goalFundingPreview(
+  goal: FinancialGoal,
+  rules: GoalFundingRule[],
+  rates: FundingRates,
+  baselineMonthly: number,
+  today: string
+): GoalFundingPreview {
+  const remaining = Math.max(0, round2(goal.target_amount - goal.current_amount))
+  const previews = rules
+    .filter(rule => rule.goal_id === goal.id && rule.active)
+    .map(rule => {
+      const monthly = estimatedMonthly(rule, rates)
+      return { rule, monthly, completion: projectedCompletion(remaining, baselineMonthly + monthly, today) }
+    })
+  const combinedMonthly = previews.reduce((sum, p) => sum + p.monthly, baselineMonthly)
+
+  return {
+    goal,
+    baselineMonthly,
+    baseline: projectedCompletion(remaining, baselineMonthly, today),
+    rules: previews,
+    combined: projectedCompletion(remaining, combinedMonthly, today),
+  }
+}
+
+/**
+ * Whole months between two dates, for "3 months sooner"
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number)
+  const [toYear, toMonth] = to.split('-').map(Number)
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth)
+}
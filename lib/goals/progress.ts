@@ -0,0 +1,103 @@
+import { FinancialGoal, GoalContribution } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const AVERAGE_MONTH_DAYS = 30.44
+
+// Share of the expected amount a goal can fall short by before it's behind
+const GOAL_PACE_TOLERANCE = 0.9
+
+export type GoalStatus = 'complete' | 'on_track' | 'behind' | 'overdue'
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  complete: 'Complete',
+  on_track: 'On track',
+  behind: 'Behind',
+  overdue: 'Past target date',
+}
+
+export interface GoalProgress {
+  status: GoalStatus
+  remaining: number // Still to save; 0 once the target is reached
+  monthsLeft: number // Until the target date, fractional; 0 once it has passed
+  requiredMonthly: number // Needed each month from now on to reach the target in time
+  expected: number // Saved by today on a steady pace from creation to the target date
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Where a goal stands on today's date
+ * A goal is behind when it has less than GOAL_PACE_TOLERANCE of what a
+ * steady pace from its creation to its target date would have saved by now.
+ * Goals less than a month old are on track, since it's too early to judge.
+ * With under a month left, the required contribution is the whole remainder.
+ */
+export function goalProgress(
+  goal: Pick<FinancialGoal, 'target_amount' | 'current_amount' | 'target_date' | 'created_at'>,
+  today: string
+): GoalProgress {
+  const remaining = Math.max(0, round2(goal.target_amount - goal.current_amount))
+  const start = toDayNumber(goal.created_at)
+  const end = toDayNumber(goal.target_date)
+  const now = toDayNumber(today)
+
+  const monthsLeft = Math.max(0, (end - now) / AVERAGE_MONTH_DAYS)
+  const elapsedShare = end > start ? Math.min(1, Math.max(0, (now - start) / (end - start))) : 1
+  const expected = round2(goal.target_amount * elapsedShare)
+  const requiredMonthly = round2(remaining / Math.max(monthsLeft, 1))
+
+  let status: GoalStatus = 'on_track'
+  if (remaining === 0) status = 'complete'
+  else if (now > end) status = 'overdue'
+  else if ((now - start) / AVERAGE_MONTH_DAYS >= 1 && goal.current_amount < expected * GOAL_PACE_TOLERANCE) status = 'behind'
+
+  return { status, remaining, monthsLeft, requiredMonthly, expected }
+}
+
+export interface GoalBalancePoint {
+  date: string // YYYY-MM-DD
+  balance: number // Saved at the end of the day
+}
+
+/**
+ * The goal's balance after each day it had contributions, oldest first
+ */
+export function balanceHistory(contributions: Pick<GoalContribution, 'amount' | 'contributed_on'>[]): GoalBalancePoint[] {
+  const byDay = new Map<string, number>()
+  for (const c of contributions) {
+    byDay.set(c.contributed_on, (byDay.get(c.contributed_on) || 0) + Number(c.amount))
+  }
+
+  let balance = 0
+  return Array.from(byDay.keys())
+    .sort()
+    .map(date => {
+      balance += byDay.get(date) || 0
+      return { date, balance: round2(balance) }
+    })
+}
+
+/**
+ * The date a number of months from today, for defaulting a new goal's target
+ */
+export function targetDateInMonths(today: string, months: number): string {
+  const [year, month, day] = today.slice(0, 10).split('-').map(Number)
+  const target = new Date(Date.UTC(year, month - 1 + months, 1))
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(day, daysInMonth))
+  return target.toISOString().slice(0, 10)
+}
+
+/**
+ * Average saved a month since the goal was created; goals under a month old
+ * count what they have as one month's saving
+ */
+export function savingPace(goal: Pick<FinancialGoal, 'current_amount' | 'created_at'>, today: string): number {
+  const months = (toDayNumber(today) - toDayNumber(goal.created_at)) / AVERAGE_MONTH_DAYS
+  return round2(Number(goal.current_amount) / Math.max(1, months))
+}
@@ -0,0 +1,236 @@
+import { CsvColumnMapping, DateFormat, DecimalSeparator, ImportedRow } from './types'
+
+/**
+ * Picks the most likely delimiter by counting candidates in the first line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates = [',', ';', '\t']
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',')
+}
+
+/**
+ * Parses CSV text into rows of cells
+ * Handles quoted cells, escaped quotes ("") and newlines inside quotes
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark if present
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell.trim())
+      cell = ''
+      if (row.some(value => value !== '')) rows.push(row)
+      row = []
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell.trim())
+  if (row.some(value => value !== '')) rows.push(row)
+
+  return rows
+}
+
+/**
+ * Guesses whether a file's amounts use a decimal point or a decimal comma
+ * The first amount that settles it wins: one with both separators uses the
+ * later one as the decimal, and one ending in a separator and one or two
+ * digits uses that one. "1,234" alone could be either and is passed over.
+ */
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  for (const value of values) {
+    const cleaned = value.replace(/[()$€£\s]/g, '')
+    const lastComma = cleaned.lastIndexOf(',')
+    const lastDot = cleaned.lastIndexOf('.')
+    if (lastComma !== -1 && lastDot !== -1) return lastComma > lastDot ? ',' : '.'
+    if (/,\d{1,2}$/.test(cleaned)) return ','
+    if (/\.\d{1,2}$/.test(cleaned)) return '.'
+  }
+  return '.'
+}
+
+/**
+ * Parses a money string such as "$1,234.50", "-12.00" or "(45.99)", or
+ * "1.234,50" with a decimal comma
+ * Returns null when the value is empty or not a number
+ */
+export function parseAmount(value: string | undefined, decimalSeparator: DecimalSeparator = '.'): number | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const isParenthesized = /^\(.*\)$/.test(trimmed)
+  const unformatted = trimmed.replace(/[()$€£\s]/g, '')
+  const cleaned = decimalSeparator === ','
+    ? unformatted.replace(/\./g, '').replace(',', '.')
+    : unformatted.replace(/,/g, '')
+  const parsed = parseFloat(cleaned)
+  if (isNaN(parsed)) return null
+
+  return isParenthesized ? -Math.abs(parsed) : parsed
+}
+
+/**
+ * Converts a statement date to YYYY-MM-DD, or null if it doesn't match the format
+ */
+export function parseDate(value: string | undefined, format: DateFormat): string | null {
+  if (!value) return null
+  const parts = value.trim().split(/[-/.\s]/).filter(Boolean)
+  if (parts.length < 3) return null
+
+  let year: number
+  let month: number
+  let day: number
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts.map(Number)
+      break
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number)
+      break
+    case 'DD/MM/YYYY':
+      [day, month, year] = parts.map(Number)
+      break
+  }
+
+  if (year < 100) year += 2000
+  if (!year || !month || !day) return null
+
+  // Rejects days the month doesn't have, such as 2024-02-31
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Guesses the date format from sample values
+ * Prefers MM/DD/YYYY unless a value can only be read day-first
+ */
+export function detectDateFormat(values: string[]): DateFormat {
+  const samples = values.map(v => v.trim()).filter(Boolean)
+  if (samples.length > 0 && samples.every(v => /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}/.test(v))) {
+    return 'YYYY-MM-DD'
+  }
+  const dayFirst = samples.some(v => {
+    const [first] = v.split(/[-/.]/).map(Number)
+    return first > 12
+  })
+  return dayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY'
+}
+
+/**
+ * Builds a best-guess column mapping from a header row and sample data
+ */
+export function guessCsvMapping(rows: string[][]): CsvColumnMapping {
+  const header = (rows[0] || []).map(h => h.toLowerCase())
+  const findColumn = (patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const index = header.findIndex(h => pattern.test(h))
+      if (index !== -1) return index
+    }
+    return -1
+  }
+
+  const dateColumn = findColumn([/posted|posting/, /date/])
+  const descriptionColumn = findColumn([/description/, /payee|merchant/, /name/, /memo|details/])
+  const amountColumn = findColumn([/^amount$/, /amount/])
+  const debitColumn = findColumn([/debit|withdrawal|money out/])
+  const creditColumn = findColumn([/credit|deposit|money in/])
+  const hasHeader = dateColumn !== -1 || descriptionColumn !== -1 || amountColumn !== -1
+
+  const useSplitColumns = amountColumn === -1 && debitColumn !== -1 && creditColumn !== -1
+  const resolvedDateColumn = dateColumn === -1 ? 0 : dateColumn
+  const dataRows = hasHeader ? rows.slice(1) : rows
+
+  return {
+    hasHeader,
+    dateColumn: resolvedDateColumn,
+    descriptionColumn: descriptionColumn === -1 ? 1 : descriptionColumn,
+    amountColumn: useSplitColumns ? null : (amountColumn === -1 ? 2 : amountColumn),
+    debitColumn: useSplitColumns ? debitColumn : null,
+    creditColumn: useSplitColumns ? creditColumn : null,
+    dateFormat: detectDateFormat(dataRows.slice(0, 20).map(r => r[resolvedDateColumn] || '')),
+    invertAmounts: false,
+  }
+}
+
+/**
+ * Applies a column mapping to parsed CSV rows
+ * Rows without a valid date or a non-zero amount are skipped and counted.
+ * The decimal separator is worked out from the file's own amounts.
+ */
+export function applyCsvMapping(
+  rows: string[][],
+  mapping: CsvColumnMapping
+): { rows: ImportedRow[]; skipped: number } {
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+  const result: ImportedRow[] = []
+  let skipped = 0
+
+  const amountColumns = [mapping.amountColumn, mapping.debitColumn, mapping.creditColumn]
+    .filter((column): column is number => column !== null)
+  const decimalSeparator = detectDecimalSeparator(
+    dataRows.flatMap(cells => amountColumns.map(column => cells[column] || ''))
+  )
+
+  for (const cells of dataRows) {
+    const date = parseDate(cells[mapping.dateColumn], mapping.dateFormat)
+
+    let signedAmount: number | null
+    if (mapping.amountColumn !== null) {
+      signedAmount = parseAmount(cells[mapping.amountColumn], decimalSeparator)
+    } else {
+      const debit = mapping.debitColumn !== null ? parseAmount(cells[mapping.debitColumn], decimalSeparator) : null
+      const credit = mapping.creditColumn !== null ? parseAmount(cells[mapping.creditColumn], decimalSeparator) : null
+      signedAmount = debit || credit ? (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0) : null
+    }
+
+    if (!date || signedAmount === null || signedAmount === 0) {
+      skipped++
+      continue
+    }
+
+    if (mapping.invertAmounts) signedAmount = -signedAmount
+
+    result.push({
+      date,
+      description: (cells[mapping.descriptionColumn] || '').trim() || 'Imported transaction',
+      amount: Math.abs(signedAmount),
+      kind: signedAmount > 0 ? 'income' : 'expense',
+    })
+  }
+
+  return { rows: result, skipped }
+}
@@ -0,0 +1,112 @@
+import { SpendingCategory, Transaction } from '@/types'
+import { ImportedRow } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Keywords used to suggest a category when there is no history to go on
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'Food and Groceries': ['grocery', 'market', 'whole foods', 'trader joe', 'safeway', 'kroger', 'restaurant', 'cafe', 'coffee', 'starbucks', 'pizza', 'doordash', 'uber eats', 'grubhub'],
+  'Shopping': ['amazon', 'target', 'walmart', 'costco', 'best buy', 'ebay', 'etsy'],
+  'Housing': ['rent', 'mortgage', 'hoa', 'property'],
+  'Transportation': ['uber', 'lyft', 'shell', 'chevron', 'exxon', 'gas', 'parking', 'transit', 'bart', 'muni', 'toll'],
+  'Debt Payments': ['loan', 'payment thank you', 'student', 'credit card payment'],
+  'Entertainment': ['netflix', 'spotify', 'hulu', 'disney', 'cinema', 'theater', 'movie', 'steam', 'ticket'],
+  'Utilities': ['electric', 'water', 'pg&e', 'comcast', 'xfinity', 'verizon', 'at&t', 't-mobile', 'internet', 'utility'],
+  'Healthcare': ['pharmacy', 'cvs', 'walgreens', 'doctor', 'dental', 'clinic', 'hospital'],
+  'Personal': ['salon', 'barber', 'gym', 'fitness', 'spa'],
+  'Insurance': ['insurance', 'geico', 'state farm', 'allstate', 'progressive'],
+}
+
+/**
+ * Lowercases a description and strips store numbers, punctuation and extra spaces
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/[^a-z&'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function descriptionsMatch(a: string, b: string): boolean {
+  const left = normalizeDescription(a)
+  const right = normalizeDescription(b)
+  if (!left || !right) return false
+  if (left === right || left.includes(right) || right.includes(left)) return true
+
+  // Fall back to word overlap for reordered or abbreviated bank descriptions
+  const leftWords = new Set(left.split(' ').filter(w => w.length > 2))
+  const rightWords = right.split(' ').filter(w => w.length > 2)
+  if (leftWords.size === 0 || rightWords.length === 0) return false
+  const shared = rightWords.filter(w => leftWords.has(w)).length
+  return shared / Math.min(leftWords.size, rightWords.length) >= 0.5
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS
+}
+
+/**
+ * Flags rows that are likely already recorded: same direction and amount,
+ * posted within a day of each other, with matching descriptions.
+ * Repeated rows within the same file are flagged after their first occurrence.
+ * A row with the bank's own id is matched on that id instead wherever the
+ * other side has one too, so look-alike purchases with different ids are kept.
+ */
+export function findDuplicates(
+  rows: ImportedRow[],
+  existing: Pick<Transaction, 'description' | 'amount' | 'kind' | 'occurred_on' | 'external_id'>[]
+): boolean[] {
+  const candidates = existing.map(tx => ({
+    description: tx.description,
+    amount: tx.amount,
+    kind: tx.kind,
+    day: toDayNumber(tx.occurred_on),
+    externalId: tx.external_id,
+  }))
+
+  const seen: typeof candidates = []
+
+  return rows.map(row => {
+    const day = toDayNumber(row.date)
+    const matches = (c: typeof candidates[number]) => {
+      if (row.externalId && c.externalId) return c.externalId === row.externalId
+      return c.kind === row.kind &&
+        Math.abs(c.amount - row.amount) < 0.005 &&
+        Math.abs(c.day - day) <= 1 &&
+        descriptionsMatch(c.description, row.description)
+    }
+
+    const isDuplicate = candidates.some(matches) || seen.some(matches)
+    seen.push({ description: row.description, amount: row.amount, kind: row.kind, day, externalId: row.externalId || null })
+    return isDuplicate
+  })
+}
+
+/**
+ * Suggests a spending category for an imported expense
+ * Prefers the category previously used for the same merchant, then keyword rules
+ */
+export function suggestCategory(
+  description: string,
+  categories: SpendingCategory[],
+  history: Pick<Transaction, 'description' | 'category_name' | 'kind'>[]
+): string | null {
+  const categoryNames = new Set(categories.map(c => c.name))
+  const normalized = normalizeDescription(description)
+
+  const previous = history.find(
+    tx => tx.kind === 'expense' && categoryNames.has(tx.category_name) && descriptionsMatch(tx.description, description)
+  )
+  if (previous) return previous.category_name
+
+  for (const [categoryName, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (categoryNames.has(categoryName) && keywords.some(keyword => normalized.includes(keyword))) {
+      return categoryName
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,72 @@
+import { parseDate } from './csv'
+import { ImportedRow } from './types'
+
+/**
+ * Reads a single OFX field value from a transaction block
+ * Works for both SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x) files
+ */
+function readField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? match[1].trim() : undefined
+}
+
+/**
+ * Decodes the handful of entities banks use in OFX text fields
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+}
+
+/**
+ * Converts an OFX date (YYYYMMDD[HHMMSS[.XXX]][[tz]]) to YYYY-MM-DD
+ */
+function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? parseDate(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD') : null
+}
+
+/**
+ * Returns true when the text looks like an OFX or QFX statement
+ */
+export function isOfx(text: string): boolean {
+  return /<OFX>/i.test(text) || /OFXHEADER/i.test(text)
+}
+
+/**
+ * Parses OFX/QFX statement text into imported rows
+ * Negative TRNAMT values are expenses, positive values are income
+ */
+export function parseOfx(text: string): { rows: ImportedRow[]; skipped: number } {
+  const rows: ImportedRow[] = []
+  let skipped = 0
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1)
+
+  for (const rawBlock of blocks) {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0]
+    const date = parseOfxDate(readField(block, 'DTPOSTED'))
+    const amount = parseFloat(readField(block, 'TRNAMT') || '')
+    const name = readField(block, 'NAME')
+    const memo = readField(block, 'MEMO')
+
+    if (!date || isNaN(amount) || amount === 0) {
+      skipped++
+      continue
+    }
+
+    rows.push({
+      date,
+      description: decodeEntities(name || memo || 'Imported transaction'),
+      amount: Math.abs(amount),
+      kind: amount > 0 ? 'income' : 'expense',
+      externalId: readField(block, 'FITID'),
+    })
+  }
+
+  return { rows, skipped }
+}
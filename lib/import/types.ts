@@ -0,0 +1,37 @@
+import { TransactionKind } from '@/types'
+
+/**
+ * A transaction parsed from a bank statement, before it is saved
+ */
+export interface ImportedRow {
+  /** Posting date as YYYY-MM-DD */
+  date: string
+  description: string
+  /** Always positive; the direction is carried by kind */
+  amount: number
+  kind: TransactionKind
+  /** Bank-assigned transaction id when the format provides one (OFX FITID) */
+  externalId?: string
+}
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY'
+
+export type DecimalSeparator = '.' | ','
+
+/**
+ * Describes which CSV columns hold which transaction fields
+ * Column values are zero-based indexes; null means the column is not present
+ */
+export interface CsvColumnMapping {
+  hasHeader: boolean
+  dateColumn: number
+  descriptionColumn: number
+  /** Single signed amount column (negative = money out) */
+  amountColumn: number | null
+  /** Separate money-out / money-in columns, used when amountColumn is null */
+  debitColumn: number | null
+  creditColumn: number | null
+  dateFormat: DateFormat
+  /** Set when the bank exports purchases as positive numbers (common for credit cards) */
+  invertAmounts: boolean
+}
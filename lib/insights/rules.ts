@@ -0,0 +1,389 @@
+import { FinancialGoal, SpendingCategory, Transaction, TransactionSplit } from '@/types'
+import { goalProgress } from '@/lib/goals/progress'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Full months of history the spike and savings rate rules compare against
+export const INSIGHT_HISTORY_MONTHS = 3
+
+// Share of a budget used before a category is called out as close to it
+const NEAR_BUDGET_RATIO = 0.9
+// Share of a budget that makes going over it critical rather than a warning
+const FAR_OVER_BUDGET_RATIO = 1.25
+
+// Month-to-date spending against the usual for the same days
+const SPIKE_RATIO = 1.5
+const SEVERE_SPIKE_RATIO = 2
+// Ignore spikes smaller than this many dollars, e.g. $12 against a usual $6
+const MIN_SPIKE_AMOUNT = 50
+
+// How far back a transaction counts as recent enough to call out
+const LARGE_TRANSACTION_WINDOW_DAYS = 30
+// Multiples of the category's typical expense
+const LARGE_TRANSACTION_RATIO = 3
+const VERY_LARGE_TRANSACTION_RATIO = 5
+const MIN_LARGE_TRANSACTION_AMOUNT = 100
+// Other expenses a category needs before "typical" means anything
+const MIN_TYPICAL_SAMPLE = 4
+const MAX_LARGE_TRANSACTIONS = 3
+
+// Share of income saved below which the savings rate is called out
+const LOW_SAVINGS_RATE = 0.1
+
+export type FindingSeverity = 'critical' | 'warning' | 'info'
+
+export type FindingType = 'over_budget' | 'near_budget' | 'spending_spike' | 'large_transaction' | 'goal_behind' | 'low_savings_rate'
+
+/**
+ * Something the rules noticed in the user's finances, with the figures
+ * behind it
+ */
+export interface Finding {
+  type: FindingType
+  severity: FindingSeverity
+  subject: string // The category, transaction or goal it's about
+  title: string
+  detail: string // One sentence quoting the numbers
+  metrics: Record<string, number>
+}
+
+export interface InsightRulesInput {
+  today: string // YYYY-MM-DD in the user's time zone
+  // This month's spending and budget per category
+  categories: Pick<SpendingCategory, 'name' | 'value' | 'budget'>[]
+  // At least this month and the INSIGHT_HISTORY_MONTHS before it, with the
+  // lines of split expenses so they count under their own categories
+  transactions: (Pick<Transaction, 'occurred_on' | 'description' | 'amount' | 'kind' | 'category_name'> & {
+    transaction_splits?: Pick<TransactionSplit, 'category_name' | 'amount'>[] | null
+  })[]
+  goals: Pick<FinancialGoal, 'title' | 'target_amount' | 'current_amount' | 'target_date' | 'created_at'>[]
+}
+
+type ExpenseLine = Pick<Transaction, 'occurred_on' | 'description' | 'amount' | 'category_name'>
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { critical: 0, warning: 1, info: 2 }
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS
+}
+
+// YYYY-MM-01 of the month count months from the one date is in
+function monthKey(date: string, count: number = 0): string {
+  const [year, month] = date.split('-').map(Number)
+  const shifted = new Date(Date.UTC(year, month - 1 + count, 1))
+  return `${shifted.getUTCFullYear()}-${String(shifted.getUTCMonth() + 1).padStart(2, '0')}-01`
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * The history months the transactions actually reach back to, so a new
+ * user's empty months don't drag the averages down
+ */
+function coveredHistoryMonths(input: InsightRulesInput): string[] {
+  const earliest = input.transactions.reduce((min, tx) => (tx.occurred_on < min ? tx.occurred_on : min), input.today)
+  const months: string[] = []
+  for (let i = 1; i <= INSIGHT_HISTORY_MONTHS; i++) {
+    const month = monthKey(input.today, -i)
+    if (month >= monthKey(earliest)) months.push(month)
+  }
+  return months
+}
+
+/**
+ * Expenses up to today, with each split expense broken into one line per
+ * category it was split across
+ */
+function expenseLines(input: InsightRulesInput): ExpenseLine[] {
+  return input.transactions.flatMap(tx => {
+    if (tx.kind !== 'expense' || tx.occurred_on > input.today) return []
+    if (!tx.transaction_splits?.length) return [tx]
+    return tx.transaction_splits.map(split => ({ ...tx, category_name: split.category_name, amount: Number(split.amount) }))
+  })
+}
+
+export function checkBudgets({ categories }: InsightRulesInput): Finding[] {
+  const findings: Finding[] = []
+  for (const category of categories) {
+    if (!(category.budget > 0)) continue
+    const ratio = category.value / category.budget
+    const metrics = { spent: round2(category.value), budget: round2(category.budget), percentUsed: Math.round(ratio * 100) }
+
+    if (category.value > category.budget) {
+      findings.push({
+        type: 'over_budget',
+        severity: ratio >= FAR_OVER_BUDGET_RATIO ? 'critical' : 'warning',
+        subject: category.name,
+        title: `${category.name} is over budget`,
+        detail: `${category.name} spending is ${money(category.value)} against a ${money(category.budget)} budget, ${money(category.value - category.budget)} over.`,
+        metrics: { ...metrics, overBy: round2(category.value - category.budget) },
+      })
+    } else if (ratio >= NEAR_BUDGET_RATIO) {
+      findings.push({
+        type: 'near_budget',
+        severity: 'info',
+        subject: category.name,
+        title: `${category.name} is close to its budget`,
+        detail: `${category.name} has used ${percent(ratio)} of its ${money(category.budget)} budget, with ${money(category.budget - category.value)} left.`,
+        metrics: { ...metrics, remaining: round2(category.budget - category.value) },
+      })
+    }
+  }
+  return findings
+}
+
+/**
+ * Compares each category's spending so far this month with what it usually
+ * is by the same day of the month, so bills paid early in the month don't
+ * look like spikes
+ */
+export function checkSpendingSpikes(input: InsightRulesInput): Finding[] {
+  const months = coveredHistoryMonths(input)
+  if (months.length === 0) return []
+
+  const today = Number(input.today.slice(8, 10))
+  const thisMonth = monthKey(input.today)
+  const current = new Map<string, number>()
+  const history = new Map<string, number>()
+
+  for (const tx of expenseLines(input)) {
+    const month = monthKey(tx.occurred_on)
+    const day = Number(tx.occurred_on.slice(8, 10))
+    if (month === thisMonth) {
+      current.set(tx.category_name, (current.get(tx.category_name) || 0) + tx.amount)
+    } else if (months.includes(month) && day <= today) {
+      history.set(tx.category_name, (history.get(tx.category_name) || 0) + tx.amount)
+    }
+  }
+
+  const findings: Finding[] = []
+  for (const [category, spent] of Array.from(current)) {
+    const usual = (history.get(category) || 0) / months.length
+    if (usual <= 0 || spent < usual * SPIKE_RATIO || spent - usual < MIN_SPIKE_AMOUNT) continue
+
+    const ratio = spent / usual
+    findings.push({
+      type: 'spending_spike',
+      severity: ratio >= SEVERE_SPIKE_RATIO ? 'warning' : 'info',
+      subject: category,
+      title: `${category} spending is up`,
+      detail: `${category} spending is ${money(spent)} so far this month, against a usual ${money(usual)} by day ${today}.`,
+      metrics: { spent: round2(spent), usual: round2(usual), ratio: round2(ratio), months: months.length },
+    })
+  }
+  return findings
+}
+
+/**
+ * Recent expenses several times bigger than what's typical for their
+ * category, biggest first
+ */
+export function checkLargeTransactions(input: InsightRulesInput): Finding[] {
+  const expenses = expenseLines(input)
+  const byCategory = new Map<string, number[]>()
+  for (const tx of expenses) {
+    const amounts = byCategory.get(tx.category_name)
+    if (amounts) amounts.push(tx.amount)
+    else byCategory.set(tx.category_name, [tx.amount])
+  }
+
+  const todayNumber = toDayNumber(input.today)
+  const findings: Finding[] = []
+  for (const tx of expenses) {
+    if (todayNumber - toDayNumber(tx.occurred_on) > LARGE_TRANSACTION_WINDOW_DAYS) continue
+    if (tx.amount < MIN_LARGE_TRANSACTION_AMOUNT) continue
+
+    // Leave this one out of its own baseline
+    const others = [...(byCategory.get(tx.category_name) || [])]
+    others.splice(others.indexOf(tx.amount), 1)
+    if (others.length < MIN_TYPICAL_SAMPLE) continue
+
+    const typical = median(others)
+    if (typical <= 0 || tx.amount < typical * LARGE_TRANSACTION_RATIO) continue
+
+    const ratio = tx.amount / typical
+    findings.push({
+      type: 'large_transaction',
+      severity: ratio >= VERY_LARGE_TRANSACTION_RATIO ? 'warning' : 'info',
+      subject: tx.description,
+      title: `Large ${tx.category_name} expense`,
+      detail: `${tx.description} on ${tx.occurred_on} was ${money(tx.amount)}, about ${Math.round(ratio)} times a typical ${tx.category_name} expense of ${money(typical)}.`,
+      metrics: { amount: round2(tx.amount), typical: round2(typical), ratio: round2(ratio) },
+    })
+  }
+
+  return findings
+    .sort((a, b) => b.metrics.ratio - a.metrics.ratio)
+    .slice(0, MAX_LARGE_TRANSACTIONS)
+}
+
+/**
+ * Goals whose savings are behind a steady pace towards the target by their
+ * target date, or whose target date has passed; see goalProgress
+ */
+export function checkGoalPace(input: InsightRulesInput): Finding[] {
+  const findings: Finding[] = []
+  for (const goal of input.goals) {
+    const progress = goalProgress(goal, input.today)
+
+    if (progress.status === 'overdue') {
+      findings.push({
+        type: 'goal_behind',
+        severity: 'critical',
+        subject: goal.title,
+        title: `${goal.title} is past its target date`,
+        detail: `${goal.title} has ${money(goal.current_amount)} of its ${money(goal.target_amount)} target and its target date of ${goal.target_date} has passed.`,
+        metrics: { saved: round2(goal.current_amount), target: round2(goal.target_amount), shortfall: progress.remaining, monthsLeft: 0 },
+      })
+      continue
+    }
+
+    if (progress.status !== 'behind') continue
+
+    findings.push({
+      type: 'goal_behind',
+      severity: 'warning',
+      subject: goal.title,
+      title: `${goal.title} is behind pace`,
+      detail: `${goal.title} has ${money(goal.current_amount)} saved where ${money(progress.expected)} would be on pace; reaching ${money(goal.target_amount)} by ${goal.target_date} now takes ${money(progress.requiredMonthly)} a month.`,
+      metrics: {
+        saved: round2(goal.current_amount),
+        expected: progress.expected,
+        target: round2(goal.target_amount),
+        requiredMonthly: progress.requiredMonthly,
+        monthsLeft: round2(progress.monthsLeft),
+      },
+    })
+  }
+  return findings
+}
+
+/**
+ * Share of income left after expenses over the last full months
+ */
+export function checkSavingsRate(input: InsightRulesInput): Finding[] {
+  const months = coveredHistoryMonths(input)
+  if (months.length === 0) return []
+
+  let income = 0
+  let expenses = 0
+  for (const tx of input.transactions) {
+    if (!months.includes(monthKey(tx.occurred_on))) continue
+    if (tx.kind === 'income') income += tx.amount
+    else expenses += tx.amount
+  }
+  if (income <= 0) return []
+
+  const rate = (income - expenses) / income
+  if (rate >= LOW_SAVINGS_RATE) return []
+
+  const period = months.length === 1 ? 'last month' : `the last ${months.length} months`
+  const metrics = { income: round2(income), expenses: round2(expenses), savingsRate: Math.round(rate * 100), months: months.length }
+  return [rate < 0
+    ? {
+      type: 'low_savings_rate',
+      severity: 'critical',
+      subject: 'Savings rate',
+      title: 'Spending more than you earn',
+      detail: `Over ${period} expenses of ${money(expenses)} were ${money(expenses - income)} more than income of ${money(income)}.`,
+      metrics,
+    }
+    : {
+      type: 'low_savings_rate',
+      severity: 'warning',
+      subject: 'Savings rate',
+      title: 'Low savings rate',
+      detail: `Over ${period} you kept ${percent(rate)} of ${money(income)} income, below the ${percent(LOW_SAVINGS_RATE)} worth aiming for.`,
+      metrics,
+    }]
+}
+
+/**
+ * Runs every rule over the user's data, most severe findings first
+ */
+export function evaluateInsightRules(input: InsightRulesInput): Finding[] {
+  return [
+    ...checkBudgets(input),
+    ...checkSpendingSpikes(input),
+    ...checkLargeTransactions(input),
+    ...checkGoalPace(input),
+    ...checkSavingsRate(input),
+  ].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+}
+
+// Padding for when the data doesn't turn up three things to act on
+const GENERAL_TIPS = [
+  'Review your subscriptions for potential savings.',
+  'Automate a small weekly transfer to your savings account.',
+  'Set a budget for each category so overspending shows up early.',
+]
+
+function tipFor(finding: Finding): string {
+  const { metrics } = finding
+  switch (finding.type) {
+    case 'over_budget':
+      return `Ease off ${finding.subject} for the rest of the month: it's ${money(metrics.overBy)} over its ${money(metrics.budget)} budget.`
+    case 'near_budget':
+      return `Keep an eye on ${finding.subject}: only ${money(metrics.remaining)} of its budget is left this month.`
+    case 'spending_spike':
+      return `${finding.subject} is running at ${money(metrics.spent)} against a usual ${money(metrics.usual)}; check what's driving it.`
+    case 'large_transaction':
+      return `Double-check ${finding.subject} (${money(metrics.amount)}); if it was a one-off, plan for it next time.`
+    case 'goal_behind':
+      return metrics.monthsLeft > 0
+        ? `Put ${money(metrics.requiredMonthly)} a month towards ${finding.subject} to reach it on time.`
+        : `Set a new timeframe for ${finding.subject}; ${money(metrics.shortfall)} is still to go.`
+    case 'low_savings_rate':
+      return metrics.savingsRate < 0
+        ? 'Expenses are outpacing income; trim your largest category until the gap closes.'
+        : `Aim to save ${percent(LOW_SAVINGS_RATE)} of your income; you're keeping ${metrics.savingsRate}% right now.`
+  }
+}
+
+/**
+ * Three tips from the most severe findings, topped up with general ones
+ */
+export function findingsToTips(findings: Finding[], count: number = 3): string[] {
+  const tips = findings.slice(0, count).map(tipFor)
+  for (const tip of GENERAL_TIPS) {
+    if (tips.length >= count) break
+    tips.push(tip)
+  }
+  return tips
+}
+
+/**
+ * A short summary of financial health from the findings
+ */
+export function findingsToInsight(findings: Finding[]): string {
+  const concerns = findings.filter(f => f.severity !== 'info')
+  if (concerns.length === 0) {
+    return findings.length > 0
+      ? `Nothing needs urgent attention. ${findings[0].detail}`
+      : 'Nothing stands out: spending is within budget, your goals are on pace and nothing unusual has come through recently.'
+  }
+
+  const summary = concerns.slice(0, 2).map(f => f.detail).join(' ')
+  const more = concerns.length - 2
+  return more > 0 ? `${summary} There ${more === 1 ? 'is 1 more thing' : `are ${more} more things`} worth a look.` : summary
+}
+
+/**
+ * Renders the findings as a plain-text list for a model prompt
+ */
+export function formatFindings(findings: Finding[]): string {
+  if (findings.length === 0) return '- Nothing notable'
+  return findings.map(f => `- [${f.severity}] ${f.detail}`).join('\n')
+}
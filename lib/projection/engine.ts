@@ -0,0 +1,94 @@
+import { ProjectionScenario, StartingBalanceSource } from '@/types'
+
+export const STARTING_BALANCE_LABELS: Record<StartingBalanceSource, string> = {
+  goals: 'Saved in goals',
+  savings_accounts: 'Savings accounts',
+  custom: 'Enter an amount',
+}
+
+// Everything the projection needs; rates are percentages
+export type ProjectionInputs = Pick<
+  ProjectionScenario,
+  'monthly_contribution' | 'contribution_growth' | 'annual_return' | 'inflation_rate' | 'tax_rate' | 'years'
+> & {
+  startingBalance: number
+}
+
+export interface ProjectionYear {
+  year: number // 0 is today
+  balance: number
+  realBalance: number // balance in today's dollars
+  contributed: number // Starting balance plus every contribution so far
+  growth: number // Returns after tax so far
+}
+
+export interface StartingBalances {
+  goals: number // Saved across all goals
+  savings_accounts: number // Balance of savings accounts
+}
+
+/**
+ * The balance a scenario starts from
+ */
+export function startingBalance(
+  scenario: Pick<ProjectionScenario, 'starting_balance_source' | 'starting_balance'>,
+  balances: StartingBalances
+): number {
+  if (scenario.starting_balance_source === 'custom') return Number(scenario.starting_balance)
+  return Math.max(0, balances[scenario.starting_balance_source])
+}
+
+/**
+ * The monthly return after tax, as a fraction
+ * Returns compound monthly; tax takes its share of gains as they are made
+ * (losses aren't refunded).
+ */
+export function afterTaxMonthlyReturn(annualReturn: number, taxRate: number): number {
+  const monthly = annualReturn / 100 / 12
+  return monthly > 0 ? monthly * (1 - taxRate / 100) : monthly
+}
+
+/**
+ * The contribution made in a month (0-based), rising once a year by the growth rate
+ */
+export function contributionInMonth(inputs: Pick<ProjectionInputs, 'monthly_contribution' | 'contribution_growth'>, month: number): number {
+  return inputs.monthly_contribution * Math.pow(1 + inputs.contribution_growth / 100, Math.floor(month / 12))
+}
+
+/**
+ * What a value in a future month is worth in today's dollars
+ */
+export function toTodaysDollars(amount: number, inflationRate: number, month: number): number {
+  return amount / Math.pow(1 + inflationRate / 100, month / 12)
+}
+
+/**
+ * Projects savings year by year, stepping a month at a time: the balance earns
+ * a month's after-tax return, then the month's contribution is added
+ * Works at any rate, including zero and negative ones.
+ */
+export function projectSavings(inputs: ProjectionInputs): ProjectionYear[] {
+  const rate = afterTaxMonthlyReturn(inputs.annual_return, inputs.tax_rate)
+  let balance = inputs.startingBalance
+  let contributed = inputs.startingBalance
+  const years: ProjectionYear[] = [{ year: 0, balance, realBalance: balance, contributed, growth: 0 }]
+
+  for (let month = 0; month < inputs.years * 12; month++) {
+    const contribution = contributionInMonth(inputs, month)
+    const gain = balance * rate
+    balance = Math.max(0, balance + gain) + contribution
+    contributed += contribution
+
+    if ((month + 1) % 12 === 0) {
+      years.push({
+        year: (month + 1) / 12,
+        balance: Math.round(balance),
+        realBalance: Math.round(toTodaysDollars(balance, inputs.inflation_rate, month + 1)),
+        contributed: Math.round(contributed),
+        growth: Math.round(balance - contributed),
+      })
+    }
+  }
+
+  return years
+}
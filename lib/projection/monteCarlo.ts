@@ -0,0 +1,152 @@
+import { FinancialGoal } from '@/types'
+import { ProjectionInputs, contributionInMonth } from './engine'
+
+export const SIMULATION_PATH_OPTIONS = [1000, 5000, 10000]
+
+export interface SimulationSettings {
+  meanReturn: number // Expected annual return, %
+  volatility: number // Standard deviation of annual returns, %
+  paths: number
+  seed: number // Same seed and inputs give the same result
+}
+
+// What the simulation needs to know about a goal
+export type SimulationGoal = Pick<FinancialGoal, 'id' | 'title' | 'target_amount' | 'current_amount' | 'target_date'> & {
+  monthlySaving: number // Assumed to keep going until the target date
+}
+
+export interface SimulationBand {
+  year: number
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface GoalSuccess {
+  goalId: string
+  title: string
+  probability: number // 0-1
+}
+
+export interface SimulationResult {
+  bands: SimulationBand[]
+  goals: GoalSuccess[]
+}
+
+// Messages to and from monteCarlo.worker.ts
+export interface SimulationRequest {
+  id: number
+  inputs: ProjectionInputs
+  settings: SimulationSettings
+  goals: SimulationGoal[]
+  today: string
+}
+
+export type SimulationResponse =
+  | { id: number; result: SimulationResult }
+  | { id: number; error: string }
+
+/**
+ * Small seeded generator (mulberry32), so a simulation can be repeated exactly
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * A draw from the standard normal distribution (Box-Muller)
+ */
+function normal(random: () => number): number {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/**
+ * Draws a month's return, after tax on gains, as a fraction
+ * Monthly returns are normal with the annual mean and volatility scaled to a
+ * month; a month can't lose more than everything.
+ */
+function monthlyReturn(random: () => number, settings: SimulationSettings, taxRate: number): number {
+  const mean = settings.meanReturn / 100 / 12
+  const deviation = settings.volatility / 100 / Math.sqrt(12)
+  const drawn = Math.max(-1, mean + deviation * normal(random))
+  return drawn > 0 ? drawn * (1 - taxRate / 100) : drawn
+}
+
+function percentile(sorted: Float64Array, share: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(share * (sorted.length - 1))))
+  return sorted[index]
+}
+
+function monthsUntil(today: string, date: string): number {
+  const [fromYear, fromMonth, fromDay] = today.split('-').map(Number)
+  const [toYear, toMonth, toDay] = date.split('-').map(Number)
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0)
+  return Math.max(0, months)
+}
+
+/**
+ * Runs the projection along many random return paths and reports the 10th,
+ * 50th and 90th percentile balance each year
+ * Each goal is simulated on its own: its savings are invested on the same
+ * terms, it keeps getting its monthly saving, and it succeeds when the
+ * balance reaches the target by the target date.
+ */
+export function simulateProjection(
+  inputs: ProjectionInputs,
+  settings: SimulationSettings,
+  goals: SimulationGoal[],
+  today: string
+): SimulationResult {
+  const random = seededRandom(settings.seed)
+  const paths = Math.max(1, Math.round(settings.paths))
+  const totalMonths = inputs.years * 12
+
+  // Balances by year, one row per year and one column per path
+  const byYear: Float64Array[] = []
+  for (let year = 0; year <= inputs.years; year++) byYear.push(new Float64Array(paths))
+
+  for (let path = 0; path < paths; path++) {
+    let balance = inputs.startingBalance
+    byYear[0][path] = balance
+    for (let month = 0; month < totalMonths; month++) {
+      balance = Math.max(0, balance * (1 + monthlyReturn(random, settings, inputs.tax_rate))) + contributionInMonth(inputs, month)
+      if ((month + 1) % 12 === 0) byYear[(month + 1) / 12][path] = balance
+    }
+  }
+
+  const bands = byYear.map((balances, year) => {
+    const sorted = balances.slice().sort()
+    return {
+      year,
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9)),
+    }
+  })
+
+  const goalSuccess = goals.map(goal => {
+    if (goal.current_amount >= goal.target_amount) return { goalId: goal.id, title: goal.title, probability: 1 }
+
+    const months = monthsUntil(today, goal.target_date)
+    let reached = 0
+    for (let path = 0; path < paths; path++) {
+      let balance = Number(goal.current_amount)
+      for (let month = 0; month < months && balance < goal.target_amount; month++) {
+        balance = Math.max(0, balance * (1 + monthlyReturn(random, settings, inputs.tax_rate))) + goal.monthlySaving
+      }
+      if (balance >= goal.target_amount) reached++
+    }
+    return { goalId: goal.id, title: goal.title, probability: reached / paths }
+  })
+
+  return { bands, goals: goalSuccess }
+}
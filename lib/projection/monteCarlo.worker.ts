@@ -0,0 +1,15 @@
+import { SimulationRequest, SimulationResponse, simulateProjection } from './monteCarlo'
+
+// The DOM typings describe a window; inside a worker, self is the worker's own scope
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, inputs, settings, goals, today } = event.data
+  try {
+    const response: SimulationResponse = { id, result: simulateProjection(inputs, settings, goals, today) }
+    ctx.postMessage(response)
+  } catch (err) {
+    const response: SimulationResponse = { id, error: err instanceof Error ? err.message : 'Simulation failed' }
+    ctx.postMessage(response)
+  }
+}
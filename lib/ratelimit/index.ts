@@ -0,0 +1,115 @@
+/**
+ * How fast a caller may make requests: a bucket holds up to capacity
+ * tokens, each request takes one (or its cost), and tokens come back at
+ * refillPerSecond
+ */
+export interface RateLimitPolicy {
+  capacity: number
+  refillPerSecond: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number // Whole tokens left after this request
+  retryAfterSeconds: number // 0 when allowed
+}
+
+export interface BucketState {
+  tokens: number
+  updatedAt: number // ms since epoch
+}
+
+/**
+ * Where buckets live. The in-memory store is per server process, which is
+ * enough for a single instance; a deployment with several instances can
+ * plug in a shared store (Redis, a database table) for each scope with
+ * setRateLimitStore.
+ * consume must check and take tokens atomically.
+ */
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, cost: number): Promise<RateLimitResult>
+}
+
+/**
+ * Refills a bucket for the time since it was last touched and takes cost
+ * tokens if there are enough. A missing bucket starts full.
+ */
+export function takeTokens(
+  state: BucketState | undefined,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0
+  const available = state
+    ? Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond)
+    : policy.capacity
+
+  if (available >= cost) {
+    const tokens = available - cost
+    return {
+      state: { tokens, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 },
+    }
+  }
+
+  return {
+    state: { tokens: available, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: Math.floor(available),
+      retryAfterSeconds: Math.ceil((cost - available) / policy.refillPerSecond),
+    },
+  }
+}
+
+/**
+ * Keeps buckets in a Map, dropping the least recently used once there are
+ * more than maxKeys so a flood of new IPs can't grow it without bound
+ */
+export function createMemoryStore(maxKeys: number = 10000): RateLimitStore {
+  const buckets = new Map<string, BucketState>()
+
+  return {
+    async consume(key, policy, cost) {
+      const { state, result } = takeTokens(buckets.get(key), policy, cost, Date.now())
+
+      // Re-inserting moves the key to the end, so the first key is always the stalest
+      buckets.delete(key)
+      buckets.set(key, state)
+      if (buckets.size > maxKeys) {
+        const stalest = buckets.keys().next().value
+        if (stalest !== undefined) buckets.delete(stalest)
+      }
+
+      return result
+    },
+  }
+}
+
+// One store per scope, so a flood of keys in one scope (new IP addresses)
+// can't evict the buckets of another (signed-in users)
+const stores = new Map<string, RateLimitStore>()
+
+function storeFor(scope: string): RateLimitStore {
+  let store = stores.get(scope)
+  if (!store) {
+    store = createMemoryStore()
+    stores.set(scope, store)
+  }
+  return store
+}
+
+/**
+ * Replaces the store a scope's limiters use, e.g. with a shared one at startup
+ */
+export function setRateLimitStore(scope: string, next: RateLimitStore): void {
+  stores.set(scope, next)
+}
+
+/**
+ * Takes cost tokens from the bucket for key in scope under policy
+ */
+export function consumeRateLimit(scope: string, key: string, policy: RateLimitPolicy, cost: number = 1): Promise<RateLimitResult> {
+  return storeFor(scope).consume(key, policy, cost)
+}
@@ -0,0 +1,116 @@
+import { RecurrenceCadence, RecurringTransaction, Transaction, TransactionKind } from '@/types'
+import { normalizeDescription } from '../import/matching'
+import { cadenceDays, nextOccurrenceOnOrAfter } from './schedule'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Gaps in days that count as each cadence; bank posting dates wobble by a few days
+const CADENCE_GAPS: [RecurrenceCadence, number, number][] = [
+  ['weekly', 6, 8],
+  ['biweekly', 13, 16],
+  ['monthly', 27, 33],
+  ['quarterly', 84, 98],
+  ['yearly', 350, 380],
+]
+
+// Charges whose amount strays further than this from the usual one aren't part of the pattern
+const AMOUNT_TOLERANCE = 0.1
+// Share of gaps that must match the cadence
+const MIN_REGULARITY = 0.75
+
+export interface RecurringSuggestion {
+  key: string // Stable id for the pattern, used to dismiss it
+  description: string
+  amount: number // Most recent amount
+  kind: TransactionKind
+  category_id: string | null
+  category_name: string
+  account_id: string | null
+  cadence: RecurrenceCadence
+  occurrences: number
+  lastDate: string // YYYY-MM-DD of the most recent occurrence
+  nextDue: string // First occurrence on or after today
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / DAY_MS
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function patternKey(kind: TransactionKind, description: string): string {
+  return `${kind}|${normalizeDescription(description)}`
+}
+
+/**
+ * Looks for transactions that repeat with the same description and a steady
+ * amount at a regular interval, and suggests a recurring rule for each.
+ * Transactions already created by a rule, patterns an existing rule covers,
+ * and patterns that appear to have stopped are left out.
+ */
+export function detectRecurring(
+  transactions: Pick<Transaction, 'description' | 'amount' | 'kind' | 'category_id' | 'category_name' | 'account_id' | 'occurred_on' | 'recurring_id'>[],
+  rules: Pick<RecurringTransaction, 'description' | 'kind'>[],
+  today: string
+): RecurringSuggestion[] {
+  const covered = new Set(rules.map(rule => patternKey(rule.kind, rule.description)))
+
+  const groups = new Map<string, typeof transactions>()
+  for (const tx of transactions) {
+    if (tx.recurring_id || !normalizeDescription(tx.description)) continue
+    const key = patternKey(tx.kind, tx.description)
+    if (covered.has(key)) continue
+    const group = groups.get(key)
+    if (group) group.push(tx)
+    else groups.set(key, [tx])
+  }
+
+  const suggestions: RecurringSuggestion[] = []
+  for (const [key, group] of Array.from(groups)) {
+    if (group.length < 2) continue
+
+    const usualAmount = median(group.map(tx => tx.amount))
+    // Oldest first, one charge per day
+    const matching = group
+      .filter(tx => Math.abs(tx.amount - usualAmount) <= usualAmount * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.occurred_on.localeCompare(b.occurred_on))
+      .filter((tx, i, rows) => i === 0 || rows[i - 1].occurred_on !== tx.occurred_on)
+    if (matching.length < 2) continue
+
+    const gaps = matching.slice(1).map((tx, i) => toDayNumber(tx.occurred_on) - toDayNumber(matching[i].occurred_on))
+    const typicalGap = median(gaps)
+    const match = CADENCE_GAPS.find(([, min, max]) => typicalGap >= min && typicalGap <= max)
+    if (!match) continue
+
+    const [cadence, min, max] = match
+    // Two charges a year apart are enough for a yearly pattern; anything more frequent needs three
+    if (matching.length < (cadence === 'yearly' ? 2 : 3)) continue
+    const regular = gaps.filter(gap => gap >= min && gap <= max).length
+    if (regular / gaps.length < MIN_REGULARITY) continue
+
+    // Skip patterns that have missed two occurrences in a row
+    const latest = matching[matching.length - 1]
+    if (toDayNumber(today) - toDayNumber(latest.occurred_on) > 2 * cadenceDays(cadence) + (max - min)) continue
+
+    suggestions.push({
+      key,
+      description: latest.description,
+      amount: latest.amount,
+      kind: latest.kind,
+      category_id: latest.category_id,
+      category_name: latest.category_name,
+      account_id: latest.account_id,
+      cadence,
+      occurrences: matching.length,
+      lastDate: latest.occurred_on,
+      nextDue: nextOccurrenceOnOrAfter(latest.occurred_on, cadence, today),
+    })
+  }
+
+  return suggestions.sort((a, b) => b.amount - a.amount)
+}
@@ -0,0 +1,78 @@
+import { RecurrenceCadence } from '@/types'
+
+export const RECURRENCE_CADENCES: RecurrenceCadence[] = ['weekly', 'biweekly', 'monthly', 'quarterly', 'yearly']
+
+export const CADENCE_LABELS: Record<RecurrenceCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+// Average days between occurrences
+const CADENCE_DAYS: Record<RecurrenceCadence, number> = {
+  weekly: 7,
+  biweekly: 14,
+  monthly: 365.25 / 12,
+  quarterly: 365.25 / 4,
+  yearly: 365.25,
+}
+
+const CADENCE_MONTHS: Partial<Record<RecurrenceCadence, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+function parseDate(date: string): [number, number, number] {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return [year, month, day]
+}
+
+function formatDate(year: number, monthIndex: number, day: number): string {
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Date of the index-th occurrence of a rule starting on start (index 0 is start)
+ * Mirrors recurring_occurrence_date() in Postgres: month-based cadences clamp
+ * to the end of shorter months without drifting (Jan 31, Feb 29, Mar 31).
+ */
+export function occurrenceDate(start: string, cadence: RecurrenceCadence, index: number): string {
+  const [year, month, day] = parseDate(start)
+  const months = CADENCE_MONTHS[cadence]
+
+  if (months === undefined) {
+    const date = new Date(Date.UTC(year, month - 1, day + CADENCE_DAYS[cadence] * index))
+    return formatDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  }
+
+  const target = new Date(Date.UTC(year, month - 1 + months * index, 1))
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  return formatDate(target.getUTCFullYear(), target.getUTCMonth(), Math.min(day, daysInMonth))
+}
+
+/**
+ * First occurrence after start that falls on or after date
+ */
+export function nextOccurrenceOnOrAfter(start: string, cadence: RecurrenceCadence, date: string): string {
+  for (let index = 1; ; index++) {
+    const next = occurrenceDate(start, cadence, index)
+    if (next >= date) return next
+  }
+}
+
+/**
+ * Average cost per month of an amount that repeats on a cadence
+ */
+export function monthlyCost(amount: number, cadence: RecurrenceCadence): number {
+  return amount * (CADENCE_DAYS.monthly / CADENCE_DAYS[cadence])
+}
+
+/**
+ * Number of days between occurrences, on average
+ */
+export function cadenceDays(cadence: RecurrenceCadence): number {
+  return CADENCE_DAYS[cadence]
+}
@@ -0,0 +1,256 @@
+import type { AIMessage, ChatStreamEvent, ToolCall } from '../ai/types';
+import type { AIRouteErrorBody, AIRouteErrorCode } from '../ai/guard';
+import { getAccessToken } from '../supabase/auth';
+import { toLocalDateString } from '../supabase/services/transactions';
+import { FinancialPlan, SpendingCategory } from '../../types';
+
+const SPENDING_COLORS = ["#0ea5e9", "#22c55e", "#f59e0b", "#6366f1", "#ec4899", "#8b5cf6", "#f43f5e"];
+
+/**
+ * An AI route turned the request away: not signed in, over the rate limit
+ * or too large. The message is written for the user, so callers pass it
+ * through instead of replacing it with their own.
+ */
+export class AIRequestError extends Error {
+  code: AIRouteErrorCode;
+  status: number;
+  retryAfter?: number;
+
+  constructor(message: string, code: AIRouteErrorCode, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// AI routes only answer signed-in users
+async function authHeaders(): Promise<Record<string, string>> {
+  const accessToken = await getAccessToken();
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+async function toRequestError(response: Response, fallback: string): Promise<Error> {
+  const errorData: Partial<AIRouteErrorBody> = await response.json().catch(() => ({}));
+  if (errorData.code) {
+    return new AIRequestError(errorData.error || fallback, errorData.code, response.status, errorData.retryAfter);
+  }
+  return new Error(errorData.error || fallback);
+}
+
+async function callAiApi(action: string, payload: any) {
+  const response = await fetch('/api/ai', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ action, payload }),
+  });
+
+  if (!response.ok) {
+    throw await toRequestError(response, 'An unknown API error occurred');
+  }
+
+  return response.json();
+}
+
+/**
+ * Streams the assistant's next reply to the conversation, calling onText
+ * with each new piece of text
+ * Resolves with the whole reply and any tool calls it asked for, which the
+ * caller runs and answers with tool messages to continue the turn. Aborting
+ * the signal stops generation and rejects with an AbortError; whatever
+ * arrived by then has already been passed to onText.
+ */
+export const streamChatResponse = async (
+  messages: AIMessage[],
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; toolCalls: ToolCall[] }> => {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ messages, today: toLocalDateString() }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toRequestError(response, 'Failed to get a response from the assistant');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reply = '';
+  const toolCalls: ToolCall[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ChatStreamEvent;
+      if (event.type === 'delta') {
+        reply += event.text;
+        onText(event.text);
+      } else if (event.type === 'tool_call') {
+        toolCalls.push(event.call);
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      } else {
+        return { text: reply, toolCalls };
+      }
+    }
+  }
+
+  // The stream ended without a done event, so the reply is incomplete
+  throw new Error('The connection to the assistant was interrupted');
+};
+
+/**
+ * Suggests a short title for a conversation from its first exchange
+ * Resolves with null when none could be generated; the thread keeps its
+ * provisional title.
+ */
+export const getChatTitle = async (message: string, reply: string): Promise<string | null> => {
+  try {
+    const result = await callAiApi('getChatTitle', { message, reply });
+    return typeof result.title === 'string' && result.title.trim() ? result.title.trim() : null;
+  } catch (error) {
+    console.error("AI Chat Title Error:", error);
+    return null;
+  }
+};
+
+/**
+ * Writes a plan from the user's profile, budgets, goals, recurring bills and
+ * cash flow. The server saves it as their next version; `plan` is null when
+ * that save failed.
+ */
+export const getPersonalizedPlan = async (tips: string[] = []): Promise<{ text: string; plan: FinancialPlan | null }> => {
+    try {
+        const result = await callAiApi('getPersonalizedPlan', { tips, today: toLocalDateString() });
+        return { text: result.text, plan: result.plan || null };
+    } catch (error) {
+        console.error("AI Plan Generation Error:", error);
+        if (error instanceof AIRequestError) throw error;
+        throw new Error("Could not generate a personalized plan at this time. Please try again later.");
+    }
+};
+
+export const getAIFinancialTips = async (
+  categories: Pick<SpendingCategory, 'name' | 'value' | 'budget'>[] // This month's spending
+): Promise<string[]> => {
+  try {
+    const result = await callAiApi('getAIFinancialTips', { categories, today: toLocalDateString() });
+
+    if (!Array.isArray(result.tips) || result.tips.length < 3) {
+      throw new Error("AI returned an invalid tips format.");
+    }
+
+    return result.tips;
+
+  } catch (error) {
+    console.error("AI Tips Generation Error:", error);
+    if (error instanceof AIRequestError) throw error;
+    // Not a fallback list: whatever is returned here is cached against the spending snapshot
+    throw new Error("Could not generate tips right now. Please try again later.");
+  }
+};
+
+export const getAIInsight = async (
+  categories: Pick<SpendingCategory, 'name' | 'value' | 'budget'>[] // This month's spending
+): Promise<string> => {
+  try {
+    const result = await callAiApi('getAIInsight', { categories, today: toLocalDateString() });
+    return result.text;
+  } catch (error) {
+    console.error("AI Insight Generation Error:", error);
+    if (error instanceof AIRequestError) throw error;
+    throw new Error("Could not generate an insight right now. Please try again later.");
+  }
+};
+
+
+export const getRecategorization = async (
+  prompt: string,
+  currentCategories: Omit<SpendingCategory, 'color'>[]
+): Promise<Omit<SpendingCategory, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'rollover'>[]> => {
+  try {
+    const result = await callAiApi('getRecategorization', { prompt, currentCategories });
+    const newCategories = result.categories as { name: string, value: number, budget: number }[];
+    
+    return newCategories.map((cat, index) => ({
+      ...cat,
+      color: SPENDING_COLORS[index % SPENDING_COLORS.length],
+    }));
+
+  } catch (error) {
+    console.error("AI Recategorization Error:", error);
+    if (error instanceof AIRequestError) throw error;
+    throw new Error("Failed to generate new categories. Please try a different request.");
+  }
+};
+
+export interface ExtractedExpense {
+  description: string;
+  amount: number;
+  category: string;
+  // Present when the expense covers several categories; shares add up to amount
+  splits?: { category: string; amount: number }[];
+}
+
+// Maps a category the AI made up onto the closest real one
+const matchCategory = (category: string, categoryList: string[]): string => {
+  if (categoryList.includes(category)) return category;
+
+  const closestMatch = categoryList.find(cat =>
+    cat.toLowerCase().includes(category.toLowerCase()) ||
+    category.toLowerCase().includes(cat.toLowerCase())
+  ) || categoryList[0];
+
+  console.warn(`AI returned invalid category "${category}", using "${closestMatch}" instead`);
+  return closestMatch;
+};
+
+export const extractExpenseDetails = async (
+  prompt: string,
+  categoryList: string[]
+): Promise<ExtractedExpense> => {
+  try {
+    const expenseDetails = await callAiApi('extractExpenseDetails', { prompt, categoryList });
+    expenseDetails.category = matchCategory(expenseDetails.category, categoryList);
+
+    if (Array.isArray(expenseDetails.splits)) {
+      // Merge shares that landed on the same category
+      const byCategory = new Map<string, number>();
+      for (const split of expenseDetails.splits as { category: string; amount: number }[]) {
+        if (!(split.amount > 0)) continue;
+        const category = matchCategory(split.category, categoryList);
+        byCategory.set(category, (byCategory.get(category) || 0) + Math.round(split.amount * 100));
+      }
+      const splits = Array.from(byCategory, ([category, cents]) => ({ category, amount: cents / 100 }))
+        .sort((a, b) => b.amount - a.amount);
+      const totalCents = splits.reduce((sum, split) => sum + Math.round(split.amount * 100), 0);
+
+      // Only keep a split that really spans categories and adds up
+      if (splits.length > 1 && totalCents === Math.round(expenseDetails.amount * 100)) {
+        expenseDetails.splits = splits;
+        expenseDetails.category = splits[0].category;
+      } else {
+        delete expenseDetails.splits;
+      }
+    }
+
+    return expenseDetails;
+
+  } catch (error) {
+    console.error("AI Expense Extraction Error:", error);
+    if (error instanceof AIRequestError) throw error;
+    throw new Error("I couldn't understand that expense. Please try phrasing it differently, like '50 dollars for groceries at Trader Joe's'.");
+  }
+};
@@ -218,6 +218,14 @@ export async function getCurrentUser(): Promise<User | null> {
   }
 }
 
+/**
+ * Get the access token for the current session, for calling authenticated API routes
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token ?? null
+}
+
 /**
  * Subscribe to authentication state changes
  */
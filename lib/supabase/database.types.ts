@@ -8,11 +8,37 @@
  * 2. Generate: supabase gen types typescript --project-id jajlzuggaivevpiagoym > lib/supabase/database.types.ts
  * 
  * Schema includes:
+ * - accounts: Bank, credit card and cash accounts with opening balances
+ * - ai_usage: One row per AI model call made for a user
+ * - ai_quotas: Per-user monthly AI request allowances that differ from the default
+ * - ai_insights: Generated tips and insights, keyed by a hash of the data behind them
  * - profiles: User profile information
  * - spending_categories: Budget categories with allocations
- * - transactions: Financial transactions
- * - financial_goals: Savings goals
- * - chat_messages: AI chat history
+ * - category_budgets: Per-month budget amounts for each category
+ * - transactions: Financial transactions (income and expenses)
+ * - recurring_transactions: Rules for transactions that repeat on a cadence
+ * - transaction_splits: Per-category lines of a split expense
+ * - debts: Loans and card balances being paid down, for the payoff planner
+ * - financial_goals: Savings goals with a target date
+ * - financial_plans: Generated financial plans, one numbered version per plan
+ * - goal_contributions: Every amount added to or withdrawn from a goal
+ * - goal_funding_rules: Rules that save towards a goal automatically
+ * - goal_funding_rule_transactions: Transactions each income or round-up rule has handled
+ * - import_mappings: Saved CSV column mappings for statement import
+ * - projection_scenarios: Named what-ifs for the long-term savings projection
+ * - chat_threads: Separate AI chat conversations with titles
+ * - chat_messages: AI chat history, one thread at a time
+ * - chat_tool_calls: Tools the chat assistant asked to run, and their outcome
+ *
+ * Functions:
+ * - add_goal_contribution: Records a contribution to or withdrawal from a goal
+ * - apply_goal_funding_rules: Records the contributions funding rules have earned
+ * - finish_ai_call: Records the outcome of an AI call reserved with reserve_ai_call
+ * - get_category_transactions: Transactions in a category, including split expenses with a line in it
+ * - get_monthly_category_spending: Expense totals per category per month
+ * - materialize_recurring_transactions: Records recurring transactions that have come due
+ * - reserve_ai_call: Reserves one of the caller's monthly AI calls if the quota allows
+ * - set_transaction_splits: Replaces a transaction's split lines and amount together
  */
 
 export type Json =
@@ -26,31 +52,591 @@ export type Json =
 export interface Database {
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: 'checking' | 'savings' | 'credit_card' | 'cash'
+          opening_balance?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_insights: {
+        Row: {
+          id: string
+          user_id: string
+          kind: 'tips' | 'insight'
+          snapshot_hash: string
+          content: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          kind: 'tips' | 'insight'
+          snapshot_hash: string
+          content: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          kind?: 'tips' | 'insight'
+          snapshot_hash?: string
+          content?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_insights_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_quotas: {
+        Row: {
+          user_id: string
+          monthly_calls: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          monthly_calls: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          monthly_calls?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_usage: {
+        Row: {
+          id: string
+          user_id: string
+          action: string
+          provider: string
+          model: string
+          input_tokens: number | null
+          output_tokens: number | null
+          latency_ms: number
+          success: boolean
+          pending: boolean
+          finish_token_hash: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          action: string
+          provider: string
+          model: string
+          input_tokens?: number | null
+          output_tokens?: number | null
+          latency_ms: number
+          success: boolean
+          pending?: boolean
+          finish_token_hash?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          action?: string
+          provider?: string
+          model?: string
+          input_tokens?: number | null
+          output_tokens?: number | null
+          latency_ms?: number
+          success?: boolean
+          pending?: boolean
+          finish_token_hash?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      category_budgets: {
+        Row: {
+          id: string
+          user_id: string
+          category_id: string
+          month: string
+          amount: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          category_id: string
+          month: string
+          amount: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          category_id?: string
+          month?: string
+          amount?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "spending_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_budgets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       chat_messages: {
         Row: {
           id: string
           user_id: string
-          role: 'user' | 'ai'
-          content: string
+          thread_id: string
+          role: 'user' | 'ai'
+          content: string
+          truncated: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          thread_id: string
+          role: 'user' | 'ai'
+          content: string
+          truncated?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          thread_id?: string
+          role?: 'user' | 'ai'
+          content?: string
+          truncated?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      chat_threads: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          last_message_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          last_message_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          last_message_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      chat_tool_calls: {
+        Row: {
+          id: string
+          user_id: string
+          message_id: string
+          call_id: string
+          name: string
+          arguments: Json
+          status: 'pending' | 'declined' | 'succeeded' | 'failed'
+          result: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          message_id: string
+          call_id: string
+          name: string
+          arguments?: Json
+          status?: 'pending' | 'declined' | 'succeeded' | 'failed'
+          result?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          message_id?: string
+          call_id?: string
+          name?: string
+          arguments?: Json
+          status?: 'pending' | 'declined' | 'succeeded' | 'failed'
+          result?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_tool_calls_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_tool_calls_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      debts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          balance: number
+          apr: number
+          minimum_payment: number
+          due_day: number
+          payoff_order: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          balance: number
+          apr?: number
+          minimum_payment?: number
+          due_day?: number
+          payoff_order?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          balance?: number
+          apr?: number
+          minimum_payment?: number
+          due_day?: number
+          payoff_order?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "debts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      financial_goals: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          target_amount: number
+          current_amount: number
+          target_date: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          target_amount: number
+          current_amount?: number
+          target_date: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          target_amount?: number
+          current_amount?: number
+          target_date?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financial_goals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      financial_plans: {
+        Row: {
+          id: string
+          user_id: string
+          version: number
+          title: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          version?: number // Set by a trigger to the user's next version
+          title: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          version?: number
+          title?: string
+          content?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financial_plans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      goal_contributions: {
+        Row: {
+          id: string
+          user_id: string
+          goal_id: string
+          account_id: string | null
+          amount: number
+          contributed_on: string
+          note: string | null
+          funding_rule_id: string | null
+          source_key: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          goal_id: string
+          account_id?: string | null
+          amount: number
+          contributed_on?: string
+          note?: string | null
+          funding_rule_id?: string | null
+          source_key?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          goal_id?: string
+          account_id?: string | null
+          amount?: number
+          contributed_on?: string
+          note?: string | null
+          funding_rule_id?: string | null
+          source_key?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_contributions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_funding_rule_id_fkey"
+            columns: ["funding_rule_id"]
+            isOneToOne: false
+            referencedRelation: "goal_funding_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "financial_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_contributions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      goal_funding_rules: {
+        Row: {
+          id: string
+          user_id: string
+          goal_id: string
+          account_id: string | null
+          kind: 'fixed_monthly' | 'percent_of_income' | 'round_up'
+          amount: number
+          start_date: string | null
+          next_due: string | null
+          transactions_since: string
+          active: boolean
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           user_id: string
-          role: 'user' | 'ai'
-          content: string
+          goal_id: string
+          account_id?: string | null
+          kind: 'fixed_monthly' | 'percent_of_income' | 'round_up'
+          amount?: number
+          start_date?: string | null
+          next_due?: string | null
+          transactions_since?: string
+          active?: boolean
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           user_id?: string
-          role?: 'user' | 'ai'
-          content?: string
+          goal_id?: string
+          account_id?: string | null
+          kind?: 'fixed_monthly' | 'percent_of_income' | 'round_up'
+          amount?: number
+          start_date?: string | null
+          next_due?: string | null
+          transactions_since?: string
+          active?: boolean
           created_at?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "chat_messages_user_id_fkey"
+            foreignKeyName: "goal_funding_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_funding_rules_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "financial_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_funding_rules_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -58,40 +644,77 @@ export interface Database {
           }
         ]
       }
-      financial_goals: {
+      goal_funding_rule_transactions: {
+        Row: {
+          user_id: string
+          funding_rule_id: string
+          transaction_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          funding_rule_id: string
+          transaction_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          funding_rule_id?: string
+          transaction_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_funding_rule_transactions_funding_rule_id_fkey"
+            columns: ["funding_rule_id"]
+            isOneToOne: false
+            referencedRelation: "goal_funding_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_funding_rule_transactions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_funding_rule_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      import_mappings: {
         Row: {
           id: string
           user_id: string
-          title: string
-          target_amount: number
-          current_amount: number
-          months_remaining: number
+          name: string
+          mapping: Json
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           user_id: string
-          title: string
-          target_amount: number
-          current_amount?: number
-          months_remaining: number
+          name: string
+          mapping: Json
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           user_id?: string
-          title?: string
-          target_amount?: number
-          current_amount?: number
-          months_remaining?: number
+          name?: string
+          mapping?: Json
           created_at?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "financial_goals_user_id_fkey"
+            foreignKeyName: "import_mappings_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -134,6 +757,135 @@ export interface Database {
           }
         ]
       }
+      projection_scenarios: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          starting_balance_source: 'goals' | 'savings_accounts' | 'custom'
+          starting_balance: number
+          monthly_contribution: number
+          contribution_growth: number
+          annual_return: number
+          inflation_rate: number
+          tax_rate: number
+          years: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          starting_balance_source?: 'goals' | 'savings_accounts' | 'custom'
+          starting_balance?: number
+          monthly_contribution?: number
+          contribution_growth?: number
+          annual_return?: number
+          inflation_rate?: number
+          tax_rate?: number
+          years?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          starting_balance_source?: 'goals' | 'savings_accounts' | 'custom'
+          starting_balance?: number
+          monthly_contribution?: number
+          contribution_growth?: number
+          annual_return?: number
+          inflation_rate?: number
+          tax_rate?: number
+          years?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projection_scenarios_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      recurring_transactions: {
+        Row: {
+          id: string
+          user_id: string
+          account_id: string | null
+          category_id: string | null
+          description: string
+          amount: number
+          category_name: string
+          kind: 'income' | 'expense'
+          cadence: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date: string
+          next_due: string
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          account_id?: string | null
+          category_id?: string | null
+          description: string
+          amount: number
+          category_name: string
+          kind?: 'income' | 'expense'
+          cadence: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date: string
+          next_due: string
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          account_id?: string | null
+          category_id?: string | null
+          description?: string
+          amount?: number
+          category_name?: string
+          kind?: 'income' | 'expense'
+          cadence?: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date?: string
+          next_due?: string
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "spending_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       spending_categories: {
         Row: {
           id: string
@@ -142,6 +894,7 @@ export interface Database {
           value: number
           budget: number
           color: string
+          rollover: boolean
           created_at: string
           updated_at: string
         }
@@ -152,6 +905,7 @@ export interface Database {
           value?: number
           budget: number
           color: string
+          rollover?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -162,6 +916,7 @@ export interface Database {
           value?: number
           budget?: number
           color?: string
+          rollover?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -175,35 +930,112 @@ export interface Database {
           }
         ]
       }
+      transaction_splits: {
+        Row: {
+          id: string
+          user_id: string
+          transaction_id: string
+          category_id: string | null
+          category_name: string
+          amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          transaction_id: string
+          category_id?: string | null
+          category_name: string
+          amount: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          transaction_id?: string
+          category_id?: string | null
+          category_name?: string
+          amount?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "spending_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       transactions: {
         Row: {
           id: string
           user_id: string
+          account_id: string | null
           category_id: string | null
           description: string
           amount: number
           category_name: string
+          kind: 'income' | 'expense'
+          occurred_on: string
+          notes: string | null
+          recurring_id: string | null
+          external_id: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
+          account_id?: string | null
           category_id?: string | null
           description: string
           amount: number
           category_name: string
+          kind?: 'income' | 'expense'
+          occurred_on?: string
+          notes?: string | null
+          recurring_id?: string | null
+          external_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
+          account_id?: string | null
           category_id?: string | null
           description?: string
           amount?: number
           category_name?: string
+          kind?: 'income' | 'expense'
+          occurred_on?: string
+          notes?: string | null
+          recurring_id?: string | null
+          external_id?: string | null
           created_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_category_id_fkey"
             columns: ["category_id"]
@@ -211,6 +1043,13 @@ export interface Database {
             referencedRelation: "spending_categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_transactions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_user_id_fkey"
             columns: ["user_id"]
@@ -225,7 +1064,121 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_goal_contribution: {
+        Args: {
+          p_goal_id: string
+          p_amount: number
+          p_contributed_on?: string
+          p_account_id?: string | null
+          p_note?: string | null
+        }
+        Returns: {
+          id: string
+          user_id: string
+          goal_id: string
+          account_id: string | null
+          amount: number
+          contributed_on: string
+          note: string | null
+          funding_rule_id: string | null
+          source_key: string | null
+          created_at: string
+        }[]
+      }
+      apply_goal_funding_rules: {
+        Args: {
+          p_through: string
+        }
+        Returns: number
+      }
+      finish_ai_call: {
+        Args: {
+          p_token: string
+          p_action: string
+          p_provider: string
+          p_model: string
+          p_input_tokens: number | null
+          p_output_tokens: number | null
+          p_latency_ms: number
+          p_success: boolean
+        }
+        Returns: boolean
+      }
+      get_ai_usage_summary: {
+        Args: {
+          p_since: string
+        }
+        Returns: {
+          action: string
+          provider: string
+          model: string
+          calls: number
+          failed_calls: number
+          input_tokens: number
+          output_tokens: number
+          average_latency_ms: number
+        }[]
+      }
+      get_category_transactions: {
+        Args: {
+          p_category_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"][]
+      }
+      get_monthly_category_spending: {
+        Args: {
+          p_start: string
+          p_end: string
+        }
+        Returns: {
+          category_id: string
+          month: string
+          spent: number
+        }[]
+      }
+      materialize_recurring_transactions: {
+        Args: {
+          p_through: string
+        }
+        Returns: number
+      }
+      reserve_ai_call: {
+        Args: {
+          p_since: string
+          p_default_limit: number
+        }
+        Returns: string | null
+      }
+      search_chat_messages: {
+        Args: {
+          p_query: string
+          p_limit?: number
+        }
+        Returns: {
+          message_id: string
+          thread_id: string
+          thread_title: string
+          role: 'user' | 'ai'
+          snippet: string
+          created_at: string
+        }[]
+      }
+      set_transaction_splits: {
+        Args: {
+          p_transaction_id: string
+          p_amount: number
+          p_splits: Json
+        }
+        Returns: {
+          id: string
+          user_id: string
+          transaction_id: string
+          category_id: string | null
+          category_name: string
+          amount: number
+          created_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
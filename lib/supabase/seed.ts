@@ -105,28 +105,7 @@ export async function seedUserData(userId: string): Promise<void> {
       return
     }
 
-    // Update category values based on sample transactions
-    for (const tx of SAMPLE_TRANSACTIONS) {
-      const categoryId = categoryMap.get(tx.category_name)
-      if (categoryId) {
-        const { error: updateError } = await supabase
-          .from('spending_categories')
-          .update({ value: tx.amount })
-          .eq('id', categoryId)
-          .eq('user_id', userId)
-
-        if (updateError) {
-          logDatabaseError(
-            updateError, 
-            'update category value during seeding', 
-            'spending_category', 
-            categoryId, 
-            userId,
-            { categoryName: tx.category_name, amount: tx.amount }
-          )
-        }
-      }
-    }
+    // Category totals are kept in step with the transactions by a database trigger
 
     console.log('User data seeded successfully')
   } catch (error) {
@@ -0,0 +1,47 @@
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js'
+import type { NextApiRequest } from 'next'
+import { Database } from './database.types'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+export interface AuthenticatedRequest {
+  user: User
+  supabase: SupabaseClient<Database>
+}
+
+/**
+ * Creates a Supabase client that acts as the user who owns the access token,
+ * so row level security applies to every query made from an API route
+ */
+export function createServerClient(accessToken: string): SupabaseClient<Database> {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
+/**
+ * Resolves the user from the request's `Authorization: Bearer <token>` header
+ * Returns null when the header is missing or the token is invalid or expired
+ */
+export async function getAuthenticatedUser(req: NextApiRequest): Promise<AuthenticatedRequest | null> {
+  const header = req.headers.authorization
+  const accessToken = header?.startsWith('Bearer ') ? header.slice(7).trim() : null
+  if (!accessToken) return null
+
+  const supabase = createServerClient(accessToken)
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+  if (error || !user) return null
+
+  return { user, supabase }
+}
@@ -0,0 +1,260 @@
+import { supabase } from '../client'
+import { Account, Transaction } from '@/types'
+import { logDatabaseError } from '../errors'
+import { toLocalDateString } from './transactions'
+
+export interface AccountWithBalance extends Account {
+  balance: number
+}
+
+// Transaction fields needed to derive account balances
+export type LedgerEntry = Pick<Transaction, 'account_id' | 'amount' | 'kind' | 'occurred_on'>
+
+export interface BalancePoint {
+  month: string
+  balance: number
+}
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, accountId?: string): never {
+  logDatabaseError(error, operation, 'account', accountId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+export async function getAccounts(userId: string): Promise<Account[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get accounts', userId)
+  }
+}
+
+/**
+ * Retrieves every transaction linked to one of the user's accounts
+ * Only the fields needed to compute balances are selected
+ */
+export async function getAccountLedger(userId: string): Promise<LedgerEntry[]> {
+  try {
+    return await withRetry(async () => {
+      const entries: LedgerEntry[] = []
+      // PostgREST caps a single select at 1000 rows
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('account_id, amount, kind, occurred_on')
+          .eq('user_id', userId)
+          .not('account_id', 'is', null)
+          .order('id', { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) throw error
+
+        entries.push(...(data || []))
+        if (!data || data.length < 1000) break
+      }
+
+      return entries
+    })
+  } catch (error) {
+    handleError(error, 'get account ledger', userId)
+  }
+}
+
+export async function createAccount(
+  account: Omit<Account, 'id' | 'created_at' | 'updated_at'> & { user_id: string }
+): Promise<Account> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert({
+          user_id: account.user_id,
+          name: account.name,
+          type: account.type,
+          opening_balance: account.opening_balance || 0,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'create account', account.user_id)
+  }
+}
+
+export async function updateAccount(
+  id: string,
+  updates: Partial<Omit<Account, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
+): Promise<Account> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update account', undefined, id)
+  }
+}
+
+/**
+ * Deletes an account. Its transactions are kept and unlinked from the account.
+ */
+export async function deleteAccount(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete account', undefined, id)
+  }
+}
+
+/**
+ * Computes each account's current balance from its opening balance and ledger
+ */
+export function computeAccountBalances(
+  accounts: Account[],
+  ledger: LedgerEntry[]
+): AccountWithBalance[] {
+  const netByAccount = new Map<string, number>()
+
+  for (const entry of ledger) {
+    if (!entry.account_id) continue
+    const signed = entry.kind === 'income' ? entry.amount : -entry.amount
+    netByAccount.set(entry.account_id, (netByAccount.get(entry.account_id) || 0) + signed)
+  }
+
+  return accounts.map(account => ({
+    ...account,
+    balance: Math.round((account.opening_balance + (netByAccount.get(account.id) || 0)) * 100) / 100,
+  }))
+}
+
+/**
+ * Computes the combined balance of all accounts at the end of each of the
+ * last `months` months, oldest first. Accounts only count from the month
+ * they were added.
+ */
+export function computeBalanceHistory(
+  accounts: Account[],
+  ledger: LedgerEntry[],
+  months: number,
+  now: Date = new Date()
+): BalancePoint[] {
+  const points: BalancePoint[] = []
+  const accountIds = new Set(accounts.map(a => a.id))
+
+  for (let i = months - 1; i >= 0; i--) {
+    const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1)
+    const monthEnd = new Date(now.getFullYear(), now.getMonth() - i + 1, 1)
+    const monthEndDate = toLocalDateString(monthEnd)
+
+    const opening = accounts
+      .filter(a => new Date(a.created_at) < monthEnd)
+      .reduce((sum, a) => sum + a.opening_balance, 0)
+
+    const net = ledger
+      .filter(e => e.account_id && accountIds.has(e.account_id) && e.occurred_on < monthEndDate)
+      .reduce((sum, e) => sum + (e.kind === 'income' ? e.amount : -e.amount), 0)
+
+    points.push({
+      month: monthStart.toLocaleString('en-US', { month: 'short' }),
+      balance: Math.round((opening + net) * 100) / 100,
+    })
+  }
+
+  return points
+}
+
+/**
+ * Subscribes to changes that affect account balances: the accounts themselves
+ * and any transaction of the user
+ */
+export function subscribeToAccounts(
+  userId: string,
+  callback: (accounts: Account[], ledger: LedgerEntry[]) => void
+) {
+  const refetch = async () => {
+    try {
+      const [accounts, ledger] = await Promise.all([
+        getAccounts(userId),
+        getAccountLedger(userId),
+      ])
+      callback(accounts, ledger)
+    } catch (error) {
+      logDatabaseError(error, 'refetch accounts on real-time update', 'account', undefined, userId)
+    }
+  }
+
+  const channel = supabase
+    .channel('accounts-changes')
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'accounts',
+        filter: `user_id=eq.${userId}`,
+      },
+      refetch
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'transactions',
+        filter: `user_id=eq.${userId}`,
+      },
+      refetch
+    )
+    .subscribe()
+
+  return channel
+}
@@ -0,0 +1,80 @@
+import { supabase } from '../client'
+import { AIInsight, AIInsightKind } from '@/types'
+import { logDatabaseError } from '../errors'
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string): never {
+  logDatabaseError(error, operation, 'ai_insight', undefined, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+function toInsight(row: any): AIInsight {
+  return { ...row, content: row.content as AIInsight['content'] }
+}
+
+/**
+ * Retrieves the newest insight of a kind generated from the given snapshot,
+ * or null when the data has changed since the last one
+ * Rows are written by /api/ai as it generates them.
+ */
+export async function getCachedInsight(userId: string, kind: AIInsightKind, snapshotHash: string): Promise<AIInsight | null> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('ai_insights')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('kind', kind)
+        .eq('snapshot_hash', snapshotHash)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+
+      return data ? toInsight(data) : null
+    })
+  } catch (error) {
+    handleError(error, `get cached ${kind}`, userId)
+  }
+}
+
+/**
+ * Retrieves past insights of a kind, newest first
+ */
+export async function getInsightHistory(userId: string, kind: AIInsightKind, limit: number = 20): Promise<AIInsight[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('ai_insights')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('kind', kind)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+
+      return (data || []).map(toInsight)
+    })
+  } catch (error) {
+    handleError(error, `get ${kind} history`, userId)
+  }
+}
@@ -0,0 +1,87 @@
+import { supabase } from '../client'
+import { AIQuota, estimateCost, getAIQuota, usageMonthStart } from '@/lib/ai/usage'
+import { logDatabaseError } from '../errors'
+
+export interface AIUsageBreakdown {
+  action: string
+  provider: string
+  model: string
+  calls: number
+  failedCalls: number
+  inputTokens: number
+  outputTokens: number
+  averageLatencyMs: number
+  estimatedCost: number // USD
+}
+
+export interface AIUsageSummary {
+  quota: AIQuota
+  calls: number // Every recorded call, including failed ones
+  estimatedCost: number // USD
+  breakdown: AIUsageBreakdown[] // Most used first
+}
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string): never {
+  logDatabaseError(error, operation, 'ai_usage', undefined, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+/**
+ * Get the user's AI usage for the current quota month, with the estimated
+ * cost of each action, provider and model
+ */
+export async function getAIUsageSummary(userId: string): Promise<AIUsageSummary> {
+  try {
+    return await withRetry(async () => {
+      const [quota, { data, error }] = await Promise.all([
+        getAIQuota(supabase, userId),
+        supabase.rpc('get_ai_usage_summary', { p_since: usageMonthStart().toISOString() }),
+      ])
+      if (error) throw error
+
+      // Postgres returns the BIGINT sums as numbers or strings depending on size
+      const breakdown: AIUsageBreakdown[] = (data || []).map(row => {
+        const inputTokens = Number(row.input_tokens)
+        const outputTokens = Number(row.output_tokens)
+        return {
+          action: row.action,
+          provider: row.provider,
+          model: row.model,
+          calls: Number(row.calls),
+          failedCalls: Number(row.failed_calls),
+          inputTokens,
+          outputTokens,
+          averageLatencyMs: Number(row.average_latency_ms),
+          estimatedCost: estimateCost(row.model, inputTokens, outputTokens),
+        }
+      })
+
+      return {
+        quota,
+        calls: breakdown.reduce((sum, row) => sum + row.calls, 0),
+        estimatedCost: breakdown.reduce((sum, row) => sum + row.estimatedCost, 0),
+        breakdown,
+      }
+    })
+  } catch (error) {
+    handleError(error, 'get AI usage', userId)
+  }
+}
@@ -0,0 +1,425 @@
+import { supabase } from '../client'
+import { logDatabaseError } from '../errors'
+import { Json } from '../database.types'
+import { FinSmartBackup } from '@/lib/export/backup'
+import { ChatToolCall, GoalContribution, TransactionSplit } from '@/types'
+import { getAccounts } from './accounts'
+import { getDebts } from './debts'
+import { getCategories } from './categories'
+import { getGoals } from './goals'
+import { createTransactions, toLocalDateString } from './transactions'
+
+// Keeps each insert request comfortably under PostgREST's payload limits
+const INSERT_CHUNK_SIZE = 500
+// PostgREST caps a single select at 1000 rows by default
+const PAGE_SIZE = 1000
+
+export interface RestoreSummary {
+  accounts: number
+  categories: number
+  recurring: number
+  transactions: number
+  goals: number
+  debts: number
+  chatMessages: number
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string): never {
+  logDatabaseError(error, operation, 'backup', undefined, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+/**
+ * Collects the dedupe keys of every existing transaction, a page at a time
+ */
+async function getTransactionKeys(userId: string): Promise<Set<string>> {
+  const keys = new Set<string>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('description, amount, kind, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const tx of data || []) keys.add(transactionKey(tx))
+    if (!data || data.length < PAGE_SIZE) return keys
+  }
+}
+
+function transactionKey(tx: { created_at: string; amount: number; description: string; kind: string }): string {
+  return `${Date.parse(tx.created_at)}|${tx.amount.toFixed(2)}|${tx.kind}|${tx.description}`
+}
+
+/**
+ * Restores a backup into the user's account, merging with what is already there
+ * Accounts, categories and debts are matched by name, goals by title, and transactions
+ * and chat messages that already exist are skipped, so restoring twice is harmless.
+ */
+export async function restoreBackup(userId: string, backup: FinSmartBackup): Promise<RestoreSummary> {
+  const summary: RestoreSummary = { accounts: 0, categories: 0, recurring: 0, transactions: 0, goals: 0, debts: 0, chatMessages: 0 }
+
+  try {
+    // Accounts: create missing ones and map backup ids to live ids by name
+    const existingAccounts = await getAccounts(userId)
+    const accountIdsByName = new Map(existingAccounts.map(a => [a.name, a.id]))
+    const missingAccounts = backup.accounts.filter(a => !accountIdsByName.has(a.name))
+    if (missingAccounts.length > 0) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert(missingAccounts.map(a => ({
+          user_id: userId,
+          name: a.name,
+          type: a.type,
+          opening_balance: a.opening_balance,
+        })))
+        .select()
+      if (error) throw error
+      for (const account of data || []) accountIdsByName.set(account.name, account.id)
+      summary.accounts = missingAccounts.length
+    }
+    const accountIds = new Map(backup.accounts.map(a => [a.id, accountIdsByName.get(a.name) ?? null]))
+
+    // Categories: restore budgets and colors; spending totals are rebuilt from the transactions
+    const existingCategories = await getCategories(userId)
+    const existingCategoryNames = new Set(existingCategories.map(c => c.name))
+    if (backup.spending_categories.length > 0) {
+      const { error } = await supabase
+        .from('spending_categories')
+        .upsert(
+          backup.spending_categories.map(c => ({
+            user_id: userId,
+            name: c.name,
+            budget: c.budget,
+            color: c.color,
+            rollover: c.rollover ?? false,
+            updated_at: new Date().toISOString(),
+          })),
+          { onConflict: 'user_id,name' }
+        )
+      if (error) throw error
+      summary.categories = backup.spending_categories.filter(c => !existingCategoryNames.has(c.name)).length
+    }
+    const liveCategories = await getCategories(userId)
+    const categoryIdsByName = new Map(liveCategories.map(c => [c.name, c.id]))
+    const categoryNamesById = new Map(backup.spending_categories.map(c => [c.id, c.name]))
+
+    // Monthly budgets: the backup's amount wins for any month it covers
+    const budgetsToRestore = backup.category_budgets
+      .map(b => ({
+        user_id: userId,
+        category_id: categoryIdsByName.get(categoryNamesById.get(b.category_id) || ''),
+        month: b.month,
+        amount: b.amount,
+        updated_at: new Date().toISOString(),
+      }))
+      .filter((b): b is typeof b & { category_id: string } => !!b.category_id)
+    if (budgetsToRestore.length > 0) {
+      const { error } = await supabase
+        .from('category_budgets')
+        .upsert(budgetsToRestore, { onConflict: 'category_id,month' })
+      if (error) throw error
+    }
+
+    // Recurring rules: matched by description, type and cadence; the backup's schedule is kept
+    const { data: existingRules, error: rulesError } = await supabase
+      .from('recurring_transactions')
+      .select('id, description, kind, cadence')
+      .eq('user_id', userId)
+    if (rulesError) throw rulesError
+    const ruleKey = (r: { description: string; kind: string; cadence: string }) => `${r.kind}|${r.cadence}|${r.description}`
+    const ruleIdsByKey = new Map((existingRules || []).map(r => [ruleKey(r), r.id]))
+    const missingRules = backup.recurring_transactions.filter(r => !ruleIdsByKey.has(ruleKey(r)))
+    if (missingRules.length > 0) {
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .insert(missingRules.map(r => {
+          const categoryName = (r.category_id && categoryNamesById.get(r.category_id)) || r.category_name
+          return {
+            user_id: userId,
+            account_id: r.account_id ? accountIds.get(r.account_id) ?? null : null,
+            category_id: categoryIdsByName.get(categoryName) ?? null,
+            description: r.description,
+            amount: r.amount,
+            category_name: categoryName,
+            kind: r.kind,
+            cadence: r.cadence,
+            start_date: r.start_date,
+            next_due: r.next_due,
+            active: r.active,
+          }
+        }))
+        .select('id, description, kind, cadence')
+      if (error) throw error
+      for (const rule of data || []) ruleIdsByKey.set(ruleKey(rule), rule.id)
+      summary.recurring = missingRules.length
+    }
+    const recurringIds = new Map(backup.recurring_transactions.map(r => [r.id, ruleIdsByKey.get(ruleKey(r)) ?? null]))
+
+    // Occurrences the matched rules have already recorded here, which the unique index would reject
+    const existingOccurrences = new Set<string>()
+    const matchedRuleIds = (existingRules || []).map(r => r.id)
+    for (const ids of chunk(matchedRuleIds, 100)) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('recurring_id, occurred_on')
+        .in('recurring_id', ids)
+      if (error) throw error
+      for (const tx of data || []) existingOccurrences.add(`${tx.recurring_id}|${tx.occurred_on}`)
+    }
+
+    // Transactions: skip anything already recorded at the same moment for the same amount
+    if (backup.transactions.length > 0) {
+      const existingKeys = await getTransactionKeys(userId)
+
+      const splitsByTransaction = new Map<string, Omit<TransactionSplit, 'user_id'>[]>()
+      for (const split of backup.transaction_splits) {
+        const lines = splitsByTransaction.get(split.transaction_id)
+        if (lines) lines.push(split)
+        else splitsByTransaction.set(split.transaction_id, [split])
+      }
+      const backupIdsByKey = new Map(backup.transactions.map(tx => [transactionKey(tx), tx.id]))
+
+      const toInsert = backup.transactions
+        .filter(tx => !existingKeys.has(transactionKey(tx)))
+        .map(tx => {
+          const recurringId = tx.recurring_id ? recurringIds.get(tx.recurring_id) ?? null : null
+          const categoryName = (tx.category_id && categoryNamesById.get(tx.category_id)) || tx.category_name
+          return {
+            user_id: userId,
+            account_id: tx.account_id ? accountIds.get(tx.account_id) ?? null : null,
+            // Split transactions carry their categories on the split lines
+            category_id: splitsByTransaction.has(tx.id) ? null : categoryIdsByName.get(categoryName) ?? null,
+            description: tx.description,
+            amount: tx.amount,
+            category_name: categoryName,
+            kind: tx.kind || 'expense',
+            // Backups made before transactions had their own date fall back to when they were recorded
+            occurred_on: tx.occurred_on || toLocalDateString(new Date(tx.created_at)),
+            notes: tx.notes ?? null,
+            recurring_id: recurringId,
+            // Backups made before imports kept the bank's id have none
+            external_id: tx.external_id ?? null,
+            created_at: tx.created_at,
+          }
+        })
+        .filter(tx => !tx.recurring_id || !existingOccurrences.has(`${tx.recurring_id}|${tx.occurred_on}`))
+
+      for (const batch of chunk(toInsert, INSERT_CHUNK_SIZE)) {
+        const inserted = await createTransactions(batch)
+
+        // Split lines go in with their transaction's batch; one insert per batch keeps
+        // each transaction's lines together for the add-up check at commit
+        const splitRows = inserted.flatMap(tx => {
+          const backupId = backupIdsByKey.get(transactionKey(tx))
+          return ((backupId && splitsByTransaction.get(backupId)) || []).map(split => {
+            const splitCategoryName = (split.category_id && categoryNamesById.get(split.category_id)) || split.category_name
+            return {
+              user_id: userId,
+              transaction_id: tx.id,
+              category_id: categoryIdsByName.get(splitCategoryName) ?? null,
+              category_name: splitCategoryName,
+              amount: split.amount,
+              created_at: split.created_at,
+            }
+          })
+        })
+        if (splitRows.length > 0) {
+          const { error } = await supabase.from('transaction_splits').insert(splitRows)
+          if (error) throw error
+        }
+      }
+      summary.transactions = toInsert.length
+    }
+
+    // Goals: matched by title. Balances come back through their contributions,
+    // or as one contribution for backups made before contributions were kept
+    const existingGoalTitles = new Set((await getGoals(userId)).map(g => g.title))
+    const missingGoals = backup.financial_goals.filter(g => !existingGoalTitles.has(g.title))
+    if (missingGoals.length > 0) {
+      const { data, error } = await supabase
+        .from('financial_goals')
+        .insert(missingGoals.map(g => ({
+          user_id: userId,
+          title: g.title,
+          target_amount: g.target_amount,
+          target_date: g.target_date,
+          created_at: g.created_at,
+        })))
+        .select('id, title')
+      if (error) throw error
+      const goalIdsByTitle = new Map((data || []).map(g => [g.title, g.id]))
+
+      const contributionRows = missingGoals.flatMap((g): Omit<GoalContribution, 'id'>[] => {
+        const goalId = goalIdsByTitle.get(g.title)
+        if (!goalId) return []
+        const contributions = backup.goal_contributions.filter(c => c.goal_id === g.id)
+        if (contributions.length === 0) {
+          return g.current_amount > 0
+            ? [{ user_id: userId, goal_id: goalId, account_id: null, amount: g.current_amount, contributed_on: g.created_at.slice(0, 10), note: 'Restored balance', funding_rule_id: null, source_key: null, created_at: g.created_at }]
+            : []
+        }
+        return contributions.map(c => ({
+          user_id: userId,
+          goal_id: goalId,
+          account_id: c.account_id ? accountIds.get(c.account_id) ?? null : null,
+          amount: c.amount,
+          contributed_on: c.contributed_on,
+          note: c.note,
+          // Funding rules aren't backed up, so their contributions come back as plain ones
+          funding_rule_id: null,
+          source_key: null,
+          created_at: c.created_at,
+        }))
+      })
+      // Oldest first, so withdrawals land after the deposits they draw on
+      contributionRows.sort((a, b) => a.contributed_on.localeCompare(b.contributed_on) || a.created_at.localeCompare(b.created_at))
+      for (const rows of chunk(contributionRows, INSERT_CHUNK_SIZE)) {
+        const { error } = await supabase.from('goal_contributions').insert(rows)
+        if (error) throw error
+      }
+      summary.goals = missingGoals.length
+    }
+
+    // Debts: matched by name, keeping their place in the payoff order
+    const existingDebtNames = new Set((await getDebts(userId)).map(d => d.name))
+    const missingDebts = backup.debts.filter(d => !existingDebtNames.has(d.name))
+    if (missingDebts.length > 0) {
+      const { error } = await supabase
+        .from('debts')
+        .insert(missingDebts.map(d => ({
+          user_id: userId,
+          name: d.name,
+          balance: d.balance,
+          apr: d.apr,
+          minimum_payment: d.minimum_payment,
+          due_day: d.due_day,
+          payoff_order: d.payoff_order,
+          created_at: d.created_at,
+        })))
+      if (error) throw error
+      summary.debts = missingDebts.length
+    }
+
+    // Chat messages: skip messages already stored with the same timestamp and text.
+    // Threads are matched by title and start time, and tool calls come back
+    // with the messages that made them.
+    if (backup.chat_messages.length > 0) {
+      const { data: existingThreads, error: threadsError } = await supabase
+        .from('chat_threads')
+        .select('id, title, created_at')
+        .eq('user_id', userId)
+      if (threadsError) throw threadsError
+      const threadKey = (t: { title: string; created_at: string }) => `${Date.parse(t.created_at)}|${t.title}`
+      const threadIdsByKey = new Map((existingThreads || []).map(t => [threadKey(t), t.id]))
+
+      const missingThreads = backup.chat_threads.filter(t => !threadIdsByKey.has(threadKey(t)))
+      if (missingThreads.length > 0) {
+        const { data, error } = await supabase
+          .from('chat_threads')
+          .insert(missingThreads.map(t => ({
+            user_id: userId,
+            title: t.title,
+            last_message_at: t.last_message_at,
+            created_at: t.created_at,
+          })))
+          .select('id, title, created_at')
+        if (error) throw error
+        for (const t of data || []) threadIdsByKey.set(threadKey(t), t.id)
+      }
+      const threadIds = new Map(backup.chat_threads.map(t => [t.id, threadIdsByKey.get(threadKey(t))]))
+
+      // Backups made before chat threads existed go into one thread of their own
+      let fallbackThreadId: string | null = null
+      const getThreadId = async (backupThreadId: string | undefined): Promise<string> => {
+        const threadId = backupThreadId && threadIds.get(backupThreadId)
+        if (threadId) return threadId
+        if (!fallbackThreadId) {
+          const { data, error } = await supabase
+            .from('chat_threads')
+            .insert({ user_id: userId, title: 'Restored conversation' })
+            .select('id')
+            .single()
+          if (error) throw error
+          fallbackThreadId = data.id
+        }
+        return fallbackThreadId
+      }
+
+      const messageKey = (m: { role: string; content: string; created_at: string }) =>
+        `${Date.parse(m.created_at)}|${m.role}|${m.content}`
+      const existingMessageKeys = new Set<string>()
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('chat_messages')
+          .select('role, content, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+        if (error) throw error
+        for (const m of data || []) existingMessageKeys.add(messageKey(m))
+        if (!data || data.length < PAGE_SIZE) break
+      }
+
+      const missingMessages = backup.chat_messages.filter(m => !existingMessageKeys.has(messageKey(m)))
+      const callsByMessage = new Map<string, Omit<ChatToolCall, 'user_id'>[]>()
+      for (const call of backup.chat_tool_calls) {
+        const calls = callsByMessage.get(call.message_id)
+        if (calls) calls.push(call)
+        else callsByMessage.set(call.message_id, [call])
+      }
+      const backupIdsByKey = new Map(backup.chat_messages.map(m => [messageKey(m), m.id]))
+
+      for (const batch of chunk(missingMessages, INSERT_CHUNK_SIZE)) {
+        const rows = []
+        for (const m of batch) rows.push({ message: m, threadId: await getThreadId(m.thread_id) })
+
+        const { data: inserted, error } = await supabase
+          .from('chat_messages')
+          .insert(rows.map(({ message: m, threadId }) => ({
+            user_id: userId,
+            thread_id: threadId,
+            role: m.role,
+            content: m.content,
+            // Backups made before replies could be stopped have no flag
+            truncated: m.truncated ?? false,
+            created_at: m.created_at,
+          })))
+          .select('id, role, content, created_at')
+        if (error) throw error
+
+        const callRows = (inserted || []).flatMap(message => {
+          const backupId = backupIdsByKey.get(messageKey(message))
+          return ((backupId && callsByMessage.get(backupId)) || []).map(call => ({
+            user_id: userId,
+            message_id: message.id,
+            call_id: call.call_id,
+            name: call.name,
+            arguments: call.arguments as Json,
+            status: call.status,
+            result: call.result as Json,
+            created_at: call.created_at,
+          }))
+        })
+        if (callRows.length > 0) {
+          const { error: callsError } = await supabase.from('chat_tool_calls').insert(callRows)
+          if (callsError) throw callsError
+        }
+      }
+      summary.chatMessages = missingMessages.length
+    }
+
+    return summary
+  } catch (error) {
+    handleError(error, 'restore backup', userId)
+  }
+}
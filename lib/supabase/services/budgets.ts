@@ -0,0 +1,207 @@
+import { supabase } from '../client'
+import { CategoryBudget, SpendingCategory } from '@/types'
+import { logDatabaseError } from '../errors'
+
+export interface BudgetPeriod {
+  category: SpendingCategory
+  month: string // YYYY-MM-01
+  budget: number // Budget set for this month
+  carriedOver: number // Rolled over from earlier months; negative when overspent
+  available: number // budget + carriedOver
+  spent: number
+  remaining: number // available - spent
+}
+
+export interface MonthlySpending {
+  category_id: string
+  month: string
+  spent: number
+}
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, budgetId?: string): never {
+  logDatabaseError(error, operation, 'category_budget', budgetId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+/**
+ * Returns the YYYY-MM-01 key for the local month containing a date
+ */
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`
+}
+
+/**
+ * Moves a YYYY-MM-01 month key forward (or back, with a negative count)
+ */
+export function addMonths(month: string, count: number): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return toMonthKey(new Date(year, monthIndex - 1 + count, 1))
+}
+
+export async function getCategoryBudgets(userId: string): Promise<CategoryBudget[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('category_budgets')
+        .select('*')
+        .eq('user_id', userId)
+        .order('month', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get category budgets', userId)
+  }
+}
+
+/**
+ * Sets a category's budget from the given month onward
+ */
+export async function setCategoryBudget(
+  userId: string,
+  categoryId: string,
+  month: string,
+  amount: number
+): Promise<CategoryBudget> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('category_budgets')
+        .upsert(
+          {
+            user_id: userId,
+            category_id: categoryId,
+            month,
+            amount,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'category_id,month' }
+        )
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'set category budget', userId)
+  }
+}
+
+/**
+ * Expense totals per category per month for transactions dated in [start, end)
+ */
+export async function getMonthlySpending(userId: string, start: string, end: string): Promise<MonthlySpending[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase.rpc('get_monthly_category_spending', {
+        p_start: start,
+        p_end: end,
+      })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get monthly spending', userId)
+  }
+}
+
+/**
+ * Loads everything needed to show each category's budget for one month
+ */
+export async function getBudgetPeriods(
+  userId: string,
+  categories: SpendingCategory[],
+  month: string
+): Promise<BudgetPeriod[]> {
+  // Rollover categories need spending back to the month they were created
+  const start = categories
+    .filter(c => c.rollover)
+    .map(c => toMonthKey(new Date(c.created_at)))
+    .reduce((earliest, m) => (m < earliest ? m : earliest), month)
+
+  const [budgets, spending] = await Promise.all([
+    getCategoryBudgets(userId),
+    getMonthlySpending(userId, start, addMonths(month, 1)),
+  ])
+
+  return computeBudgetPeriods(categories, budgets, spending, month)
+}
+
+/**
+ * Works out budget, rollover and spending for each category in a month
+ * A month uses the latest budget row at or before it, falling back to the
+ * category's default budget. Rollover accumulates from the category's
+ * creation month.
+ */
+export function computeBudgetPeriods(
+  categories: SpendingCategory[],
+  budgets: Pick<CategoryBudget, 'category_id' | 'month' | 'amount'>[],
+  spending: MonthlySpending[],
+  month: string
+): BudgetPeriod[] {
+  const spentByKey = new Map<string, number>()
+  for (const row of spending) {
+    spentByKey.set(`${row.category_id}|${row.month}`, Number(row.spent))
+  }
+
+  return categories.map(category => {
+    const rows = budgets
+      .filter(b => b.category_id === category.id)
+      .sort((a, b) => a.month.localeCompare(b.month))
+
+    const budgetFor = (m: string) => {
+      let amount = category.budget
+      for (const row of rows) {
+        if (row.month > m) break
+        amount = row.amount
+      }
+      return amount
+    }
+    const spentIn = (m: string) => spentByKey.get(`${category.id}|${m}`) || 0
+
+    let carriedOver = 0
+    if (category.rollover) {
+      for (let m = toMonthKey(new Date(category.created_at)); m < month; m = addMonths(m, 1)) {
+        carriedOver += budgetFor(m) - spentIn(m)
+      }
+    }
+
+    const budget = budgetFor(month)
+    const spent = spentIn(month)
+    const available = budget + carriedOver
+
+    return {
+      category,
+      month,
+      budget,
+      carriedOver,
+      available,
+      spent,
+      remaining: available - spent,
+    }
+  })
+}
@@ -44,7 +44,7 @@ export async function getCategories(userId: string): Promise<SpendingCategory[]>
 }
 
 export async function createCategory(
-  category: Omit<SpendingCategory, 'id' | 'created_at' | 'updated_at'> & { user_id: string }
+  category: Omit<SpendingCategory, 'id' | 'created_at' | 'updated_at' | 'rollover'> & { user_id: string; rollover?: boolean }
 ): Promise<SpendingCategory> {
   try {
     return await withRetry(async () => {
@@ -56,6 +56,7 @@ export async function createCategory(
           value: category.value || 0,
           budget: category.budget,
           color: category.color,
+          rollover: category.rollover ?? false,
         })
         .select()
         .single()
@@ -1,6 +1,8 @@
 import { supabase } from '../client'
-import { ChatMessage } from '@/types'
+import { ChatMessage, ChatThread, ChatToolCall, ChatToolCallStatus } from '@/types'
+import { ToolCall } from '@/lib/ai/types'
 import { logDatabaseError } from '../errors'
+import { Json } from '../database.types'
 
 // Database ChatMessage interface (includes id, user_id, created_at)
 interface DbChatMessage extends ChatMessage {
@@ -9,6 +11,17 @@ interface DbChatMessage extends ChatMessage {
   created_at: string
 }
 
+export interface ChatSearchResult {
+  message_id: string
+  thread_id: string
+  thread_title: string
+  role: 'user' | 'ai'
+  snippet: string // The matching passage, with matched words wrapped in **
+  created_at: string
+}
+
+const MAX_TITLE_LENGTH = 60
+
 // Retry utility with exponential backoff
 async function withRetry<T>(
   operation: () => Promise<T>,
@@ -32,34 +45,147 @@ function handleError(error: any, operation: string, userId?: string, messageId?:
   throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
 }
 
+function toToolCall(row: any): ChatToolCall {
+  return { ...row, arguments: row.arguments as Record<string, unknown> }
+}
+
 /**
- * Retrieves chat messages for a user with a limit of 100 messages
- * Messages are ordered by creation time (oldest first)
+ * Builds a thread title from the message that started it, cut at a word
+ * boundary; the assistant's title replaces it once the first reply is in
  */
-export async function getMessages(userId: string, limit: number = 100): Promise<DbChatMessage[]> {
+export function titleFromMessage(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim()
+  if (text.length <= MAX_TITLE_LENGTH) return text || 'New chat'
+  const cut = text.slice(0, MAX_TITLE_LENGTH)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`
+}
+
+/**
+ * Retrieves a user's chat threads, most recently active first
+ */
+export async function getThreads(userId: string): Promise<ChatThread[]> {
   try {
     return await withRetry(async () => {
       const { data, error } = await supabase
-        .from('chat_messages')
+        .from('chat_threads')
         .select('*')
         .eq('user_id', userId)
-        .order('created_at', { ascending: true })
+        .order('last_message_at', { ascending: false })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get threads', userId)
+  }
+}
+
+/**
+ * Starts a new chat thread
+ */
+export async function createThread(userId: string, title: string): Promise<ChatThread> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .insert({ user_id: userId, title: title.trim().slice(0, MAX_TITLE_LENGTH * 2) || 'New chat' })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'create thread', userId)
+  }
+}
+
+/**
+ * Renames a chat thread
+ */
+export async function renameThread(id: string, title: string): Promise<ChatThread> {
+  const trimmed = title.trim()
+  if (!trimmed) {
+    throw new Error('Failed to rename thread: Title is required')
+  }
+
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .update({ title: trimmed.slice(0, MAX_TITLE_LENGTH * 2) })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'rename thread', undefined, id)
+  }
+}
+
+/**
+ * Deletes a chat thread along with its messages and their tool calls
+ */
+export async function deleteThread(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('chat_threads')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete thread', undefined, id)
+  }
+}
+
+/**
+ * Retrieves the newest messages of a thread, returned oldest first so they
+ * read top to bottom. Pass before (a created_at) to page back through
+ * older messages. Messages carry the tool calls the assistant made in them.
+ */
+export async function getMessages(threadId: string, limit: number = 50, before?: string): Promise<DbChatMessage[]> {
+  try {
+    return await withRetry(async () => {
+      let query = supabase
+        .from('chat_messages')
+        .select('*, tool_calls:chat_tool_calls(*)')
+        .eq('thread_id', threadId)
+      if (before) query = query.lt('created_at', before)
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
         .limit(limit)
 
       if (error) throw error
       
-      return data || []
+      return (data || []).reverse().map(message => ({
+        ...message,
+        tool_calls: (message.tool_calls || [])
+          .map(toToolCall)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      }))
     })
   } catch (error) {
-    handleError(error, 'get messages', userId)
+    handleError(error, 'get messages', undefined, threadId)
   }
 }
 
 /**
- * Creates a new chat message (user or AI)
+ * Creates a new chat message (user or AI) in a thread
+ * Pass truncated for a reply that was stopped part way
  */
 export async function createMessage(
-  message: { user_id: string; role: 'user' | 'ai'; content: string }
+  message: { user_id: string; thread_id: string; role: 'user' | 'ai'; content: string; truncated?: boolean }
 ): Promise<DbChatMessage> {
   try {
     return await withRetry(async () => {
@@ -67,8 +193,10 @@ export async function createMessage(
         .from('chat_messages')
         .insert({
           user_id: message.user_id,
+          thread_id: message.thread_id,
           role: message.role,
           content: message.content,
+          truncated: message.truncated ?? false,
         })
         .select()
         .single()
@@ -83,13 +211,81 @@ export async function createMessage(
 }
 
 /**
- * Clears all chat history for a user
+ * Full text search across all of the user's conversations, best matches first
+ */
+export async function searchMessages(query: string, limit: number = 20): Promise<ChatSearchResult[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase.rpc('search_chat_messages', { p_query: query, p_limit: limit })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'search messages')
+  }
+}
+
+/**
+ * Records the tool calls an assistant message asked for, all pending
+ */
+export async function createToolCalls(userId: string, messageId: string, calls: ToolCall[]): Promise<ChatToolCall[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('chat_tool_calls')
+        .insert(calls.map(call => ({
+          user_id: userId,
+          message_id: messageId,
+          call_id: call.id,
+          name: call.name,
+          arguments: call.arguments as Json,
+        })))
+        .select()
+
+      if (error) throw error
+
+      return (data || []).map(toToolCall)
+    })
+  } catch (error) {
+    handleError(error, 'record tool calls', userId, messageId)
+  }
+}
+
+/**
+ * Records how a tool call ended: declined by the user, or run with its result
+ */
+export async function updateToolCall(
+  id: string,
+  updates: { status: ChatToolCallStatus; result: unknown }
+): Promise<ChatToolCall> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('chat_tool_calls')
+        .update({ status: updates.status, result: updates.result as Json })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return toToolCall(data)
+    })
+  } catch (error) {
+    handleError(error, 'update tool call', undefined, id)
+  }
+}
+
+/**
+ * Clears all chat history for a user, every thread included
  */
 export async function clearHistory(userId: string): Promise<void> {
   try {
     return await withRetry(async () => {
       const { error } = await supabase
-        .from('chat_messages')
+        .from('chat_threads')
         .delete()
         .eq('user_id', userId)
 
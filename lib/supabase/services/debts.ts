@@ -0,0 +1,126 @@
+import { supabase } from '../client'
+import { Debt } from '@/types'
+import { logDatabaseError } from '../errors'
+
+// Fields a caller supplies when adding a debt
+export type NewDebt = Pick<Debt, 'name' | 'balance' | 'apr' | 'minimum_payment' | 'due_day'>
+
+export type DebtUpdate = Partial<NewDebt>
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, debtId?: string): never {
+  logDatabaseError(error, operation, 'debt', debtId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+/**
+ * Retrieves the user's debts in their custom payoff order
+ */
+export async function getDebts(userId: string): Promise<Debt[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('debts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('payoff_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get debts', userId)
+  }
+}
+
+/**
+ * Adds a debt at the end of the custom payoff order
+ */
+export async function createDebt(debt: NewDebt & { user_id: string; payoff_order: number }): Promise<Debt> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('debts')
+        .insert(debt)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'add debt', debt.user_id)
+  }
+}
+
+export async function updateDebt(id: string, updates: DebtUpdate): Promise<Debt> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('debts')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update debt', undefined, id)
+  }
+}
+
+export async function deleteDebt(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('debts')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete debt', undefined, id)
+  }
+}
+
+/**
+ * Saves the custom payoff order: the first id is paid off first
+ */
+export async function setPayoffOrder(userId: string, debtIds: string[]): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const results = await Promise.all(
+        debtIds.map((id, index) => supabase.from('debts').update({ payoff_order: index }).eq('id', id))
+      )
+
+      const failed = results.find(result => result.error)
+      if (failed?.error) throw failed.error
+    })
+  } catch (error) {
+    handleError(error, 'save payoff order', userId)
+  }
+}
@@ -1,13 +1,21 @@
 import { supabase } from '../client'
 import { logDatabaseError } from '../errors'
+import { GoalContribution, GoalFundingRule } from '@/types'
+import { nextOccurrenceOnOrAfter } from '@/lib/recurring/schedule'
+import { toLocalDateString } from './transactions'
+
+// Fields a caller supplies when creating a funding rule
+export type NewFundingRule = Pick<GoalFundingRule, 'goal_id' | 'account_id' | 'kind' | 'amount' | 'start_date'>
+
+export type FundingRuleUpdate = Partial<Pick<GoalFundingRule, 'account_id' | 'amount'>>
 
 export interface FinancialGoal {
   id: string
   user_id: string
   title: string
   target_amount: number
-  current_amount: number
-  months_remaining: number
+  current_amount: number // Total of the goal's contributions
+  target_date: string // YYYY-MM-DD
   created_at: string
   updated_at: string
 }
@@ -53,8 +61,11 @@ export async function getGoals(userId: string): Promise<FinancialGoal[]> {
   }
 }
 
+/**
+ * Creates a goal with nothing saved yet; savings are added as contributions
+ */
 export async function createGoal(
-  goal: Omit<FinancialGoal, 'id' | 'created_at' | 'updated_at'> & { user_id: string }
+  goal: Omit<FinancialGoal, 'id' | 'current_amount' | 'created_at' | 'updated_at'> & { user_id: string }
 ): Promise<FinancialGoal> {
   try {
     return await withRetry(async () => {
@@ -64,8 +75,7 @@ export async function createGoal(
           user_id: goal.user_id,
           title: goal.title,
           target_amount: goal.target_amount,
-          current_amount: goal.current_amount || 0,
-          months_remaining: goal.months_remaining,
+          target_date: goal.target_date,
         })
         .select()
         .single()
@@ -81,7 +91,7 @@ export async function createGoal(
 
 export async function updateGoal(
   id: string,
-  updates: Partial<Omit<FinancialGoal, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
+  updates: Partial<Omit<FinancialGoal, 'id' | 'user_id' | 'current_amount' | 'created_at' | 'updated_at'>>
 ): Promise<FinancialGoal> {
   try {
     return await withRetry(async () => {
@@ -119,40 +129,249 @@ export async function deleteGoal(id: string): Promise<void> {
   }
 }
 
+export interface ContributionDetails {
+  contributed_on?: string // YYYY-MM-DD; defaults to today
+  account_id?: string | null
+  note?: string | null
+}
+
+/**
+ * Records money added to (or, with a negative amount, withdrawn from) a goal
+ * The goal's balance is updated inside Postgres along with the contribution,
+ * so concurrent contributions all land. A withdrawal larger than the balance
+ * takes out what is there.
+ * Not retried: if the response is lost the contribution may already be recorded.
+ */
 export async function addContribution(
   goalId: string,
-  amount: number
-): Promise<FinancialGoal> {
+  amount: number,
+  details: ContributionDetails = {}
+): Promise<GoalContribution> {
+  try {
+    const { data, error } = await supabase
+      .rpc('add_goal_contribution', {
+        p_goal_id: goalId,
+        p_amount: amount,
+        p_contributed_on: details.contributed_on || toLocalDateString(),
+        p_account_id: details.account_id || null,
+        p_note: details.note || null,
+      })
+      .single()
+
+    if (error) throw error
+    if (!data) throw new Error('Goal not found')
+
+    return data
+  } catch (error) {
+    handleError(error, 'add contribution to goal', undefined, goalId)
+  }
+}
+
+/**
+ * Retrieves a goal's contributions, oldest first
+ */
+export async function getContributions(goalId: string): Promise<GoalContribution[]> {
   try {
     return await withRetry(async () => {
-      // Get current goal
-      const { data: goal, error: fetchError } = await supabase
-        .from('financial_goals')
-        .select('current_amount, user_id')
-        .eq('id', goalId)
-        .single()
+      const { data, error } = await supabase
+        .from('goal_contributions')
+        .select('*')
+        .eq('goal_id', goalId)
+        .order('contributed_on', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get goal contributions', undefined, goalId)
+  }
+}
+
+/**
+ * Undoes a contribution; the goal's balance goes back down (or, for a
+ * withdrawal, back up) with it
+ * Refused when later withdrawals would leave the goal below zero.
+ */
+export async function deleteContribution(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('goal_contributions')
+        .delete()
+        .eq('id', id)
 
-      if (fetchError) throw fetchError
-      if (!goal) throw new Error('Goal not found')
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'undo contribution', undefined, id)
+  }
+}
 
-      // Update with new contribution
-      const newAmount = (goal.current_amount || 0) + amount
+/**
+ * Retrieves the user's contributions on or after a date, oldest first
+ */
+export async function getContributionsSince(userId: string, since: string): Promise<GoalContribution[]> {
+  try {
+    return await withRetry(async () => {
       const { data, error } = await supabase
-        .from('financial_goals')
-        .update({
-          current_amount: newAmount,
-          updated_at: new Date().toISOString(),
+        .from('goal_contributions')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('contributed_on', since)
+        .order('contributed_on', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get recent goal contributions', userId)
+  }
+}
+
+export async function getFundingRules(userId: string): Promise<GoalFundingRule[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('goal_funding_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get goal funding rules', userId)
+  }
+}
+
+/**
+ * Creates a funding rule; a goal has at most one rule of each kind
+ * Monthly rules are first due on their start date. Income and round-up rules
+ * count transactions recorded from now on.
+ */
+export async function createFundingRule(rule: NewFundingRule & { user_id: string }): Promise<GoalFundingRule> {
+  const isMonthly = rule.kind === 'fixed_monthly'
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('goal_funding_rules')
+        .insert({
+          user_id: rule.user_id,
+          goal_id: rule.goal_id,
+          account_id: rule.account_id,
+          kind: rule.kind,
+          amount: rule.kind === 'round_up' ? 0 : rule.amount,
+          start_date: isMonthly ? rule.start_date : null,
+          next_due: isMonthly ? rule.start_date : null,
         })
-        .eq('id', goalId)
         .select()
         .single()
 
       if (error) throw error
-      
+
       return data
     })
   } catch (error) {
-    handleError(error, 'add contribution to goal', undefined, goalId)
+    handleError(error, 'create goal funding rule', rule.user_id, rule.goal_id)
+  }
+}
+
+export async function updateFundingRule(id: string, updates: FundingRuleUpdate): Promise<GoalFundingRule> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('goal_funding_rules')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update goal funding rule', undefined, id)
+  }
+}
+
+/**
+ * Pauses or resumes a rule
+ * A resumed rule doesn't catch up on what it missed: monthly rules pick up at
+ * their next date from today, and only transactions recorded from now on count.
+ */
+export async function setFundingRuleActive(rule: GoalFundingRule, active: boolean): Promise<GoalFundingRule> {
+  const today = toLocalDateString()
+  const resumed = active && !rule.active
+    ? {
+        transactions_since: new Date().toISOString(),
+        next_due: rule.start_date
+          ? (rule.start_date >= today ? rule.start_date : nextOccurrenceOnOrAfter(rule.start_date, 'monthly', today))
+          : null,
+      }
+    : {}
+
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('goal_funding_rules')
+        .update({ active, ...resumed })
+        .eq('id', rule.id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, active ? 'resume goal funding rule' : 'pause goal funding rule', undefined, rule.id)
+  }
+}
+
+/**
+ * Deletes a rule; contributions it already made are kept
+ */
+export async function deleteFundingRule(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('goal_funding_rules')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete goal funding rule', undefined, id)
+  }
+}
+
+/**
+ * Records the contributions active funding rules have earned through the
+ * given local date: monthly amounts that came due, and shares of income and
+ * round-ups of expenses the rules haven't handled yet
+ * Safe to retry: a contribution already recorded is never inserted again.
+ * Resolves with the number of contributions created.
+ */
+export async function applyFundingRules(userId: string, through: string): Promise<number> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase.rpc('apply_goal_funding_rules', {
+        p_through: through,
+      })
+
+      if (error) throw error
+
+      return data ?? 0
+    })
+  } catch (error) {
+    handleError(error, 'apply goal funding rules', userId)
   }
 }
 
@@ -0,0 +1,105 @@
+import { supabase } from '../client'
+import { logDatabaseError } from '../errors'
+import { Json } from '../database.types'
+import { CsvColumnMapping } from '@/lib/import/types'
+
+export interface ImportMapping {
+  id: string
+  user_id: string
+  name: string
+  mapping: CsvColumnMapping
+  created_at: string
+  updated_at: string
+}
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, mappingId?: string): never {
+  logDatabaseError(error, operation, 'import_mapping', mappingId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+export async function getImportMappings(userId: string): Promise<ImportMapping[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('import_mappings')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true })
+
+      if (error) throw error
+
+      return (data || []).map(row => ({
+        ...row,
+        mapping: row.mapping as unknown as CsvColumnMapping,
+      }))
+    })
+  } catch (error) {
+    handleError(error, 'get import mappings', userId)
+  }
+}
+
+/**
+ * Creates a mapping preset, or replaces the existing preset with the same name
+ */
+export async function saveImportMapping(
+  userId: string,
+  name: string,
+  mapping: CsvColumnMapping
+): Promise<ImportMapping> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('import_mappings')
+        .upsert(
+          {
+            user_id: userId,
+            name,
+            mapping: { ...mapping } satisfies Json,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id,name' }
+        )
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return { ...data, mapping: data.mapping as unknown as CsvColumnMapping }
+    })
+  } catch (error) {
+    handleError(error, 'save import mapping', userId)
+  }
+}
+
+export async function deleteImportMapping(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('import_mappings')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete import mapping', undefined, id)
+  }
+}
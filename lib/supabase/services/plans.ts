@@ -0,0 +1,48 @@
+import { supabase } from '../client'
+import { FinancialPlan } from '@/types'
+import { logDatabaseError } from '../errors'
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string): never {
+  logDatabaseError(error, operation, 'financial_plan', undefined, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+/**
+ * Retrieves every saved plan for a user, newest version first
+ * Plans are written by /api/ai as they're generated.
+ */
+export async function getPlans(userId: string): Promise<FinancialPlan[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('financial_plans')
+        .select('*')
+        .eq('user_id', userId)
+        .order('version', { ascending: false })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get financial plans', userId)
+  }
+}
@@ -0,0 +1,106 @@
+import { supabase } from '../client'
+import { ProjectionScenario } from '@/types'
+import { logDatabaseError } from '../errors'
+
+// Fields a caller supplies when saving a scenario
+export type NewProjectionScenario = Omit<ProjectionScenario, 'id' | 'user_id' | 'created_at' | 'updated_at'>
+
+export type ProjectionScenarioUpdate = Partial<NewProjectionScenario>
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, scenarioId?: string): never {
+  logDatabaseError(error, operation, 'projection_scenario', scenarioId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+export async function getProjectionScenarios(userId: string): Promise<ProjectionScenario[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('projection_scenarios')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get projection scenarios', userId)
+  }
+}
+
+export async function createProjectionScenario(
+  scenario: NewProjectionScenario & { user_id: string }
+): Promise<ProjectionScenario> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('projection_scenarios')
+        .insert(scenario)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'save projection scenario', scenario.user_id)
+  }
+}
+
+export async function updateProjectionScenario(
+  id: string,
+  updates: ProjectionScenarioUpdate
+): Promise<ProjectionScenario> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('projection_scenarios')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update projection scenario', undefined, id)
+  }
+}
+
+export async function deleteProjectionScenario(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('projection_scenarios')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete projection scenario', undefined, id)
+  }
+}
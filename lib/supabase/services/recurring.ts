@@ -0,0 +1,130 @@
+import { supabase } from '../client'
+import { RecurringTransaction } from '@/types'
+import { logDatabaseError } from '../errors'
+
+// Fields a caller supplies when creating a rule
+export type NewRecurringTransaction = Omit<RecurringTransaction, 'id' | 'user_id' | 'active' | 'created_at' | 'updated_at'>
+
+export type RecurringTransactionUpdate = Partial<Omit<RecurringTransaction, 'id' | 'user_id' | 'created_at' | 'updated_at'>>
+
+// Retry utility with exponential backoff
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries = 3,
+  baseDelay = 1000
+): Promise<T> {
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (i === maxRetries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// Error handling wrapper
+function handleError(error: any, operation: string, userId?: string, recurringId?: string): never {
+  logDatabaseError(error, operation, 'recurring_transaction', recurringId, userId)
+  throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
+}
+
+export async function getRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('next_due', { ascending: true })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get recurring transactions', userId)
+  }
+}
+
+export async function createRecurringTransaction(
+  rule: NewRecurringTransaction & { user_id: string }
+): Promise<RecurringTransaction> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .insert(rule)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'create recurring transaction', rule.user_id)
+  }
+}
+
+export async function updateRecurringTransaction(
+  id: string,
+  updates: RecurringTransactionUpdate
+): Promise<RecurringTransaction> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update recurring transaction', undefined, id)
+  }
+}
+
+/**
+ * Deletes a rule; transactions it already created are kept
+ */
+export async function deleteRecurringTransaction(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    })
+  } catch (error) {
+    handleError(error, 'delete recurring transaction', undefined, id)
+  }
+}
+
+/**
+ * Records every occurrence due on or before the given local date
+ * Safe to retry: an occurrence already recorded is never inserted again.
+ * Resolves with the number of transactions created.
+ */
+export async function materializeRecurringTransactions(userId: string, through: string): Promise<number> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase.rpc('materialize_recurring_transactions', {
+        p_through: through,
+      })
+
+      if (error) throw error
+
+      return data ?? 0
+    })
+  } catch (error) {
+    handleError(error, 'record due recurring transactions', userId)
+  }
+}
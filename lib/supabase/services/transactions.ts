@@ -1,7 +1,89 @@
 import { supabase } from '../client'
-import { Transaction } from '@/types'
+import { Transaction, TransactionSplit } from '@/types'
 import { logDatabaseError } from '../errors'
 
+// Category label stored on income transactions, which never count against a budget
+export const INCOME_CATEGORY_NAME = 'Income'
+
+// Category label stored on split expenses; their split lines carry the real categories
+export const SPLIT_CATEGORY_NAME = 'Split'
+
+// Fields a caller supplies when recording a transaction; the date defaults to today
+export type NewTransaction = Omit<Transaction, 'id' | 'user_id' | 'created_at' | 'occurred_on' | 'notes' | 'recurring_id' | 'external_id'> & {
+  occurred_on?: string
+  notes?: string | null
+  recurring_id?: string | null
+  external_id?: string | null
+}
+
+export type TransactionUpdate = Partial<Pick<
+  Transaction,
+  'description' | 'amount' | 'category_id' | 'category_name' | 'account_id' | 'kind' | 'occurred_on' | 'notes'
+>>
+
+// One category's share when recording or editing a split expense
+export type SplitLine = Pick<TransactionSplit, 'category_id' | 'category_name' | 'amount'>
+
+export type TransactionSortField = 'occurred_on' | 'description' | 'category_name' | 'amount'
+
+export interface TransactionFilters {
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+  categoryId?: string
+  minAmount?: number
+  maxAmount?: number
+  search?: string // Case-insensitive match on description
+  sortBy?: TransactionSortField
+  ascending?: boolean
+}
+
+export interface CashFlowMonth {
+  month: string
+  income: number
+  expense: number
+}
+
+export interface SpendingSummary {
+  from: string
+  to: string
+  income: number
+  expenses: number
+  byCategory: { category: string; amount: number }[] // Largest first
+}
+
+type SpendingRow = Pick<Transaction, 'amount' | 'kind' | 'category_name'> & {
+  transaction_splits: Pick<TransactionSplit, 'category_name' | 'amount'>[] | null
+}
+
+export type TransactionWithSplits = Transaction & {
+  transaction_splits: Pick<TransactionSplit, 'category_name' | 'amount'>[] | null
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, the format of occurred_on
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Whether a transaction's spending is spread over split lines
+ */
+export function isSplitTransaction(transaction: Pick<Transaction, 'kind' | 'category_id' | 'category_name'>): boolean {
+  return transaction.kind === 'expense' && !transaction.category_id && transaction.category_name === SPLIT_CATEGORY_NAME
+}
+
+/**
+ * Whether split lines add up to a total, compared in whole cents
+ */
+export function splitsMatchTotal(total: number, lines: Pick<SplitLine, 'amount'>[]): boolean {
+  const cents = lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0)
+  return cents === Math.round(total * 100)
+}
+
+// Postgres error code for a primary key or unique constraint conflict
+const UNIQUE_VIOLATION = '23505'
+
 // Retry utility with exponential backoff
 async function withRetry<T>(
   operation: () => Promise<T>,
@@ -25,18 +107,43 @@ function handleError(error: any, operation: string, userId?: string, transaction
   throw new Error(`Failed to ${operation}: ${error.message || 'Unknown error'}`)
 }
 
+// Escapes LIKE wildcards so search text is matched literally
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+/**
+ * Retrieves a page of transactions, newest first unless a sort is given
+ * Filters are applied in the database so paging stays consistent
+ */
 export async function getTransactions(
   userId: string,
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  filters: TransactionFilters = {}
 ): Promise<Transaction[]> {
   try {
     return await withRetry(async () => {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
+      // Split expenses match a category when any of their lines is in it
+      let query = (filters.categoryId
+        ? supabase.rpc('get_category_transactions', { p_category_id: filters.categoryId }).select('*')
+        : supabase.from('transactions').select('*'))
         .eq('user_id', userId)
+
+      if (filters.from) query = query.gte('occurred_on', filters.from)
+      if (filters.to) query = query.lte('occurred_on', filters.to)
+      if (filters.minAmount !== undefined) query = query.gte('amount', filters.minAmount)
+      if (filters.maxAmount !== undefined) query = query.lte('amount', filters.maxAmount)
+      if (filters.search?.trim()) query = query.ilike('description', `%${escapeLikePattern(filters.search.trim())}%`)
+
+      const sortBy = filters.sortBy || 'occurred_on'
+      const ascending = filters.ascending ?? false
+      query = query.order(sortBy, { ascending })
+      if (sortBy !== 'occurred_on') query = query.order('occurred_on', { ascending: false })
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
         .range(offset, offset + limit - 1)
 
       if (error) throw error
@@ -48,65 +155,59 @@ export async function getTransactions(
   }
 }
 
+// Looks up transactions by id in chunks so the filter stays within URL length limits
+async function getTransactionsByIds(ids: string[]): Promise<Transaction[]> {
+  const rows: Transaction[] = []
+  for (let i = 0; i < ids.length; i += 100) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .in('id', ids.slice(i, i + 100))
+
+    if (error) throw error
+    rows.push(...(data || []))
+  }
+  return rows
+}
+
+/**
+ * Records a transaction. The matching category total is adjusted by a database
+ * trigger in the same statement, so concurrent inserts can't lose updates.
+ */
 export async function createTransaction(
-  transaction: Omit<Transaction, 'id' | 'created_at'> & { user_id: string }
+  transaction: NewTransaction & { user_id: string }
 ): Promise<Transaction> {
+  // The id is chosen up front so a retry after a lost response can't insert twice
+  const id = crypto.randomUUID()
+
   try {
     return await withRetry(async () => {
-      // Start a transaction to update both the transaction and category
       const { data: newTransaction, error: transactionError } = await supabase
         .from('transactions')
         .insert({
+          id,
           user_id: transaction.user_id,
+          account_id: transaction.account_id,
           category_id: transaction.category_id,
           description: transaction.description,
           amount: transaction.amount,
           category_name: transaction.category_name,
+          kind: transaction.kind,
+          occurred_on: transaction.occurred_on ?? toLocalDateString(),
+          notes: transaction.notes ?? null,
+          recurring_id: transaction.recurring_id ?? null,
+          external_id: transaction.external_id ?? null,
         })
         .select()
         .single()
 
-      if (transactionError) throw transactionError
-
-      // Update the category value if category_id is provided
-      if (transaction.category_id) {
-        // Get current category value
-        const { data: category, error: categoryFetchError } = await supabase
-          .from('spending_categories')
-          .select('value')
-          .eq('id', transaction.category_id)
-          .single()
-
-        if (categoryFetchError) {
-          logDatabaseError(
-            categoryFetchError, 
-            'fetch category for transaction update', 
-            'spending_category', 
-            transaction.category_id, 
-            transaction.user_id
-          )
-        } else if (category) {
-          // Update category value
-          const newValue = (category.value || 0) + transaction.amount
-          const { error: categoryUpdateError } = await supabase
-            .from('spending_categories')
-            .update({ 
-              value: newValue,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', transaction.category_id)
-
-          if (categoryUpdateError) {
-            logDatabaseError(
-              categoryUpdateError, 
-              'update category value after transaction', 
-              'spending_category', 
-              transaction.category_id, 
-              transaction.user_id
-            )
-          }
-        }
+      // An earlier attempt already committed this row. Any other conflict,
+      // such as an external_id already imported, is a real error.
+      if (transactionError?.code === UNIQUE_VIOLATION) {
+        const [existing] = await getTransactionsByIds([id])
+        if (existing) return existing
       }
+      if (transactionError) throw transactionError
 
       return newTransaction
     })
@@ -115,69 +216,416 @@ export async function createTransaction(
   }
 }
 
-export async function deleteTransaction(id: string): Promise<void> {
+/**
+ * Retrieves transactions dated within [start, end] (YYYY-MM-DD, inclusive), newest first
+ */
+export async function getTransactionsBetween(
+  userId: string,
+  start: string,
+  end: string
+): Promise<Transaction[]> {
+  try {
+    return await withRetry(async () => {
+      const transactions: Transaction[] = []
+      // PostgREST caps a single select at 1000 rows
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('occurred_on', start)
+          .lte('occurred_on', end)
+          .order('occurred_on', { ascending: false })
+          .order('id', { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) throw error
+
+        transactions.push(...(data || []))
+        if (!data || data.length < 1000) break
+      }
+
+      return transactions
+    })
+  } catch (error) {
+    handleError(error, 'get transactions in range', userId)
+  }
+}
+
+/**
+ * Retrieves transactions dated within [start, end] (YYYY-MM-DD, inclusive)
+ * with the category and amount of each split line, newest first
+ */
+export async function getTransactionsWithSplitsBetween(
+  userId: string,
+  start: string,
+  end: string
+): Promise<TransactionWithSplits[]> {
+  try {
+    return await withRetry(async () => {
+      const transactions: TransactionWithSplits[] = []
+      // PostgREST caps a single select at 1000 rows
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('*, transaction_splits(category_name, amount)')
+          .eq('user_id', userId)
+          .gte('occurred_on', start)
+          .lte('occurred_on', end)
+          .order('occurred_on', { ascending: false })
+          .order('id', { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) throw error
+
+        transactions.push(...(data || []))
+        if (!data || data.length < 1000) break
+      }
+
+      return transactions
+    })
+  } catch (error) {
+    handleError(error, 'get transactions with splits in range', userId)
+  }
+}
+
+/**
+ * Totals income and expenses between two dates (YYYY-MM-DD, inclusive),
+ * with expenses broken down by category. Split expenses count under the
+ * categories of their split lines.
+ */
+export async function getSpendingSummary(userId: string, from: string, to: string): Promise<SpendingSummary> {
+  try {
+    return await withRetry(async () => {
+      const rows: SpendingRow[] = []
+      // PostgREST caps a single select at 1000 rows
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('amount, kind, category_name, transaction_splits(category_name, amount)')
+          .eq('user_id', userId)
+          .gte('occurred_on', from)
+          .lte('occurred_on', to)
+          .order('id', { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) throw error
+
+        rows.push(...(data || []))
+        if (!data || data.length < 1000) break
+      }
+
+      return { from, to, ...summarizeSpending(rows) }
+    })
+  } catch (error) {
+    handleError(error, 'get spending summary', userId)
+  }
+}
+
+/**
+ * Adds up income, expenses and expenses per category
+ */
+export function summarizeSpending(rows: SpendingRow[]): Omit<SpendingSummary, 'from' | 'to'> {
+  let income = 0
+  const byCategory = new Map<string, number>()
+  const addTo = (category: string, amount: number) => byCategory.set(category, (byCategory.get(category) || 0) + Number(amount))
+
+  for (const row of rows) {
+    if (row.kind === 'income') {
+      income += Number(row.amount)
+    } else if (row.transaction_splits?.length) {
+      row.transaction_splits.forEach(split => addTo(split.category_name, split.amount))
+    } else {
+      addTo(row.category_name, row.amount)
+    }
+  }
+
+  const categories = Array.from(byCategory, ([category, amount]) => ({ category, amount: Math.round(amount * 100) / 100 }))
+    .sort((a, b) => b.amount - a.amount)
+
+  return {
+    income: Math.round(income * 100) / 100,
+    expenses: Math.round(categories.reduce((sum, c) => sum + c.amount, 0) * 100) / 100,
+    byCategory: categories,
+  }
+}
+
+/**
+ * Inserts many transactions at once (e.g. from a statement import)
+ * The whole batch, including category totals, succeeds or fails together
+ */
+export async function createTransactions(
+  transactions: (NewTransaction & { user_id: string; created_at?: string })[]
+): Promise<Transaction[]> {
+  if (transactions.length === 0) return []
+  const userId = transactions[0].user_id
+  const ids = transactions.map(() => crypto.randomUUID())
+
+  try {
+    return await withRetry(async () => {
+      const { data: inserted, error: insertError } = await supabase
+        .from('transactions')
+        .insert(transactions.map((tx, i) => ({
+          id: ids[i],
+          user_id: tx.user_id,
+          account_id: tx.account_id,
+          category_id: tx.category_id,
+          description: tx.description,
+          amount: tx.amount,
+          category_name: tx.category_name,
+          kind: tx.kind,
+          occurred_on: tx.occurred_on ?? toLocalDateString(),
+          notes: tx.notes ?? null,
+          recurring_id: tx.recurring_id ?? null,
+          external_id: tx.external_id ?? null,
+          created_at: tx.created_at,
+        })))
+        .select()
+
+      // An earlier attempt already committed the batch, which goes in as a
+      // whole or not at all; otherwise the conflict is with another row
+      if (insertError?.code === UNIQUE_VIOLATION) {
+        const existing = await getTransactionsByIds(ids)
+        if (existing.length === ids.length) return existing
+      }
+      if (insertError) throw insertError
+
+      return inserted || []
+    })
+  } catch (error) {
+    handleError(error, 'import transactions', userId)
+  }
+}
+
+/**
+ * Edits a transaction; category totals follow amount, kind and category
+ * changes through a database trigger
+ */
+export async function updateTransaction(id: string, updates: TransactionUpdate): Promise<Transaction> {
   try {
     return await withRetry(async () => {
-      // First, get the transaction to update the category value
-      const { data: transaction, error: fetchError } = await supabase
+      const { data, error } = await supabase
         .from('transactions')
-        .select('category_id, amount, user_id')
+        .update(updates)
         .eq('id', id)
+        .select()
         .single()
 
-      if (fetchError) throw fetchError
+      if (error) throw error
+
+      return data
+    })
+  } catch (error) {
+    handleError(error, 'update transaction', undefined, id)
+  }
+}
+
+/**
+ * Retrieves a split transaction's lines, largest first
+ */
+export async function getTransactionSplits(transactionId: string): Promise<TransactionSplit[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase
+        .from('transaction_splits')
+        .select('*')
+        .eq('transaction_id', transactionId)
+        .order('amount', { ascending: false })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'get transaction splits', undefined, transactionId)
+  }
+}
+
+/**
+ * Replaces a transaction's split lines and sets its amount in one database
+ * transaction; the lines must add up to the amount. An empty list removes the
+ * split, after which the transaction needs a category again.
+ */
+export async function setTransactionSplits(
+  transactionId: string,
+  amount: number,
+  lines: SplitLine[]
+): Promise<TransactionSplit[]> {
+  try {
+    return await withRetry(async () => {
+      const { data, error } = await supabase.rpc('set_transaction_splits', {
+        p_transaction_id: transactionId,
+        p_amount: amount,
+        p_splits: lines,
+      })
+
+      if (error) throw error
+
+      return data || []
+    })
+  } catch (error) {
+    handleError(error, 'split transaction', undefined, transactionId)
+  }
+}
+
+/**
+ * Records an expense split across several categories
+ * If the lines can't be saved the expense is removed again, so it never
+ * lingers without a category.
+ */
+export async function createSplitTransaction(
+  transaction: NewTransaction & { user_id: string },
+  lines: SplitLine[]
+): Promise<Transaction> {
+  const created = await createTransaction({
+    ...transaction,
+    kind: 'expense',
+    category_id: null,
+    category_name: SPLIT_CATEGORY_NAME,
+  })
+
+  try {
+    await setTransactionSplits(created.id, created.amount, lines)
+  } catch (error) {
+    await deleteTransaction(created.id).catch(() => undefined)
+    throw error
+  }
+
+  return created
+}
 
-      // Delete the transaction
-      const { error: deleteError } = await supabase
+/**
+ * Applies the same edit to many transactions (e.g. bulk recategorize)
+ */
+export async function updateTransactions(ids: string[], updates: TransactionUpdate): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      for (let i = 0; i < ids.length; i += 100) {
+        const { error } = await supabase
+          .from('transactions')
+          .update(updates)
+          .in('id', ids.slice(i, i + 100))
+
+        if (error) throw error
+      }
+    })
+  } catch (error) {
+    handleError(error, 'update transactions')
+  }
+}
+
+/**
+ * Deletes many transactions; category totals follow through the database trigger
+ */
+export async function deleteTransactions(ids: string[]): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      for (let i = 0; i < ids.length; i += 100) {
+        const { error } = await supabase
+          .from('transactions')
+          .delete()
+          .in('id', ids.slice(i, i + 100))
+
+        if (error) throw error
+      }
+    })
+  } catch (error) {
+    handleError(error, 'delete transactions')
+  }
+}
+
+/**
+ * Deletes a transaction; its category total is reduced by a database trigger
+ */
+export async function deleteTransaction(id: string): Promise<void> {
+  try {
+    return await withRetry(async () => {
+      const { error } = await supabase
         .from('transactions')
         .delete()
         .eq('id', id)
 
-      if (deleteError) throw deleteError
-
-      // Update the category value if category_id exists
-      if (transaction?.category_id) {
-        const { data: category, error: categoryFetchError } = await supabase
-          .from('spending_categories')
-          .select('value')
-          .eq('id', transaction.category_id)
-          .single()
-
-        if (categoryFetchError) {
-          logDatabaseError(
-            categoryFetchError, 
-            'fetch category for transaction deletion', 
-            'spending_category', 
-            transaction.category_id, 
-            transaction.user_id
-          )
-        } else if (category) {
-          const newValue = Math.max(0, (category.value || 0) - transaction.amount)
-          const { error: categoryUpdateError } = await supabase
-            .from('spending_categories')
-            .update({ 
-              value: newValue,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', transaction.category_id)
-
-          if (categoryUpdateError) {
-            logDatabaseError(
-              categoryUpdateError, 
-              'update category value after transaction deletion', 
-              'spending_category', 
-              transaction.category_id, 
-              transaction.user_id
-            )
-          }
-        }
-      }
+      if (error) throw error
     })
   } catch (error) {
     handleError(error, 'delete transaction', undefined, id)
   }
 }
 
+/**
+ * Retrieves income and expense totals per month for the last `months` months,
+ * oldest month first. The current month is always included.
+ */
+export async function getCashFlow(userId: string, months: number = 6): Promise<CashFlowMonth[]> {
+  try {
+    return await withRetry(async () => {
+      const now = new Date()
+      const start = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1)
+
+      const rows: Pick<Transaction, 'amount' | 'kind' | 'occurred_on'>[] = []
+      // PostgREST caps a single select at 1000 rows
+      for (let offset = 0; ; offset += 1000) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('amount, kind, occurred_on')
+          .eq('user_id', userId)
+          .gte('occurred_on', toLocalDateString(start))
+          .order('id', { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) throw error
+
+        rows.push(...(data || []))
+        if (!data || data.length < 1000) break
+      }
+
+      return summarizeCashFlow(rows, months, now)
+    })
+  } catch (error) {
+    handleError(error, 'get cash flow', userId)
+  }
+}
+
+/**
+ * Buckets transactions into monthly income and expense totals
+ */
+export function summarizeCashFlow(
+  transactions: Pick<Transaction, 'amount' | 'kind' | 'occurred_on'>[],
+  months: number,
+  now: Date = new Date()
+): CashFlowMonth[] {
+  const buckets: (CashFlowMonth & { year: number; monthIndex: number })[] = []
+
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1)
+    buckets.push({
+      year: date.getFullYear(),
+      monthIndex: date.getMonth(),
+      month: date.toLocaleString('en-US', { month: 'short' }),
+      income: 0,
+      expense: 0,
+    })
+  }
+
+  for (const tx of transactions) {
+    const [year, month] = tx.occurred_on.split('-').map(Number)
+    const bucket = buckets.find(b => b.year === year && b.monthIndex === month - 1)
+    if (!bucket) continue
+
+    if (tx.kind === 'income') {
+      bucket.income += tx.amount
+    } else {
+      bucket.expense += tx.amount
+    }
+  }
+
+  return buckets.map(({ month, income, expense }) => ({
+    month,
+    income: Math.round(income * 100) / 100,
+    expense: Math.round(expense * 100) / 100,
+  }))
+}
+
 export function subscribeToTransactions(
   userId: string,
   callback: (transactions: Transaction[]) => void
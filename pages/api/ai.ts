@@ -0,0 +1,348 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AIFeature, AIProviderError, getProvider } from '../../lib/ai';
+import { guardAIRoute, reserveAIQuota } from '../../lib/ai/guard';
+import { formatPlanContext, loadInsightRulesData, loadPlanContext } from '../../lib/ai/context';
+import { spendingSnapshotHash } from '../../lib/ai/snapshot';
+import { withUsageMetering } from '../../lib/ai/usage';
+import { Finding, InsightRulesInput, evaluateInsightRules, formatFindings } from '../../lib/insights/rules';
+import { AuthenticatedRequest } from '../../lib/supabase/server';
+import { AIInsight, AIInsightKind, FinancialPlan, SpendingCategory } from '../../types';
+
+// Which provider setting each action runs under; see resolveProviderName
+const ACTION_FEATURES: Record<string, AIFeature> = {
+    getPersonalizedPlan: 'plan',
+    getAIFinancialTips: 'tips',
+    getAIInsight: 'insight',
+    getRecategorization: 'recategorize',
+    extractExpenseDetails: 'expense',
+    // Titles come from the model the conversation itself is on
+    getChatTitle: 'chat',
+};
+
+// Spending categories and tips are small; anything bigger is not from the app
+const MAX_BODY_BYTES = 32 * 1024;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The client's date when it sent one, since its month is the one on screen
+ */
+function parseToday(today: unknown): string {
+    return typeof today === 'string' && DATE_PATTERN.test(today) ? today : new Date().toISOString().slice(0, 10);
+}
+
+function isSpendingList(value: unknown): value is InsightRulesInput['categories'] {
+    return Array.isArray(value) && value.every(c =>
+        typeof c === 'object' && c !== null
+        && typeof c.name === 'string' && typeof c.value === 'number' && typeof c.budget === 'number'
+    );
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * What's wrong with an action's payload, or null when the action can run on it
+ * Checked before the quota is reserved, so a bad request costs the user nothing.
+ */
+function checkPayload(action: string, payload: unknown): string | null {
+    if (payload === undefined && action === 'getPersonalizedPlan') return null;
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return 'payload must be an object';
+    const fields = payload as Record<string, unknown>;
+
+    switch (action) {
+        case 'getPersonalizedPlan':
+            return fields.tips === undefined || Array.isArray(fields.tips) ? null : 'tips must be an array';
+        case 'getAIFinancialTips':
+        case 'getAIInsight':
+            return isSpendingList(fields.categories) ? null : 'categories must be an array of { name, value, budget }';
+        case 'getRecategorization':
+            if (typeof fields.prompt !== 'string' || !fields.prompt.trim()) return 'prompt is required';
+            return isSpendingList(fields.currentCategories) ? null : 'currentCategories must be an array of { name, value, budget }';
+        case 'extractExpenseDetails':
+            if (typeof fields.prompt !== 'string' || !fields.prompt.trim()) return 'prompt is required';
+            return isStringList(fields.categoryList) && fields.categoryList.length > 0 ? null : 'categoryList must be a non-empty array of strings';
+        case 'getChatTitle':
+            return typeof fields.message === 'string' && typeof fields.reply === 'string' ? null : 'message and reply must be strings';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Keeps generated tips and insights with the snapshot they came from
+ * so the app can reuse them until the data changes; see lib/ai/snapshot
+ * A failed save is logged and the user still gets the result.
+ */
+async function saveInsight({ supabase, user }: AuthenticatedRequest, kind: AIInsightKind, snapshotHash: string, content: AIInsight['content']) {
+    const { error } = await supabase.from('ai_insights').insert({
+        user_id: user.id,
+        kind,
+        snapshot_hash: snapshotHash,
+        content,
+    });
+    if (error) console.error(`Error saving AI ${kind}:`, error);
+}
+
+/**
+ * Keeps a generated plan as the user's next version in financial_plans
+ * A failed save is logged and the user still gets the plan, unsaved.
+ */
+async function savePlan({ supabase, user }: AuthenticatedRequest, today: string, content: string): Promise<FinancialPlan | null> {
+    const month = new Date(`${today}T00:00:00`).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+    const { data, error } = await supabase
+        .from('financial_plans')
+        .insert({ user_id: user.id, title: `Financial plan for ${month}`, content })
+        .select()
+        .single();
+    if (error) {
+        console.error('Error saving financial plan:', error);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Runs the insight rules over the user's data so the model starts from the
+ * same findings the app falls back to without it
+ * Data that fails to load only costs the findings, not the reply.
+ */
+async function loadFindings({ supabase, user }: AuthenticatedRequest, categories: InsightRulesInput['categories'], today: unknown): Promise<Finding[]> {
+    const date = parseToday(today);
+    try {
+        const data = await loadInsightRulesData(supabase, user.id, date);
+        return evaluateInsightRules({ today: date, categories, ...data });
+    } catch (error) {
+        console.error('Error loading data for insight rules:', error);
+        return [];
+    }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const auth = await guardAIRoute(req, res, { maxBodyBytes: MAX_BODY_BYTES });
+    if (!auth) return;
+
+    const { action, payload } = req.body;
+    const feature = ACTION_FEATURES[action];
+    if (!feature) {
+        return res.status(400).json({ error: 'Invalid action' });
+    }
+
+    const invalid = checkPayload(action, payload);
+    if (invalid) {
+        return res.status(400).json({ error: `Invalid payload for ${action}: ${invalid}` });
+    }
+
+    const reservation = await reserveAIQuota(res, auth);
+    if (!reservation) return;
+
+    try {
+        const provider = withUsageMetering(getProvider(feature), { supabase: auth.supabase, userId: auth.user.id, action, reservation });
+
+        switch (action) {
+            case 'getPersonalizedPlan': {
+                const { tips, today } = (payload || {}) as { tips?: string[], today?: string };
+                const date = parseToday(today);
+                const context = await loadPlanContext(auth.supabase, auth.user.id, date);
+                const categories = context.financial.budgets.map(b => ({ name: b.category, value: b.spent, budget: b.available }));
+                const findings = await loadFindings(auth, categories, date);
+                const recentTips = Array.isArray(tips) ? tips.filter(tip => typeof tip === 'string').slice(0, 5) : [];
+                const who = context.name ? `a user named ${context.name}` : 'a user';
+                const prompt = `
+                    You are an expert financial coach writing a personalized financial plan for ${who}.
+
+                    Their finances:
+                    ${formatPlanContext(context)}
+
+                    Findings from the app's own checks of their budgets, recent transactions, goals and savings rate, most serious first:
+                    ${formatFindings(findings)}
+
+                    Tips they have received recently:
+                    ${recentTips.length > 0 ? recentTips.map(tip => `- "${tip}"`).join('\n') : '- None'}
+
+                    Create a concise, actionable plan grounded in the figures above. Quote their budgets, goals, recurring bills and cash flow where they matter rather than giving generic advice.
+                    The plan should have three sections:
+                    1.  **Savings Strategy:** How to boost savings and keep their goals on pace.
+                    2.  **Debt Management:** If applicable, or general advice on keeping debt low.
+                    3.  **Smart Spending:** Concrete actions to adjust spending habits, including any recurring bills worth reviewing.
+
+                    Address ${context.name || 'the user'} directly as "you". Use Markdown for formatting with headings (e.g., "## Your Savings Strategy") and bullet points (*).
+                    The tone should be encouraging and motivational. Ensure the output is only the Markdown plan.
+                `;
+                const text = await provider.generateText({ prompt });
+                const plan = await savePlan(auth, date, text);
+                return res.status(200).json({ text, plan });
+            }
+            
+            case 'getAIFinancialTips': {
+                const { categories, today } = payload as { categories: InsightRulesInput['categories'], today?: string };
+                const findings = await loadFindings(auth, categories, today);
+                const prompt = `You are an expert financial coach AI for a personal finance dashboard.
+                Analyze the user's current monthly spending data provided below. Each category has a 'name', 'value' (amount spent), and 'budget' (allocated amount).
+
+                Current spending data: ${JSON.stringify(categories.map(c => ({ name: c.name, value: c.value, budget: c.budget })))}
+
+                Findings from the app's own checks of their budgets, recent transactions, goals and savings rate, most serious first:
+                ${formatFindings(findings)}
+
+                Your task is to:
+                1.  Identify key areas of overspending or opportunities for savings, starting from the findings above and quoting their figures.
+                2.  Generate exactly three distinct, short, and actionable financial tips based on this data.
+                3.  The tips should be encouraging and practical. For example, if 'Food' is over budget, you could suggest reducing 'Entertainment' spending.
+                4.  Return ONLY a valid JSON object containing a single key "tips", which is an array of exactly three strings.`;
+
+                const result = await provider.generateJson<{ tips: string[] }>({
+                    prompt,
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            tips: {
+                                type: 'array',
+                                items: {
+                                    type: 'string',
+                                    description: 'A single financial tip.',
+                                },
+                                minItems: 3,
+                                maxItems: 3,
+                                description: 'An array of exactly three financial tips.',
+                            },
+                        },
+                        required: ['tips'],
+                    },
+                });
+                // A malformed list is shown as the fallback tips, so don't keep it
+                if (Array.isArray(result.tips) && result.tips.length >= 3) {
+                    await saveInsight(auth, 'tips', spendingSnapshotHash(categories, parseToday(today)), { tips: result.tips });
+                }
+                return res.status(200).json({ tips: result.tips });
+            }
+
+            case 'getAIInsight': {
+                const { categories, today } = payload as { categories: InsightRulesInput['categories'], today?: string };
+                const findings = await loadFindings(auth, categories, today);
+                 const prompt = `You are an expert financial analyst AI for a personal finance dashboard.
+                Analyze the user's current monthly spending data provided below. Each category has a 'name', 'value' (amount spent), and 'budget' (allocated amount).
+
+                Current spending data: ${JSON.stringify(categories.map(c => ({ name: c.name, value: c.value, budget: c.budget })))}
+
+                Findings from the app's own checks of their budgets, recent transactions, goals and savings rate, most serious first:
+                ${formatFindings(findings)}
+
+                Your task is to:
+                1. Review the entire financial condition based on the spending vs. budget data and the findings above.
+                2. Provide a short, concise summary (around 40-60 words) of their financial health.
+                3. The tone should be neutral and informative, but can be slightly encouraging. Highlight one positive aspect and one area for improvement.
+                4. Return ONLY the summary as a single string. Do not use Markdown, JSON, or any other formatting.`;
+                const text = await provider.generateText({ prompt });
+                await saveInsight(auth, 'insight', spendingSnapshotHash(categories, parseToday(today)), { text });
+                return res.status(200).json({ text });
+            }
+            
+            case 'getRecategorization': {
+                const { prompt, currentCategories } = payload as { prompt: string, currentCategories: Omit<SpendingCategory, 'color'>[] };
+                const modelPrompt = `You are a data analysis assistant for a financial app.
+                The user wants to regroup their spending categories.
+                User's request: "${prompt}"
+                Current categories JSON: ${JSON.stringify(currentCategories)}
+                
+                Each category has a 'name', a 'value' (amount spent), and a 'budget' (allocated amount).
+                
+                Your task is to:
+                1. Interpret the user's request to create new categories.
+                2. Group the original items under these new categories.
+                3. Sum the 'value' for each new category.
+                4. Sum the 'budget' for each new category.
+                5. Ensure the total value of all new categories equals the total value of all original categories.
+                6. Ensure the total budget of all new categories equals the total budget of all original categories.
+                7. Return ONLY a valid JSON array of the new categories, each with 'name', 'value', and 'budget'. Do not return any other text or explanations.`;
+
+                const categories = await provider.generateJson<{ name: string, value: number, budget: number }[]>({
+                    prompt: modelPrompt,
+                    schema: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                name: { type: 'string' },
+                                value: { type: 'number' },
+                                budget: { type: 'number' },
+                            },
+                            required: ['name', 'value', 'budget'],
+                        },
+                    },
+                });
+                return res.status(200).json({ categories });
+            }
+            
+            case 'extractExpenseDetails': {
+                const { prompt, categoryList } = payload as { prompt: string, categoryList: string[] };
+                const modelPrompt = `You are an expense parsing assistant for a financial app.
+                The user has provided a natural language description of an expense.
+                User's input: "${prompt}"
+
+                Your task is to extract three pieces of information:
+                1.  A short 'description' of the expense (e.g., "Groceries", "Trader Joe's", "Monthly Rent").
+                2.  The 'amount' of the expense as a number.
+                3.  The 'category' of the expense. You MUST choose one of the following valid categories: ${JSON.stringify(categoryList)}. If the user mentions a category, use it if it's in the list. Otherwise, infer the best fit.
+
+                If the input describes several items that belong to different categories (e.g., "$120 at Costco: $80 groceries, $40 shampoo and towels"), also return 'splits': one entry per category with its 'category' (from the same list) and 'amount'. The split amounts MUST add up to the total 'amount', and 'category' should be the category with the largest share. Omit 'splits' when everything belongs to one category.
+
+                Return ONLY a valid JSON object with 'description', 'amount', 'category' and, when needed, 'splits'. Do not return any other text or explanations.`;
+
+                const expenseDetails = await provider.generateJson({
+                    prompt: modelPrompt,
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            description: { type: 'string', description: 'A short description of the transaction.' },
+                            amount: { type: 'number', description: 'The numerical amount of the expense.' },
+                            category: { type: 'string', enum: categoryList, description: 'The expense category.' },
+                            splits: {
+                                type: 'array',
+                                description: 'Per-category shares when the expense covers several categories.',
+                                minItems: 0,
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        category: { type: 'string', enum: categoryList },
+                                        amount: { type: 'number' },
+                                    },
+                                    required: ['category', 'amount'],
+                                },
+                            },
+                        },
+                        required: ['description', 'amount', 'category'],
+                    },
+                });
+                return res.status(200).json(expenseDetails);
+            }
+
+            case 'getChatTitle': {
+                const { message, reply } = payload as { message: string, reply: string };
+                const prompt = `Write a title of at most six words for a conversation with a personal finance assistant that starts like this.
+
+                User: ${String(message).slice(0, 1000)}
+                Assistant: ${String(reply).slice(0, 1000)}
+
+                Return ONLY the title, with no quotes, Markdown or closing punctuation.`;
+                const text = await provider.generateText({ prompt });
+                const title = text.split('\n')[0].replace(/^["'*#\s]+|["'*.\s]+$/g, '').slice(0, 80);
+                return res.status(200).json({ title });
+            }
+
+            default:
+                return res.status(400).json({ error: 'Invalid action' });
+        }
+    } catch (error) {
+        console.error(`AI Error for action ${action}:`, error);
+        if (error instanceof AIProviderError) {
+            return res.status(error.status).json({ error: `The ${error.provider} AI service could not complete ${action}` });
+        }
+        return res.status(500).json({ error: `An error occurred while processing the action: ${action}` });
+    }
+}
@@ -0,0 +1,131 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AIMessage, AIProviderError, ChatStreamEvent, getProvider } from '../../lib/ai';
+import { formatFinancialContext, loadFinancialContext } from '../../lib/ai/context';
+import { guardAIRoute, reserveAIQuota } from '../../lib/ai/guard';
+import { CHAT_TOOLS } from '../../lib/ai/tools';
+import { withUsageMetering } from '../../lib/ai/usage';
+import { AuthenticatedRequest } from '../../lib/supabase/server';
+
+const CHAT_SYSTEM_PROMPT = 'You are a helpful and knowledgeable personal finance assistant for the FinSmart app. You help users with their financial planning, budgeting and spending questions, and provide savings tips. Keep your answers concise, encouraging, and easy to read.';
+
+const CONTEXT_INSTRUCTIONS = 'Use the financial data below to answer questions about their money, quoting the actual figures. If the data does not cover what they ask, say so instead of guessing.';
+
+const TOOL_INSTRUCTIONS = 'You can record transactions, set category budgets, create savings goals, add to goals and look up spending for any period with the tools provided. Use them when the user asks for one of these. Changes only happen once the user confirms them, so never say a change was made until the tool result comes back, and if the user declines, acknowledge it without retrying.';
+
+// Earlier messages sent along with a chat message
+const CHAT_HISTORY_LIMIT = 30;
+
+// Room for a full history of long messages and tool results
+const MAX_BODY_BYTES = 64 * 1024;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const TOOL_DEFINITIONS = CHAT_TOOLS.map(({ mutating: _mutating, ...definition }) => definition);
+
+/**
+ * Builds the system prompt, grounded in the user's data
+ * A context that fails to load only costs the grounding, not the reply.
+ */
+async function buildSystemPrompt({ supabase, user }: AuthenticatedRequest, today: string): Promise<string> {
+    const instructions = `${CHAT_SYSTEM_PROMPT}\n\n${TOOL_INSTRUCTIONS}`;
+    try {
+        const context = await loadFinancialContext(supabase, user.id, today);
+        return `${instructions}\n\n${CONTEXT_INSTRUCTIONS}\n\n${formatFinancialContext(context)}`;
+    } catch (error) {
+        console.error('Error loading financial context for chat:', error);
+        return instructions;
+    }
+}
+
+/**
+ * Keeps well-formed messages and trims the history to the limit, starting
+ * at a user message so no tool result is left without the call it answers
+ */
+function toConversation(raw: unknown): AIMessage[] {
+    if (!Array.isArray(raw)) return [];
+
+    const messages: AIMessage[] = raw
+        .filter(msg => msg && ['user', 'assistant', 'tool'].includes(msg.role) && typeof msg.content === 'string')
+        .map(msg => ({
+            role: msg.role,
+            content: msg.content,
+            ...(Array.isArray(msg.toolCalls) && { toolCalls: msg.toolCalls }),
+            ...(typeof msg.toolCallId === 'string' && { toolCallId: msg.toolCallId }),
+            ...(typeof msg.toolName === 'string' && { toolName: msg.toolName }),
+        }));
+
+    const recent = messages.slice(-CHAT_HISTORY_LIMIT);
+    const firstUser = recent.findIndex(msg => msg.role === 'user');
+    return firstUser === -1 ? [] : recent.slice(firstUser);
+}
+
+/**
+ * Streams the assistant's reply as newline-delimited JSON ChatStreamEvents:
+ * a delta per piece of text, a tool_call for each tool the model wants run,
+ * then done, or error if generation fails part way. The client runs the
+ * tools and sends the results back as tool messages to continue the turn.
+ * Closing the request stops generation upstream.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const auth = await guardAIRoute(req, res, { maxBodyBytes: MAX_BODY_BYTES });
+    if (!auth) return;
+
+    const { today } = req.body as { today?: string };
+    const messages = toConversation(req.body.messages);
+    const last = messages[messages.length - 1];
+    if (!last || (last.role === 'user' && !last.content.trim()) || last.role === 'assistant') {
+        return res.status(400).json({ error: 'Message is required' });
+    }
+
+    const reservation = await reserveAIQuota(res, auth);
+    if (!reservation) return;
+
+    // The client's local date, so "this month" matches what the user sees
+    const system = await buildSystemPrompt(auth, typeof today === 'string' && DATE_PATTERN.test(today) ? today : new Date().toISOString().slice(0, 10));
+
+    // The client going away (the stop button, a closed tab) cancels the model request
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) abortController.abort();
+    });
+
+    // no-transform keeps the compression middleware from buffering the stream
+    res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no',
+    });
+    const send = (event: ChatStreamEvent) => res.write(JSON.stringify(event) + '\n');
+
+    try {
+        const provider = withUsageMetering(getProvider('chat'), { supabase: auth.supabase, userId: auth.user.id, action: 'chat', reservation });
+        const stream = provider.streamChat({
+            system,
+            messages,
+            tools: TOOL_DEFINITIONS,
+            signal: abortController.signal,
+        });
+
+        for await (const part of stream) {
+            if (abortController.signal.aborted) break;
+            send(part.type === 'text' ? { type: 'delta', text: part.text } : part);
+        }
+        if (!abortController.signal.aborted) send({ type: 'done' });
+    } catch (error) {
+        if (!abortController.signal.aborted) {
+            console.error('AI Chat Error:', error);
+            send({
+                type: 'error',
+                error: error instanceof AIProviderError
+                    ? `The ${error.provider} AI service could not answer right now`
+                    : 'An error occurred while generating a reply',
+            });
+        }
+    }
+
+    res.end();
+}
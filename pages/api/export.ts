@@ -0,0 +1,285 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuthenticatedUser } from '../../lib/supabase/server';
+import {
+    CSV_HEADER,
+    EXPORT_CONTENT_TYPES,
+    ExportFormat,
+    ExportTransaction,
+    OFX_FOOTER,
+    ofxHeader,
+    toCsvRow,
+    toJsonRow,
+    toOfxRow,
+    toStatementDate,
+} from '../../lib/export/formats';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../../lib/export/backup';
+
+// Rows are read and written a page at a time so large histories never sit in memory
+const PAGE_SIZE = 1000;
+// Columns the export formats need; a const so the selected row type follows
+const EXPORT_COLUMNS = 'id, description, amount, category_name, kind, occurred_on, notes, account_id';
+
+export const config = {
+    api: {
+        responseLimit: false,
+    },
+};
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: any }>;
+
+/**
+ * Calls fetchPage for consecutive ranges until a short page comes back
+ */
+async function forEachPage<T>(
+    fetchPage: (from: number, to: number) => PageResult<T>,
+    onPage: (rows: T[]) => void
+): Promise<void> {
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        const rows = data || [];
+        if (rows.length > 0) onPage(rows);
+        if (rows.length < PAGE_SIZE) return;
+    }
+}
+
+function withoutUserId<T extends { user_id: string }>(row: T): Omit<T, 'user_id'> {
+    const { user_id: _userId, ...rest } = row;
+    return rest;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const auth = await getAuthenticatedUser(req);
+    if (!auth) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const { user, supabase } = auth;
+
+    const format = String(req.query.format || 'csv');
+    const from = typeof req.query.from === 'string' ? req.query.from : '';
+    const to = typeof req.query.to === 'string' ? req.query.to : '';
+    const categoryId = typeof req.query.categoryId === 'string' ? req.query.categoryId : '';
+    const timezoneOffset = Number(req.query.tzOffset) || 0;
+
+    if (!['csv', 'json', 'ofx', 'backup'].includes(format)) {
+        return res.status(400).json({ error: 'Format must be csv, json, ofx or backup' });
+    }
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format' });
+    }
+
+    const today = toStatementDate(new Date().toISOString(), timezoneOffset);
+
+    try {
+        if (format === 'backup') {
+            const { data: accounts, error: accountsError } = await supabase
+                .from('accounts')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true });
+            if (accountsError) throw accountsError;
+
+            const { data: categories, error: categoriesError } = await supabase
+                .from('spending_categories')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true });
+            if (categoriesError) throw categoriesError;
+
+            const { data: budgets, error: budgetsError } = await supabase
+                .from('category_budgets')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('month', { ascending: true });
+            if (budgetsError) throw budgetsError;
+
+            const { data: recurring, error: recurringError } = await supabase
+                .from('recurring_transactions')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true });
+            if (recurringError) throw recurringError;
+
+            const { data: goals, error: goalsError } = await supabase
+                .from('financial_goals')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true });
+            if (goalsError) throw goalsError;
+
+            const { data: debts, error: debtsError } = await supabase
+                .from('debts')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true });
+            if (debtsError) throw debtsError;
+
+            res.setHeader('Content-Type', EXPORT_CONTENT_TYPES.json);
+            res.setHeader('Content-Disposition', `attachment; filename="finsmart-backup-${today}.json"`);
+
+            res.write(`{"format":${JSON.stringify(BACKUP_FORMAT)},"version":${BACKUP_VERSION},"exported_at":${JSON.stringify(new Date().toISOString())}`);
+            res.write(`,"accounts":${JSON.stringify((accounts || []).map(withoutUserId))}`);
+            res.write(`,"spending_categories":${JSON.stringify((categories || []).map(withoutUserId))}`);
+            res.write(`,"category_budgets":${JSON.stringify((budgets || []).map(withoutUserId))}`);
+            res.write(`,"recurring_transactions":${JSON.stringify((recurring || []).map(withoutUserId))}`);
+            res.write(`,"financial_goals":${JSON.stringify((goals || []).map(withoutUserId))}`);
+            res.write(`,"debts":${JSON.stringify((debts || []).map(withoutUserId))}`);
+
+            let first = true;
+            const writeRows = (rows: { user_id: string }[]) => {
+                for (const row of rows) {
+                    res.write((first ? '' : ',') + JSON.stringify(withoutUserId(row)));
+                    first = false;
+                }
+            };
+
+            res.write(',"transactions":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('transactions')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            first = true;
+            res.write('],"transaction_splits":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('transaction_splits')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            first = true;
+            res.write('],"goal_contributions":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('goal_contributions')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            first = true;
+            res.write('],"chat_threads":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('chat_threads')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            first = true;
+            res.write('],"chat_messages":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('chat_messages')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            first = true;
+            res.write('],"chat_tool_calls":[');
+            await forEachPage(
+                (start, end) => supabase
+                    .from('chat_tool_calls')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .order('created_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end),
+                writeRows
+            );
+
+            res.end(']}');
+            return;
+        }
+
+        const { data: accounts, error: accountsError } = await supabase
+            .from('accounts')
+            .select('id, name')
+            .eq('user_id', user.id);
+        if (accountsError) throw accountsError;
+        const accountNames = new Map((accounts || []).map(account => [account.id, account.name]));
+
+        const exportFormat = format as ExportFormat;
+        res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[exportFormat]);
+        res.setHeader('Content-Disposition', `attachment; filename="finsmart-transactions-${today}.${exportFormat}"`);
+
+        if (exportFormat === 'csv') res.write(CSV_HEADER);
+        if (exportFormat === 'json') res.write('[');
+        if (exportFormat === 'ofx') res.write(ofxHeader(from || '1970-01-01', to || today));
+
+        let first = true;
+        await forEachPage(
+            (start, end) => {
+                // Split expenses match a category when any of their lines is in it
+                let query = (categoryId
+                    ? supabase.rpc('get_category_transactions', { p_category_id: categoryId }).select(EXPORT_COLUMNS)
+                    : supabase.from('transactions').select(EXPORT_COLUMNS))
+                    .eq('user_id', user.id);
+                if (from) query = query.gte('occurred_on', from);
+                if (to) query = query.lte('occurred_on', to);
+                return query
+                    .order('occurred_on', { ascending: true })
+                    .order('id', { ascending: true })
+                    .range(start, end);
+            },
+            rows => {
+                for (const row of rows) {
+                    const tx: ExportTransaction = {
+                        id: row.id,
+                        date: row.occurred_on,
+                        description: row.description,
+                        notes: row.notes,
+                        amount: row.amount,
+                        category_name: row.category_name,
+                        kind: row.kind,
+                        account_name: row.account_id ? accountNames.get(row.account_id) ?? null : null,
+                    };
+                    if (exportFormat === 'csv') res.write(toCsvRow(tx));
+                    if (exportFormat === 'json') res.write((first ? '' : ',') + toJsonRow(tx));
+                    if (exportFormat === 'ofx') res.write(toOfxRow(tx));
+                    first = false;
+                }
+            }
+        );
+
+        if (exportFormat === 'json') res.write(']');
+        if (exportFormat === 'ofx') res.write(OFX_FOOTER);
+        res.end();
+    } catch (error) {
+        console.error(`Export error for format ${format}:`, error);
+        // Once streaming has started the status can't change, so cut the download short instead
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+        return res.status(500).json({ error: 'An error occurred while exporting your data' });
+    }
+}
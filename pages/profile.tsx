@@ -5,6 +5,8 @@ import { useUser } from '../hooks/useAuth';
 import { supabase } from '../lib/supabase/client';
 import { Button } from '../components/ui/Button';
 import { useToast } from '../components/Toast';
+import DataExport from '../components/DataExport';
+import AIUsage from '../components/AIUsage';
 
 export default function ProfilePage() {
   const { user, loading } = useUser();
@@ -209,6 +211,12 @@ export default function ProfilePage() {
             </Button>
           </form>
         </div>
+
+        {/* AI Usage */}
+        <AIUsage />
+
+        {/* Export and Backup */}
+        <DataExport />
       </div>
     </div>
   );
@@ -0,0 +1,5 @@
+import TransactionLedger from '../components/pages/TransactionLedger';
+
+export default function TransactionsPage() {
+    return <TransactionLedger />;
+}
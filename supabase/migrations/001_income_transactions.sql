@@ -0,0 +1,19 @@
+-- =====================================================
+-- Income Transactions
+-- =====================================================
+-- Adds a kind column so transactions can record income as well as expenses.
+-- Existing rows are treated as expenses.
+-- Execute this in Supabase SQL Editor after 000_complete_migration.sql
+
+-- =====================================================
+-- COLUMNS
+-- =====================================================
+
+ALTER TABLE transactions
+  ADD COLUMN kind TEXT DEFAULT 'expense' NOT NULL CHECK (kind IN ('income', 'expense'));
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_transactions_user_kind_created ON transactions(user_id, kind, created_at DESC);
@@ -0,0 +1,65 @@
+-- =====================================================
+-- Accounts and Balances
+-- =====================================================
+-- Adds bank, credit card and cash accounts with opening balances.
+-- Transactions can be linked to an account so balances are derived from
+-- the account ledger: opening_balance + income - expenses.
+-- Execute this in Supabase SQL Editor after 001_income_transactions.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create accounts table
+CREATE TABLE accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+  opening_balance DECIMAL(12, 2) DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_account UNIQUE(user_id, name)
+);
+
+-- Link transactions to accounts
+ALTER TABLE transactions
+  ADD COLUMN account_id UUID REFERENCES accounts ON DELETE SET NULL;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_accounts_user ON accounts(user_id);
+CREATE INDEX idx_transactions_account ON transactions(account_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_accounts_updated_at
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own accounts"
+  ON accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  USING (auth.uid() = user_id);
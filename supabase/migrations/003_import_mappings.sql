@@ -0,0 +1,57 @@
+-- =====================================================
+-- Statement Import Mapping Presets
+-- =====================================================
+-- Stores CSV column mappings per bank so repeat imports skip the mapping step.
+-- Execute this in Supabase SQL Editor after 002_accounts.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create import_mappings table
+CREATE TABLE import_mappings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  mapping JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_import_mapping UNIQUE(user_id, name)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_import_mappings_user ON import_mappings(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_import_mappings_updated_at
+  BEFORE UPDATE ON import_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own import mappings"
+  ON import_mappings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own import mappings"
+  ON import_mappings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own import mappings"
+  ON import_mappings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own import mappings"
+  ON import_mappings FOR DELETE
+  USING (auth.uid() = user_id);
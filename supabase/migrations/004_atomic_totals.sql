@@ -0,0 +1,64 @@
+-- =====================================================
+-- Atomic Category Totals and Goal Contributions
+-- =====================================================
+-- Moves the spending_categories.value bookkeeping out of the client and into
+-- a trigger on transactions, so the transaction row and the category total
+-- change in the same database transaction. Concurrent inserts no longer lose
+-- updates, and bulk inserts adjust every affected category.
+-- Adds add_goal_contribution() so goal contributions increment in place
+-- instead of reading and rewriting current_amount.
+-- Execute this in Supabase SQL Editor after 003_import_mappings.sql
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Keeps spending_categories.value equal to the sum of its expense transactions.
+-- Runs as the calling user, so row level security still applies.
+CREATE OR REPLACE FUNCTION apply_transaction_to_category_total()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') AND OLD.kind = 'expense' AND OLD.category_id IS NOT NULL THEN
+    UPDATE spending_categories
+    SET value = GREATEST(0, value - OLD.amount)
+    WHERE id = OLD.category_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.kind = 'expense' AND NEW.category_id IS NOT NULL THEN
+    UPDATE spending_categories
+    SET value = value + NEW.amount
+    WHERE id = NEW.category_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_category_total_on_transaction_change
+  AFTER INSERT OR DELETE OR UPDATE OF amount, kind, category_id ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_transaction_to_category_total();
+
+-- Adds an amount to a goal in a single statement and returns the updated goal.
+-- Negative amounts withdraw from the goal; the balance never drops below zero.
+CREATE OR REPLACE FUNCTION add_goal_contribution(p_goal_id UUID, p_amount DECIMAL)
+RETURNS SETOF financial_goals AS $$
+  UPDATE financial_goals
+  SET current_amount = GREATEST(0, current_amount + p_amount)
+  WHERE id = p_goal_id
+    AND user_id = auth.uid()
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- =====================================================
+-- BACKFILL
+-- =====================================================
+
+-- Recompute totals once so categories that drifted through lost updates start out correct
+UPDATE spending_categories sc
+SET value = COALESCE((
+  SELECT SUM(t.amount)
+  FROM transactions t
+  WHERE t.category_id = sc.id
+    AND t.kind = 'expense'
+), 0);
@@ -0,0 +1,88 @@
+-- =====================================================
+-- Monthly Budget Periods
+-- =====================================================
+-- Budgets become per month. A category_budgets row sets a category's budget
+-- from its month onward until a later row replaces it; months before the
+-- first row fall back to spending_categories.budget.
+-- Spending per month is derived from transactions by
+-- get_monthly_category_spending(), so it resets every month.
+-- Categories with rollover enabled carry unspent (or overspent) amounts
+-- into the next month.
+-- Execute this in Supabase SQL Editor after 004_atomic_totals.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE spending_categories
+  ADD COLUMN rollover BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Create category_budgets table
+CREATE TABLE category_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES spending_categories ON DELETE CASCADE NOT NULL,
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_category_budget_month UNIQUE(category_id, month)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_category_budgets_user_month ON category_budgets(user_id, month);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_category_budgets_updated_at
+  BEFORE UPDATE ON category_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Sums the calling user's expenses per category per calendar month in
+-- [p_start, p_end), with month boundaries taken in the user's time zone
+CREATE OR REPLACE FUNCTION get_monthly_category_spending(
+  p_start DATE,
+  p_end DATE,
+  p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (category_id UUID, month DATE, spent DECIMAL) AS $$
+  SELECT
+    t.category_id,
+    date_trunc('month', t.created_at AT TIME ZONE p_time_zone)::DATE AS month,
+    SUM(t.amount) AS spent
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND t.kind = 'expense'
+    AND t.category_id IS NOT NULL
+    AND t.created_at >= (p_start::TIMESTAMP AT TIME ZONE p_time_zone)
+    AND t.created_at < (p_end::TIMESTAMP AT TIME ZONE p_time_zone)
+  GROUP BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE category_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own category budgets"
+  ON category_budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own category budgets"
+  ON category_budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own category budgets"
+  ON category_budgets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own category budgets"
+  ON category_budgets FOR DELETE
+  USING (auth.uid() = user_id);
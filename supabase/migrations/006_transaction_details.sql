@@ -0,0 +1,61 @@
+-- =====================================================
+-- Editable Transactions: Dates and Notes
+-- =====================================================
+-- Adds occurred_on, the day the money actually moved (separate from
+-- created_at, when the row was recorded), and free-text notes.
+-- Adds the missing UPDATE policy so transactions can be edited; category
+-- totals follow edits through the trigger from 004_atomic_totals.sql.
+-- Monthly budget spending is now bucketed by occurred_on.
+-- Execute this in Supabase SQL Editor after 005_budget_periods.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE transactions
+  ADD COLUMN occurred_on DATE,
+  ADD COLUMN notes TEXT;
+
+-- Existing transactions happened on the day they were recorded
+UPDATE transactions SET occurred_on = created_at::DATE;
+
+ALTER TABLE transactions
+  ALTER COLUMN occurred_on SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN occurred_on SET NOT NULL;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_transactions_user_occurred ON transactions(user_id, occurred_on DESC, created_at DESC);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Spending months follow the transaction date, so no time zone is needed
+DROP FUNCTION get_monthly_category_spending(DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION get_monthly_category_spending(p_start DATE, p_end DATE)
+RETURNS TABLE (category_id UUID, month DATE, spent DECIMAL) AS $$
+  SELECT
+    t.category_id,
+    date_trunc('month', t.occurred_on)::DATE AS month,
+    SUM(t.amount) AS spent
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND t.kind = 'expense'
+    AND t.category_id IS NOT NULL
+    AND t.occurred_on >= p_start
+    AND t.occurred_on < p_end
+  GROUP BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+CREATE POLICY "Users can update own transactions"
+  ON transactions FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
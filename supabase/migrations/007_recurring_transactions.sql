@@ -0,0 +1,144 @@
+-- =====================================================
+-- Recurring Transactions
+-- =====================================================
+-- Adds recurring_transactions: rules for rent, subscriptions, salaries and
+-- other amounts that repeat on a fixed cadence. Each rule remembers the
+-- next date it is due; materialize_recurring_transactions() turns every
+-- occurrence that has come due into a row in transactions and moves
+-- next_due forward. The app calls it with the user's local date when it
+-- loads, so nothing is missed while it is closed.
+-- transactions.recurring_id links an occurrence to its rule, and a unique
+-- index on (recurring_id, occurred_on) keeps an occurrence from being
+-- recorded twice.
+-- Execute this in Supabase SQL Editor after 006_transaction_details.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create recurring_transactions table
+CREATE TABLE recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES accounts ON DELETE SET NULL,
+  category_id UUID REFERENCES spending_categories ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  category_name TEXT NOT NULL,
+  kind TEXT DEFAULT 'expense' NOT NULL CHECK (kind IN ('income', 'expense')),
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly')),
+  -- Occurrences are counted from start_date so month-end dates don't drift (Jan 31, Feb 29, Mar 31)
+  start_date DATE NOT NULL,
+  next_due DATE NOT NULL,
+  active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT next_due_after_start CHECK (next_due >= start_date)
+);
+
+ALTER TABLE transactions
+  ADD COLUMN recurring_id UUID REFERENCES recurring_transactions ON DELETE SET NULL;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_recurring_transactions_user_due ON recurring_transactions(user_id, next_due) WHERE active;
+CREATE UNIQUE INDEX idx_transactions_recurring_occurrence ON transactions(recurring_id, occurred_on) WHERE recurring_id IS NOT NULL;
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_recurring_transactions_updated_at
+  BEFORE UPDATE ON recurring_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Date of the p_index-th occurrence of a rule (0 is start_date)
+CREATE OR REPLACE FUNCTION recurring_occurrence_date(p_start DATE, p_cadence TEXT, p_index INTEGER)
+RETURNS DATE AS $$
+  SELECT CASE p_cadence
+    WHEN 'weekly' THEN p_start + 7 * p_index
+    WHEN 'biweekly' THEN p_start + 14 * p_index
+    WHEN 'monthly' THEN (p_start + make_interval(months => p_index))::DATE
+    WHEN 'quarterly' THEN (p_start + make_interval(months => 3 * p_index))::DATE
+    WHEN 'yearly' THEN (p_start + make_interval(years => p_index))::DATE
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Records every occurrence of the calling user's active rules due on or before
+-- p_through and advances each rule's next_due. Rules are locked while they are
+-- processed, so two tabs calling this at once can't record an occurrence twice.
+-- Returns the number of transactions created.
+CREATE OR REPLACE FUNCTION materialize_recurring_transactions(p_through DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  r recurring_transactions%ROWTYPE;
+  v_index INTEGER;
+  v_due DATE;
+  v_created INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM recurring_transactions
+    WHERE user_id = auth.uid()
+      AND active
+      AND next_due <= p_through
+    FOR UPDATE
+  LOOP
+    -- Find which occurrence next_due is, counting from start_date
+    v_index := 0;
+    v_due := r.start_date;
+    WHILE v_due < r.next_due LOOP
+      v_index := v_index + 1;
+      v_due := recurring_occurrence_date(r.start_date, r.cadence, v_index);
+    END LOOP;
+
+    WHILE v_due <= p_through LOOP
+      INSERT INTO transactions (
+        user_id, account_id, category_id, description, amount,
+        category_name, kind, occurred_on, recurring_id
+      )
+      VALUES (
+        r.user_id, r.account_id, r.category_id, r.description, r.amount,
+        r.category_name, r.kind, v_due, r.id
+      )
+      ON CONFLICT (recurring_id, occurred_on) WHERE recurring_id IS NOT NULL DO NOTHING;
+
+      IF FOUND THEN
+        v_created := v_created + 1;
+      END IF;
+
+      v_index := v_index + 1;
+      v_due := recurring_occurrence_date(r.start_date, r.cadence, v_index);
+    END LOOP;
+
+    UPDATE recurring_transactions SET next_due = v_due WHERE id = r.id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring transactions"
+  ON recurring_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring transactions"
+  ON recurring_transactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring transactions"
+  ON recurring_transactions FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring transactions"
+  ON recurring_transactions FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,209 @@
+-- =====================================================
+-- Split Transactions
+-- =====================================================
+-- Adds transaction_splits so one expense can be spread over several
+-- categories (a Costco receipt that is part groceries, part household).
+-- A split transaction has no category of its own (category_id is NULL and
+-- category_name is 'Split'); each split line carries a category and an
+-- amount, and the lines must add up to the transaction amount. The check
+-- is deferred to commit so set_transaction_splits() can change the amount
+-- and the lines together.
+-- Category totals and monthly spending count split lines in place of the
+-- transaction they belong to.
+-- Execute this in Supabase SQL Editor after 007_recurring_transactions.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create transaction_splits table
+CREATE TABLE transaction_splits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  transaction_id UUID REFERENCES transactions ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES spending_categories ON DELETE SET NULL,
+  category_name TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_transaction_splits_transaction ON transaction_splits(transaction_id);
+CREATE INDEX idx_transaction_splits_user_category ON transaction_splits(user_id, category_id);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Keeps spending_categories.value in step with split lines, the same way
+-- apply_transaction_to_category_total() does for whole transactions
+CREATE OR REPLACE FUNCTION apply_split_to_category_total()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') AND OLD.category_id IS NOT NULL THEN
+    UPDATE spending_categories
+    SET value = GREATEST(0, value - OLD.amount)
+    WHERE id = OLD.category_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.category_id IS NOT NULL THEN
+    UPDATE spending_categories
+    SET value = value + NEW.amount
+    WHERE id = NEW.category_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_category_total_on_split_change
+  AFTER INSERT OR DELETE OR UPDATE OF amount, category_id ON transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_split_to_category_total();
+
+-- Rejects a transaction whose split lines don't add up to its amount, split
+-- lines on anything other than an expense, and a split transaction that is
+-- also given a category of its own (it would be counted twice). Runs at commit.
+CREATE OR REPLACE FUNCTION check_transaction_splits()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_amount DECIMAL;
+  v_kind TEXT;
+  v_category_id UUID;
+  v_split_total DECIMAL;
+  v_split_count INTEGER;
+BEGIN
+  IF TG_TABLE_NAME = 'transactions' THEN
+    v_transaction_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_transaction_id := OLD.transaction_id;
+  ELSE
+    v_transaction_id := NEW.transaction_id;
+  END IF;
+
+  SELECT t.amount, t.kind, t.category_id, COALESCE(SUM(s.amount), 0), COUNT(s.id)
+  INTO v_amount, v_kind, v_category_id, v_split_total, v_split_count
+  FROM transactions t
+  LEFT JOIN transaction_splits s ON s.transaction_id = t.id
+  WHERE t.id = v_transaction_id
+  GROUP BY t.id;
+
+  -- The transaction itself was deleted, taking its splits with it
+  IF NOT FOUND OR v_split_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_kind <> 'expense' THEN
+    RAISE EXCEPTION 'Only expenses can be split';
+  END IF;
+
+  IF v_category_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A split transaction can''t also have a category';
+  END IF;
+
+  IF v_split_total <> v_amount THEN
+    RAISE EXCEPTION 'Split amounts (%) must add up to the transaction amount (%)', v_split_total, v_amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER check_splits_on_split_change
+  AFTER INSERT OR DELETE OR UPDATE ON transaction_splits
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_transaction_splits();
+
+CREATE CONSTRAINT TRIGGER check_splits_on_transaction_change
+  AFTER UPDATE OF amount, kind, category_id ON transactions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_transaction_splits();
+
+-- Replaces a transaction's split lines and sets its amount in one step.
+-- p_splits is a JSON array of {category_id, category_name, amount}; an empty
+-- array removes the split, after which the caller gives the transaction a
+-- category again. The transaction row is always touched so real-time
+-- subscribers see the change.
+CREATE OR REPLACE FUNCTION set_transaction_splits(p_transaction_id UUID, p_amount DECIMAL, p_splits JSONB)
+RETURNS SETOF transaction_splits AS $$
+BEGIN
+  PERFORM 1 FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  INSERT INTO transaction_splits (user_id, transaction_id, category_id, category_name, amount)
+  SELECT auth.uid(), p_transaction_id, (line->>'category_id')::UUID, line->>'category_name', (line->>'amount')::DECIMAL
+  FROM jsonb_array_elements(p_splits) AS line;
+
+  UPDATE transactions
+  SET amount = p_amount,
+      category_id = CASE WHEN jsonb_array_length(p_splits) > 0 THEN NULL ELSE category_id END,
+      category_name = CASE WHEN jsonb_array_length(p_splits) > 0 THEN 'Split' ELSE category_name END
+  WHERE id = p_transaction_id;
+
+  RETURN QUERY SELECT * FROM transaction_splits WHERE transaction_id = p_transaction_id ORDER BY amount DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Monthly spending now counts split lines under their own categories
+CREATE OR REPLACE FUNCTION get_monthly_category_spending(p_start DATE, p_end DATE)
+RETURNS TABLE (category_id UUID, month DATE, spent DECIMAL) AS $$
+  SELECT lines.category_id, lines.month, SUM(lines.amount) AS spent
+  FROM (
+    SELECT t.category_id, date_trunc('month', t.occurred_on)::DATE AS month, t.amount
+    FROM transactions t
+    WHERE t.user_id = auth.uid()
+      AND t.kind = 'expense'
+      AND t.category_id IS NOT NULL
+      AND t.occurred_on >= p_start
+      AND t.occurred_on < p_end
+
+    UNION ALL
+
+    SELECT s.category_id, date_trunc('month', t.occurred_on)::DATE AS month, s.amount
+    FROM transaction_splits s
+    JOIN transactions t ON t.id = s.transaction_id
+    WHERE t.user_id = auth.uid()
+      AND t.kind = 'expense'
+      AND s.category_id IS NOT NULL
+      AND t.occurred_on >= p_start
+      AND t.occurred_on < p_end
+  ) AS lines
+  GROUP BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction splits"
+  ON transaction_splits FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transaction splits"
+  ON transaction_splits FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transaction splits"
+  ON transaction_splits FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transaction splits"
+  ON transaction_splits FOR DELETE
+  USING (auth.uid() = user_id);
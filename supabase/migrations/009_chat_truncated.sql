@@ -0,0 +1,14 @@
+-- =====================================================
+-- Stopped Chat Replies
+-- =====================================================
+-- Chat replies now stream in and can be stopped part way. The partial
+-- reply is kept, flagged with truncated so the chat can show that it
+-- was cut short.
+-- Execute this in Supabase SQL Editor after 008_split_transactions.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE chat_messages
+  ADD COLUMN truncated BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,64 @@
+-- =====================================================
+-- Chat Tool Calls
+-- =====================================================
+-- Adds chat_tool_calls, a record of every tool the chat assistant asked to
+-- run (recording a transaction, setting a budget, creating or funding a
+-- goal, looking up spending). Each row belongs to the assistant message
+-- that made the request and tracks whether the user confirmed it and what
+-- it returned. Changes to the user's data still go through the app's usual
+-- tables and policies; this table is the audit trail.
+-- Execute this in Supabase SQL Editor after 009_chat_truncated.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create chat_tool_calls table
+CREATE TABLE chat_tool_calls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  message_id UUID REFERENCES chat_messages ON DELETE CASCADE NOT NULL,
+  -- The id the AI provider gave the call, echoed back with its result
+  call_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  arguments JSONB DEFAULT '{}' NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'declined', 'succeeded', 'failed')),
+  result JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_chat_tool_calls_message ON chat_tool_calls(message_id);
+CREATE INDEX idx_chat_tool_calls_user_created ON chat_tool_calls(user_id, created_at DESC);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_chat_tool_calls_updated_at
+  BEFORE UPDATE ON chat_tool_calls
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE chat_tool_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat tool calls"
+  ON chat_tool_calls FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat tool calls"
+  ON chat_tool_calls FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat tool calls"
+  ON chat_tool_calls FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,141 @@
+-- =====================================================
+-- Chat Threads
+-- =====================================================
+-- Splits chat history into separate conversations. Every chat message now
+-- belongs to a chat_threads row with a title; last_message_at is bumped by
+-- a trigger so the thread list sorts by recent activity. Existing messages
+-- are moved into one "Earlier conversation" thread per user.
+-- Also adds the DELETE policies chat history never had (deleting did
+-- nothing under row level security), and search_chat_messages() for full
+-- text search across a user's conversations.
+-- Execute this in Supabase SQL Editor after 010_chat_tool_calls.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create chat_threads table
+CREATE TABLE chat_threads (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  last_message_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE chat_messages
+  ADD COLUMN thread_id UUID REFERENCES chat_threads ON DELETE CASCADE;
+
+-- Move existing history into one thread per user
+INSERT INTO chat_threads (user_id, title, last_message_at, created_at)
+SELECT user_id, 'Earlier conversation', MAX(created_at), MIN(created_at)
+FROM chat_messages
+GROUP BY user_id;
+
+UPDATE chat_messages m
+SET thread_id = t.id
+FROM chat_threads t
+WHERE t.user_id = m.user_id;
+
+ALTER TABLE chat_messages
+  ALTER COLUMN thread_id SET NOT NULL;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_chat_threads_user_last_message ON chat_threads(user_id, last_message_at DESC);
+CREATE INDEX idx_chat_messages_thread_created ON chat_messages(thread_id, created_at DESC);
+CREATE INDEX idx_chat_messages_search ON chat_messages USING GIN (to_tsvector('english', content));
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_chat_threads_updated_at
+  BEFORE UPDATE ON chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Keeps chat_threads.last_message_at at the newest message. GREATEST lets
+-- restored messages with old timestamps leave it alone.
+CREATE OR REPLACE FUNCTION touch_chat_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chat_threads
+  SET last_message_at = GREATEST(last_message_at, NEW.created_at)
+  WHERE id = NEW.thread_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_chat_thread_on_message
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_chat_thread();
+
+-- Full text search over the caller's chat messages, best matches first.
+-- p_query takes web search syntax ("quoted phrases", -excluded, or).
+CREATE OR REPLACE FUNCTION search_chat_messages(p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  message_id UUID,
+  thread_id UUID,
+  thread_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    m.id,
+    m.thread_id,
+    t.title,
+    m.role,
+    ts_headline('english', m.content, q, 'StartSel=**, StopSel=**, MaxWords=20, MinWords=8'),
+    m.created_at
+  FROM chat_messages m
+  JOIN chat_threads t ON t.id = m.thread_id
+  CROSS JOIN websearch_to_tsquery('english', p_query) q
+  WHERE m.user_id = auth.uid()
+    AND to_tsvector('english', m.content) @@ q
+  ORDER BY ts_rank(to_tsvector('english', m.content), q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat threads"
+  ON chat_threads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat threads"
+  ON chat_threads FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat threads"
+  ON chat_threads FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat threads"
+  ON chat_threads FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Messages may only go into the user's own threads
+DROP POLICY "Users can insert own messages" ON chat_messages;
+
+CREATE POLICY "Users can insert own messages"
+  ON chat_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own messages"
+  ON chat_messages FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,102 @@
+-- =====================================================
+-- AI Usage Metering and Quotas
+-- =====================================================
+-- Adds ai_usage, one row per model call the API routes make on a user's
+-- behalf (action, provider, model, token counts when the provider reports
+-- them, latency and whether it succeeded), and ai_quotas for users whose
+-- monthly allowance of AI requests differs from the app default.
+-- The API routes record usage with the user's own session. Rows can't be
+-- updated or deleted, so usage can't be erased to get around a quota.
+-- Quotas are set by an administrator in the SQL Editor:
+--   INSERT INTO ai_quotas (user_id, monthly_calls) VALUES ('<user id>', 1000)
+--   ON CONFLICT (user_id) DO UPDATE SET monthly_calls = EXCLUDED.monthly_calls;
+-- Execute this in Supabase SQL Editor after 011_chat_threads.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create ai_usage table
+CREATE TABLE ai_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  action TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER CHECK (input_tokens >= 0),
+  output_tokens INTEGER CHECK (output_tokens >= 0),
+  latency_ms INTEGER NOT NULL CHECK (latency_ms >= 0),
+  success BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create ai_quotas table
+CREATE TABLE ai_quotas (
+  user_id UUID PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  monthly_calls INTEGER NOT NULL CHECK (monthly_calls >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_ai_usage_user_created ON ai_usage(user_id, created_at DESC);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_ai_quotas_updated_at
+  BEFORE UPDATE ON ai_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Totals the caller's usage since p_since by action, provider and model,
+-- the grain needed to price it
+CREATE OR REPLACE FUNCTION get_ai_usage_summary(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  action TEXT,
+  provider TEXT,
+  model TEXT,
+  calls BIGINT,
+  failed_calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  average_latency_ms NUMERIC
+) AS $$
+  SELECT
+    u.action,
+    u.provider,
+    u.model,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT u.success),
+    COALESCE(SUM(u.input_tokens), 0),
+    COALESCE(SUM(u.output_tokens), 0),
+    ROUND(AVG(u.latency_ms))
+  FROM ai_usage u
+  WHERE u.user_id = auth.uid()
+    AND u.created_at >= p_since
+  GROUP BY 1, 2, 3
+  ORDER BY 4 DESC;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ai usage"
+  ON ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own ai usage"
+  ON ai_usage FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own ai quota"
+  ON ai_quotas FOR SELECT
+  USING (auth.uid() = user_id);
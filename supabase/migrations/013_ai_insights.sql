@@ -0,0 +1,48 @@
+-- =====================================================
+-- AI Insight Cache
+-- =====================================================
+-- Adds ai_insights, which keeps every tips list, insight and plan generated
+-- for a user along with a hash of the data it was generated from. The app
+-- reuses the newest row for a snapshot until the data changes materially
+-- instead of calling the model on every page visit, and lists past rows
+-- as insight history.
+-- Execute this in Supabase SQL Editor after 012_ai_usage.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create ai_insights table
+CREATE TABLE ai_insights (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('tips', 'insight', 'plan')),
+  snapshot_hash TEXT NOT NULL,
+  content JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_ai_insights_user_kind_created ON ai_insights(user_id, kind, created_at DESC);
+CREATE INDEX idx_ai_insights_user_kind_snapshot ON ai_insights(user_id, kind, snapshot_hash);
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE ai_insights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ai insights"
+  ON ai_insights FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own ai insights"
+  ON ai_insights FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own ai insights"
+  ON ai_insights FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,83 @@
+-- =====================================================
+-- Financial Plans
+-- =====================================================
+-- Adds financial_plans, where every personalized plan the assistant writes
+-- is kept as a Markdown document. Each new plan is the user's next version
+-- (numbered by a trigger), so earlier plans stay available as history.
+-- Plans cached in ai_insights by 013_ai_insights.sql are moved here, and
+-- ai_insights goes back to holding only tips and insights.
+-- Execute this in Supabase SQL Editor after 013_ai_insights.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create financial_plans table
+CREATE TABLE financial_plans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, version)
+);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Numbers a new plan after the user's latest one unless a version is given
+CREATE OR REPLACE FUNCTION set_financial_plan_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1
+    INTO NEW.version
+    FROM financial_plans
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_financial_plan_version_on_insert
+  BEFORE INSERT ON financial_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION set_financial_plan_version();
+
+-- Move cached plans over, oldest first
+INSERT INTO financial_plans (user_id, version, title, content, created_at)
+SELECT
+  user_id,
+  ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at),
+  'Financial plan for ' || TO_CHAR(created_at, 'FMMonth YYYY'),
+  content->>'text',
+  created_at
+FROM ai_insights
+WHERE kind = 'plan' AND content->>'text' IS NOT NULL;
+
+DELETE FROM ai_insights WHERE kind = 'plan';
+
+ALTER TABLE ai_insights
+  DROP CONSTRAINT ai_insights_kind_check,
+  ADD CONSTRAINT ai_insights_kind_check CHECK (kind IN ('tips', 'insight'));
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE financial_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own financial plans"
+  ON financial_plans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own financial plans"
+  ON financial_plans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own financial plans"
+  ON financial_plans FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,154 @@
+-- =====================================================
+-- Goal Target Dates and Contributions
+-- =====================================================
+-- Replaces financial_goals.months_remaining, which was entered once and
+-- never counted down, with a target_date. Existing goals get the date their
+-- timeframe ran to from when they were created.
+-- Adds goal_contributions, a ledger of every amount added to or withdrawn
+-- from a goal (date, optional source account, note). A trigger keeps
+-- financial_goals.current_amount equal to the ledger total, so deleting a
+-- contribution undoes it. Balances saved before the ledger existed are
+-- recorded as one opening contribution per goal.
+-- add_goal_contribution() now records a contribution and returns it.
+-- Execute this in Supabase SQL Editor after 014_financial_plans.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE financial_goals ADD COLUMN target_date DATE;
+
+UPDATE financial_goals
+SET target_date = (created_at + make_interval(months => GREATEST(months_remaining, 1)))::DATE;
+
+ALTER TABLE financial_goals
+  ALTER COLUMN target_date SET NOT NULL,
+  DROP COLUMN months_remaining,
+  ADD CONSTRAINT financial_goals_current_amount_check CHECK (current_amount >= 0);
+
+-- Create goal_contributions table
+CREATE TABLE goal_contributions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  goal_id UUID REFERENCES financial_goals ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES accounts ON DELETE SET NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount <> 0), -- Negative for withdrawals
+  contributed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT CHECK (char_length(note) <= 200),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_goal_contributions_goal ON goal_contributions(goal_id, contributed_on);
+CREATE INDEX idx_goal_contributions_user ON goal_contributions(user_id);
+
+-- =====================================================
+-- BACKFILL
+-- =====================================================
+
+-- Runs before the trigger exists, since these balances are already counted
+INSERT INTO goal_contributions (user_id, goal_id, amount, contributed_on, note, created_at)
+SELECT user_id, id, current_amount, created_at::DATE, 'Saved before contribution history', created_at
+FROM financial_goals
+WHERE current_amount > 0;
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Keeps financial_goals.current_amount equal to the sum of its contributions.
+-- Deleting a deposit that has since been withdrawn would take the goal below
+-- zero, so that is refused.
+CREATE OR REPLACE FUNCTION apply_contribution_to_goal()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance DECIMAL;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE financial_goals
+    SET current_amount = current_amount + NEW.amount,
+        updated_at = NOW()
+    WHERE id = NEW.goal_id
+    RETURNING current_amount INTO v_balance;
+  ELSE
+    UPDATE financial_goals
+    SET current_amount = current_amount - OLD.amount,
+        updated_at = NOW()
+    WHERE id = OLD.goal_id
+    RETURNING current_amount INTO v_balance;
+  END IF;
+
+  -- v_balance is NULL when the goal itself is being deleted
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'This would take the goal below zero; undo the later withdrawals first';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_goal_on_contribution_change
+  AFTER INSERT OR DELETE ON goal_contributions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_contribution_to_goal();
+
+-- Records a contribution and returns it. Negative amounts withdraw from the
+-- goal; a withdrawal larger than the balance takes out what is there.
+DROP FUNCTION add_goal_contribution(UUID, DECIMAL);
+
+CREATE OR REPLACE FUNCTION add_goal_contribution(
+  p_goal_id UUID,
+  p_amount DECIMAL,
+  p_contributed_on DATE DEFAULT CURRENT_DATE,
+  p_account_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF goal_contributions AS $$
+DECLARE
+  v_amount DECIMAL;
+BEGIN
+  SELECT GREATEST(p_amount, -current_amount)
+  INTO v_amount
+  FROM financial_goals
+  WHERE id = p_goal_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_amount = 0 THEN
+    RAISE EXCEPTION 'There is nothing saved in this goal to withdraw';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO goal_contributions (user_id, goal_id, account_id, amount, contributed_on, note)
+  VALUES (auth.uid(), p_goal_id, p_account_id, v_amount, p_contributed_on, NULLIF(TRIM(p_note), ''))
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE goal_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal contributions"
+  ON goal_contributions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal contributions"
+  ON goal_contributions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM financial_goals g WHERE g.id = goal_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own goal contributions"
+  ON goal_contributions FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,192 @@
+-- =====================================================
+-- Goal Funding Rules
+-- =====================================================
+-- Adds goal_funding_rules: standing instructions to save towards a goal
+-- without recording each contribution by hand. A rule is one of
+--   fixed_monthly      amount dollars every month, on the day the rule started
+--   percent_of_income  amount percent of every income transaction
+--   round_up           every expense rounded up to the next dollar
+-- apply_goal_funding_rules() records the contributions the calling user's
+-- active rules have earned, the same way materialize_recurring_transactions()
+-- records due transactions. The app calls it when it loads and whenever a
+-- transaction is recorded.
+-- Monthly rules remember the next date they are due, counted from the day
+-- they started. Income and round-up rules look at transactions recorded
+-- since they last ran, so each transaction counts once and an undone
+-- contribution stays undone.
+-- goal_contributions.funding_rule_id and source_key (the due date or the
+-- transaction id) keep a contribution from being recorded twice. Rules stop
+-- contributing once their goal reaches its target.
+-- Execute this in Supabase SQL Editor after 015_goal_contributions.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create goal_funding_rules table
+CREATE TABLE goal_funding_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  goal_id UUID REFERENCES financial_goals ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES accounts ON DELETE SET NULL, -- Recorded as the source of each contribution
+  kind TEXT NOT NULL CHECK (kind IN ('fixed_monthly', 'percent_of_income', 'round_up')),
+  -- Dollars a month for fixed_monthly, percent for percent_of_income, unused for round_up
+  amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  start_date DATE, -- fixed_monthly only; occurrences are counted from it so month-end days don't drift
+  next_due DATE, -- fixed_monthly only
+  transactions_since TIMESTAMPTZ DEFAULT NOW() NOT NULL, -- Transactions recorded after this still count
+  active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (goal_id, kind),
+  CONSTRAINT funding_rule_amount CHECK (
+    (kind = 'fixed_monthly' AND amount > 0 AND start_date IS NOT NULL AND next_due >= start_date)
+    OR (kind = 'percent_of_income' AND amount > 0 AND amount <= 100)
+    OR kind = 'round_up'
+  )
+);
+
+ALTER TABLE goal_contributions
+  ADD COLUMN funding_rule_id UUID REFERENCES goal_funding_rules ON DELETE SET NULL,
+  ADD COLUMN source_key TEXT;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_goal_funding_rules_user ON goal_funding_rules(user_id) WHERE active;
+CREATE UNIQUE INDEX idx_goal_contributions_rule_source ON goal_contributions(funding_rule_id, source_key) WHERE funding_rule_id IS NOT NULL;
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_goal_funding_rules_updated_at
+  BEFORE UPDATE ON goal_funding_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Records the contributions the calling user's active rules have earned up to
+-- p_through (the user's local date). Rules are locked while they are
+-- processed, so two tabs calling this at once can't record anything twice.
+-- Returns the number of contributions created.
+CREATE OR REPLACE FUNCTION apply_goal_funding_rules(p_through DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  r goal_funding_rules%ROWTYPE;
+  tx RECORD;
+  v_started TIMESTAMPTZ := NOW();
+  v_remaining DECIMAL;
+  v_amount DECIMAL;
+  v_due DATE;
+  v_index INTEGER;
+  v_created INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM goal_funding_rules
+    WHERE user_id = auth.uid()
+      AND active
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT target_amount - current_amount INTO v_remaining
+    FROM financial_goals
+    WHERE id = r.goal_id;
+
+    IF r.kind = 'fixed_monthly' THEN
+      -- Find which occurrence next_due is, counting from start_date
+      v_index := 0;
+      v_due := r.start_date;
+      WHILE v_due < r.next_due LOOP
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      WHILE v_due <= p_through AND v_remaining > 0 LOOP
+        v_amount := LEAST(r.amount, v_remaining);
+        INSERT INTO goal_contributions (user_id, goal_id, account_id, amount, contributed_on, note, funding_rule_id, source_key)
+        VALUES (r.user_id, r.goal_id, r.account_id, v_amount, v_due, 'Monthly saving', r.id, v_due::TEXT)
+        ON CONFLICT (funding_rule_id, source_key) WHERE funding_rule_id IS NOT NULL DO NOTHING;
+
+        IF FOUND THEN
+          v_created := v_created + 1;
+          v_remaining := v_remaining - v_amount;
+        END IF;
+
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      -- A goal that reached its target skips the months it didn't need
+      WHILE v_due <= p_through LOOP
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      UPDATE goal_funding_rules SET next_due = v_due WHERE id = r.id;
+    ELSE
+      FOR tx IN
+        SELECT id, description, amount, occurred_on
+        FROM transactions
+        WHERE user_id = r.user_id
+          AND kind = CASE WHEN r.kind = 'percent_of_income' THEN 'income' ELSE 'expense' END
+          AND created_at > r.transactions_since
+          AND created_at <= v_started
+        ORDER BY occurred_on, created_at
+      LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        v_amount := CASE
+          WHEN r.kind = 'percent_of_income' THEN ROUND(tx.amount * r.amount / 100, 2)
+          ELSE CEIL(tx.amount) - tx.amount
+        END;
+        v_amount := LEAST(v_amount, v_remaining);
+        CONTINUE WHEN v_amount <= 0;
+
+        INSERT INTO goal_contributions (user_id, goal_id, account_id, amount, contributed_on, note, funding_rule_id, source_key)
+        VALUES (
+          r.user_id, r.goal_id, r.account_id, v_amount, tx.occurred_on,
+          LEFT(CASE WHEN r.kind = 'percent_of_income' THEN (r.amount::FLOAT)::TEXT || '% of ' ELSE 'Round-up of ' END || tx.description, 200),
+          r.id, tx.id::TEXT
+        )
+        ON CONFLICT (funding_rule_id, source_key) WHERE funding_rule_id IS NOT NULL DO NOTHING;
+
+        IF FOUND THEN
+          v_created := v_created + 1;
+          v_remaining := v_remaining - v_amount;
+        END IF;
+      END LOOP;
+
+      UPDATE goal_funding_rules SET transactions_since = v_started WHERE id = r.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE goal_funding_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal funding rules"
+  ON goal_funding_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal funding rules"
+  ON goal_funding_rules FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM financial_goals g WHERE g.id = goal_id AND g.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own goal funding rules"
+  ON goal_funding_rules FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goal funding rules"
+  ON goal_funding_rules FOR DELETE
+  USING (auth.uid() = user_id);
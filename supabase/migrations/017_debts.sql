@@ -0,0 +1,65 @@
+-- =====================================================
+-- Debts
+-- =====================================================
+-- Adds debts: loans and card balances the user is paying down, with their
+-- APR, minimum monthly payment and the day of the month it is due.
+-- payoff_order is the user's own order for paying debts off, used by the
+-- planner's custom strategy alongside avalanche and snowball.
+-- Execute this in Supabase SQL Editor after 016_goal_funding_rules.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create debts table
+CREATE TABLE debts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  balance DECIMAL(12, 2) NOT NULL CHECK (balance >= 0),
+  apr DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (apr >= 0 AND apr <= 100), -- Annual percentage rate
+  minimum_payment DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (minimum_payment >= 0),
+  due_day SMALLINT NOT NULL DEFAULT 1 CHECK (due_day BETWEEN 1 AND 31),
+  payoff_order INTEGER, -- Position in the user's custom payoff order; NULL goes last
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_debt UNIQUE(user_id, name)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_debts_user ON debts(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_debts_updated_at
+  BEFORE UPDATE ON debts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own debts"
+  ON debts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own debts"
+  ON debts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own debts"
+  ON debts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own debts"
+  ON debts FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,71 @@
+-- =====================================================
+-- Projection Scenarios
+-- =====================================================
+-- Adds projection_scenarios: named what-ifs for the long-term savings
+-- projection, so users can keep several and compare them on one chart.
+-- A scenario starts from what is saved in goals, the balance of savings
+-- accounts, or an amount the user enters, and grows by a monthly
+-- contribution that rises each year. Returns are taxed at tax_rate, and
+-- inflation_rate turns the result back into today's dollars.
+-- Execute this in Supabase SQL Editor after 017_debts.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create projection_scenarios table
+CREATE TABLE projection_scenarios (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  starting_balance_source TEXT NOT NULL DEFAULT 'goals'
+    CHECK (starting_balance_source IN ('goals', 'savings_accounts', 'custom')),
+  starting_balance DECIMAL(14, 2) NOT NULL DEFAULT 0 CHECK (starting_balance >= 0), -- Used when the source is custom
+  monthly_contribution DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (monthly_contribution >= 0),
+  contribution_growth DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (contribution_growth BETWEEN 0 AND 50), -- % a year
+  annual_return DECIMAL(5, 2) NOT NULL DEFAULT 5 CHECK (annual_return BETWEEN -50 AND 50), -- %
+  inflation_rate DECIMAL(5, 2) NOT NULL DEFAULT 2.5 CHECK (inflation_rate BETWEEN 0 AND 50), -- %
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100), -- % of returns
+  years SMALLINT NOT NULL DEFAULT 30 CHECK (years BETWEEN 1 AND 60),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_projection_scenario UNIQUE(user_id, name)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_projection_scenarios_user ON projection_scenarios(user_id);
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER update_projection_scenarios_updated_at
+  BEFORE UPDATE ON projection_scenarios
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE projection_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own projection scenarios"
+  ON projection_scenarios FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own projection scenarios"
+  ON projection_scenarios FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own projection scenarios"
+  ON projection_scenarios FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own projection scenarios"
+  ON projection_scenarios FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,136 @@
+-- =====================================================
+-- AI Usage Reservations
+-- =====================================================
+-- Checking the quota and recording the call separately let concurrent
+-- requests all pass the check before any of them was recorded. The API
+-- routes now reserve a usage row with reserve_ai_call() before calling the
+-- model: it checks the quota and inserts the row under a per-user lock, so
+-- only as many requests as the quota allows get through. The row is pending
+-- until finish_ai_call() fills in its provider, model, tokens and outcome.
+-- A pending row counts towards the quota for five minutes, long enough for
+-- any call, so a request that never reaches the model doesn't use up the
+-- allowance for good.
+-- Usage rows still can't be updated directly. finish_ai_call() needs the
+-- secret token reserve_ai_call() handed to the API route, only the hash of
+-- which is stored, so users can't mark their own calls failed to get them
+-- back. It only touches pending rows and never moves created_at.
+-- Execute this in Supabase SQL Editor after 018_projection_scenarios.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE ai_usage
+  ADD COLUMN pending BOOLEAN DEFAULT FALSE NOT NULL,
+  ADD COLUMN finish_token_hash BYTEA;
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_ai_usage_finish_token ON ai_usage(finish_token_hash) WHERE pending;
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Reserves one of the caller's monthly AI calls, returning the token that
+-- finishes it, or NULL when the quota since p_since is used up.
+-- p_default_limit applies when the caller has no ai_quotas row.
+CREATE OR REPLACE FUNCTION reserve_ai_call(p_since TIMESTAMPTZ, p_default_limit INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_token TEXT;
+BEGIN
+  -- Serializes the caller's reservations so two can't both take the last call
+  PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || auth.uid()::TEXT));
+
+  SELECT COALESCE(
+    (SELECT monthly_calls FROM ai_quotas WHERE user_id = auth.uid()),
+    p_default_limit
+  )
+  INTO v_limit;
+
+  SELECT COUNT(*)
+  INTO v_used
+  FROM ai_usage
+  WHERE user_id = auth.uid()
+    AND created_at >= p_since
+    AND (success OR (pending AND created_at > NOW() - INTERVAL '5 minutes'));
+
+  IF v_used >= v_limit THEN
+    RETURN NULL;
+  END IF;
+
+  v_token := gen_random_uuid()::TEXT || gen_random_uuid()::TEXT;
+
+  INSERT INTO ai_usage (user_id, action, provider, model, latency_ms, success, pending, finish_token_hash)
+  VALUES (auth.uid(), 'pending', 'pending', 'pending', 0, FALSE, TRUE, sha256(convert_to(v_token, 'UTF8')));
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Records how a reserved call went. Runs as the table owner, since users
+-- have no UPDATE policy on ai_usage; the token is what proves the caller
+-- made the reservation.
+CREATE OR REPLACE FUNCTION finish_ai_call(
+  p_token TEXT,
+  p_action TEXT,
+  p_provider TEXT,
+  p_model TEXT,
+  p_input_tokens INTEGER,
+  p_output_tokens INTEGER,
+  p_latency_ms INTEGER,
+  p_success BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE ai_usage
+  SET action = p_action,
+      provider = p_provider,
+      model = p_model,
+      input_tokens = p_input_tokens,
+      output_tokens = p_output_tokens,
+      latency_ms = p_latency_ms,
+      success = p_success,
+      pending = FALSE,
+      finish_token_hash = NULL
+  WHERE finish_token_hash = sha256(convert_to(p_token, 'UTF8'))
+    AND user_id = auth.uid()
+    AND pending;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same totals as before, leaving out calls still in flight or abandoned
+CREATE OR REPLACE FUNCTION get_ai_usage_summary(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  action TEXT,
+  provider TEXT,
+  model TEXT,
+  calls BIGINT,
+  failed_calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  average_latency_ms NUMERIC
+) AS $$
+  SELECT
+    u.action,
+    u.provider,
+    u.model,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT u.success),
+    COALESCE(SUM(u.input_tokens), 0),
+    COALESCE(SUM(u.output_tokens), 0),
+    ROUND(AVG(u.latency_ms))
+  FROM ai_usage u
+  WHERE u.user_id = auth.uid()
+    AND u.created_at >= p_since
+    AND NOT u.pending
+  GROUP BY 1, 2, 3
+  ORDER BY 4 DESC;
+$$ LANGUAGE sql STABLE;
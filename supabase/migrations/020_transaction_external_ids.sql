@@ -0,0 +1,16 @@
+-- =====================================================
+-- Imported Transaction IDs
+-- =====================================================
+-- Adds transactions.external_id, the bank's own id for a transaction
+-- imported from an OFX or QFX statement (FITID). Importing the same
+-- statement again matches rows on it, so two genuine purchases that look
+-- alike aren't taken for duplicates and a re-downloaded statement isn't
+-- imported twice.
+-- Execute this in Supabase SQL Editor after 019_ai_usage_reservations.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+ALTER TABLE transactions
+  ADD COLUMN external_id TEXT;
@@ -0,0 +1,31 @@
+-- =====================================================
+-- Transactions in a Category
+-- =====================================================
+-- Filtering transactions by category has to include split expenses with
+-- a line in that category. The app looked up those transactions' ids and
+-- sent them all back in the request URL, which grows past URL length
+-- limits for users with many splits. get_category_transactions() does the
+-- match in the database instead. It returns transactions rows, so the
+-- date, amount and search filters, sorting and paging still apply on top.
+-- Execute this in Supabase SQL Editor after 020_transaction_external_ids.sql
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- The caller's transactions in p_category_id, or with a split line in it
+CREATE OR REPLACE FUNCTION get_category_transactions(p_category_id UUID)
+RETURNS SETOF transactions AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE t.user_id = auth.uid()
+    AND (
+      t.category_id = p_category_id
+      OR EXISTS (
+        SELECT 1
+        FROM transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.category_id = p_category_id
+      )
+    );
+$$ LANGUAGE sql STABLE;
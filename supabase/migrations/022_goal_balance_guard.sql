@@ -0,0 +1,39 @@
+-- =====================================================
+-- Goal Balance Guard
+-- =====================================================
+-- financial_goals.current_amount is the total of the goal's contributions,
+-- kept by the ledger trigger from 015_goal_contributions.sql. The UPDATE
+-- policy still let users write it directly, so a goal could show savings
+-- that no contribution accounts for. A trigger now refuses changes to
+-- current_amount unless they come from the ledger trigger, and new goals
+-- must start at zero. Column privileges can't do this, since the ledger
+-- trigger runs as the same user.
+-- Execute this in Supabase SQL Editor after 021_category_transactions.sql
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- The ledger trigger's own UPDATE runs one trigger level down, so a
+-- statement from the client is the only one seen at depth 1
+CREATE OR REPLACE FUNCTION guard_goal_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.current_amount <> 0 THEN
+    RAISE EXCEPTION 'A new goal starts with nothing saved; add contributions instead';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.current_amount IS DISTINCT FROM OLD.current_amount
+    AND pg_trigger_depth() < 2 THEN
+    RAISE EXCEPTION 'A goal''s balance can only change through its contributions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_financial_goals_balance
+  BEFORE INSERT OR UPDATE ON financial_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_goal_balance();
@@ -0,0 +1,160 @@
+-- =====================================================
+-- Goal Funding Rule Transactions
+-- =====================================================
+-- Income and round-up rules counted the transactions created after the
+-- time they last ran. created_at is set when a transaction's statement
+-- starts, so one that committed after a run that started later was never
+-- seen. goal_funding_rule_transactions now records each transaction a rule
+-- has handled, and apply_goal_funding_rules() looks at every transaction
+-- created since the rule started or resumed that it hasn't handled yet.
+-- transactions_since no longer moves once set; rules keep the value their
+-- last run left, so nothing already handled is counted again. Handled
+-- transactions stay handled when their contribution is deleted, so an
+-- undone contribution stays undone.
+-- Execute this in Supabase SQL Editor after 022_goal_balance_guard.sql
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Create goal_funding_rule_transactions table
+CREATE TABLE goal_funding_rule_transactions (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  funding_rule_id UUID REFERENCES goal_funding_rules ON DELETE CASCADE NOT NULL,
+  transaction_id UUID REFERENCES transactions ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (funding_rule_id, transaction_id)
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX idx_goal_funding_rule_transactions_transaction ON goal_funding_rule_transactions(transaction_id);
+
+-- =====================================================
+-- FUNCTIONS AND TRIGGERS
+-- =====================================================
+
+-- Records the contributions the calling user's active rules have earned up to
+-- p_through (the user's local date). Rules are locked while they are
+-- processed, so two tabs calling this at once can't record anything twice.
+-- Returns the number of contributions created.
+CREATE OR REPLACE FUNCTION apply_goal_funding_rules(p_through DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  r goal_funding_rules%ROWTYPE;
+  tx RECORD;
+  v_remaining DECIMAL;
+  v_amount DECIMAL;
+  v_due DATE;
+  v_index INTEGER;
+  v_created INTEGER := 0;
+BEGIN
+  FOR r IN
+    SELECT * FROM goal_funding_rules
+    WHERE user_id = auth.uid()
+      AND active
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT target_amount - current_amount INTO v_remaining
+    FROM financial_goals
+    WHERE id = r.goal_id;
+
+    IF r.kind = 'fixed_monthly' THEN
+      -- Find which occurrence next_due is, counting from start_date
+      v_index := 0;
+      v_due := r.start_date;
+      WHILE v_due < r.next_due LOOP
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      WHILE v_due <= p_through AND v_remaining > 0 LOOP
+        v_amount := LEAST(r.amount, v_remaining);
+        INSERT INTO goal_contributions (user_id, goal_id, account_id, amount, contributed_on, note, funding_rule_id, source_key)
+        VALUES (r.user_id, r.goal_id, r.account_id, v_amount, v_due, 'Monthly saving', r.id, v_due::TEXT)
+        ON CONFLICT (funding_rule_id, source_key) WHERE funding_rule_id IS NOT NULL DO NOTHING;
+
+        IF FOUND THEN
+          v_created := v_created + 1;
+          v_remaining := v_remaining - v_amount;
+        END IF;
+
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      -- A goal that reached its target skips the months it didn't need
+      WHILE v_due <= p_through LOOP
+        v_index := v_index + 1;
+        v_due := recurring_occurrence_date(r.start_date, 'monthly', v_index);
+      END LOOP;
+
+      UPDATE goal_funding_rules SET next_due = v_due WHERE id = r.id;
+    ELSE
+      FOR tx IN
+        SELECT t.id, t.description, t.amount, t.occurred_on
+        FROM transactions t
+        WHERE t.user_id = r.user_id
+          AND t.kind = CASE WHEN r.kind = 'percent_of_income' THEN 'income' ELSE 'expense' END
+          AND t.created_at > r.transactions_since
+          AND NOT EXISTS (
+            SELECT 1
+            FROM goal_funding_rule_transactions h
+            WHERE h.funding_rule_id = r.id
+              AND h.transaction_id = t.id
+          )
+        ORDER BY t.occurred_on, t.created_at
+      LOOP
+        -- Handled even when the goal is full, so raising its target later
+        -- doesn't bring back old transactions
+        INSERT INTO goal_funding_rule_transactions (user_id, funding_rule_id, transaction_id)
+        VALUES (r.user_id, r.id, tx.id)
+        ON CONFLICT DO NOTHING;
+
+        v_amount := CASE
+          WHEN r.kind = 'percent_of_income' THEN ROUND(tx.amount * r.amount / 100, 2)
+          ELSE CEIL(tx.amount) - tx.amount
+        END;
+        v_amount := LEAST(v_amount, v_remaining);
+        CONTINUE WHEN v_amount <= 0;
+
+        INSERT INTO goal_contributions (user_id, goal_id, account_id, amount, contributed_on, note, funding_rule_id, source_key)
+        VALUES (
+          r.user_id, r.goal_id, r.account_id, v_amount, tx.occurred_on,
+          LEFT(CASE WHEN r.kind = 'percent_of_income' THEN (r.amount::FLOAT)::TEXT || '% of ' ELSE 'Round-up of ' END || tx.description, 200),
+          r.id, tx.id::TEXT
+        )
+        ON CONFLICT (funding_rule_id, source_key) WHERE funding_rule_id IS NOT NULL DO NOTHING;
+
+        IF FOUND THEN
+          v_created := v_created + 1;
+          v_remaining := v_remaining - v_amount;
+        END IF;
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE goal_funding_rule_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal funding rule transactions"
+  ON goal_funding_rule_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal funding rule transactions"
+  ON goal_funding_rule_transactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM goal_funding_rules g WHERE g.id = funding_rule_id AND g.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM transactions t WHERE t.id = transaction_id AND t.user_id = auth.uid())
+  );
@@ -7,12 +7,66 @@ export interface Profile {
   updated_at: string;
 }
 
+export type AIInsightKind = 'tips' | 'insight';
+
+/**
+ * A generated tips list or insight, kept so it can be reused while the
+ * data it was generated from hasn't changed
+ */
+export interface AIInsight {
+  id: string;
+  user_id: string;
+  kind: AIInsightKind;
+  snapshot_hash: string;
+  content: { tips?: string[]; text?: string }; // tips for 'tips', text for 'insight'
+  created_at: string;
+}
+
+export interface ChatThread {
+  id: string;
+  user_id: string;
+  title: string;
+  last_message_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ChatMessage {
   id: string;
   user_id: string;
+  thread_id: string;
   role: 'user' | 'ai';
   content: string;
+  truncated: boolean; // A reply the user stopped before it finished
   created_at: string;
+  tool_calls?: ChatToolCall[]; // Tools the assistant asked to run in this message
+}
+
+export type ChatToolCallStatus = 'pending' | 'declined' | 'succeeded' | 'failed';
+
+export interface ChatToolCall {
+  id: string;
+  user_id: string;
+  message_id: string;
+  call_id: string; // The AI provider's id for the call
+  name: string;
+  arguments: Record<string, unknown>;
+  status: ChatToolCallStatus;
+  result: unknown; // What the tool returned, or { error } when it failed
+  created_at: string;
+  updated_at: string;
+}
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number; // Balance when the account was added; negative for money owed
+  created_at: string;
+  updated_at: string;
 }
 
 export interface SpendingCategory {
@@ -20,20 +74,69 @@ export interface SpendingCategory {
   user_id: string;
   name: string;
   value: number; // Represents actual spending
-  budget: number; // The allocated budget for the category
+  budget: number; // Default monthly budget, used before any month has its own
   color: string;
+  rollover: boolean; // Carry unspent or overspent amounts into the next month
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CategoryBudget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  month: string; // First day of the month, YYYY-MM-01
+  amount: number;
   created_at: string;
   updated_at: string;
 }
 
+export type TransactionKind = 'income' | 'expense';
+
 export interface Transaction {
   id: string;
   user_id: string;
+  account_id: string | null;
+  category_id: string | null;
+  description: string;
+  amount: number;
+  category_name: string;
+  kind: TransactionKind;
+  occurred_on: string; // YYYY-MM-DD, the day the money moved
+  notes: string | null;
+  recurring_id: string | null; // Set when created from a recurring rule
+  external_id: string | null; // The bank's id when imported from a statement (OFX FITID)
+  created_at: string; // When the transaction was recorded
+}
+
+// One category's share of a split expense
+export interface TransactionSplit {
+  id: string;
+  user_id: string;
+  transaction_id: string;
+  category_id: string | null;
+  category_name: string;
+  amount: number;
+  created_at: string;
+}
+
+export type RecurrenceCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  account_id: string | null;
   category_id: string | null;
   description: string;
   amount: number;
   category_name: string;
+  kind: TransactionKind;
+  cadence: RecurrenceCadence;
+  start_date: string; // YYYY-MM-DD of the first occurrence; later ones are counted from it
+  next_due: string; // YYYY-MM-DD of the next occurrence still to be recorded
+  active: boolean;
   created_at: string;
+  updated_at: string;
 }
 
 export interface FinancialGoal {
@@ -41,8 +144,85 @@ export interface FinancialGoal {
   user_id: string;
   title: string;
   target_amount: number;
-  current_amount: number;
-  months_remaining: number;
+  current_amount: number; // Total of the goal's contributions
+  target_date: string; // YYYY-MM-DD the user wants to reach the target by
+  created_at: string;
+  updated_at: string;
+}
+
+// Money added to (or, when negative, withdrawn from) a goal
+export interface GoalContribution {
+  id: string;
+  user_id: string;
+  goal_id: string;
+  account_id: string | null; // Where the money came from, if recorded
+  amount: number;
+  contributed_on: string; // YYYY-MM-DD
+  note: string | null;
+  funding_rule_id: string | null; // Set when a funding rule recorded it
+  source_key: string | null; // The rule's due date or transaction id it was recorded for
+  created_at: string;
+}
+
+export type FundingRuleKind = 'fixed_monthly' | 'percent_of_income' | 'round_up';
+
+// A standing instruction to save towards a goal without recording each contribution
+export interface GoalFundingRule {
+  id: string;
+  user_id: string;
+  goal_id: string;
+  account_id: string | null; // Recorded as the source of its contributions
+  kind: FundingRuleKind;
+  amount: number; // Dollars a month for fixed_monthly, percent for percent_of_income, 0 for round_up
+  start_date: string | null; // YYYY-MM-DD; fixed_monthly only
+  next_due: string | null; // YYYY-MM-DD; fixed_monthly only
+  transactions_since: string; // Transactions recorded after this still count
+  active: boolean;
   created_at: string;
   updated_at: string;
 }
+
+// A loan or card balance being paid down
+export interface Debt {
+  id: string;
+  user_id: string;
+  name: string;
+  balance: number;
+  apr: number; // Annual percentage rate, e.g. 19.99
+  minimum_payment: number; // Per month
+  due_day: number; // Day of the month the payment is due, 1-31
+  payoff_order: number | null; // Position in the user's custom payoff order
+  created_at: string;
+  updated_at: string;
+}
+
+export type StartingBalanceSource = 'goals' | 'savings_accounts' | 'custom';
+
+// A named what-if for the long-term savings projection; rates are percentages
+export interface ProjectionScenario {
+  id: string;
+  user_id: string;
+  name: string;
+  starting_balance_source: StartingBalanceSource;
+  starting_balance: number; // Used when the source is custom
+  monthly_contribution: number;
+  contribution_growth: number; // Rise in the monthly contribution each year
+  annual_return: number;
+  inflation_rate: number;
+  tax_rate: number; // Share of returns lost to tax each month
+  years: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A generated plan, kept as Markdown; each new plan is the next version
+ */
+export interface FinancialPlan {
+  id: string;
+  user_id: string;
+  version: number;
+  title: string;
+  content: string;
+  created_at: string;
+}